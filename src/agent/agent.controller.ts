@@ -6,6 +6,14 @@ import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
 import { ResponseHelper } from '../response.helper';
 import { AppLogger } from '../app.logger';
 import { CallHistoryService } from '../call-history/call-history.service';
+import { DncService } from '../dnc/dnc.service';
+import {
+  CallLifecycleService,
+  CallEndedEvent,
+} from '../call-lifecycle/call-lifecycle.service';
+import { CallConcurrencyService } from '../call-concurrency/call-concurrency.service';
+import { UserService } from '../user/user.service';
+import { normalizePhoneNumber } from '../phone-number.helper';
 
 @Controller('agents')
 export class AgentController {
@@ -15,6 +23,10 @@ export class AgentController {
     private readonly responseHelper: ResponseHelper,
     private readonly logger: AppLogger,
     private readonly callHistoryService: CallHistoryService,
+    private readonly dncService: DncService,
+    private readonly callLifecycleService: CallLifecycleService,
+    private readonly callConcurrencyService: CallConcurrencyService,
+    private readonly userService: UserService,
   ) {}
 
   // Helper to extract user info from JWT token or API key
@@ -175,13 +187,33 @@ export class AgentController {
         return this.responseHelper.error('Agent not found', 404);
       }
 
+      // Test calls count against the user's concurrent call limit like any other call
+      const slot = await this.callConcurrencyService.acquire(userInfo.userId, {
+        source: 'test',
+      });
+      if (!slot.acquired) {
+        return this.responseHelper.error(
+          `Concurrent call limit reached (${slot.activeCalls}/${slot.maxConcurrentCalls})`,
+          429,
+          {
+            activeCalls: slot.activeCalls,
+            maxConcurrentCalls: slot.maxConcurrentCalls,
+          },
+        );
+      }
+
       const result = await this.ultravoxService.createCallForAgent(agent.talkrixAgentId, {
         maxDuration: body.maxDuration || '300s', // Default 5 minutes for testing
         recordingEnabled: body.recordingEnabled ?? true, // Recording enabled by default
       });
 
       // If call was created successfully, record it in call history
-      if (result.statusCode === 201 && result.data) {
+      if (result.statusCode !== 201 || !result.data) {
+        await this.callConcurrencyService.releaseSlot(slot.slotId!);
+      } else {
+        await this.callConcurrencyService.attachCall(slot.slotId!, {
+          callId: (result.data as { callId: string }).callId,
+        });
         try {
           const callHistory = await this.callHistoryService.create({
             agentId: id,
@@ -222,27 +254,32 @@ export class AgentController {
   async endCall(
     @Param('id') id: string,
     @Param('callHistoryId') callHistoryId: string,
-    @Body() body: any,
+    @Body()
+    body: { status?: string; durationSeconds?: number; recordingUrl?: string },
   ) {
     try {
       // First get the call history to retrieve the talkrixCallId (Ultravox call ID)
       const existingCallHistory = await this.callHistoryService.findById(callHistoryId);
-      
-      const updateData: any = {
-        status: body.status || 'completed',
-        endedAt: new Date(),
-      };
-
-      if (body.durationSeconds !== undefined) {
-        updateData.durationSeconds = body.durationSeconds;
+      if (!existingCallHistory) {
+        return this.responseHelper.error('Call history not found', 404);
       }
 
-      if (body.recordingUrl) {
-        updateData.recordingUrl = body.recordingUrl;
-      }
+      const status = body.status || 'completed';
+      const event: CallEndedEvent = {
+        type: 'ended',
+        source: 'api',
+        outcome:
+          status === 'missed'
+            ? 'no-answer'
+            : status === 'failed'
+              ? 'failed'
+              : 'completed',
+        durationSeconds: body.durationSeconds,
+        recordingUrl: body.recordingUrl,
+      };
 
       // Try to fetch call details from Ultravox API
-      if (existingCallHistory?.talkrixCallId) {
+      if (existingCallHistory.talkrixCallId) {
         try {
           const callDetails = await this.ultravoxService.getCallDetails(existingCallHistory.talkrixCallId);
           
@@ -250,38 +287,18 @@ export class AgentController {
             const details = callDetails.data;
             
             // Update with Ultravox call details
-            if (details.summary) {
-              updateData.summary = details.summary;
-            }
-            if (details.shortSummary) {
-              updateData.shortSummary = details.shortSummary;
-            }
-            if (details.billingStatus) {
-              updateData.billingStatus = details.billingStatus;
-            }
-            if (details.endReason) {
-              updateData.endReason = details.endReason;
-            }
-            if (details.recordingUrl) {
-              updateData.recordingUrl = details.recordingUrl;
-            }
+            event.summary = details.summary;
+            event.shortSummary = details.shortSummary;
+            event.billingStatus = details.billingStatus;
+            event.endReason = details.endReason;
+            event.recordingUrl = details.recordingUrl || event.recordingUrl;
+            event.billedDuration = details.billedDuration;
             
             // Calculate duration from Ultravox timestamps if not provided
             if (!body.durationSeconds && details.joined && details.ended) {
-              const joined = new Date(details.joined);
-              const ended = new Date(details.ended);
-              updateData.durationSeconds = Math.round((ended.getTime() - joined.getTime()) / 1000);
-            }
-            
-            // Calculate billed duration - minimum 1 minute charge for any call with duration
-            // If Ultravox returns billedDuration, use it; otherwise calculate based on actual duration
-            const actualDuration = updateData.durationSeconds || body.durationSeconds || 0;
-            if (details.billedDuration && details.billedDuration !== '0s' && details.billedDuration !== '0') {
-              updateData.billedDuration = details.billedDuration;
-            } else if (actualDuration > 0) {
-              // Calculate billed minutes - minimum 1 minute, then round up to nearest minute
-              const billedMinutes = Math.max(1, Math.ceil(actualDuration / 60));
-              updateData.billedDuration = `${billedMinutes}m`;
+              event.answeredAt = new Date(details.joined);
+              event.at = new Date(details.ended);
+              event.durationSeconds = undefined;
             }
             
             this.logger.log(`Fetched call details from Ultravox for call ${existingCallHistory.talkrixCallId}`);
@@ -292,20 +309,18 @@ export class AgentController {
         }
       }
 
-      // If we still don't have billed duration but have actual duration, calculate it
-      const finalDuration = updateData.durationSeconds || body.durationSeconds || 0;
-      if (!updateData.billedDuration && finalDuration > 0) {
-        const billedMinutes = Math.max(1, Math.ceil(finalDuration / 60));
-        updateData.billedDuration = `${billedMinutes}m`;
-      }
-
-      const callHistory = await this.callHistoryService.update(callHistoryId, updateData);
+      const callHistory = await this.callLifecycleService.handleEvent(
+        { callHistoryId },
+        event,
+      );
       
       if (!callHistory) {
         return this.responseHelper.error('Call history not found', 404);
       }
 
-      this.logger.log(`Call ${callHistoryId} ended with status ${updateData.status}`);
+      this.logger.log(
+        `Call ${callHistoryId} ended with status ${callHistory.status}`,
+      );
       return this.responseHelper.success(callHistory, 'Call ended');
     } catch (err) {
       this.logger.error('Error ending call', err);
@@ -331,19 +346,58 @@ export class AgentController {
         return this.responseHelper.error('Customer phone number is required', 400);
       }
 
+      const settings = await this.userService.getSettings(userInfo.userId);
+      const phone = normalizePhoneNumber(
+        body.customerPhone,
+        settings?.defaultCountry,
+      );
+      if (!phone.valid) {
+        return this.responseHelper.error(
+          `Invalid customer phone number: ${phone.error}`,
+          400,
+        );
+      }
+
+      // Never dial numbers on the user's do-not-call list
+      if (await this.dncService.isBlocked(userInfo.userId, phone.e164)) {
+        return this.responseHelper.error(
+          'Customer phone number is on the do-not-call list',
+          403,
+        );
+      }
+
       // Get the agent to retrieve the Ultravox agent ID
       const agent = await this.agentService.findOne(id);
       if (!agent) {
         return this.responseHelper.error('Agent not found', 404);
       }
 
+      const slot = await this.callConcurrencyService.acquire(userInfo.userId, {
+        source: 'manual',
+      });
+      if (!slot.acquired) {
+        return this.responseHelper.error(
+          `Concurrent call limit reached (${slot.activeCalls}/${slot.maxConcurrentCalls})`,
+          429,
+          {
+            activeCalls: slot.activeCalls,
+            maxConcurrentCalls: slot.maxConcurrentCalls,
+          },
+        );
+      }
+
       const result = await this.ultravoxService.createCallForAgent(agent.talkrixAgentId, {
         maxDuration: body.maxDuration || '600s', // Default 10 minutes for outbound calls
         recordingEnabled: body.recordingEnabled ?? true,
       });
 
       // If call was created successfully, record it in call history
-      if (result.statusCode === 201 && result.data) {
+      if (result.statusCode !== 201 || !result.data) {
+        await this.callConcurrencyService.releaseSlot(slot.slotId!);
+      } else {
+        await this.callConcurrencyService.attachCall(slot.slotId!, {
+          callId: (result.data as { callId: string }).callId,
+        });
         try {
           const callHistory = await this.callHistoryService.create({
             agentId: id,
@@ -352,7 +406,7 @@ export class AgentController {
             callType: 'outbound',
             agentName: agent.name,
             customerName: body.customerName,
-            customerPhone: body.customerPhone,
+            customerPhone: phone.e164,
             recordingEnabled: body.recordingEnabled ?? true,
             joinUrl: result.data.joinUrl,
             callData: result.data,
@@ -366,7 +420,7 @@ export class AgentController {
         }
       }
 
-      this.logger.log(`Outbound call created for agent ${id} to ${body.customerPhone}`);
+      this.logger.log(`Outbound call created for agent ${id} to ${phone.e164}`);
       return result;
     } catch (err) {
       this.logger.error('Error creating outbound call', err);
@@ -8,9 +8,14 @@ import { AgentService } from './agent.service';
 import { AgentController } from './agent.controller';
 import { DemoController } from './demo.controller';
 import { UltravoxService } from './ultravox.service';
+import { PlivoService } from './plivo.service';
+import { TelnyxService } from './telnyx.service';
 import { UserModule } from '../user/user.module';
 import { SharedModule } from '../shared.module';
 import { CallHistoryModule } from '../call-history/call-history.module';
+import { DncModule } from '../dnc/dnc.module';
+import { CallLifecycleModule } from '../call-lifecycle/call-lifecycle.module';
+import { CallConcurrencyModule } from '../call-concurrency/call-concurrency.module';
 
 @Module({
   imports: [
@@ -27,9 +32,12 @@ import { CallHistoryModule } from '../call-history/call-history.module';
     UserModule,
     SharedModule,
     forwardRef(() => CallHistoryModule),
+    forwardRef(() => DncModule),
+    forwardRef(() => CallLifecycleModule),
+    CallConcurrencyModule,
   ],
-  providers: [AgentService, UltravoxService],
+  providers: [AgentService, UltravoxService, PlivoService, TelnyxService],
   controllers: [AgentController, DemoController],
-  exports: [AgentService, UltravoxService],
+  exports: [AgentService, UltravoxService, PlivoService, TelnyxService],
 })
 export class AgentModule {}
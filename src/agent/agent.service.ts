@@ -1,11 +1,44 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Agent } from './agent.schema';
+import { AppLogger } from '../app.logger';
 
 @Injectable()
-export class AgentService {
-  constructor(@InjectModel(Agent.name) private agentModel: Model<Agent>) {}
+export class AgentService implements OnModuleInit {
+  constructor(
+    @InjectModel(Agent.name) private agentModel: Model<Agent>,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async onModuleInit() {
+    await this.removeStoredToolSecrets();
+  }
+
+  // Agents saved before the built-in tools were kept out of the stored call template hold
+  // those tools with their x-tool-secret header - remove them so the secret is never returned
+  private async removeStoredToolSecrets(): Promise<void> {
+    const result = await this.agentModel
+      .updateMany(
+        {
+          'callTemplate.selectedTools.temporaryTool.staticParameters.name':
+            'x-tool-secret',
+        },
+        {
+          $pull: {
+            'callTemplate.selectedTools': {
+              'temporaryTool.staticParameters.name': 'x-tool-secret',
+            },
+          },
+        },
+      )
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.log(
+        `Removed the built-in tools from ${result.modifiedCount} stored agents`,
+      );
+    }
+  }
 
   async create(agentData: Partial<Agent>): Promise<Agent> {
     const agent = new this.agentModel(agentData);
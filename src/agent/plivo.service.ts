@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { AppLogger } from '../app.logger';
+import { escapeXml } from '../xml.helper';
+
+/**
+ * Thin client for the Plivo Voice REST API
+ * PLIVO_API_BASE_URL can point at a local stub of the API for testing (defaults to https://api.plivo.com)
+ */
+@Injectable()
+export class PlivoService {
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  private getBaseUrl(): string {
+    return (process.env.PLIVO_API_BASE_URL || 'https://api.plivo.com').replace(
+      /\/+$/,
+      '',
+    );
+  }
+
+  // Plivo expects numbers in E.164 without the leading '+'
+  private toPlivoNumber(phoneNumber: string): string {
+    return phoneNumber.replace(/[^\d]/g, '');
+  }
+
+  /**
+   * Place an outbound call
+   * POST /v1/Account/{auth_id}/Call/
+   * Plivo requests answerUrl when the call is answered and follows the Plivo XML it returns.
+   * Returns the request UUID Plivo sends back as RequestUUID in every callback for this call.
+   */
+  async createCall(options: {
+    authId: string;
+    authToken: string;
+    from: string;
+    to: string;
+    answerUrl: string;
+    hangupUrl?: string;
+    ringUrl?: string;
+    timeLimit?: number; // Max call length in seconds
+    machineDetectionUrl?: string; // Enables answering machine detection - the result is posted here
+  }): Promise<{ requestUuid: string }> {
+    const payload: Record<string, any> = {
+      from: this.toPlivoNumber(options.from),
+      to: this.toPlivoNumber(options.to),
+      answer_url: options.answerUrl,
+      answer_method: 'POST',
+    };
+    if (options.hangupUrl) {
+      payload.hangup_url = options.hangupUrl;
+      payload.hangup_method = 'POST';
+    }
+    if (options.ringUrl) {
+      payload.ring_url = options.ringUrl;
+      payload.ring_method = 'POST';
+    }
+    if (options.timeLimit) {
+      payload.time_limit = options.timeLimit;
+    }
+    if (options.machineDetectionUrl) {
+      payload.machine_detection = 'true';
+      payload.machine_detection_url = options.machineDetectionUrl;
+      payload.machine_detection_method = 'POST';
+    }
+
+    const response = await this.httpService
+      .post<{ request_uuid?: string | string[]; message?: string }>(
+        `${this.getBaseUrl()}/v1/Account/${encodeURIComponent(options.authId)}/Call/`,
+        payload,
+        {
+          auth: { username: options.authId, password: options.authToken },
+          headers: { 'Content-Type': 'application/json' },
+        },
+      )
+      .toPromise();
+
+    const data = response?.data;
+    const requestUuid = Array.isArray(data?.request_uuid)
+      ? data.request_uuid[0]
+      : data?.request_uuid;
+    if (!requestUuid) {
+      throw new Error('Plivo API did not return a request_uuid');
+    }
+
+    this.logger.log(
+      `Plivo call queued: ${requestUuid} (${data?.message || 'call fired'})`,
+    );
+    return { requestUuid };
+  }
+
+  /**
+   * Hang up a live call
+   * DELETE /v1/Account/{auth_id}/Call/{call_uuid}/
+   */
+  async hangupCall(options: {
+    authId: string;
+    authToken: string;
+    callUuid: string;
+  }): Promise<void> {
+    await this.httpService
+      .delete(
+        `${this.getBaseUrl()}/v1/Account/${encodeURIComponent(options.authId)}/Call/${encodeURIComponent(options.callUuid)}/`,
+        { auth: { username: options.authId, password: options.authToken } },
+      )
+      .toPromise();
+    this.logger.log(`Plivo call hung up: ${options.callUuid}`);
+  }
+
+  /**
+   * Make a live call follow the Plivo XML returned by another URL
+   * POST /v1/Account/{auth_id}/Call/{call_uuid}/ with legs=aleg
+   */
+  async transferCall(options: {
+    authId: string;
+    authToken: string;
+    callUuid: string;
+    url: string;
+  }): Promise<void> {
+    await this.httpService
+      .post(
+        `${this.getBaseUrl()}/v1/Account/${encodeURIComponent(options.authId)}/Call/${encodeURIComponent(options.callUuid)}/`,
+        { legs: 'aleg', aleg_url: options.url, aleg_method: 'POST' },
+        {
+          auth: { username: options.authId, password: options.authToken },
+          headers: { 'Content-Type': 'application/json' },
+        },
+      )
+      .toPromise();
+    this.logger.log(`Plivo call ${options.callUuid} transferred`);
+  }
+
+  // Plivo XML that reads a message and hangs up (voicemail drop)
+  buildSpeakXml(message: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Speak>${escapeXml(message)}</Speak>
+  <Hangup/>
+</Response>`;
+  }
+
+  /**
+   * Plivo XML that connects the answered call to an Ultravox joinUrl
+   * Audio is streamed both ways as 16kHz linear PCM, which Ultravox's plivo medium expects
+   */
+  buildStreamXml(joinUrl: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Stream keepCallAlive="true" bidirectional="true" contentType="audio/x-l16;rate=16000">${escapeXml(joinUrl)}</Stream>
+</Response>`;
+  }
+}
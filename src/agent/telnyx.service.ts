@@ -0,0 +1,209 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { AppLogger } from '../app.logger';
+import * as crypto from 'crypto';
+
+// Webhooks signed more than this long ago are rejected to prevent replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Thin client for the Telnyx Call Control API
+ * TELNYX_API_BASE_URL can point at a local stub of the API for testing (defaults to https://api.telnyx.com)
+ */
+@Injectable()
+export class TelnyxService {
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  private getBaseUrl(): string {
+    return (
+      process.env.TELNYX_API_BASE_URL || 'https://api.telnyx.com'
+    ).replace(/\/+$/, '');
+  }
+
+  /**
+   * Dial an outbound call through a Call Control application
+   * POST /v2/calls
+   * Once answered, Telnyx streams the call audio both ways to streamUrl (the Ultravox joinUrl)
+   * and posts call events (call.initiated, call.answered, call.hangup, ...) to webhookUrl.
+   */
+  async createCall(options: {
+    apiKey: string;
+    connectionId: string;
+    from: string;
+    to: string;
+    streamUrl: string;
+    webhookUrl?: string;
+    timeLimitSecs?: number;
+    answeringMachineDetection?: boolean; // Posts call.machine.detection.ended and call.machine.greeting.ended events
+  }): Promise<{
+    callControlId: string;
+    callLegId?: string;
+    callSessionId?: string;
+  }> {
+    const payload: Record<string, any> = {
+      connection_id: options.connectionId,
+      from: options.from,
+      to: options.to,
+      stream_url: options.streamUrl,
+      stream_track: 'both_tracks',
+      stream_bidirectional_mode: 'rtp',
+      stream_bidirectional_codec: 'PCMU',
+    };
+    if (options.webhookUrl) {
+      payload.webhook_url = options.webhookUrl;
+      payload.webhook_url_method = 'POST';
+    }
+    if (options.timeLimitSecs) {
+      payload.time_limit_secs = options.timeLimitSecs;
+    }
+    if (options.answeringMachineDetection) {
+      payload.answering_machine_detection = 'detect_beep';
+    }
+
+    const response = await this.httpService
+      .post<{
+        data?: {
+          call_control_id?: string;
+          call_leg_id?: string;
+          call_session_id?: string;
+        };
+      }>(`${this.getBaseUrl()}/v2/calls`, payload, {
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+      })
+      .toPromise();
+
+    const call = response?.data?.data;
+    if (!call?.call_control_id) {
+      throw new Error('Telnyx API did not return a call_control_id');
+    }
+
+    this.logger.log(`Telnyx call dialled: ${call.call_control_id}`);
+    return {
+      callControlId: call.call_control_id,
+      callLegId: call.call_leg_id,
+      callSessionId: call.call_session_id,
+    };
+  }
+
+  // End a live call
+  async hangupCall(apiKey: string, callControlId: string): Promise<void> {
+    await this.callAction(apiKey, callControlId, 'hangup', {});
+  }
+
+  /**
+   * Read text into the call (text-to-speech)
+   * clientState comes back on the call.speak.ended event
+   */
+  async speak(
+    apiKey: string,
+    callControlId: string,
+    text: string,
+    clientState?: string,
+  ): Promise<void> {
+    const payload: Record<string, any> = {
+      payload: text,
+      voice: 'female',
+      language: 'en-US',
+    };
+    if (clientState)
+      payload.client_state = Buffer.from(clientState).toString('base64');
+    await this.callAction(apiKey, callControlId, 'speak', payload);
+  }
+
+  // Stop streaming the call audio to its current stream URL
+  async stopStreaming(apiKey: string, callControlId: string): Promise<void> {
+    await this.callAction(apiKey, callControlId, 'streaming_stop', {});
+  }
+
+  // Stream the call audio both ways to a new URL (e.g. another Ultravox joinUrl)
+  async startStreaming(
+    apiKey: string,
+    callControlId: string,
+    streamUrl: string,
+  ): Promise<void> {
+    await this.callAction(apiKey, callControlId, 'streaming_start', {
+      stream_url: streamUrl,
+      stream_track: 'both_tracks',
+      stream_bidirectional_mode: 'rtp',
+      stream_bidirectional_codec: 'PCMU',
+    });
+  }
+
+  // POST /v2/calls/{call_control_id}/actions/{action}
+  private async callAction(
+    apiKey: string,
+    callControlId: string,
+    action: string,
+    payload: Record<string, any>,
+  ): Promise<void> {
+    await this.httpService
+      .post(
+        `${this.getBaseUrl()}/v2/calls/${encodeURIComponent(callControlId)}/actions/${action}`,
+        payload,
+        {
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+        },
+      )
+      .toPromise();
+    this.logger.log(`Telnyx ${action} sent for call ${callControlId}`);
+  }
+
+  /**
+   * Verify a Telnyx webhook signature
+   * Telnyx signs "<telnyx-timestamp>|<raw body>" with Ed25519 and sends the base64 signature
+   * in the telnyx-signature-ed25519 header; publicKey is the base64 key from the Telnyx portal.
+   */
+  verifyWebhookSignature(
+    rawBody: Buffer | string,
+    signature: string | undefined,
+    timestamp: string | undefined,
+    publicKey: string,
+  ): boolean {
+    if (!signature || !timestamp) {
+      return false;
+    }
+
+    const signedAt = parseInt(timestamp, 10);
+    if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() / 1000 - signedAt) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      return false;
+    }
+
+    try {
+      const key = crypto.createPublicKey({
+        key: {
+          kty: 'OKP',
+          crv: 'Ed25519',
+          x: Buffer.from(publicKey, 'base64').toString('base64url'),
+        },
+        format: 'jwk',
+      });
+      const message = Buffer.concat([
+        Buffer.from(`${timestamp}|`),
+        Buffer.from(rawBody),
+      ]);
+      return crypto.verify(
+        null,
+        message,
+        key,
+        Buffer.from(signature, 'base64'),
+      );
+    } catch (err) {
+      this.logger.warn(
+        `Telnyx signature could not be verified: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Helpers for the template variables an agent's system prompt uses (e.g. {{due_amount}})
+ * Agents declare the variables they expect in callTemplate.contextSchema (JSON Schema object)
+ */
+
+export interface ContextVariable {
+  name: string;
+  type: string; // JSON Schema type - defaults to 'string'
+  required: boolean;
+}
+
+// JSON Schema object as far as the context variables are read from it
+export interface ContextSchema {
+  properties?: Record<string, { type?: string | string[] }>;
+  required?: string[];
+}
+
+// List the variables declared in a context schema
+export function getContextVariables(
+  contextSchema?: ContextSchema | null,
+): ContextVariable[] {
+  const properties = contextSchema?.properties;
+  if (!contextSchema || !properties || typeof properties !== 'object') {
+    return [];
+  }
+
+  const required = Array.isArray(contextSchema.required)
+    ? contextSchema.required
+    : [];
+  return Object.entries(properties).map(([name, definition]) => ({
+    name,
+    type: Array.isArray(definition?.type)
+      ? definition.type[0]
+      : definition?.type || 'string',
+    required: required.includes(name),
+  }));
+}
+
+// Convert a single value (often a string from a spreadsheet cell) to the declared type
+function coerceValue(
+  value: unknown,
+  type: string,
+): { value?: unknown; error?: string } {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const num =
+        typeof value === 'number'
+          ? value
+          : Number(String(value).replace(/,/g, '').trim());
+      if (
+        !Number.isFinite(num) ||
+        (type === 'integer' && !Number.isInteger(num))
+      ) {
+        return {
+          error: `must be ${type === 'integer' ? 'an integer' : 'a number'}`,
+        };
+      }
+      return { value: num };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(text)) return { value: true };
+      if (['false', 'no', '0'].includes(text)) return { value: false };
+      return { error: 'must be true or false' };
+    }
+    case 'object':
+    case 'array':
+      return typeof value === 'object'
+        ? { value }
+        : { error: `must be an ${type}` };
+    default:
+      return {
+        value: value instanceof Date ? value.toISOString() : String(value),
+      };
+  }
+}
+
+/**
+ * Build the Ultravox templateContext for a contact from its custom fields
+ * - Without a declared schema every field is passed through as-is
+ * - With a schema only declared variables are passed, coerced to their declared type,
+ *   and missing required variables or values of the wrong type are reported as errors
+ */
+export function buildTemplateContext(
+  contextSchema: ContextSchema | null | undefined,
+  fields: Record<string, unknown> | null | undefined,
+): { context: Record<string, unknown>; errors: string[] } {
+  const values = fields || {};
+  const variables = getContextVariables(contextSchema);
+  if (variables.length === 0) {
+    return { context: { ...values }, errors: [] };
+  }
+
+  const context: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (value === undefined || value === null || value === '') {
+      if (variable.required) {
+        errors.push(`Missing required variable "${variable.name}"`);
+      }
+      continue;
+    }
+
+    const result = coerceValue(value, variable.type);
+    if (result.error) {
+      errors.push(`Variable "${variable.name}" ${result.error}`);
+    } else {
+      context[variable.name] = result.value;
+    }
+  }
+
+  return { context, errors };
+}
@@ -1,15 +1,93 @@
 import { Injectable } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { AgentService } from './agent.service';
+import { PlivoService } from './plivo.service';
+import { TelnyxService } from './telnyx.service';
 import { ResponseHelper, StandardResponse } from '../response.helper';
 import { AppLogger } from '../app.logger';
+import { getToolSecret } from '../webhook/tool-secret.util';
 import * as Twilio from 'twilio';
+import { isAxiosError } from 'axios';
+import { escapeXml } from '../xml.helper';
+
+// Longest a voicemail left by the agent may run (the greeting has already played)
+const VOICEMAIL_MAX_DURATION = '120s';
+
+// Ultravox call for a provider that streams the call audio in (see buildMediumCallPayload)
+interface MediumCallPayload {
+  maxDuration: string;
+  recordingEnabled: boolean;
+  firstSpeakerSettings: Record<string, any>;
+  medium: Record<string, any>;
+  templateContext?: Record<string, any>;
+}
+
+// Call created by the Ultravox API
+interface UltravoxCallResponse {
+  callId: string;
+  joinUrl: string;
+  created?: string;
+  maxDuration?: string;
+}
+
+// Ultravox call created for an incoming phone call (see createInboundCallWithMedium)
+export interface InboundMediumCall {
+  callId: string;
+  joinUrl: string;
+  created?: string;
+  provider: 'twilio' | 'plivo' | 'telnyx';
+  maxDuration: string;
+}
+
+// Ultravox call that leaves a voicemail (see createVoicemailCallWithMedium)
+export interface VoicemailMediumCall {
+  callId: string;
+  joinUrl: string;
+  created?: string;
+  provider: 'twilio' | 'plivo' | 'telnyx';
+}
+
+// Outbound call placed through a telephony provider (see createOutboundCallWithMedium)
+export interface OutboundMediumCall {
+  callId: string;
+  joinUrl: string;
+  created?: string;
+  provider: 'twilio' | 'plivo' | 'telnyx';
+  providerCallSid?: string;
+  maxDuration: string;
+  fromPhoneNumber: string;
+  toPhoneNumber: string;
+}
+
+// Ultravox call details (see getCallDetails)
+export interface UltravoxCallDetails {
+  callId: string;
+  created?: string;
+  joined?: string;
+  ended?: string;
+  endReason?: string;
+  billedDuration?: string;
+  billingStatus?: string;
+  summary?: string;
+  shortSummary?: string;
+  recordingEnabled?: boolean;
+  recordingUrl?: string;
+}
+
+// Ultravox call template, as far as the built-in tools read it
+interface ToolCallTemplate {
+  selectedTools?: Array<{
+    temporaryTool?: { modelToolName?: string; [key: string]: unknown };
+  }>;
+}
 
 @Injectable()
 export class UltravoxService {
   constructor(
     private readonly httpService: HttpService,
     private readonly agentService: AgentService,
+    private readonly plivoService: PlivoService,
+    private readonly telnyxService: TelnyxService,
     private readonly responseHelper: ResponseHelper,
     private readonly logger: AppLogger,
   ) {}
@@ -27,12 +105,154 @@ export class UltravoxService {
       || 'agent';                     // Fallback if empty
   }
 
+  /**
+   * Add the built-in tools served by this backend to a call template's selectedTools
+   * - addToDoNotCallList: adds the current caller to the owner's do-not-call list
+   * - recordCallOutcome: records the outcome of a campaign call against the campaign's disposition settings
+   * - scheduleCallback: has the campaign call the contact back at the time they asked for
+   * Skipped when WEBHOOK_BASE_URL is not set since Ultravox could not reach the tools
+   * The tools carry the owner's tool secret - only add them to the template sent to Ultravox,
+   * never to one that is stored or returned.
+   */
+  private addBuiltInTools(
+    callTemplate: ToolCallTemplate,
+    userId: string,
+  ): void {
+    const baseUrl = process.env.WEBHOOK_BASE_URL?.replace(/\/+$/, '');
+    if (!baseUrl) {
+      return;
+    }
+
+    if (!callTemplate.selectedTools) {
+      callTemplate.selectedTools = [];
+    }
+
+    const secret = getToolSecret(userId);
+    const callIdParameter = {
+      name: 'callId',
+      location: 'PARAMETER_LOCATION_BODY',
+      knownValue: 'KNOWN_PARAM_CALL_ID',
+    };
+    const builtInTools = [
+      {
+        modelToolName: 'addToDoNotCallList',
+        description:
+          'Add the current caller to the do-not-call list. Use this when the caller asks not to be called again, ' +
+          'e.g. "don\'t call me again" or "remove me from your list". Confirm to the caller afterwards.',
+        dynamicParameters: [
+          {
+            name: 'reason',
+            location: 'PARAMETER_LOCATION_BODY',
+            schema: {
+              type: 'string',
+              description: 'Short reason the caller gave, if any',
+            },
+            required: false,
+          },
+        ],
+        path: '/dnc/tool/opt-out',
+      },
+      {
+        modelToolName: 'recordCallOutcome',
+        description:
+          'Record the outcome of this call, e.g. whether the customer agreed, refused or asked for a callback, ' +
+          'with any details collected. Use it once the outcome is clear, before the call ends. ' +
+          'If the outcome is rejected, the response lists the accepted outcomes and fields - call it again with those.',
+        dynamicParameters: [
+          {
+            name: 'outcome',
+            location: 'PARAMETER_LOCATION_BODY',
+            schema: { type: 'string', description: 'Name of the call outcome' },
+            required: true,
+          },
+          {
+            name: 'fields',
+            location: 'PARAMETER_LOCATION_BODY',
+            schema: {
+              type: 'object',
+              description: 'Details collected for the outcome, by field name',
+            },
+            required: false,
+          },
+          {
+            name: 'notes',
+            location: 'PARAMETER_LOCATION_BODY',
+            schema: {
+              type: 'string',
+              description: 'Short free-text note about the call',
+            },
+            required: false,
+          },
+        ],
+        path: '/campaigns/tool/disposition',
+      },
+      {
+        modelToolName: 'scheduleCallback',
+        description:
+          'Schedule a call back to the caller when they ask to be called at another time, e.g. "call me tomorrow at 4". ' +
+          'Pass the time in the caller\'s local time, e.g. "tomorrow 4pm", "friday 10:30am", "2026-03-14 16:00" or "in 2 hours". ' +
+          'Confirm the time from the response with the caller.',
+        dynamicParameters: [
+          {
+            name: 'time',
+            location: 'PARAMETER_LOCATION_BODY',
+            schema: {
+              type: 'string',
+              description: "When to call back, in the caller's local time",
+            },
+            required: true,
+          },
+          {
+            name: 'notes',
+            location: 'PARAMETER_LOCATION_BODY',
+            schema: {
+              type: 'string',
+              description: 'Anything to remember for the callback',
+            },
+            required: false,
+          },
+        ],
+        path: '/campaigns/tool/callback',
+      },
+    ];
+
+    for (const { path, ...tool } of builtInTools) {
+      const exists = callTemplate.selectedTools.some(
+        (selected) =>
+          selected.temporaryTool?.modelToolName === tool.modelToolName,
+      );
+      if (exists) {
+        continue;
+      }
+
+      callTemplate.selectedTools.push({
+        temporaryTool: {
+          ...tool,
+          automaticParameters: [callIdParameter],
+          ...(secret && {
+            staticParameters: [
+              {
+                name: 'x-tool-secret',
+                location: 'PARAMETER_LOCATION_HEADER',
+                value: secret,
+              },
+            ],
+          }),
+          http: {
+            baseUrlPattern: `${baseUrl}${path}`,
+            httpMethod: 'POST',
+          },
+        },
+      });
+    }
+  }
+
   async createAgentForUser(agentData: any, userId: string): Promise<StandardResponse> {
     try {
       const apiKey = process.env.ULTRAVOX_API_KEY;
       
       // Build the Ultravox API payload - only include fields that have values
-      const ultravoxPayload: any = {
+      const ultravoxPayload: Record<string, any> = {
         name: this.sanitizeAgentName(agentData.name),
       };
 
@@ -92,9 +312,9 @@ export class UltravoxService {
           ultravoxPayload.callTemplate.medium = ct.medium;
         }
         
-        // Selected tools
+        // Selected tools - copied, the built-in tools added below must not end up in the stored template
         if (ct.selectedTools && ct.selectedTools.length > 0) {
-          ultravoxPayload.callTemplate.selectedTools = ct.selectedTools;
+          ultravoxPayload.callTemplate.selectedTools = [...ct.selectedTools];
         }
         
         // If corpusId is provided, add queryCorpus tool with the corpus
@@ -143,6 +363,14 @@ export class UltravoxService {
           ultravoxPayload.callTemplate.contextSchema = ct.contextSchema;
         }
       }
+
+      // Built-in tools (e.g. do-not-call opt-out) are available to every agent
+      const callTemplate = (ultravoxPayload.callTemplate ||
+        {}) as ToolCallTemplate;
+      this.addBuiltInTools(callTemplate, userId);
+      if (Object.keys(callTemplate).length > 0) {
+        ultravoxPayload.callTemplate = callTemplate;
+      }
       
       const response = await this.httpService.post(
         'https://api.ultravox.ai/api/agents',
@@ -216,7 +444,7 @@ export class UltravoxService {
       const ultravoxAgentId = agent.talkrixAgentId;
 
       // Build the Ultravox API payload - only include fields that have values
-      const ultravoxPayload: any = {};
+      const ultravoxPayload: Record<string, any> = {};
       
       if (updateData.name) ultravoxPayload.name = this.sanitizeAgentName(updateData.name);
 
@@ -276,9 +504,9 @@ export class UltravoxService {
           ultravoxPayload.callTemplate.medium = ct.medium;
         }
         
-        // Selected tools
+        // Selected tools - copied, the built-in tools added below must not end up in the stored template
         if (ct.selectedTools && ct.selectedTools.length > 0) {
-          ultravoxPayload.callTemplate.selectedTools = ct.selectedTools;
+          ultravoxPayload.callTemplate.selectedTools = [...ct.selectedTools];
         }
         
         // If corpusId is provided, add queryCorpus tool with the corpus
@@ -326,6 +554,11 @@ export class UltravoxService {
         if (ct.contextSchema) {
           ultravoxPayload.callTemplate.contextSchema = ct.contextSchema;
         }
+
+        this.addBuiltInTools(
+          ultravoxPayload.callTemplate as ToolCallTemplate,
+          agent.userId,
+        );
       }
 
       // Update agent in Ultravox
@@ -475,16 +708,18 @@ export class UltravoxService {
         callPayload.recordingEnabled = options.recordingEnabled;
       }
 
-      const response = await this.httpService.post(
-        `https://api.ultravox.ai/api/agents/${agentId}/calls`,
-        callPayload,
-        {
-          headers: {
-            'X-API-Key': apiKey,
-            'Content-Type': 'application/json',
+      const response = await this.httpService
+        .post<UltravoxCallResponse>(
+          `https://api.ultravox.ai/api/agents/${agentId}/calls`,
+          callPayload,
+          {
+            headers: {
+              'X-API-Key': apiKey,
+              'Content-Type': 'application/json',
+            },
           },
-        },
-      ).toPromise();
+        )
+        .toPromise();
 
       if (!response || !response.data) {
         this.logger.warn('Ultravox API did not return call data');
@@ -492,11 +727,16 @@ export class UltravoxService {
       }
 
       this.logger.log(`Call created for agent ${agentId}, joinUrl: ${response.data.joinUrl}`);
-      return this.responseHelper.success({
-        callId: response.data.callId,
-        joinUrl: response.data.joinUrl,
-        created: response.data.created,
-      }, 'Call created', 201);
+      return this.responseHelper.success(
+        {
+          callId: response.data.callId,
+          joinUrl: response.data.joinUrl,
+          created: response.data.created,
+          maxDuration: response.data.maxDuration,
+        },
+        'Call created',
+        201,
+      );
     } catch (err) {
       if (err?.response?.data) {
         this.logger.error('Ultravox API error response:', JSON.stringify(err.response.data, null, 2));
@@ -507,6 +747,186 @@ export class UltravoxService {
     }
   }
 
+  /**
+   * Ultravox call payload for a call whose audio is streamed by a telephony provider
+   * An empty medium object means Ultravox waits for the provider to connect to the joinUrl
+   */
+  private buildMediumCallPayload(
+    provider: 'twilio' | 'plivo' | 'telnyx',
+    options: {
+      maxDuration?: string;
+      recordingEnabled?: boolean;
+      templateContext?: Record<string, any>;
+    },
+  ): MediumCallPayload {
+    const callPayload: MediumCallPayload = {
+      maxDuration: options.maxDuration || '600s',
+      recordingEnabled: options.recordingEnabled ?? true,
+      firstSpeakerSettings: {
+        agent: {},
+      },
+      medium: {
+        [provider]: {}, // Empty = expect incoming stream from the provider
+      },
+    };
+
+    if (
+      options.templateContext &&
+      Object.keys(options.templateContext).length > 0
+    ) {
+      callPayload.templateContext = options.templateContext;
+    }
+    return callPayload;
+  }
+
+  /**
+   * Create an Ultravox call for an incoming phone call (Twilio, Plivo, Telnyx)
+   * The provider's answer webhook returns stream markup pointing at the returned joinUrl
+   */
+  async createInboundCallWithMedium(
+    agentId: string,
+    options: {
+      provider: 'twilio' | 'plivo' | 'telnyx';
+      maxDuration?: string;
+      recordingEnabled?: boolean;
+      templateContext?: Record<string, any>;
+    },
+  ): Promise<StandardResponse<InboundMediumCall | null>> {
+    try {
+      const apiKey = process.env.ULTRAVOX_API_KEY;
+      const callPayload = this.buildMediumCallPayload(
+        options.provider,
+        options,
+      );
+
+      this.logger.log(
+        `Creating Ultravox inbound call for agent ${agentId} with ${options.provider} medium`,
+      );
+      const response = await this.httpService
+        .post<UltravoxCallResponse>(
+          `https://api.ultravox.ai/api/agents/${agentId}/calls`,
+          callPayload,
+          {
+            headers: {
+              'X-API-Key': apiKey,
+              'Content-Type': 'application/json',
+            },
+          },
+        )
+        .toPromise();
+
+      if (!response || !response.data || !response.data.joinUrl) {
+        this.logger.warn('Ultravox API did not return call data or joinUrl');
+        return this.responseHelper.error(
+          'Ultravox API did not return call data',
+          502,
+        );
+      }
+
+      this.logger.log(`Ultravox inbound call created: ${response.data.callId}`);
+      return this.responseHelper.success(
+        {
+          callId: response.data.callId,
+          joinUrl: response.data.joinUrl,
+          created: response.data.created,
+          provider: options.provider,
+          maxDuration: callPayload.maxDuration,
+        },
+        'Inbound call created',
+        201,
+      );
+    } catch (err) {
+      const apiResponse = isAxiosError(err) ? err.response : undefined;
+      if (apiResponse?.data) {
+        this.logger.error(
+          'Ultravox API error response:',
+          JSON.stringify(apiResponse.data, null, 2),
+        );
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.error('Error in createInboundCallWithMedium', message);
+      return this.responseHelper.error(
+        'Failed to create inbound call',
+        apiResponse?.status || 500,
+        apiResponse?.data || message,
+      );
+    }
+  }
+
+  /**
+   * Create an Ultravox call that leaves a voicemail: the agent speaks the script as soon as the
+   * provider connects the answered call to the returned joinUrl
+   */
+  async createVoicemailCallWithMedium(
+    agentId: string,
+    options: {
+      provider: 'twilio' | 'plivo' | 'telnyx';
+      script: string;
+      templateContext?: Record<string, any>;
+    },
+  ): Promise<StandardResponse<VoicemailMediumCall | null>> {
+    try {
+      const apiKey = process.env.ULTRAVOX_API_KEY;
+      const callPayload = this.buildMediumCallPayload(options.provider, {
+        maxDuration: VOICEMAIL_MAX_DURATION,
+        templateContext: options.templateContext,
+      });
+      callPayload.firstSpeakerSettings = {
+        agent: { uninterruptible: true, text: options.script },
+      };
+
+      this.logger.log(
+        `Creating Ultravox voicemail call for agent ${agentId} with ${options.provider} medium`,
+      );
+      const response = await this.httpService
+        .post<UltravoxCallResponse>(
+          `https://api.ultravox.ai/api/agents/${agentId}/calls`,
+          callPayload,
+          {
+            headers: {
+              'X-API-Key': apiKey,
+              'Content-Type': 'application/json',
+            },
+          },
+        )
+        .toPromise();
+
+      if (!response || !response.data || !response.data.joinUrl) {
+        this.logger.warn('Ultravox API did not return call data or joinUrl');
+        return this.responseHelper.error(
+          'Ultravox API did not return call data',
+          502,
+        );
+      }
+
+      return this.responseHelper.success(
+        {
+          callId: response.data.callId,
+          joinUrl: response.data.joinUrl,
+          created: response.data.created,
+          provider: options.provider,
+        },
+        'Voicemail call created',
+        201,
+      );
+    } catch (err) {
+      const apiResponse = isAxiosError(err) ? err.response : undefined;
+      if (apiResponse?.data) {
+        this.logger.error(
+          'Ultravox API error response:',
+          JSON.stringify(apiResponse.data, null, 2),
+        );
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.error('Error in createVoicemailCallWithMedium', message);
+      return this.responseHelper.error(
+        'Failed to create voicemail call',
+        apiResponse?.status || 500,
+        apiResponse?.data || message,
+      );
+    }
+  }
+
   /**
    * Create an outbound call with telephony medium (Twilio, Plivo, Telnyx)
    * 
@@ -516,6 +936,7 @@ export class UltravoxService {
    * 
    * The key is using medium.twilio WITHOUT outgoing - this tells Ultravox to expect a Twilio stream
    * connection but doesn't require Ultravox to make the call. We make the call ourselves.
+   * When the provider call cannot be placed the Ultravox call is deleted again.
    */
   async createOutboundCallWithMedium(agentId: string, options: {
     provider: 'twilio' | 'plivo' | 'telnyx';
@@ -534,37 +955,54 @@ export class UltravoxService {
     campaignId?: string;
     contactId?: string;
     callHistoryId?: string;
-  }): Promise<StandardResponse> {
+    // Values for the agent's template variables (e.g. {{due_amount}} in the system prompt)
+    templateContext?: Record<string, any>;
+    // Run answering machine detection - results are posted to the provider's /amd webhook
+    // (Telnyx sends them to the status webhook)
+    machineDetection?: boolean;
+  }): Promise<StandardResponse<OutboundMediumCall | null>> {
+    // Check the provider settings first, so no Ultravox call is created for a call that cannot be placed
+    if (
+      options.provider === 'twilio' &&
+      (!options.twilioAccountSid || !options.twilioAuthToken)
+    ) {
+      return this.responseHelper.error('Twilio credentials are required', 400);
+    }
+    if (options.provider === 'plivo') {
+      if (!options.plivoAuthId || !options.plivoAuthToken) {
+        return this.responseHelper.error('Plivo credentials are required', 400);
+      }
+      // Plivo fetches the call instructions from our answer URL, so it must be publicly reachable
+      if (!process.env.WEBHOOK_BASE_URL) {
+        return this.responseHelper.error(
+          'WEBHOOK_BASE_URL must be set for Plivo calls',
+          400,
+        );
+      }
+    }
+    if (
+      options.provider === 'telnyx' &&
+      (!options.telnyxApiKey || !options.telnyxConnectionId)
+    ) {
+      return this.responseHelper.error(
+        'Telnyx API key and connection ID are required',
+        400,
+      );
+    }
+
+    let ultravoxCallId: string | undefined;
     try {
       const apiKey = process.env.ULTRAVOX_API_KEY;
       
       // Build call payload with provider-specific medium (without outgoing)
       // This tells Ultravox to expect an incoming stream connection from that provider
-      const callPayload: any = {
-        maxDuration: options.maxDuration || '600s',
-        recordingEnabled: options.recordingEnabled ?? true,
-        firstSpeakerSettings: {
-          agent: {},
-        },
-      };
-
-      // Set medium based on provider - empty object means "incoming" connection
-      if (options.provider === 'twilio') {
-        callPayload.medium = {
-          twilio: {}, // Empty = expect incoming Twilio stream
-        };
-      } else if (options.provider === 'plivo') {
-        callPayload.medium = {
-          plivo: {}, // Empty = expect incoming Plivo stream
-        };
-      } else if (options.provider === 'telnyx') {
-        callPayload.medium = {
-          telnyx: {}, // Empty = expect incoming Telnyx stream
-        };
-      }
+      const callPayload = this.buildMediumCallPayload(
+        options.provider,
+        options,
+      );
 
       this.logger.log(`Creating Ultravox call for agent ${agentId} with ${options.provider} medium (incoming mode)`);
-      const response = await this.httpService.post(
+      const response = await this.httpService.post<UltravoxCallResponse>(
         `https://api.ultravox.ai/api/agents/${agentId}/calls`,
         callPayload,
         {
@@ -580,7 +1018,7 @@ export class UltravoxService {
         return this.responseHelper.error('Ultravox API did not return call data', 502);
       }
 
-      const ultravoxCallId = response.data.callId;
+      ultravoxCallId = response.data.callId;
       const joinUrl = response.data.joinUrl;
       this.logger.log(`Ultravox call created: ${ultravoxCallId}, joinUrl: ${joinUrl}`);
 
@@ -588,18 +1026,17 @@ export class UltravoxService {
       let providerCallSid: string | undefined;
 
       if (options.provider === 'twilio') {
-        if (!options.twilioAccountSid || !options.twilioAuthToken) {
-          return this.responseHelper.error('Twilio credentials are required', 400);
-        }
-
-        const twilioClient = Twilio.default(options.twilioAccountSid, options.twilioAuthToken);
+        const twilioClient = Twilio.default(
+          options.twilioAccountSid,
+          options.twilioAuthToken,
+        );
         
         // Create TwiML that connects to the Ultravox WebSocket using <Stream>
         // The joinUrl from Ultravox is designed to receive Twilio's mulaw audio format
         const twiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   <Connect>
-    <Stream url="${joinUrl}" />
+    <Stream url="${escapeXml(joinUrl)}" />
   </Connect>
 </Response>`;
 
@@ -610,6 +1047,7 @@ export class UltravoxService {
         // Build StatusCallback URL with tracking parameters
         let webhookBaseUrl = process.env.WEBHOOK_BASE_URL;
         let statusCallbackUrl: string | undefined;
+        let amdCallbackUrl: string | undefined;
         if (webhookBaseUrl) {
           // Remove trailing slash if present to avoid double slash
           webhookBaseUrl = webhookBaseUrl.replace(/\/+$/, '');
@@ -618,12 +1056,13 @@ export class UltravoxService {
           if (options.contactId) params.append('contactId', options.contactId);
           // Note: callHistoryId is no longer passed - it's looked up from campaign contact in webhook
           statusCallbackUrl = `${webhookBaseUrl}/webhook/twilio/status?${params.toString()}`;
+          amdCallbackUrl = `${webhookBaseUrl}/webhook/twilio/amd?${params.toString()}`;
           this.logger.log(`Twilio StatusCallback URL: ${statusCallbackUrl}`);
         } else {
           this.logger.warn('WEBHOOK_BASE_URL not set - Twilio status callbacks will not work');
         }
         
-        const callOptions: any = {
+        const callOptions: Parameters<typeof twilioClient.calls.create>[0] = {
           from: options.fromPhoneNumber,
           to: options.toPhoneNumber,
           twiml: twiml,
@@ -635,43 +1074,155 @@ export class UltravoxService {
           callOptions.statusCallbackEvent = ['initiated', 'ringing', 'answered', 'completed'];
           callOptions.statusCallbackMethod = 'POST';
         }
+
+        // Asynchronous AMD: the call streams to the agent right away and the result (after the
+        // greeting, so a message can follow the beep) is posted to the AMD callback
+        if (options.machineDetection && amdCallbackUrl) {
+          callOptions.machineDetection = 'DetectMessageEnd';
+          callOptions.asyncAmd = 'true';
+          callOptions.asyncAmdStatusCallback = amdCallbackUrl;
+          callOptions.asyncAmdStatusCallbackMethod = 'POST';
+        }
         
         const call = await twilioClient.calls.create(callOptions);
         
         providerCallSid = call.sid;
         this.logger.log(`Twilio call created: ${providerCallSid}`);
       } else if (options.provider === 'plivo') {
-        // Plivo requires an answer_url endpoint
-        return this.responseHelper.error('Plivo integration requires additional setup (answer_url endpoint)', 400);
+        const webhookBaseUrl = process.env.WEBHOOK_BASE_URL!.replace(
+          /\/+$/,
+          '',
+        );
+
+        // The answer URL returns Plivo XML that streams the call to the joinUrl stored with the call history
+        const trackingParams = new URLSearchParams();
+        if (options.campaignId)
+          trackingParams.append('campaignId', options.campaignId);
+        if (options.contactId)
+          trackingParams.append('contactId', options.contactId);
+        const statusUrl = `${webhookBaseUrl}/webhook/plivo/status?${trackingParams.toString()}`;
+
+        this.logger.log(
+          `Creating Plivo outbound call from ${options.fromPhoneNumber} to ${options.toPhoneNumber}`,
+        );
+        this.logger.log(
+          `Callback tracking - campaignId: ${options.campaignId}, contactId: ${options.contactId}`,
+        );
+
+        const plivoCall = await this.plivoService.createCall({
+          authId: options.plivoAuthId!,
+          authToken: options.plivoAuthToken!,
+          from: options.fromPhoneNumber,
+          to: options.toPhoneNumber,
+          answerUrl: `${webhookBaseUrl}/webhook/plivo/answer?${trackingParams.toString()}`,
+          hangupUrl: statusUrl,
+          ringUrl: statusUrl,
+          timeLimit: parseInt(callPayload.maxDuration, 10) || undefined,
+          machineDetectionUrl: options.machineDetection
+            ? `${webhookBaseUrl}/webhook/plivo/amd?${trackingParams.toString()}`
+            : undefined,
+        });
+
+        providerCallSid = plivoCall.requestUuid;
       } else if (options.provider === 'telnyx') {
-        return this.responseHelper.error('Telnyx integration not yet implemented', 400);
+        // Call events are posted to the status webhook with tracking parameters
+        let webhookUrl: string | undefined;
+        const webhookBaseUrl = process.env.WEBHOOK_BASE_URL?.replace(
+          /\/+$/,
+          '',
+        );
+        if (webhookBaseUrl) {
+          const params = new URLSearchParams();
+          if (options.campaignId)
+            params.append('campaignId', options.campaignId);
+          if (options.contactId) params.append('contactId', options.contactId);
+          webhookUrl = `${webhookBaseUrl}/webhook/telnyx/status?${params.toString()}`;
+        } else {
+          this.logger.warn(
+            'WEBHOOK_BASE_URL not set - Telnyx call events will not be received',
+          );
+        }
+
+        this.logger.log(
+          `Creating Telnyx outbound call from ${options.fromPhoneNumber} to ${options.toPhoneNumber}`,
+        );
+        this.logger.log(
+          `Callback tracking - campaignId: ${options.campaignId}, contactId: ${options.contactId}`,
+        );
+
+        // Telnyx streams the answered call straight to the Ultravox joinUrl
+        const telnyxCall = await this.telnyxService.createCall({
+          apiKey: options.telnyxApiKey!,
+          connectionId: options.telnyxConnectionId!,
+          from: options.fromPhoneNumber,
+          to: options.toPhoneNumber,
+          streamUrl: joinUrl,
+          webhookUrl,
+          timeLimitSecs: parseInt(callPayload.maxDuration, 10) || undefined,
+          answeringMachineDetection: options.machineDetection,
+        });
+
+        providerCallSid = telnyxCall.callControlId;
       }
 
-      return this.responseHelper.success({
-        callId: ultravoxCallId,
-        joinUrl: joinUrl,
-        created: response.data.created,
-        provider: options.provider,
-        providerCallSid: providerCallSid,
-        fromPhoneNumber: options.fromPhoneNumber,
-        toPhoneNumber: options.toPhoneNumber,
-      }, 'Outbound call created', 201);
+      return this.responseHelper.success(
+        {
+          callId: ultravoxCallId,
+          joinUrl: joinUrl,
+          created: response.data.created,
+          provider: options.provider,
+          providerCallSid: providerCallSid,
+          maxDuration: callPayload.maxDuration,
+          fromPhoneNumber: options.fromPhoneNumber,
+          toPhoneNumber: options.toPhoneNumber,
+        },
+        'Outbound call created',
+        201,
+      );
     } catch (err) {
       if (err?.response?.data) {
         this.logger.error('Ultravox API error response:', JSON.stringify(err.response.data, null, 2));
       }
       this.logger.error('Error in createOutboundCallWithMedium', err?.message || err);
+      if (ultravoxCallId) {
+        // Nobody will ever join the Ultravox call - don't leave it waiting for the join timeout
+        await this.deleteCall(ultravoxCallId);
+      }
       const errorDetails = err?.response?.data || err?.message || err;
       return this.responseHelper.error('Failed to create outbound call', err?.response?.status || 500, errorDetails);
     }
   }
 
+  /**
+   * Delete an Ultravox call that was created but will never be joined
+   * DELETE /api/calls/{call_id}
+   */
+  async deleteCall(callId: string): Promise<void> {
+    try {
+      await this.httpService
+        .delete(`https://api.ultravox.ai/api/calls/${callId}`, {
+          headers: {
+            'X-API-Key': process.env.ULTRAVOX_API_KEY,
+          },
+        })
+        .toPromise();
+      this.logger.log(`Ultravox call ${callId} deleted`);
+    } catch (err) {
+      this.logger.error(
+        `Error deleting Ultravox call ${callId}`,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
   /**
    * Get call details from Ultravox API
    * GET /api/calls/{call_id}
    * Returns call details including summary, billing, etc.
    */
-  async getCallDetails(callId: string): Promise<StandardResponse> {
+  async getCallDetails(
+    callId: string,
+  ): Promise<StandardResponse<UltravoxCallDetails | null>> {
     try {
       const apiKey = process.env.ULTRAVOX_API_KEY;
 
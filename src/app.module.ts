@@ -15,6 +15,9 @@ import { WebhookModule } from './webhook/webhook.module';
 import { SharedModule } from './shared.module';
 import { CampaignModule } from './campaign/campaign.module';
 import { DashboardModule } from './dashboard/dashboard.module';
+import { DncModule } from './dnc/dnc.module';
+import { CallLifecycleModule } from './call-lifecycle/call-lifecycle.module';
+import { ScheduledCallModule } from './scheduled-call/scheduled-call.module';
 
 @Module({
   imports: [
@@ -39,6 +42,9 @@ import { DashboardModule } from './dashboard/dashboard.module';
     SharedModule,
     CampaignModule,
     DashboardModule,
+    DncModule,
+    CallLifecycleModule,
+    ScheduledCallModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  ActiveCall,
+  ActiveCallSchema,
+} from '../campaign/scheduler-state.schema';
+import { CallConcurrencyService } from './call-concurrency.service';
+import { UserModule } from '../user/user.module';
+import { SharedModule } from '../shared.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ActiveCall.name, schema: ActiveCallSchema },
+    ]),
+    UserModule,
+    SharedModule,
+  ],
+  providers: [CallConcurrencyService],
+  exports: [CallConcurrencyService],
+})
+export class CallConcurrencyModule {}
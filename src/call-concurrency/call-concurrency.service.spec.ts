@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { mongo } from 'mongoose';
+import { CallConcurrencyService } from './call-concurrency.service';
+import { ActiveCall } from '../campaign/scheduler-state.schema';
+import { UserService } from '../user/user.service';
+import { AppLogger } from '../app.logger';
+
+interface StoredSlot {
+  callId: string;
+  userId: string;
+  slot: number;
+}
+
+// ActiveCall collection with the unique { userId, slot } index
+function createActiveCallModel() {
+  const slots: StoredSlot[] = [];
+  return {
+    slots,
+    find: jest.fn((filter: { userId: string }) => ({
+      select: () => ({
+        lean: () => ({
+          exec: () =>
+            Promise.resolve(
+              slots
+                .filter((s) => s.userId === filter.userId)
+                .map((s) => ({ ...s })),
+            ),
+        }),
+      }),
+    })),
+    create: jest.fn((doc: StoredSlot) => {
+      if (slots.some((s) => s.userId === doc.userId && s.slot === doc.slot)) {
+        return Promise.reject(
+          new mongo.MongoServerError({
+            message: 'E11000 duplicate key',
+            code: 11000,
+            keyPattern: { userId: 1, slot: 1 },
+          }),
+        );
+      }
+      slots.push({ callId: doc.callId, userId: doc.userId, slot: doc.slot });
+      return Promise.resolve(doc);
+    }),
+    countDocuments: jest.fn((filter: { userId: string }) => ({
+      exec: () =>
+        Promise.resolve(slots.filter((s) => s.userId === filter.userId).length),
+    })),
+  };
+}
+
+describe('CallConcurrencyService', () => {
+  let service: CallConcurrencyService;
+  let activeCallModel: ReturnType<typeof createActiveCallModel>;
+  let maxConcurrentCalls: number;
+
+  beforeEach(async () => {
+    activeCallModel = createActiveCallModel();
+    maxConcurrentCalls = 1;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CallConcurrencyService,
+        { provide: getModelToken(ActiveCall.name), useValue: activeCallModel },
+        {
+          provide: UserService,
+          useValue: {
+            findById: jest.fn(() =>
+              Promise.resolve({ settings: { maxConcurrentCalls } }),
+            ),
+          },
+        },
+        {
+          provide: AppLogger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CallConcurrencyService>(CallConcurrencyService);
+  });
+
+  describe('acquire', () => {
+    it('takes the lowest free slot index', async () => {
+      maxConcurrentCalls = 3;
+      activeCallModel.slots.push({ callId: 'a', userId: 'user-1', slot: 0 });
+      activeCallModel.slots.push({ callId: 'b', userId: 'user-1', slot: 2 });
+
+      const result = await service.acquire('user-1', {
+        source: 'manual',
+        callId: 'c',
+      });
+
+      expect(result).toEqual({
+        acquired: true,
+        slotId: 'c',
+        activeCalls: 3,
+        maxConcurrentCalls: 3,
+      });
+      expect(activeCallModel.slots.find((s) => s.callId === 'c')?.slot).toBe(1);
+    });
+
+    it('refuses when every slot is held', async () => {
+      activeCallModel.slots.push({ callId: 'a', userId: 'user-1', slot: 0 });
+
+      const result = await service.acquire('user-1', { source: 'campaign' });
+
+      expect(result).toEqual({
+        acquired: false,
+        activeCalls: 1,
+        maxConcurrentCalls: 1,
+      });
+      expect(activeCallModel.create).not.toHaveBeenCalled();
+    });
+
+    it('lets only one of two concurrent requests take the last slot', async () => {
+      const results = await Promise.all([
+        service.acquire('user-1', { source: 'campaign', callId: 'first' }),
+        service.acquire('user-1', { source: 'inbound', callId: 'second' }),
+      ]);
+
+      expect(results.filter((r) => r.acquired)).toHaveLength(1);
+      expect(activeCallModel.slots).toHaveLength(1);
+      // Both saw the slot free - the loser hit the unique index and looked again
+      expect(activeCallModel.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps slots of other users apart', async () => {
+      activeCallModel.slots.push({ callId: 'a', userId: 'user-2', slot: 0 });
+
+      const result = await service.acquire('user-1', { source: 'manual' });
+
+      expect(result.acquired).toBe(true);
+    });
+
+    it('rethrows errors other than a slot collision', async () => {
+      activeCallModel.create.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+
+      await expect(
+        service.acquire('user-1', { source: 'manual' }),
+      ).rejects.toThrow('connection lost');
+    });
+  });
+});
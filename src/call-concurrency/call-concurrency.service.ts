@@ -0,0 +1,197 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, mongo } from 'mongoose';
+import * as crypto from 'crypto';
+import { ActiveCall, CallSlotSource } from '../campaign/scheduler-state.schema';
+import { UserService } from '../user/user.service';
+import { AppLogger } from '../app.logger';
+
+// A slot-placed call with no campaign is released after this even if its end was never seen
+// (longer than Ultravox's 1 hour default maxDuration; campaign calls have their own 15 minute timeout)
+const NON_CAMPAIGN_SLOT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+const ACQUIRE_RETRIES = 3;
+
+export interface SlotRequest {
+  source: CallSlotSource;
+  callId?: string; // Tracking ID to hold the slot under - a pending_ ID is generated when omitted
+  campaignId?: string;
+  contactId?: string;
+}
+
+export interface SlotResult {
+  acquired: boolean;
+  slotId?: string; // callId the slot is held under until attachCall re-keys it
+  activeCalls: number;
+  maxConcurrentCalls: number;
+}
+
+/**
+ * Enforces user.settings.maxConcurrentCalls across every way a call is placed
+ * (campaign scheduler, manual and API triggers, agent test/outbound calls and inbound calls)
+ * A slot is an ActiveCall record: taken before the call is created, re-keyed with the Ultravox
+ * and carrier IDs once it exists, and released when the call ends.
+ * The limit is read from the user on every acquire, so setting changes apply immediately.
+ */
+@Injectable()
+export class CallConcurrencyService {
+  constructor(
+    @InjectModel(ActiveCall.name) private activeCallModel: Model<ActiveCall>,
+    private readonly userService: UserService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async getMaxConcurrentCalls(userId: string): Promise<number> {
+    const user = await this.userService.findById(userId);
+    return user?.settings?.maxConcurrentCalls || 1;
+  }
+
+  async countActiveCalls(userId: string): Promise<number> {
+    return this.activeCallModel.countDocuments({ userId }).exec();
+  }
+
+  async getUsage(userId: string): Promise<{
+    activeCalls: number;
+    maxConcurrentCalls: number;
+    availableSlots: number;
+  }> {
+    const [activeCalls, maxConcurrentCalls] = await Promise.all([
+      this.countActiveCalls(userId),
+      this.getMaxConcurrentCalls(userId),
+    ]);
+    return {
+      activeCalls,
+      maxConcurrentCalls,
+      availableSlots: Math.max(0, maxConcurrentCalls - activeCalls),
+    };
+  }
+
+  /**
+   * Take one of the user's call slots
+   * Each slot holds a distinct index below the limit (unique per user), so two instances
+   * acquiring at the same time cannot both take the last one
+   */
+  async acquire(userId: string, request: SlotRequest): Promise<SlotResult> {
+    const slotId = request.callId || `pending_${crypto.randomUUID()}`;
+
+    for (let attempt = 0; attempt < ACQUIRE_RETRIES; attempt++) {
+      const maxConcurrentCalls = await this.getMaxConcurrentCalls(userId);
+      const held = await this.activeCallModel
+        .find({ userId })
+        .select('slot')
+        .lean()
+        .exec();
+      const activeCalls = held.length;
+
+      const used = new Set(held.map((call) => call.slot));
+      let slot = 0;
+      while (used.has(slot)) slot++;
+
+      // Indices at or above the limit stay in use after it is lowered, until those calls end
+      if (activeCalls >= maxConcurrentCalls || slot >= maxConcurrentCalls) {
+        this.logger.log(
+          `User ${userId}: no call slot free for ${request.source} call (${activeCalls}/${maxConcurrentCalls})`,
+        );
+        return { acquired: false, activeCalls, maxConcurrentCalls };
+      }
+
+      try {
+        await this.activeCallModel.create({
+          callId: slotId,
+          source: request.source,
+          slot,
+          userId,
+          campaignId: request.campaignId,
+          contactId: request.contactId,
+          startedAt: new Date(),
+        });
+        return {
+          acquired: true,
+          slotId,
+          activeCalls: activeCalls + 1,
+          maxConcurrentCalls,
+        };
+      } catch (err) {
+        // Another instance took the same slot index - look again
+        if (
+          !(err instanceof mongo.MongoServerError && err.code === 11000) ||
+          !(err.keyPattern as Record<string, number> | undefined)?.slot
+        ) {
+          throw err;
+        }
+      }
+    }
+
+    const usage = await this.getUsage(userId);
+    return {
+      acquired: false,
+      activeCalls: usage.activeCalls,
+      maxConcurrentCalls: usage.maxConcurrentCalls,
+    };
+  }
+
+  // Re-key a slot with the IDs of the call created in it, so end events can release it
+  async attachCall(
+    slotId: string,
+    call: { callId: string; providerCallId?: string },
+  ): Promise<void> {
+    await this.activeCallModel
+      .updateOne(
+        { callId: slotId },
+        {
+          $set: {
+            callId: call.callId,
+            providerCallId: call.providerCallId,
+            startedAt: new Date(),
+          },
+        },
+      )
+      .exec();
+  }
+
+  // Give back a slot whose call was never created
+  async releaseSlot(slotId: string): Promise<void> {
+    await this.activeCallModel.deleteOne({ callId: slotId }).exec();
+  }
+
+  /**
+   * Release the slot held by a call that ended
+   * Returns the user whose slot was freed (undefined when the call held none)
+   */
+  async release(call: {
+    callId?: string;
+    providerCallId?: string;
+  }): Promise<string | undefined> {
+    const callIds = [call.callId, call.providerCallId].filter(
+      (id): id is string => !!id,
+    );
+    if (callIds.length === 0) return undefined;
+
+    const released = await this.activeCallModel
+      .findOneAndDelete({
+        $or: [
+          { callId: { $in: callIds } },
+          { providerCallId: { $in: callIds } },
+        ],
+      })
+      .exec();
+    return released?.userId;
+  }
+
+  // Free slots of non-campaign calls whose end was never seen
+  async releaseStaleSlots(): Promise<number> {
+    const result = await this.activeCallModel
+      .deleteMany({
+        campaignId: { $exists: false },
+        startedAt: {
+          $lte: new Date(Date.now() - NON_CAMPAIGN_SLOT_TIMEOUT_MS),
+        },
+      })
+      .exec();
+    if (result.deletedCount) {
+      this.logger.warn(
+        `Released ${result.deletedCount} stale call slots without an end event`,
+      );
+    }
+    return result.deletedCount;
+  }
+}
@@ -89,6 +89,52 @@ export class CallHistoryController {
     }
   }
 
+  /**
+   * Get outbound call volume and answer rate per caller ID
+   * GET /call-history/caller-ids?campaignId=xxx&from=2026-01-01&to=2026-01-31
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get('caller-ids')
+  async getCallerIdStats(
+    @Req() req: any,
+    @Query('campaignId') campaignId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      this.logger.warn('userId missing in get caller ID stats');
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      return this.responseHelper.error('from and to must be valid dates', 400);
+    }
+
+    try {
+      const numbers = await this.callHistoryService.getCallerIdStats(
+        userInfo.userId,
+        { campaignId, from: fromDate, to: toDate },
+      );
+      return this.responseHelper.success(
+        { numbers },
+        'Caller ID stats fetched',
+      );
+    } catch (err) {
+      this.logger.error('Error fetching caller ID stats', err);
+      return this.responseHelper.error(
+        'Failed to fetch caller ID stats',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
   /**
    * Get call history for a specific agent
    */
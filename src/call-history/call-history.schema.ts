@@ -1,8 +1,20 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
+import {
+  StatusTransition,
+  StatusTransitionSchema,
+} from '../call-lifecycle/status-transition.schema';
+import {
+  CallDisposition,
+  CallDispositionSchema,
+} from '../campaign/call-disposition.schema';
 
 export type CallType = 'test' | 'inbound' | 'outbound';
-export type CallStatus = 'initiated' | 'in-progress' | 'completed' | 'missed' | 'failed';
+export type CallStatus =
+  'initiated' | 'in-progress' | 'completed' | 'missed' | 'voicemail' | 'failed';
+
+// Who answered, according to answering machine detection
+export type AnsweredBy = 'human' | 'machine' | 'unknown';
 export type EndReason = 'unjoined' | 'hangup' | 'agent_hangup' | 'timeout' | 'connection_error' | 'system_error';
 
 @Schema({ timestamps: true })
@@ -16,12 +28,29 @@ export class CallHistory extends Document {
   @Prop({ required: true })
   talkrixCallId: string;
 
+  @Prop()
+  providerCallId?: string; // Carrier call ID - Twilio CallSid, Plivo request UUID, Telnyx call_control_id
+
   @Prop({ required: true, enum: ['test', 'inbound', 'outbound'], default: 'test' })
   callType: CallType;
 
-  @Prop({ required: true, enum: ['initiated', 'in-progress', 'completed', 'missed', 'failed'], default: 'initiated' })
+  @Prop({
+    required: true,
+    enum: [
+      'initiated',
+      'in-progress',
+      'completed',
+      'missed',
+      'voicemail',
+      'failed',
+    ],
+    default: 'initiated',
+  })
   status: CallStatus;
 
+  @Prop({ type: [StatusTransitionSchema], default: [] })
+  statusHistory?: StatusTransition[]; // Every accepted status change (see CallLifecycleService)
+
   @Prop()
   agentName: string;
 
@@ -32,6 +61,9 @@ export class CallHistory extends Document {
   @Prop()
   customerPhone?: string;
 
+  @Prop()
+  fromPhoneNumber?: string; // Caller ID of outbound calls
+
   // Call timing
   @Prop()
   startedAt?: Date;
@@ -56,6 +88,12 @@ export class CallHistory extends Document {
   @Prop()
   shortSummary?: string;
 
+  @Prop({ enum: ['human', 'machine', 'unknown'] })
+  answeredBy?: AnsweredBy; // Set when answering machine detection ran - a machine turns a completed call into 'voicemail'
+
+  @Prop({ type: CallDispositionSchema })
+  disposition?: CallDisposition; // Outcome the agent recorded with the recordCallOutcome tool
+
   // End reason
   @Prop({ enum: ['unjoined', 'hangup', 'agent_hangup', 'timeout', 'connection_error', 'system_error'] })
   endReason?: EndReason;
@@ -77,6 +115,12 @@ export class CallHistory extends Document {
   // Additional metadata
   @Prop({ type: Object })
   metadata?: Record<string, any>;
+
+  @Prop()
+  lastReconcileAttemptAt?: Date; // When the reconciler last looked up the call without closing it
+
+  @Prop()
+  createdAt?: Date; // Set by timestamps
 }
 
 export const CallHistorySchema = SchemaFactory.createForClass(CallHistory);
@@ -85,5 +129,9 @@ export const CallHistorySchema = SchemaFactory.createForClass(CallHistory);
 CallHistorySchema.index({ userId: 1, createdAt: -1 });
 CallHistorySchema.index({ agentId: 1, createdAt: -1 });
 CallHistorySchema.index({ status: 1 });
+// Stuck call reconciliation - calls not looked at yet first, then the longest unrepaired
+CallHistorySchema.index({ status: 1, lastReconcileAttemptAt: 1, createdAt: 1 });
 CallHistorySchema.index({ callType: 1 });
 CallHistorySchema.index({ talkrixCallId: 1 }, { unique: true });
+CallHistorySchema.index({ providerCallId: 1 }, { sparse: true });
+CallHistorySchema.index({ userId: 1, fromPhoneNumber: 1, createdAt: -1 });
@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { CallHistory, CallStatus, CallType, EndReason } from './call-history.schema';
+import { CallDisposition } from '../campaign/call-disposition.schema';
 
 export interface CallStats {
   totalCalls: number;
@@ -11,14 +12,29 @@ export interface CallStats {
   averageDurationSeconds: number;
 }
 
+// Volume and outcomes of the outbound calls placed from one caller ID
+export interface CallerIdStats {
+  phoneNumber: string;
+  totalCalls: number;
+  answeredCalls: number; // Calls a person picked up (completed)
+  voicemailCalls: number;
+  missedCalls: number;
+  failedCalls: number;
+  answerRate: number; // Percentage of calls answered
+  averageDurationSeconds: number;
+  lastCallAt?: Date;
+}
+
 export interface CreateCallHistoryDto {
   agentId: string;
   userId: string;
   talkrixCallId: string;
+  providerCallId?: string;
   callType: CallType;
   agentName: string;
   customerName?: string;
   customerPhone?: string;
+  fromPhoneNumber?: string;
   recordingEnabled?: boolean;
   joinUrl?: string;
   callData?: Record<string, any>;
@@ -28,6 +44,7 @@ export interface CreateCallHistoryDto {
 
 export interface UpdateCallHistoryDto {
   status?: CallStatus;
+  disposition?: CallDisposition;
   startedAt?: Date;
   endedAt?: Date;
   durationSeconds?: number;
@@ -63,7 +80,19 @@ export class CallHistoryService {
   }
 
   async findByTalkrixCallId(talkrixCallId: string): Promise<CallHistory | null> {
-    return this.callHistoryModel.findOne({ talkrixCallId }).select('-joinUrl -callData').exec();
+    return this.callHistoryModel
+      .findOne({ talkrixCallId })
+      .select('-joinUrl -callData')
+      .exec();
+  }
+
+  async findByProviderCallId(
+    providerCallId: string,
+  ): Promise<CallHistory | null> {
+    return this.callHistoryModel
+      .findOne({ providerCallId })
+      .select('-joinUrl -callData')
+      .exec();
   }
 
   async findByUserId(
@@ -144,6 +173,16 @@ export class CallHistoryService {
     return this.callHistoryModel.findByIdAndUpdate(id, data, { new: true }).exec();
   }
 
+  // Update a call only while it is still in progress - returns null once it has ended
+  async updateInProgress(
+    id: string,
+    data: UpdateCallHistoryDto,
+  ): Promise<CallHistory | null> {
+    return this.callHistoryModel
+      .findOneAndUpdate({ _id: id, status: 'in-progress' }, data, { new: true })
+      .exec();
+  }
+
   async updateByTalkrixCallId(
     talkrixCallId: string,
     data: UpdateCallHistoryDto,
@@ -254,4 +293,88 @@ export class CallHistoryService {
           : 0,
     };
   }
+
+  /**
+   * Outbound call volume and answer rate per caller ID, busiest number first
+   * Optionally limited to one campaign and a createdAt range
+   */
+  async getCallerIdStats(
+    userId: string,
+    options: { campaignId?: string; from?: Date; to?: Date } = {},
+  ): Promise<CallerIdStats[]> {
+    const match: Record<string, any> = {
+      userId,
+      callType: 'outbound',
+      fromPhoneNumber: { $exists: true },
+    };
+    if (options.campaignId) {
+      // Stored as a string by the scheduler and as an ObjectId by manual triggers
+      match['metadata.campaignId'] = Types.ObjectId.isValid(options.campaignId)
+        ? { $in: [options.campaignId, new Types.ObjectId(options.campaignId)] }
+        : options.campaignId;
+    }
+    if (options.from || options.to) {
+      match.createdAt = {
+        ...(options.from ? { $gte: options.from } : {}),
+        ...(options.to ? { $lte: options.to } : {}),
+      };
+    }
+
+    const countStatus = (status: CallStatus) => ({
+      $sum: { $cond: [{ $eq: ['$status', status] }, 1, 0] },
+    });
+    const result = await this.callHistoryModel
+      .aggregate<{
+        _id: string;
+        totalCalls: number;
+        answeredCalls: number;
+        voicemailCalls: number;
+        missedCalls: number;
+        failedCalls: number;
+        answeredDuration: number;
+        lastCallAt: Date;
+      }>([
+        { $match: match },
+        {
+          $group: {
+            _id: '$fromPhoneNumber',
+            totalCalls: { $sum: 1 },
+            answeredCalls: countStatus('completed'),
+            voicemailCalls: countStatus('voicemail'),
+            missedCalls: countStatus('missed'),
+            failedCalls: countStatus('failed'),
+            answeredDuration: {
+              $sum: {
+                $cond: [
+                  { $eq: ['$status', 'completed'] },
+                  '$durationSeconds',
+                  0,
+                ],
+              },
+            },
+            lastCallAt: { $max: '$createdAt' },
+          },
+        },
+        { $sort: { totalCalls: -1, _id: 1 } },
+      ])
+      .exec();
+
+    return result.map((stats) => ({
+      phoneNumber: stats._id,
+      totalCalls: stats.totalCalls,
+      answeredCalls: stats.answeredCalls,
+      voicemailCalls: stats.voicemailCalls,
+      missedCalls: stats.missedCalls,
+      failedCalls: stats.failedCalls,
+      answerRate:
+        stats.totalCalls > 0
+          ? Math.round((stats.answeredCalls / stats.totalCalls) * 1000) / 10
+          : 0,
+      averageDurationSeconds:
+        stats.answeredCalls > 0
+          ? Math.round(stats.answeredDuration / stats.answeredCalls)
+          : 0,
+      lastCallAt: stats.lastCallAt,
+    }));
+  }
 }
@@ -0,0 +1,48 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  CallHistory,
+  CallHistorySchema,
+} from '../call-history/call-history.schema';
+import {
+  CallReconciliation,
+  CallReconciliationSchema,
+} from './call-reconciliation.schema';
+import { CallLifecycleService } from './call-lifecycle.service';
+import { CallReconcilerService } from './call-reconciler.service';
+import { CallReconciliationController } from './call-reconciliation.controller';
+import { CampaignModule } from '../campaign/campaign.module';
+import { AgentModule } from '../agent/agent.module';
+import { UserModule } from '../user/user.module';
+import { SharedModule } from '../shared.module';
+import { CallConcurrencyModule } from '../call-concurrency/call-concurrency.module';
+import { ScheduledCallModule } from '../scheduled-call/scheduled-call.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CallHistory.name, schema: CallHistorySchema },
+      { name: CallReconciliation.name, schema: CallReconciliationSchema },
+    ]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get('JWT_SECRET'),
+        signOptions: { expiresIn: '1d' },
+      }),
+      inject: [ConfigService],
+    }),
+    forwardRef(() => CampaignModule),
+    forwardRef(() => AgentModule),
+    UserModule,
+    SharedModule,
+    CallConcurrencyModule,
+    forwardRef(() => ScheduledCallModule),
+  ],
+  providers: [CallLifecycleService, CallReconcilerService],
+  controllers: [CallReconciliationController],
+  exports: [CallLifecycleService],
+})
+export class CallLifecycleModule {}
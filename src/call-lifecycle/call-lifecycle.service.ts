@@ -0,0 +1,495 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  AnsweredBy,
+  CallHistory,
+  CallStatus,
+} from '../call-history/call-history.schema';
+import { CallAttemptOutcome } from '../campaign/campaign.schema';
+import { CampaignService } from '../campaign/campaign.service';
+import { CampaignSchedulerService } from '../campaign/campaign-scheduler.service';
+import { CallConcurrencyService } from '../call-concurrency/call-concurrency.service';
+import { ScheduledCallService } from '../scheduled-call/scheduled-call.service';
+import { AppLogger } from '../app.logger';
+import {
+  CALL_STATUS_TRANSITIONS,
+  CallEventSource,
+  canTransition,
+  computeBilledDuration,
+  isFinalCallStatus,
+  outcomeToCallStatus,
+} from './call-state.util';
+
+// Identifies the call an event belongs to - any one of these is enough to find it
+export interface CallRef {
+  callHistoryId?: string;
+  talkrixCallId?: string;
+  campaignId?: string;
+  contactId?: string;
+  providerCallId?: string; // Carrier call ID (Twilio CallSid, Plivo request UUID, Telnyx call_control_id)
+}
+
+// The far end picked up and the conversation started
+export interface CallAnsweredEvent {
+  type: 'answered';
+  source: CallEventSource;
+  at?: Date;
+}
+
+// The call is over - providers map their own statuses/hangup causes to an attempt outcome
+export interface CallEndedEvent {
+  type: 'ended';
+  source: CallEventSource;
+  outcome: CallAttemptOutcome;
+  endReason?: string;
+  at?: Date; // When the call ended
+  answeredAt?: Date; // Used for the duration when durationSeconds is not reported
+  durationSeconds?: number;
+  billableSeconds?: number; // Carrier billed seconds, when different from the duration
+  billedDuration?: string; // Billed duration reported by Ultravox (e.g. "2m")
+  billingStatus?: string;
+  summary?: string;
+  shortSummary?: string;
+  recordingUrl?: string;
+  notes?: string; // Stored on the campaign contact's attempt
+  metadata?: Record<string, unknown>; // Merged into CallHistory.metadata
+}
+
+// Answering machine detection finished - a machine turns the call's 'completed' end into 'voicemail'
+export interface CallMachineDetectedEvent {
+  type: 'machine-detected';
+  source: CallEventSource;
+  answeredBy: AnsweredBy;
+}
+
+export type CallLifecycleEvent =
+  CallAnsweredEvent | CallEndedEvent | CallMachineDetectedEvent;
+
+/**
+ * Owns call status transitions
+ * Every webhook and endpoint that learns something about a call's progress feeds a normalized
+ * event here. CallHistory.status only moves along CALL_STATUS_TRANSITIONS, so duplicate and
+ * out-of-order events are ignored, and the end of a campaign call is recorded on its contact
+ * (retry policy included) before the scheduler is told the slot is free.
+ */
+@Injectable()
+export class CallLifecycleService {
+  constructor(
+    @InjectModel(CallHistory.name) private callHistoryModel: Model<CallHistory>,
+    private readonly campaignService: CampaignService,
+    private readonly campaignSchedulerService: CampaignSchedulerService,
+    private readonly callConcurrencyService: CallConcurrencyService,
+    private readonly scheduledCallService: ScheduledCallService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  /**
+   * Apply a call event
+   * Returns the call history record as stored after the event (null when there is none)
+   */
+  async handleEvent(
+    ref: CallRef,
+    event: CallLifecycleEvent,
+  ): Promise<CallHistory | null> {
+    const callHistory = await this.findCallHistory(ref);
+
+    if (event.type === 'answered') {
+      if (!callHistory) return null;
+      return this.transition(
+        callHistory,
+        'in-progress',
+        { startedAt: event.at || new Date() },
+        event.source,
+      );
+    }
+
+    if (event.type === 'machine-detected') {
+      if (!callHistory) return null;
+      this.logger.log(
+        `Call ${callHistory.talkrixCallId} answered by ${event.answeredBy} (source: ${event.source})`,
+      );
+      return this.callHistoryModel
+        .findByIdAndUpdate(
+          callHistory._id,
+          { $set: { answeredBy: event.answeredBy } },
+          { new: true },
+        )
+        .select('-joinUrl -callData')
+        .exec();
+    }
+
+    // The end of a call picked up by an answering machine is reported as a normal hangup
+    if (
+      event.outcome === 'completed' &&
+      callHistory?.answeredBy === 'machine'
+    ) {
+      event = { ...event, outcome: 'voicemail' };
+    }
+
+    let updated: CallHistory | null = null;
+    if (callHistory) {
+      updated = await this.transition(
+        callHistory,
+        outcomeToCallStatus(event.outcome),
+        this.buildEndedFields(callHistory, event),
+        event.source,
+      );
+    } else {
+      this.logger.warn(
+        `Call history not found for ended call ${ref.talkrixCallId || ref.providerCallId || ref.contactId}`,
+      );
+    }
+
+    // Inbound calls have no campaign contact
+    const campaignId =
+      ref.campaignId ||
+      (callHistory?.metadata?.campaignId as string | undefined)?.toString();
+    if (campaignId && callHistory?.callType !== 'inbound') {
+      await this.recordCampaignAttempt(campaignId, ref, callHistory, event);
+    }
+
+    // One-off scheduled calls keep their own attempts and retry policy
+    const scheduledCallId = (
+      callHistory?.metadata?.scheduledCallId as string | undefined
+    )?.toString();
+    if (scheduledCallId) {
+      const calledAt = callHistory!.metadata?.scheduledCallCalledAt as
+        Date | string | undefined;
+      await this.scheduledCallService.recordCallAttempt(
+        scheduledCallId,
+        {
+          callId: callHistory!.talkrixCallId,
+          providerCallId: ref.providerCallId || callHistory!.providerCallId,
+          calledAt: calledAt ? new Date(calledAt) : undefined,
+        },
+        event.outcome,
+        {
+          callDuration:
+            event.durationSeconds ?? callHistory!.durationSeconds ?? 0,
+          callNotes: event.notes,
+        },
+      );
+    }
+
+    await this.releaseCallSlot(ref, callHistory);
+
+    return updated;
+  }
+
+  /**
+   * Hand a live call over to another Ultravox call (the carrier call is redirected to its joinUrl),
+   * e.g. a voicemail call that speaks the campaign's voicemail script
+   * The call history, campaign contact and concurrency slot follow the new Ultravox call ID, so the
+   * end of the replaced call is not taken for the end of the phone call
+   */
+  async replaceUltravoxCall(
+    ref: CallRef,
+    call: { talkrixCallId: string; joinUrl: string },
+  ): Promise<CallHistory | null> {
+    const callHistory = await this.findCallHistory(ref);
+    if (!callHistory) return null;
+
+    const previousCallId = callHistory.talkrixCallId;
+    const updated = await this.callHistoryModel
+      .findByIdAndUpdate(
+        callHistory._id,
+        {
+          $set: {
+            talkrixCallId: call.talkrixCallId,
+            joinUrl: call.joinUrl,
+            'metadata.replacedTalkrixCallId': previousCallId,
+          },
+        },
+        { new: true },
+      )
+      .select('-joinUrl -callData')
+      .exec();
+
+    const campaignId =
+      ref.campaignId ||
+      (callHistory.metadata?.campaignId as string | undefined)?.toString();
+    const contactId =
+      ref.contactId ||
+      (callHistory.metadata?.contactId as string | undefined)?.toString();
+    if (campaignId && contactId) {
+      await this.campaignService.attachContactCall(campaignId, contactId, {
+        callId: call.talkrixCallId,
+        callHistoryId: callHistory._id.toString(),
+      });
+    }
+    await this.callConcurrencyService.attachCall(previousCallId, {
+      callId: call.talkrixCallId,
+      providerCallId: callHistory.providerCallId,
+    });
+
+    this.logger.log(
+      `Call ${previousCallId} handed over to Ultravox call ${call.talkrixCallId}`,
+    );
+    return updated;
+  }
+
+  /**
+   * The Ultravox joinUrl a carrier should stream the call to
+   * Undefined when the call is unknown or has already ended
+   */
+  async getJoinUrl(ref: CallRef): Promise<string | undefined> {
+    const callHistory = await this.findCallHistory(ref);
+    if (!callHistory || isFinalCallStatus(callHistory.status)) return undefined;
+
+    const withJoinUrl = await this.callHistoryModel
+      .findById(callHistory._id)
+      .select('joinUrl')
+      .exec();
+    return withJoinUrl?.joinUrl || undefined;
+  }
+
+  /**
+   * Find the call history record by ID, Ultravox call ID or carrier call ID, falling back to
+   * the campaign contact's current call (a callback can arrive before the carrier ID is stored)
+   */
+  private async findCallHistory(ref: CallRef): Promise<CallHistory | null> {
+    if (ref.callHistoryId && Types.ObjectId.isValid(ref.callHistoryId)) {
+      return this.callHistoryModel
+        .findById(ref.callHistoryId)
+        .select('-joinUrl -callData')
+        .exec();
+    }
+    if (ref.talkrixCallId) {
+      return this.callHistoryModel
+        .findOne({ talkrixCallId: ref.talkrixCallId })
+        .select('-joinUrl -callData')
+        .exec();
+    }
+    if (ref.providerCallId) {
+      const callHistory = await this.callHistoryModel
+        .findOne({ providerCallId: ref.providerCallId })
+        .select('-joinUrl -callData')
+        .exec();
+      if (callHistory) return callHistory;
+    }
+
+    if (ref.campaignId && ref.contactId) {
+      const contact = await this.campaignService.findContact(
+        ref.campaignId,
+        ref.contactId,
+      );
+      // A contact that moved on to another call must not pick up this call's events
+      const isCurrentCall =
+        !contact?.providerCallId ||
+        !ref.providerCallId ||
+        contact.providerCallId === ref.providerCallId;
+      if (
+        contact?.callHistoryId &&
+        isCurrentCall &&
+        Types.ObjectId.isValid(contact.callHistoryId)
+      ) {
+        return this.callHistoryModel
+          .findById(contact.callHistoryId)
+          .select('-joinUrl -callData')
+          .exec();
+      }
+    }
+    return null;
+  }
+
+  // Call history fields written when a call ends
+  private buildEndedFields(
+    callHistory: CallHistory,
+    event: CallEndedEvent,
+  ): Record<string, any> {
+    const endedAt = event.at || new Date();
+    const answeredAt = event.answeredAt || callHistory.startedAt;
+
+    let durationSeconds = event.durationSeconds;
+    if (durationSeconds === undefined && answeredAt && event.at) {
+      durationSeconds = Math.max(
+        0,
+        Math.round(
+          (event.at.getTime() - new Date(answeredAt).getTime()) / 1000,
+        ),
+      );
+    }
+
+    const fields: Record<string, any> = { endedAt };
+    if (event.endReason) fields.endReason = event.endReason;
+    if (durationSeconds !== undefined) fields.durationSeconds = durationSeconds;
+
+    const billedDuration = computeBilledDuration(
+      event.billableSeconds ?? durationSeconds ?? 0,
+      event.billedDuration,
+    );
+    if (billedDuration) fields.billedDuration = billedDuration;
+    if (event.billingStatus) fields.billingStatus = event.billingStatus;
+    if (event.recordingUrl) fields.recordingUrl = event.recordingUrl;
+
+    // Use summaries from the event if available, otherwise add a default for missed/failed calls
+    const status = outcomeToCallStatus(event.outcome);
+    if (event.shortSummary) {
+      fields.shortSummary = event.shortSummary;
+    } else if (status === 'missed') {
+      fields.shortSummary = 'Call not answered';
+    } else if (status === 'voicemail') {
+      fields.shortSummary = 'Reached voicemail';
+    } else if (status === 'failed') {
+      fields.shortSummary = `Call failed: ${event.endReason}`;
+    }
+
+    if (event.summary) {
+      fields.summary = event.summary;
+    } else if (status === 'missed') {
+      fields.summary =
+        'The call was not answered by the recipient. The phone rang but no one picked up. Consider retrying at a different time.';
+    } else if (status === 'failed') {
+      fields.summary = `The call could not be completed. Reason: ${event.endReason}. Please check the phone number and try again.`;
+    }
+
+    // Merge instead of replacing - metadata also holds the campaign references
+    for (const [key, value] of Object.entries(event.metadata || {})) {
+      if (value !== undefined) fields[`metadata.${key}`] = value;
+    }
+    return fields;
+  }
+
+  /**
+   * Move a call history record to a new status if the graph allows it
+   * A second end report for a call that already ended (e.g. Talkrix call.ended after the
+   * carrier's status callback) keeps the first status and only fills in details still missing
+   */
+  private async transition(
+    callHistory: CallHistory,
+    to: CallStatus,
+    fields: Record<string, any>,
+    source: CallEventSource,
+  ): Promise<CallHistory | null> {
+    const from = callHistory.status;
+
+    if (canTransition(CALL_STATUS_TRANSITIONS, from, to)) {
+      const updated = await this.callHistoryModel
+        .findOneAndUpdate(
+          { _id: callHistory._id, status: from },
+          {
+            $set: { ...fields, status: to },
+            $push: { statusHistory: { from, to, at: new Date(), source } },
+          },
+          { new: true },
+        )
+        .select('-joinUrl -callData')
+        .exec();
+      if (updated) {
+        this.logger.log(
+          `Call ${callHistory.talkrixCallId} ${from} -> ${to} (source: ${source})`,
+        );
+        return updated;
+      }
+
+      // Another event changed the status first - decide again against the stored status
+      const fresh = await this.callHistoryModel
+        .findById(callHistory._id)
+        .select('-joinUrl -callData')
+        .exec();
+      return fresh ? this.transition(fresh, to, fields, source) : null;
+    }
+
+    if (isFinalCallStatus(from) && isFinalCallStatus(to)) {
+      const missing: Record<string, any> = {};
+      for (const [key, value] of Object.entries<unknown>(fields)) {
+        const current = key
+          .split('.')
+          .reduce<unknown>(
+            (obj, part) => (obj as Record<string, unknown> | undefined)?.[part],
+            callHistory,
+          );
+        if (
+          current === undefined ||
+          current === null ||
+          current === '' ||
+          current === 0
+        ) {
+          missing[key] = value;
+        }
+      }
+      this.logger.log(
+        `Call ${callHistory.talkrixCallId} already ${from}, ignoring ${to} from ${source} except missing details`,
+      );
+      if (Object.keys(missing).length === 0) return callHistory;
+      return this.callHistoryModel
+        .findByIdAndUpdate(callHistory._id, { $set: missing }, { new: true })
+        .select('-joinUrl -callData')
+        .exec();
+    }
+
+    this.logger.log(
+      `Ignoring out-of-order ${to} for call ${callHistory.talkrixCallId} in status ${from} (source: ${source})`,
+    );
+    return callHistory;
+  }
+
+  /**
+   * Free the concurrency slot the call held (campaign calls have usually been released by the
+   * scheduler already) and let the user's campaigns use it right away
+   */
+  private async releaseCallSlot(
+    ref: CallRef,
+    callHistory: CallHistory | null,
+  ): Promise<void> {
+    const userId = await this.callConcurrencyService.release({
+      callId: ref.talkrixCallId || callHistory?.talkrixCallId,
+      providerCallId: ref.providerCallId || callHistory?.providerCallId,
+    });
+    if (!userId) return;
+
+    this.logger.log(
+      `Released call slot of user ${userId} for call ${callHistory?.talkrixCallId || ref.providerCallId}`,
+    );
+    this.campaignSchedulerService.processUserCalls(userId).catch((err) => {
+      this.logger.error(
+        `Error processing next calls after slot release:`,
+        err instanceof Error ? err.message : err,
+      );
+    });
+  }
+
+  // Record the attempt on the campaign contact (re-queued if the retry policy allows it) and free the call's slot
+  private async recordCampaignAttempt(
+    campaignId: string,
+    ref: CallRef,
+    callHistory: CallHistory | null,
+    event: CallEndedEvent,
+  ): Promise<void> {
+    const match = {
+      contactId: ref.contactId,
+      callId: ref.talkrixCallId || callHistory?.talkrixCallId,
+      providerCallId: ref.providerCallId || callHistory?.providerCallId,
+    };
+    const durationSeconds =
+      event.durationSeconds ?? callHistory?.durationSeconds ?? 0;
+
+    const result = await this.campaignService.recordCallAttempt(
+      campaignId,
+      match,
+      event.outcome,
+      { callDuration: durationSeconds, callNotes: event.notes },
+      event.source,
+    );
+
+    if (!result) {
+      this.logger.log(
+        `Campaign ${campaignId} contact for call ${match.callId || match.providerCallId || match.contactId} already finalized, skipping`,
+      );
+      return;
+    }
+
+    this.logger.log(
+      `Updated campaign ${campaignId} contact ${result.contact._id.toString()}: outcome=${event.outcome}, ` +
+        `status=${result.contact.callStatus}${result.willRetry ? ' (re-queued for retry)' : ''}`,
+    );
+
+    // When one call ends the scheduler can start the next
+    await this.campaignSchedulerService.onCallEnded(campaignId, {
+      callId: match.callId,
+      providerCallId: match.providerCallId,
+      contactId: result.contact._id.toString(),
+    });
+  }
+}
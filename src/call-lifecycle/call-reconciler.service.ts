@@ -0,0 +1,259 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { CallHistory } from '../call-history/call-history.schema';
+import { CampaignSchedulerService } from '../campaign/campaign-scheduler.service';
+import {
+  UltravoxCallDetails,
+  UltravoxService,
+} from '../agent/ultravox.service';
+import { AppLogger } from '../app.logger';
+import { CallLifecycleService } from './call-lifecycle.service';
+import { CallReconciliation } from './call-reconciliation.schema';
+import { endReasonToOutcome } from './call-state.util';
+
+const RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+const RECONCILE_BATCH_SIZE = 100;
+// Time the end webhooks get after maxDuration before a call counts as stuck
+const RECONCILE_GRACE_MS = 5 * 60 * 1000;
+// Ultravox's own limit for calls created without a maxDuration
+const DEFAULT_MAX_DURATION_SECONDS = 3600;
+
+/**
+ * Repairs calls whose end webhooks were lost
+ * Call history records still 'initiated' or 'in-progress' after their maxDuration (plus a grace
+ * period) are looked up in Ultravox and closed through CallLifecycleService, so the summary,
+ * recording and campaign contact are updated exactly as if the webhook had arrived.
+ * Runs on the scheduler leader only; every repair is kept as a CallReconciliation record.
+ */
+@Injectable()
+export class CallReconcilerService implements OnModuleInit, OnModuleDestroy {
+  private reconcileInterval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+
+  constructor(
+    @InjectModel(CallHistory.name) private callHistoryModel: Model<CallHistory>,
+    @InjectModel(CallReconciliation.name)
+    private reconciliationModel: Model<CallReconciliation>,
+    private readonly callLifecycleService: CallLifecycleService,
+    private readonly campaignSchedulerService: CampaignSchedulerService,
+    private readonly ultravoxService: UltravoxService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  onModuleInit() {
+    this.reconcileInterval = setInterval(() => {
+      if (!this.campaignSchedulerService.isSchedulerLeader()) return;
+      this.reconcileStuckCalls().catch((err) => {
+        this.logger.error(
+          'Error reconciling stuck calls:',
+          err instanceof Error ? err.message : err,
+        );
+      });
+    }, RECONCILE_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+    }
+  }
+
+  /**
+   * One reconciliation pass
+   * Returns the number of calls that were repaired or closed
+   */
+  async reconcileStuckCalls(): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    try {
+      const now = Date.now();
+      // Calls Ultravox still reports active stay stuck for a while - the ones looked at longest ago
+      // come first, so they cannot hold back calls that were never looked at
+      const stuck = await this.callHistoryModel
+        .find({
+          status: { $in: ['initiated', 'in-progress'] },
+          createdAt: { $lte: new Date(now - RECONCILE_GRACE_MS) },
+          $expr: {
+            $lte: [
+              {
+                $add: [
+                  '$createdAt',
+                  this.maxDurationMsExpr(),
+                  RECONCILE_GRACE_MS,
+                ],
+              },
+              new Date(now),
+            ],
+          },
+        })
+        .select('-joinUrl')
+        .sort({ lastReconcileAttemptAt: 1, createdAt: 1 })
+        .limit(RECONCILE_BATCH_SIZE)
+        .exec();
+      if (stuck.length === 0) return 0;
+
+      this.logger.warn(
+        `Found ${stuck.length} calls past their max duration without an end event, reconciling...`,
+      );
+
+      let reconciled = 0;
+      for (const call of stuck) {
+        try {
+          if (await this.reconcileCall(call)) {
+            reconciled++;
+            continue;
+          }
+        } catch (err) {
+          this.logger.error(
+            `Error reconciling call ${call.talkrixCallId}:`,
+            err instanceof Error ? err.message : err,
+          );
+        }
+        await this.callHistoryModel
+          .updateOne(
+            { _id: call._id },
+            { $set: { lastReconcileAttemptAt: new Date() } },
+          )
+          .exec();
+      }
+      return reconciled;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // maxDuration the call was created with (e.g. "600s") in milliseconds, as a query expression
+  private maxDurationMsExpr(): Record<string, any> {
+    const seconds = {
+      $convert: {
+        input: {
+          $rtrim: {
+            input: { $toString: { $ifNull: ['$callData.maxDuration', ''] } },
+            chars: 's',
+          },
+        },
+        to: 'double',
+        onError: DEFAULT_MAX_DURATION_SECONDS,
+        onNull: DEFAULT_MAX_DURATION_SECONDS,
+      },
+    };
+    return {
+      $multiply: [
+        {
+          $cond: [{ $gt: [seconds, 0] }, seconds, DEFAULT_MAX_DURATION_SECONDS],
+        },
+        1000,
+      ],
+    };
+  }
+
+  private async reconcileCall(call: CallHistory): Promise<boolean> {
+    const details = await this.ultravoxService.getCallDetails(
+      call.talkrixCallId,
+    );
+
+    let action: CallReconciliation['action'];
+    let endReason: string | undefined;
+    if (details.statusCode === 200 && details.data) {
+      if (!details.data.ended) {
+        this.logger.warn(
+          `Call ${call.talkrixCallId} is past its max duration but Ultravox still reports it active`,
+        );
+        return false;
+      }
+      action = 'repaired';
+      endReason = details.data.endReason;
+    } else if (details.statusCode === 404) {
+      action = 'closed';
+      endReason = 'system_error';
+    } else {
+      // Ultravox unreachable - try again on the next pass
+      this.logger.warn(
+        `Could not fetch call ${call.talkrixCallId} from Ultravox: ${details.message}`,
+      );
+      return false;
+    }
+
+    const data: Partial<UltravoxCallDetails> = details.data || {};
+    const updated = await this.callLifecycleService.handleEvent(
+      {
+        callHistoryId: call._id.toString(),
+        campaignId: (
+          call.metadata?.campaignId as string | undefined
+        )?.toString(),
+        contactId: (call.metadata?.contactId as string | undefined)?.toString(),
+      },
+      {
+        type: 'ended',
+        source: 'reconciler',
+        outcome: endReasonToOutcome(endReason),
+        endReason,
+        at: data.ended ? new Date(data.ended) : undefined,
+        answeredAt: data.joined ? new Date(data.joined) : undefined,
+        billedDuration: data.billedDuration,
+        billingStatus: data.billingStatus,
+        summary: data.summary,
+        shortSummary: data.shortSummary,
+        recordingUrl: data.recordingUrl,
+        notes:
+          action === 'repaired'
+            ? `Reconciled from Ultravox: ${endReason || 'ended'}`
+            : 'Closed by reconciliation - Ultravox has no record of the call',
+      },
+    );
+
+    await this.reconciliationModel.create({
+      callHistoryId: call._id.toString(),
+      talkrixCallId: call.talkrixCallId,
+      userId: call.userId,
+      callType: call.callType,
+      campaignId: (call.metadata?.campaignId as string | undefined)?.toString(),
+      action,
+      previousStatus: call.status,
+      status: updated?.status,
+      endReason,
+      durationSeconds: updated?.durationSeconds,
+      callCreatedAt: call.createdAt,
+    });
+
+    this.logger.log(
+      `Reconciled call ${call.talkrixCallId}: ${call.status} -> ${updated?.status} (${action})`,
+    );
+    return true;
+  }
+
+  // Reconciled calls for a user, newest first
+  async findByUserId(
+    userId: string,
+    options?: { page?: number; limit?: number },
+  ): Promise<{
+    reconciliations: CallReconciliation[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    const page = options?.page || 1;
+    const limit = options?.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const [reconciliations, total] = await Promise.all([
+      this.reconciliationModel
+        .find({ userId })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.reconciliationModel.countDocuments({ userId }).exec(),
+    ]);
+
+    return {
+      reconciliations,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+}
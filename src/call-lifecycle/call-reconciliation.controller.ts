@@ -0,0 +1,73 @@
+import { Controller, Get, Query, UseGuards, Req } from '@nestjs/common';
+import { CallReconcilerService } from './call-reconciler.service';
+import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
+import { ResponseHelper } from '../response.helper';
+import { AppLogger } from '../app.logger';
+import { Types } from 'mongoose';
+
+// Request with the user set by AuthOrApiKeyGuard
+interface AuthenticatedRequest {
+  user?: { sub?: string; email?: string };
+  apiUser?: { _id?: Types.ObjectId; email?: string };
+}
+
+@Controller('call-reconciliation')
+export class CallReconciliationController {
+  constructor(
+    private readonly callReconcilerService: CallReconcilerService,
+    private readonly responseHelper: ResponseHelper,
+    private readonly logger: AppLogger,
+  ) {}
+
+  // Helper to extract user info from JWT token or API key
+  private getUserFromRequest(
+    req: AuthenticatedRequest,
+  ): { userId: string; email?: string } | null {
+    if (req.user?.sub) {
+      return { userId: String(req.user.sub), email: req.user.email };
+    }
+    if (req.apiUser?._id) {
+      return { userId: String(req.apiUser._id), email: req.apiUser.email };
+    }
+    return null;
+  }
+
+  /**
+   * Report of the current user's calls that were repaired by the reconciliation job
+   * GET /call-reconciliation?page=1&limit=20
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get()
+  async findAll(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      this.logger.warn('userId missing in get call reconciliation report');
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const result = await this.callReconcilerService.findByUserId(
+        userInfo.userId,
+        {
+          page: page ? parseInt(page, 10) : 1,
+          limit: limit ? parseInt(limit, 10) : 20,
+        },
+      );
+      return this.responseHelper.success(
+        result,
+        'Call reconciliation report fetched',
+      );
+    } catch (err) {
+      this.logger.error('Error fetching call reconciliation report', err);
+      return this.responseHelper.error(
+        'Failed to fetch call reconciliation report',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+}
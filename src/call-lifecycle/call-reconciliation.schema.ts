@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * A call the reconciler closed after its end webhooks never arrived
+ * - repaired: Ultravox reported how the call ended and that outcome was applied
+ * - closed: Ultravox has no record of the call, so it was closed as failed
+ */
+@Schema({ timestamps: true })
+export class CallReconciliation extends Document {
+  @Prop({ required: true })
+  callHistoryId: string;
+
+  @Prop({ required: true })
+  talkrixCallId: string;
+
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  @Prop()
+  callType?: string;
+
+  @Prop()
+  campaignId?: string;
+
+  @Prop({ required: true, enum: ['repaired', 'closed'] })
+  action: 'repaired' | 'closed';
+
+  @Prop({ required: true })
+  previousStatus: string; // Status the call was stuck in
+
+  @Prop()
+  status?: string; // Status after reconciliation
+
+  @Prop()
+  endReason?: string;
+
+  @Prop()
+  durationSeconds?: number;
+
+  @Prop()
+  callCreatedAt?: Date;
+}
+
+export const CallReconciliationSchema =
+  SchemaFactory.createForClass(CallReconciliation);
+CallReconciliationSchema.index({ userId: 1, createdAt: -1 });
@@ -0,0 +1,132 @@
+import {
+  CALL_STATUS_TRANSITIONS,
+  CONTACT_STATUS_TRANSITIONS,
+  canTransition,
+  computeBilledDuration,
+  endReasonToOutcome,
+  isFinalCallStatus,
+  outcomeToCallStatus,
+  statusesLeadingTo,
+} from './call-state.util';
+
+describe('call-state.util', () => {
+  describe('CALL_STATUS_TRANSITIONS', () => {
+    it('moves a call forward from initiated and in-progress', () => {
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'initiated', 'in-progress'),
+      ).toBe(true);
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'initiated', 'completed'),
+      ).toBe(true);
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'in-progress', 'completed'),
+      ).toBe(true);
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'in-progress', 'voicemail'),
+      ).toBe(true);
+    });
+
+    it('never moves a call backwards', () => {
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'in-progress', 'initiated'),
+      ).toBe(false);
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'completed', 'in-progress'),
+      ).toBe(false);
+      expect(
+        canTransition(CALL_STATUS_TRANSITIONS, 'failed', 'completed'),
+      ).toBe(false);
+    });
+
+    it('treats every ended status as final', () => {
+      expect(isFinalCallStatus('completed')).toBe(true);
+      expect(isFinalCallStatus('missed')).toBe(true);
+      expect(isFinalCallStatus('voicemail')).toBe(true);
+      expect(isFinalCallStatus('failed')).toBe(true);
+      expect(isFinalCallStatus('initiated')).toBe(false);
+      expect(isFinalCallStatus('in-progress')).toBe(false);
+    });
+
+    it('lists the statuses a call may end from', () => {
+      expect(statusesLeadingTo(CALL_STATUS_TRANSITIONS, 'completed')).toEqual([
+        'initiated',
+        'in-progress',
+      ]);
+      expect(statusesLeadingTo(CALL_STATUS_TRANSITIONS, 'in-progress')).toEqual(
+        ['initiated'],
+      );
+      expect(statusesLeadingTo(CALL_STATUS_TRANSITIONS, 'initiated')).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('CONTACT_STATUS_TRANSITIONS', () => {
+    it('only claims pending or failed contacts', () => {
+      expect(
+        statusesLeadingTo(CONTACT_STATUS_TRANSITIONS, 'in-progress'),
+      ).toEqual(['pending', 'failed']);
+    });
+
+    it('re-queues finished contacts', () => {
+      for (const status of [
+        'in-progress',
+        'failed',
+        'no-answer',
+        'voicemail',
+        'completed',
+      ] as const) {
+        expect(
+          canTransition(CONTACT_STATUS_TRANSITIONS, status, 'pending'),
+        ).toBe(true);
+      }
+    });
+
+    it('does not finish a contact that was never dialled', () => {
+      expect(
+        canTransition(CONTACT_STATUS_TRANSITIONS, 'pending', 'completed'),
+      ).toBe(false);
+      expect(
+        canTransition(CONTACT_STATUS_TRANSITIONS, 'no-answer', 'completed'),
+      ).toBe(false);
+    });
+  });
+
+  describe('outcomeToCallStatus', () => {
+    it('maps attempt outcomes to call statuses', () => {
+      expect(outcomeToCallStatus('completed')).toBe('completed');
+      expect(outcomeToCallStatus('no-answer')).toBe('missed');
+      expect(outcomeToCallStatus('voicemail')).toBe('voicemail');
+      expect(outcomeToCallStatus('busy')).toBe('failed');
+      expect(outcomeToCallStatus('connection_error')).toBe('failed');
+    });
+  });
+
+  describe('endReasonToOutcome', () => {
+    it('maps Ultravox end reasons to attempt outcomes', () => {
+      expect(endReasonToOutcome('hangup')).toBe('completed');
+      expect(endReasonToOutcome('agent_hangup')).toBe('completed');
+      expect(endReasonToOutcome('unjoined')).toBe('no-answer');
+      expect(endReasonToOutcome('timeout')).toBe('no-answer');
+      expect(endReasonToOutcome('connection_error')).toBe('connection_error');
+      expect(endReasonToOutcome('system_error')).toBe('failed');
+      expect(endReasonToOutcome(undefined)).toBe('completed');
+    });
+  });
+
+  describe('computeBilledDuration', () => {
+    it('keeps a non-zero reported duration', () => {
+      expect(computeBilledDuration(30, '2m')).toBe('2m');
+    });
+
+    it('bills started minutes with a one minute minimum', () => {
+      expect(computeBilledDuration(1, '0s')).toBe('1m');
+      expect(computeBilledDuration(60)).toBe('1m');
+      expect(computeBilledDuration(61)).toBe('2m');
+    });
+
+    it('bills nothing for a call without a duration', () => {
+      expect(computeBilledDuration(0)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import type { CallStatus } from '../call-history/call-history.schema';
+import type {
+  CallAttemptOutcome,
+  CampaignContact,
+} from '../campaign/campaign.schema';
+
+export type ContactCallStatus = CampaignContact['callStatus'];
+
+// Who reported a call status change
+export type CallEventSource =
+  | 'talkrix'
+  | 'twilio'
+  | 'plivo'
+  | 'telnyx'
+  | 'api'
+  | 'scheduler'
+  | 'reconciler'
+  | 'system';
+
+/**
+ * CallHistory.status graph - a call only moves forward, terminal states are final
+ * (a late 'in-progress' can never overwrite 'completed')
+ */
+export const CALL_STATUS_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  initiated: ['in-progress', 'completed', 'missed', 'voicemail', 'failed'],
+  'in-progress': ['completed', 'missed', 'voicemail', 'failed'],
+  completed: [],
+  missed: [],
+  voicemail: [],
+  failed: [],
+};
+
+/**
+ * CampaignContact.callStatus graph
+ * Finished contacts can only be re-queued (retry policy, resume, manual edit) -
+ * failed contacts may also be dialled again directly by on-demand triggers
+ */
+export const CONTACT_STATUS_TRANSITIONS: Record<
+  ContactCallStatus,
+  ContactCallStatus[]
+> = {
+  pending: ['in-progress', 'failed'],
+  'in-progress': ['completed', 'failed', 'no-answer', 'voicemail', 'pending'],
+  failed: ['pending', 'in-progress'],
+  'no-answer': ['pending'],
+  voicemail: ['pending'],
+  completed: ['pending'],
+};
+
+export function canTransition<S extends string>(
+  graph: Record<S, S[]>,
+  from: S,
+  to: S,
+): boolean {
+  return graph[from]?.includes(to) ?? false;
+}
+
+// States a record may be in for a move to `to` to be accepted
+export function statusesLeadingTo<S extends string>(
+  graph: Record<S, S[]>,
+  to: S,
+): S[] {
+  return (Object.keys(graph) as S[]).filter((from) => graph[from].includes(to));
+}
+
+export function isFinalCallStatus(status: CallStatus): boolean {
+  return CALL_STATUS_TRANSITIONS[status].length === 0;
+}
+
+// CallHistory status for the outcome of an ended call
+export function outcomeToCallStatus(outcome: CallAttemptOutcome): CallStatus {
+  switch (outcome) {
+    case 'completed':
+      return 'completed';
+    case 'no-answer':
+      return 'missed';
+    case 'voicemail':
+      return 'voicemail';
+    default:
+      return 'failed';
+  }
+}
+
+// Attempt outcome for an Ultravox call end reason - hangup and agent_hangup count as completed
+export function endReasonToOutcome(endReason?: string): CallAttemptOutcome {
+  switch (endReason) {
+    case 'unjoined':
+    case 'timeout':
+      return 'no-answer';
+    case 'connection_error':
+      return 'connection_error';
+    case 'system_error':
+      return 'failed';
+    default:
+      return 'completed';
+  }
+}
+
+/**
+ * Billed duration of an ended call
+ * A non-zero duration reported by Ultravox or the carrier wins; otherwise any call with
+ * a duration is billed per started minute with a one minute minimum
+ */
+export function computeBilledDuration(
+  durationSeconds: number,
+  reported?: string,
+): string | undefined {
+  if (reported && reported !== '0s' && reported !== '0') {
+    return reported;
+  }
+  if (durationSeconds > 0) {
+    return `${Math.max(1, Math.ceil(durationSeconds / 60))}m`;
+  }
+  return undefined;
+}
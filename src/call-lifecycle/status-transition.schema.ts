@@ -0,0 +1,20 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// One accepted status change, kept on call history records and campaign contacts
+@Schema({ _id: false })
+export class StatusTransition {
+  @Prop()
+  from?: string;
+
+  @Prop({ required: true })
+  to: string;
+
+  @Prop({ required: true })
+  at: Date;
+
+  @Prop({ required: true })
+  source: string; // CallEventSource that reported the change
+}
+
+export const StatusTransitionSchema =
+  SchemaFactory.createForClass(StatusTransition);
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Daily usage of one of a user's caller IDs, shared by every campaign whose pool holds the number
+ * callsToday counts the calls of usageDate (UTC) and restarts on the first call of a new day
+ */
+@Schema({ timestamps: true })
+export class CallerIdUsage extends Document {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  phoneNumber: string; // E.164
+
+  @Prop()
+  usageDate?: string; // YYYY-MM-DD (UTC) that callsToday belongs to
+
+  @Prop({ default: 0 })
+  callsToday: number;
+
+  @Prop()
+  lastUsedAt?: Date;
+
+  @Prop({ default: 0 })
+  totalCalls: number;
+}
+
+export const CallerIdUsageSchema = SchemaFactory.createForClass(CallerIdUsage);
+
+CallerIdUsageSchema.index({ userId: 1, phoneNumber: 1 }, { unique: true });
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CallerIdUsage, CallerIdUsageSchema } from './caller-id-usage.schema';
+import { Campaign, CampaignSchema } from '../campaign/campaign.schema';
+import { CallerIdService } from './caller-id.service';
+import { SharedModule } from '../shared.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CallerIdUsage.name, schema: CallerIdUsageSchema },
+      { name: Campaign.name, schema: CampaignSchema },
+    ]),
+    SharedModule,
+  ],
+  providers: [CallerIdService],
+  exports: [CallerIdService],
+})
+export class CallerIdModule {}
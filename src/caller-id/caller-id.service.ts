@@ -0,0 +1,198 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, mongo } from 'mongoose';
+import { CallerIdUsage } from './caller-id-usage.schema';
+import { Campaign } from '../campaign/campaign.schema';
+import {
+  CallerIdUsageSnapshot,
+  getUsageDate,
+  orderCallerIds,
+} from './caller-id.util';
+import { AppLogger } from '../app.logger';
+
+/**
+ * Picks the caller ID of each outbound campaign call
+ * Campaigns without a callerIdPool always call from outboundPhoneNumber. Pool numbers are
+ * reserved atomically against their daily cap and cooldown, so instances placing calls at
+ * the same time cannot push a number past its limits.
+ */
+@Injectable()
+export class CallerIdService {
+  constructor(
+    @InjectModel(CallerIdUsage.name)
+    private callerIdUsageModel: Model<CallerIdUsage>,
+    @InjectModel(Campaign.name) private campaignModel: Model<Campaign>,
+    private readonly logger: AppLogger,
+  ) {}
+
+  // Whether the campaign has a number to call from
+  hasCallerId(campaign: Campaign): boolean {
+    return (
+      !!campaign.outboundPhoneNumber || !!campaign.callerIdPool?.numbers?.length
+    );
+  }
+
+  /**
+   * Reserve the caller ID for a call to contactPhone
+   * Returns null when every pool number is at its daily cap or cooling down
+   */
+  async selectCallerId(
+    campaign: Campaign,
+    contactPhone: string,
+  ): Promise<string | null> {
+    const pool = campaign.callerIdPool;
+    if (!pool?.numbers?.length) {
+      return campaign.outboundPhoneNumber || null;
+    }
+
+    const now = new Date();
+    const usage = await this.getUsage(campaign.userId, pool.numbers);
+    // Read the rotation position fresh - the campaign passed in may be older than the last call
+    const lastCallerId =
+      pool.strategy === 'round-robin'
+        ? (
+            await this.campaignModel
+              .findById(campaign._id)
+              .select('lastCallerId')
+              .lean()
+              .exec()
+          )?.lastCallerId
+        : undefined;
+    const candidates = orderCallerIds(pool, usage, {
+      contactPhone,
+      lastCallerId,
+      now,
+    });
+
+    for (const phoneNumber of candidates) {
+      if (await this.reserve(campaign, phoneNumber, now)) {
+        if (pool.strategy === 'round-robin') {
+          await this.campaignModel
+            .updateOne(
+              { _id: campaign._id },
+              { $set: { lastCallerId: phoneNumber } },
+            )
+            .exec();
+        }
+        return phoneNumber;
+      }
+    }
+
+    this.logger.log(
+      `Campaign ${campaign._id.toString()}: no caller ID available (${pool.numbers.length} numbers at their daily cap or cooling down)`,
+    );
+    return null;
+  }
+
+  // Give back a reserved call when the call could not be placed (the cooldown stays)
+  async releaseCallerId(
+    campaign: Campaign,
+    phoneNumber: string,
+  ): Promise<void> {
+    if (!campaign.callerIdPool?.numbers?.includes(phoneNumber)) return;
+
+    await this.callerIdUsageModel
+      .updateOne(
+        {
+          userId: campaign.userId,
+          phoneNumber,
+          usageDate: getUsageDate(),
+          callsToday: { $gt: 0 },
+        },
+        { $inc: { callsToday: -1, totalCalls: -1 } },
+      )
+      .exec();
+  }
+
+  async getUsage(
+    userId: string,
+    numbers: string[],
+  ): Promise<Map<string, CallerIdUsageSnapshot>> {
+    const records = await this.callerIdUsageModel
+      .find({ userId, phoneNumber: { $in: numbers } })
+      .select('phoneNumber usageDate callsToday lastUsedAt')
+      .lean()
+      .exec();
+    return new Map(
+      records.map((r) => [
+        r.phoneNumber,
+        {
+          usageDate: r.usageDate,
+          callsToday: r.callsToday,
+          lastUsedAt: r.lastUsedAt,
+        },
+      ]),
+    );
+  }
+
+  // Count a call against the number if it is still below its cap and out of its cooldown
+  private async reserve(
+    campaign: Campaign,
+    phoneNumber: string,
+    now: Date,
+  ): Promise<boolean> {
+    const { userId } = campaign;
+    const { dailyCallCap, cooldownSeconds } = campaign.callerIdPool!;
+    const today = getUsageDate(now);
+
+    await this.callerIdUsageModel
+      .updateOne(
+        { userId, phoneNumber },
+        { $setOnInsert: { callsToday: 0, totalCalls: 0 } },
+        { upsert: true },
+      )
+      .exec()
+      .catch((err) => {
+        // Another instance created the record first
+        if (!(err instanceof mongo.MongoServerError && err.code === 11000)) {
+          throw err;
+        }
+      });
+
+    const conditions: Record<string, any>[] = [];
+    if (dailyCallCap) {
+      conditions.push({
+        $or: [
+          { usageDate: { $ne: today } },
+          { callsToday: { $lt: dailyCallCap } },
+        ],
+      });
+    }
+    if (cooldownSeconds) {
+      const cooledDownAt = new Date(now.getTime() - cooldownSeconds * 1000);
+      conditions.push({
+        $or: [
+          { lastUsedAt: { $exists: false } },
+          { lastUsedAt: { $lte: cooledDownAt } },
+        ],
+      });
+    }
+
+    const result = await this.callerIdUsageModel
+      .updateOne(
+        {
+          userId,
+          phoneNumber,
+          ...(conditions.length > 0 ? { $and: conditions } : {}),
+        },
+        [
+          {
+            $set: {
+              callsToday: {
+                $cond: [
+                  { $eq: ['$usageDate', today] },
+                  { $add: ['$callsToday', 1] },
+                  1,
+                ],
+              },
+              usageDate: today,
+              lastUsedAt: now,
+              totalCalls: { $add: [{ $ifNull: ['$totalCalls', 0] }, 1] },
+            },
+          },
+        ],
+      )
+      .exec();
+    return result.modifiedCount === 1;
+  }
+}
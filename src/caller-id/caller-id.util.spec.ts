@@ -0,0 +1,193 @@
+import { CampaignCallerIdPool } from '../campaign/campaign.schema';
+import {
+  CallerIdUsageSnapshot,
+  getLocalPresenceScore,
+  isCallerIdAvailable,
+  orderCallerIds,
+} from './caller-id.util';
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+const TODAY = '2026-03-10';
+
+const NEW_YORK = '+12125551234';
+const NEW_YORK_OTHER_EXCHANGE = '+12128881234';
+const LOS_ANGELES = '+13105551234';
+const TORONTO = '+14165551234';
+const LONDON = '+442071234567';
+
+function buildPool(
+  overrides: Partial<CampaignCallerIdPool> = {},
+): CampaignCallerIdPool {
+  return {
+    numbers: ['+15550000001', '+15550000002', '+15550000003'],
+    strategy: 'round-robin',
+    ...overrides,
+  };
+}
+
+describe('caller-id.util', () => {
+  describe('isCallerIdAvailable', () => {
+    it('accepts a number without cap, cooldown or usage', () => {
+      expect(isCallerIdAvailable(buildPool(), undefined, NOW)).toBe(true);
+    });
+
+    it('rejects a number that has reached its daily cap', () => {
+      const pool = buildPool({ dailyCallCap: 2 });
+
+      expect(
+        isCallerIdAvailable(pool, { usageDate: TODAY, callsToday: 1 }, NOW),
+      ).toBe(true);
+      expect(
+        isCallerIdAvailable(pool, { usageDate: TODAY, callsToday: 2 }, NOW),
+      ).toBe(false);
+    });
+
+    it('counts the cap again on a new day', () => {
+      const pool = buildPool({ dailyCallCap: 2 });
+
+      expect(
+        isCallerIdAvailable(
+          pool,
+          { usageDate: '2026-03-09', callsToday: 5 },
+          NOW,
+        ),
+      ).toBe(true);
+    });
+
+    it('rejects a number that is still cooling down', () => {
+      const pool = buildPool({ cooldownSeconds: 60 });
+
+      expect(
+        isCallerIdAvailable(
+          pool,
+          { callsToday: 0, lastUsedAt: new Date(NOW.getTime() - 30_000) },
+          NOW,
+        ),
+      ).toBe(false);
+      expect(
+        isCallerIdAvailable(
+          pool,
+          { callsToday: 0, lastUsedAt: new Date(NOW.getTime() - 60_000) },
+          NOW,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('getLocalPresenceScore', () => {
+    it('ranks the same country above the same calling code only', () => {
+      const sameCountry = getLocalPresenceScore(LOS_ANGELES, NEW_YORK);
+      const sameCallingCode = getLocalPresenceScore(TORONTO, NEW_YORK);
+
+      expect(sameCallingCode).toBe(1);
+      expect(sameCountry).toBeGreaterThan(sameCallingCode);
+    });
+
+    it('ranks a shared area code above another area code', () => {
+      expect(
+        getLocalPresenceScore(NEW_YORK_OTHER_EXCHANGE, NEW_YORK),
+      ).toBeGreaterThan(getLocalPresenceScore(LOS_ANGELES, NEW_YORK));
+    });
+
+    it('ranks a shared exchange above a shared area code', () => {
+      expect(getLocalPresenceScore('+12125559876', NEW_YORK)).toBeGreaterThan(
+        getLocalPresenceScore(NEW_YORK_OTHER_EXCHANGE, NEW_YORK),
+      );
+    });
+
+    it('scores another calling code or an unparsable number as 0', () => {
+      expect(getLocalPresenceScore(LONDON, NEW_YORK)).toBe(0);
+      expect(getLocalPresenceScore(NEW_YORK, 'not a number')).toBe(0);
+    });
+  });
+
+  describe('orderCallerIds', () => {
+    const [first, second, third] = buildPool().numbers;
+
+    it('starts round-robin with the first number', () => {
+      expect(orderCallerIds(buildPool(), new Map(), { now: NOW })).toEqual([
+        first,
+        second,
+        third,
+      ]);
+    });
+
+    it('continues round-robin after the last caller ID and wraps around', () => {
+      expect(
+        orderCallerIds(buildPool(), new Map(), {
+          lastCallerId: second,
+          now: NOW,
+        }),
+      ).toEqual([third, first, second]);
+      expect(
+        orderCallerIds(buildPool(), new Map(), {
+          lastCallerId: third,
+          now: NOW,
+        }),
+      ).toEqual([first, second, third]);
+    });
+
+    it('leaves out capped and cooling-down numbers', () => {
+      const pool = buildPool({ dailyCallCap: 3, cooldownSeconds: 60 });
+      const usage = new Map<string, CallerIdUsageSnapshot>([
+        [first, { usageDate: TODAY, callsToday: 3 }],
+        [
+          second,
+          {
+            usageDate: TODAY,
+            callsToday: 1,
+            lastUsedAt: new Date(NOW.getTime() - 10_000),
+          },
+        ],
+      ]);
+
+      expect(orderCallerIds(pool, usage, { now: NOW })).toEqual([third]);
+      expect(
+        orderCallerIds({ ...pool, strategy: 'least-used-today' }, usage, {
+          now: NOW,
+        }),
+      ).toEqual([third]);
+    });
+
+    it('orders least-used-today by calls today, keeping pool order for ties', () => {
+      const usage = new Map<string, CallerIdUsageSnapshot>([
+        [first, { usageDate: TODAY, callsToday: 4 }],
+        [second, { usageDate: TODAY, callsToday: 1 }],
+        [third, { usageDate: '2026-03-09', callsToday: 9 }],
+      ]);
+
+      expect(
+        orderCallerIds(buildPool({ strategy: 'least-used-today' }), usage, {
+          now: NOW,
+        }),
+      ).toEqual([third, second, first]);
+    });
+
+    it('orders local-presence by closeness to the contact', () => {
+      const pool = buildPool({
+        strategy: 'local-presence',
+        numbers: [LONDON, TORONTO, LOS_ANGELES, NEW_YORK_OTHER_EXCHANGE],
+      });
+      const usage = new Map<string, CallerIdUsageSnapshot>();
+
+      expect(
+        orderCallerIds(pool, usage, { contactPhone: NEW_YORK, now: NOW }),
+      ).toEqual([NEW_YORK_OTHER_EXCHANGE, LOS_ANGELES, TORONTO, LONDON]);
+    });
+
+    it('breaks local-presence ties by calls today', () => {
+      const otherLosAngeles = '+13105559876';
+      const pool = buildPool({
+        strategy: 'local-presence',
+        numbers: [LOS_ANGELES, otherLosAngeles],
+      });
+      const usage = new Map<string, CallerIdUsageSnapshot>([
+        [LOS_ANGELES, { usageDate: TODAY, callsToday: 2 }],
+      ]);
+
+      expect(
+        orderCallerIds(pool, usage, { contactPhone: NEW_YORK, now: NOW }),
+      ).toEqual([otherLosAngeles, LOS_ANGELES]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import {
+  CallerIdStrategy,
+  CampaignCallerIdPool,
+} from '../campaign/campaign.schema';
+
+export const CALLER_ID_STRATEGIES: CallerIdStrategy[] = [
+  'round-robin',
+  'least-used-today',
+  'local-presence',
+];
+
+// Usage of a pool number as last read from the database
+export interface CallerIdUsageSnapshot {
+  usageDate?: string;
+  callsToday: number;
+  lastUsedAt?: Date;
+}
+
+// Day (UTC) daily caps are counted for
+export function getUsageDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function getCallsToday(
+  usage: CallerIdUsageSnapshot | undefined,
+  now: Date = new Date(),
+): number {
+  return usage && usage.usageDate === getUsageDate(now) ? usage.callsToday : 0;
+}
+
+// Whether a number is below its daily cap and out of its cooldown
+export function isCallerIdAvailable(
+  pool: CampaignCallerIdPool,
+  usage: CallerIdUsageSnapshot | undefined,
+  now: Date = new Date(),
+): boolean {
+  if (pool.dailyCallCap && getCallsToday(usage, now) >= pool.dailyCallCap)
+    return false;
+  if (
+    pool.cooldownSeconds &&
+    usage?.lastUsedAt &&
+    now.getTime() - usage.lastUsedAt.getTime() < pool.cooldownSeconds * 1000
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * How close a caller ID is to the contact's number - higher is closer
+ * Numbers of the same country rank above numbers that only share the calling code (e.g. US and CA),
+ * then by the leading digits of the national number they share (area code, then exchange)
+ */
+export function getLocalPresenceScore(
+  callerId: string,
+  contactPhone: string,
+): number {
+  const from = parsePhoneNumberFromString(callerId);
+  const to = parsePhoneNumberFromString(contactPhone);
+  if (!from || !to || from.countryCallingCode !== to.countryCallingCode)
+    return 0;
+  if (!from.country || from.country !== to.country) return 1;
+
+  let shared = 0;
+  while (
+    shared < from.nationalNumber.length &&
+    from.nationalNumber[shared] === to.nationalNumber[shared]
+  ) {
+    shared++;
+  }
+  return 2 + shared;
+}
+
+/**
+ * Pool numbers in the order they should be tried for a call, leaving out capped and cooling-down numbers
+ * - round-robin: the numbers after lastCallerId in pool order, wrapping around
+ * - least-used-today: fewest calls today first
+ * - local-presence: closest to the contact first, then fewest calls today
+ * Ties keep pool order.
+ */
+export function orderCallerIds(
+  pool: CampaignCallerIdPool,
+  usage: Map<string, CallerIdUsageSnapshot>,
+  options: { contactPhone?: string; lastCallerId?: string; now?: Date } = {},
+): string[] {
+  const now = options.now || new Date();
+  const available = pool.numbers.filter((number) =>
+    isCallerIdAvailable(pool, usage.get(number), now),
+  );
+  const callsToday = (number: string) => getCallsToday(usage.get(number), now);
+
+  switch (pool.strategy) {
+    case 'least-used-today':
+      return [...available].sort((a, b) => callsToday(a) - callsToday(b));
+    case 'local-presence': {
+      const contactPhone = options.contactPhone || '';
+      const scores = new Map(
+        available.map((number) => [
+          number,
+          getLocalPresenceScore(number, contactPhone),
+        ]),
+      );
+      return [...available].sort(
+        (a, b) =>
+          scores.get(b)! - scores.get(a)! || callsToday(a) - callsToday(b),
+      );
+    }
+    default: {
+      const lastIndex = options.lastCallerId
+        ? pool.numbers.indexOf(options.lastCallerId)
+        : -1;
+      const rotated = [
+        ...pool.numbers.slice(lastIndex + 1),
+        ...pool.numbers.slice(0, lastIndex + 1),
+      ];
+      return rotated.filter((number) => available.includes(number));
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// Outcome the agent recorded for a call, kept on call history records and campaign contacts
+@Schema({ _id: false })
+export class CallDisposition {
+  @Prop({ required: true })
+  outcome: string; // One of the campaign's disposition outcomes
+
+  @Prop({ type: Object })
+  fields?: Record<string, any>; // Values of the campaign's disposition fields, converted to their types
+
+  @Prop()
+  notes?: string;
+
+  @Prop()
+  callId?: string; // Ultravox/Talkrix call the outcome was recorded on
+
+  @Prop({ required: true })
+  recordedAt: Date;
+}
+
+export const CallDispositionSchema =
+  SchemaFactory.createForClass(CallDisposition);
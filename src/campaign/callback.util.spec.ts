@@ -0,0 +1,96 @@
+import { formatCallbackTime, parseCallbackTime } from './callback.util';
+
+// Wednesday 11 March 2026, 15:30 in Asia/Kolkata (UTC+5:30)
+const NOW = new Date('2026-03-11T10:00:00.000Z');
+
+function scheduledAt(
+  input: string,
+  timezone = 'Asia/Kolkata',
+): string | undefined {
+  return parseCallbackTime(input, timezone, NOW).scheduledAt?.toISOString();
+}
+
+describe('callback.util', () => {
+  describe('parseCallbackTime', () => {
+    it('reads a local date and time in the contact timezone', () => {
+      expect(scheduledAt('2026-03-14 16:00')).toBe('2026-03-14T10:30:00.000Z');
+      expect(scheduledAt('2026-03-14T4:30 pm')).toBe(
+        '2026-03-14T11:00:00.000Z',
+      );
+    });
+
+    it('reads today and tomorrow', () => {
+      expect(scheduledAt('today 16:00')).toBe('2026-03-11T10:30:00.000Z');
+      expect(scheduledAt('Tomorrow at 4pm')).toBe('2026-03-12T10:30:00.000Z');
+    });
+
+    it('reads the next such weekday', () => {
+      expect(scheduledAt('friday 10:30am')).toBe('2026-03-13T05:00:00.000Z');
+      expect(scheduledAt('wednesday 4pm')).toBe('2026-03-11T10:30:00.000Z');
+      // Today's time has passed - the same weekday next week
+      expect(scheduledAt('wednesday 3pm')).toBe('2026-03-18T09:30:00.000Z');
+    });
+
+    it('reads a relative time', () => {
+      expect(scheduledAt('in 2 hours')).toBe('2026-03-11T12:00:00.000Z');
+      expect(scheduledAt('in 1 day')).toBe('2026-03-12T10:00:00.000Z');
+    });
+
+    it('reads an ISO 8601 time with an offset as is', () => {
+      expect(scheduledAt('2026-03-12T09:00:00+01:00')).toBe(
+        '2026-03-12T08:00:00.000Z',
+      );
+      expect(scheduledAt('2026-03-12T09:00:00Z', 'America/New_York')).toBe(
+        '2026-03-12T09:00:00.000Z',
+      );
+    });
+
+    it('follows the daylight saving time of the contact timezone', () => {
+      // New York moved to UTC-4 on 8 March 2026
+      expect(scheduledAt('tomorrow 9:00', 'America/New_York')).toBe(
+        '2026-03-12T13:00:00.000Z',
+      );
+    });
+
+    it('rejects a time it does not understand', () => {
+      expect(parseCallbackTime('', 'Asia/Kolkata', NOW).error).toBe(
+        'No callback time was given.',
+      );
+      expect(parseCallbackTime('soon', 'Asia/Kolkata', NOW).error).toContain(
+        'was not understood',
+      );
+      expect(
+        parseCallbackTime('tomorrow 4', 'Asia/Kolkata', NOW).error,
+      ).toContain('was not understood');
+      expect(
+        parseCallbackTime('today 25:00', 'Asia/Kolkata', NOW).error,
+      ).toContain('was not understood');
+    });
+
+    it('rejects a time in the past or too far ahead', () => {
+      expect(parseCallbackTime('today 9:00', 'Asia/Kolkata', NOW).error).toBe(
+        'The callback time is in the past.',
+      );
+      expect(parseCallbackTime('in 91 days', 'Asia/Kolkata', NOW).error).toBe(
+        'The callback time can be at most 90 days ahead.',
+      );
+    });
+
+    it('names the time in error messages', () => {
+      expect(
+        parseCallbackTime('today 9:00', 'Asia/Kolkata', NOW, 'run').error,
+      ).toBe('The run time is in the past.');
+    });
+  });
+
+  describe('formatCallbackTime', () => {
+    it('shows the time in the contact timezone', () => {
+      expect(
+        formatCallbackTime(
+          new Date('2026-03-14T10:30:00.000Z'),
+          'Asia/Kolkata',
+        ),
+      ).toContain('14 Mar 2026, 16:00 (Asia/Kolkata)');
+    });
+  });
+});
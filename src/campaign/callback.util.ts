@@ -0,0 +1,143 @@
+import { getZonedDateParts, zonedTimeToUtc } from './campaign-schedule.util';
+
+// Callbacks further out than this are rejected (a typo in the year should not park a contact)
+export const MAX_CALLBACK_DAYS = 90;
+
+// Time formats scheduleCallback accepts, read back to the agent when a time is not understood
+export const CALLBACK_TIME_FORMATS =
+  '"2026-03-14 16:00", "today 16:00", "tomorrow 4pm", "friday 10:30am" or "in 2 hours" (local time), ' +
+  'or an ISO 8601 time with an offset';
+
+const WEEKDAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+// Read "16:00", "4pm", "4:30 pm" as minutes since midnight - null when not a time
+function parseClockTime(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (!match[2] || hours > 23) {
+    return null; // A bare number is not a time
+  }
+  return hours * 60 + minutes;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .substring(0, 10);
+}
+
+/**
+ * Read a callback time the agent passed on, in the contact's timezone
+ * Accepts a local date and time, today/tomorrow/a weekday with a time, "in N minutes/hours/days"
+ * or an ISO 8601 time with an offset. The time must be in the future and within MAX_CALLBACK_DAYS.
+ * `label` names the time in error messages (scheduled calls read their run time with this too).
+ */
+export function parseCallbackTime(
+  input: string,
+  timezone: string,
+  now: Date = new Date(),
+  label: string = 'callback',
+): { scheduledAt?: Date; error?: string } {
+  const text = String(input ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^at /, '');
+  if (!text) {
+    return { error: `No ${label} time was given.` };
+  }
+
+  let scheduledAt: Date | null = null;
+  const today = getZonedDateParts(timezone, now).date;
+
+  const relative = text.match(/^in (\d+) (minute|hour|day)s?$/);
+  const localDateTime = text.match(/^(\d{4}-\d{2}-\d{2})[ t](.+)$/);
+  const namedDay = text.match(
+    /^(today|tomorrow|sunday|monday|tuesday|wednesday|thursday|friday|saturday)(?: at)? (.+)$/,
+  );
+
+  if (relative) {
+    const unitMs = {
+      minute: 60 * 1000,
+      hour: 60 * 60 * 1000,
+      day: 24 * 60 * 60 * 1000,
+    }[relative[2] as 'minute' | 'hour' | 'day'];
+    scheduledAt = new Date(now.getTime() + Number(relative[1]) * unitMs);
+  } else if (/(z|[+-]\d{2}:?\d{2})$/.test(text) && !isNaN(Date.parse(input))) {
+    scheduledAt = new Date(input);
+  } else if (localDateTime) {
+    const minuteOfDay = parseClockTime(localDateTime[2]);
+    if (minuteOfDay !== null && !isNaN(Date.parse(localDateTime[1]))) {
+      scheduledAt = zonedTimeToUtc(localDateTime[1], minuteOfDay, timezone);
+    }
+  } else if (namedDay) {
+    const minuteOfDay = parseClockTime(namedDay[2]);
+    if (minuteOfDay !== null) {
+      let date = today;
+      if (namedDay[1] === 'tomorrow') {
+        date = addDays(today, 1);
+      } else if (namedDay[1] !== 'today') {
+        // The next such weekday - today only if the time is still ahead
+        const todayWeekday = getZonedDateParts(timezone, now).weekday;
+        let days = (WEEKDAY_NAMES.indexOf(namedDay[1]) - todayWeekday + 7) % 7;
+        if (days === 0 && zonedTimeToUtc(today, minuteOfDay, timezone) <= now)
+          days = 7;
+        date = addDays(today, days);
+      }
+      scheduledAt = zonedTimeToUtc(date, minuteOfDay, timezone);
+    }
+  }
+
+  if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+    return {
+      error: `The ${label} time "${input}" was not understood. Use ${CALLBACK_TIME_FORMATS}.`,
+    };
+  }
+  if (scheduledAt <= now) {
+    return { error: `The ${label} time is in the past.` };
+  }
+  if (
+    scheduledAt.getTime() - now.getTime() >
+    MAX_CALLBACK_DAYS * 24 * 60 * 60 * 1000
+  ) {
+    return {
+      error: `The ${label} time can be at most ${MAX_CALLBACK_DAYS} days ahead.`,
+    };
+  }
+  return { scheduledAt };
+}
+
+// A callback time as the contact would say it, e.g. "Fri, 14 Mar 2026, 16:00 (Asia/Kolkata)"
+export function formatCallbackTime(
+  scheduledAt: Date,
+  timezone: string,
+): string {
+  const local = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  }).format(scheduledAt);
+  return `${local} (${timezone})`;
+}
@@ -0,0 +1,125 @@
+import {
+  CampaignSlotState,
+  buildCampaignSlotState,
+  getGuaranteedCalls,
+  pickNextCampaign,
+} from './campaign-concurrency.util';
+
+function slotState(
+  state: Partial<CampaignSlotState> & { campaignId: string },
+): CampaignSlotState {
+  return { priority: 0, guaranteedCalls: 0, activeCalls: 0, ...state };
+}
+
+describe('campaign-concurrency.util', () => {
+  describe('getGuaranteedCalls', () => {
+    it('guarantees whole slots of the user limit', () => {
+      expect(getGuaranteedCalls(10, { priority: 0, minSharePercent: 25 })).toBe(
+        2,
+      );
+      expect(getGuaranteedCalls(3, { priority: 0, minSharePercent: 50 })).toBe(
+        1,
+      );
+      expect(getGuaranteedCalls(10, undefined)).toBe(0);
+    });
+
+    it('never guarantees more than the campaign cap', () => {
+      expect(
+        getGuaranteedCalls(10, {
+          priority: 0,
+          minSharePercent: 80,
+          maxConcurrentCalls: 3,
+        }),
+      ).toBe(3);
+    });
+  });
+
+  describe('buildCampaignSlotState', () => {
+    it('defaults to priority 0 without a cap', () => {
+      expect(buildCampaignSlotState('a', 10, undefined, 2)).toEqual({
+        campaignId: 'a',
+        priority: 0,
+        maxConcurrentCalls: undefined,
+        guaranteedCalls: 0,
+        activeCalls: 2,
+      });
+    });
+  });
+
+  describe('pickNextCampaign', () => {
+    it('fills a guaranteed share before a higher priority campaign', () => {
+      const campaigns = [
+        slotState({ campaignId: 'urgent', priority: 10 }),
+        slotState({
+          campaignId: 'reserved',
+          guaranteedCalls: 2,
+          activeCalls: 1,
+        }),
+      ];
+
+      expect(pickNextCampaign(campaigns)?.campaignId).toBe('reserved');
+    });
+
+    it('gives the largest shortfall first among equal priorities', () => {
+      const campaigns = [
+        slotState({ campaignId: 'a', guaranteedCalls: 2, activeCalls: 1 }),
+        slotState({ campaignId: 'b', guaranteedCalls: 3, activeCalls: 0 }),
+      ];
+
+      expect(pickNextCampaign(campaigns)?.campaignId).toBe('b');
+    });
+
+    it('picks the highest priority once every share is filled', () => {
+      const campaigns = [
+        slotState({
+          campaignId: 'low',
+          priority: 1,
+          guaranteedCalls: 1,
+          activeCalls: 1,
+        }),
+        slotState({ campaignId: 'high', priority: 5, activeCalls: 4 }),
+      ];
+
+      expect(pickNextCampaign(campaigns)?.campaignId).toBe('high');
+    });
+
+    it('lets equal campaigns take turns', () => {
+      const campaigns = [
+        slotState({ campaignId: 'a', activeCalls: 2 }),
+        slotState({ campaignId: 'b', activeCalls: 1 }),
+      ];
+
+      expect(pickNextCampaign(campaigns)?.campaignId).toBe('b');
+    });
+
+    it('skips capped and exhausted campaigns', () => {
+      const campaigns = [
+        slotState({
+          campaignId: 'capped',
+          priority: 5,
+          maxConcurrentCalls: 2,
+          activeCalls: 2,
+        }),
+        slotState({ campaignId: 'empty', priority: 3 }),
+        slotState({ campaignId: 'open', priority: 1 }),
+      ];
+
+      expect(pickNextCampaign(campaigns, new Set(['empty']))?.campaignId).toBe(
+        'open',
+      );
+    });
+
+    it('returns null when no campaign can take a slot', () => {
+      const campaigns = [
+        slotState({
+          campaignId: 'capped',
+          maxConcurrentCalls: 1,
+          activeCalls: 1,
+        }),
+      ];
+
+      expect(pickNextCampaign(campaigns)).toBeNull();
+      expect(pickNextCampaign([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { CampaignConcurrency } from './campaign.schema';
+
+// Slot bookkeeping for one of a user's active campaigns while free slots are handed out
+export interface CampaignSlotState {
+  campaignId: string;
+  priority: number;
+  maxConcurrentCalls?: number; // Campaign cap (undefined = only the user's limit applies)
+  guaranteedCalls: number; // Slots kept for the campaign while it has contacts to call
+  activeCalls: number; // Calls the campaign currently holds slots for
+}
+
+/**
+ * Whole slots of the user's limit guaranteed to a campaign
+ * Never more than the campaign's own cap
+ */
+export function getGuaranteedCalls(
+  userMaxConcurrentCalls: number,
+  concurrency?: CampaignConcurrency,
+): number {
+  const percent = concurrency?.minSharePercent || 0;
+  const guaranteed = Math.floor((userMaxConcurrentCalls * percent) / 100);
+  return concurrency?.maxConcurrentCalls
+    ? Math.min(guaranteed, concurrency.maxConcurrentCalls)
+    : guaranteed;
+}
+
+export function buildCampaignSlotState(
+  campaignId: string,
+  userMaxConcurrentCalls: number,
+  concurrency: CampaignConcurrency | undefined,
+  activeCalls: number,
+): CampaignSlotState {
+  return {
+    campaignId,
+    priority: concurrency?.priority || 0,
+    maxConcurrentCalls: concurrency?.maxConcurrentCalls || undefined,
+    guaranteedCalls: getGuaranteedCalls(userMaxConcurrentCalls, concurrency),
+    activeCalls,
+  };
+}
+
+/**
+ * Pick the campaign that should get the next free slot
+ * 1. Campaigns below their guaranteed share (highest priority, then largest shortfall)
+ * 2. Otherwise the highest priority campaign below its cap
+ * Ties go to the campaign with the fewest active calls, so equal campaigns take turns.
+ * Returns null when every campaign is capped or has nothing left to call (`exhausted`).
+ */
+export function pickNextCampaign(
+  campaigns: CampaignSlotState[],
+  exhausted: Set<string> = new Set(),
+): CampaignSlotState | null {
+  const candidates = campaigns.filter(
+    (c) =>
+      !exhausted.has(c.campaignId) &&
+      (c.maxConcurrentCalls === undefined ||
+        c.activeCalls < c.maxConcurrentCalls),
+  );
+  if (candidates.length === 0) return null;
+
+  const shortfall = (c: CampaignSlotState) =>
+    Math.max(0, c.guaranteedCalls - c.activeCalls);
+  const belowGuarantee = candidates.filter((c) => shortfall(c) > 0);
+  const pool = belowGuarantee.length > 0 ? belowGuarantee : candidates;
+
+  return pool.reduce((best, c) => {
+    if (c.priority !== best.priority)
+      return c.priority > best.priority ? c : best;
+    if (shortfall(c) !== shortfall(best))
+      return shortfall(c) > shortfall(best) ? c : best;
+    return c.activeCalls < best.activeCalls ? c : best;
+  });
+}
@@ -0,0 +1,221 @@
+import { CampaignSchedule } from './campaign.schema';
+import {
+  getZonedDateParts,
+  hasScheduleEnded,
+  isRecurringSchedule,
+  isWithinCallingWindow,
+  isWithinContactLocalHours,
+  zonedTimeToUtc,
+} from './campaign-schedule.util';
+
+// Weekdays 09:00 - 17:00 and Saturday evenings until 02:00 in New York (UTC-4 in June)
+const schedule: CampaignSchedule = {
+  scheduledDate: new Date('2026-06-15'),
+  endDate: new Date('2026-06-30'),
+  timezone: 'America/New_York',
+  callingWindows: [
+    { days: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' },
+    { days: [6], startTime: '20:00', endTime: '02:00' },
+  ],
+  blackoutDates: ['2026-06-16'],
+  holidays: [{ date: '2026-06-17', name: 'Company day' }],
+};
+
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+describe('campaign-schedule.util', () => {
+  describe('getZonedDateParts', () => {
+    it('reads the local date, weekday and time', () => {
+      expect(
+        getZonedDateParts('America/New_York', at('2026-06-15T03:30:00Z')),
+      ).toEqual({ date: '2026-06-14', weekday: 0, minuteOfDay: 23 * 60 + 30 });
+    });
+
+    it('falls back to UTC for an unknown timezone', () => {
+      expect(
+        getZonedDateParts('Mars/Olympus', at('2026-06-15T03:30:00Z')),
+      ).toEqual({ date: '2026-06-15', weekday: 1, minuteOfDay: 3 * 60 + 30 });
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('follows the daylight saving time of the timezone', () => {
+      expect(zonedTimeToUtc('2026-06-15', 9 * 60, 'America/New_York')).toEqual(
+        at('2026-06-15T13:00:00Z'),
+      );
+      expect(zonedTimeToUtc('2026-01-15', 9 * 60, 'America/New_York')).toEqual(
+        at('2026-01-15T14:00:00Z'),
+      );
+    });
+  });
+
+  describe('isRecurringSchedule', () => {
+    it('is recurring only with calling windows', () => {
+      expect(isRecurringSchedule(schedule)).toBe(true);
+      expect(
+        isRecurringSchedule({ ...schedule, callingWindows: undefined }),
+      ).toBe(false);
+      expect(isRecurringSchedule(undefined)).toBe(false);
+    });
+  });
+
+  describe('isWithinCallingWindow', () => {
+    it('allows calls inside a weekday window', () => {
+      expect(isWithinCallingWindow(schedule, at('2026-06-15T14:00:00Z'))).toBe(
+        true,
+      );
+    });
+
+    it('stops at the end of the window', () => {
+      expect(isWithinCallingWindow(schedule, at('2026-06-15T21:00:00Z'))).toBe(
+        false,
+      );
+    });
+
+    it('does not call on days without a window', () => {
+      // Sunday 10:00
+      expect(isWithinCallingWindow(schedule, at('2026-06-21T14:00:00Z'))).toBe(
+        false,
+      );
+    });
+
+    it('continues a window past midnight into the next day', () => {
+      // Saturday 23:00, Sunday 01:30 and Sunday 02:30
+      expect(isWithinCallingWindow(schedule, at('2026-06-21T03:00:00Z'))).toBe(
+        true,
+      );
+      expect(isWithinCallingWindow(schedule, at('2026-06-21T05:30:00Z'))).toBe(
+        true,
+      );
+      expect(isWithinCallingWindow(schedule, at('2026-06-21T06:30:00Z'))).toBe(
+        false,
+      );
+    });
+
+    it('skips blackout dates and holidays', () => {
+      expect(isWithinCallingWindow(schedule, at('2026-06-16T14:00:00Z'))).toBe(
+        false,
+      );
+      expect(isWithinCallingWindow(schedule, at('2026-06-17T14:00:00Z'))).toBe(
+        false,
+      );
+    });
+
+    it('only calls within the date range', () => {
+      expect(isWithinCallingWindow(schedule, at('2026-06-12T14:00:00Z'))).toBe(
+        false,
+      );
+      expect(isWithinCallingWindow(schedule, at('2026-07-01T14:00:00Z'))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('hasScheduleEnded', () => {
+    it('ends after the last window of the end date', () => {
+      expect(hasScheduleEnded(schedule, at('2026-06-30T20:00:00Z'))).toBe(
+        false,
+      );
+      expect(hasScheduleEnded(schedule, at('2026-06-30T21:30:00Z'))).toBe(true);
+      expect(hasScheduleEnded(schedule, at('2026-07-01T14:00:00Z'))).toBe(true);
+    });
+
+    it('never ends without an end date', () => {
+      expect(
+        hasScheduleEnded(
+          { ...schedule, endDate: undefined },
+          at('2027-01-01T00:00:00Z'),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('isWithinContactLocalHours', () => {
+    const localHours: CampaignSchedule = {
+      ...schedule,
+      localCallingHours: { startTime: '09:00', endTime: '20:00' },
+    };
+    // 18:00 in Kolkata, 13:30 in London and 08:30 in New York
+    const now = at('2026-06-15T12:30:00Z');
+
+    it('checks the hours in the contact timezone', () => {
+      expect(
+        isWithinContactLocalHours(
+          localHours,
+          { phoneNumber: '+919876543210' },
+          now,
+        ),
+      ).toBe(true);
+      expect(
+        isWithinContactLocalHours(
+          localHours,
+          { phoneNumber: '+12125550123' },
+          now,
+        ),
+      ).toBe(false);
+    });
+
+    it('prefers the timezone stored on the contact', () => {
+      expect(
+        isWithinContactLocalHours(
+          localHours,
+          { phoneNumber: '+12125550123', timezone: 'Europe/London' },
+          now,
+        ),
+      ).toBe(true);
+    });
+
+    it('falls back to the campaign timezone for local numbers', () => {
+      expect(
+        isWithinContactLocalHours(
+          localHours,
+          { phoneNumber: '02071234567' },
+          now,
+        ),
+      ).toBe(false);
+    });
+
+    it('handles hours crossing midnight', () => {
+      const nightHours: CampaignSchedule = {
+        ...schedule,
+        localCallingHours: { startTime: '20:00', endTime: '02:00' },
+      };
+      const contact = { phoneNumber: '+12125550123' };
+
+      expect(
+        isWithinContactLocalHours(
+          nightHours,
+          contact,
+          at('2026-06-16T01:00:00Z'),
+        ),
+      ).toBe(true);
+      expect(
+        isWithinContactLocalHours(
+          nightHours,
+          contact,
+          at('2026-06-16T05:30:00Z'),
+        ),
+      ).toBe(true);
+      expect(isWithinContactLocalHours(nightHours, contact, now)).toBe(false);
+    });
+
+    it('allows every contact without local hours', () => {
+      expect(
+        isWithinContactLocalHours(
+          schedule,
+          { phoneNumber: '+12125550123' },
+          now,
+        ),
+      ).toBe(true);
+      expect(
+        isWithinContactLocalHours(
+          undefined,
+          { phoneNumber: '+12125550123' },
+          now,
+        ),
+      ).toBe(true);
+    });
+  });
+});
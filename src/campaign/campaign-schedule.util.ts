@@ -0,0 +1,204 @@
+import {
+  CampaignSchedule,
+  CallingWindow,
+  CampaignContact,
+} from './campaign.schema';
+import { resolveContactTimezone } from './phone-timezone.util';
+
+// Date/time parts of an instant as seen in a given timezone
+export interface ZonedDateParts {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  minuteOfDay: number; // 0 - 1439
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the local date, weekday and minute of day for an instant in a timezone
+ * Falls back to UTC when the timezone is invalid
+ */
+export function getZonedDateParts(
+  timezone: string,
+  at: Date = new Date(),
+): ZonedDateParts {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    }).formatToParts(at);
+  } catch {
+    return getZonedDateParts('UTC', at);
+  }
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  // Intl may render midnight as "24" with hour12: false
+  const hour = parseInt(get('hour'), 10) % 24;
+  const minute = parseInt(get('minute'), 10);
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    minuteOfDay: hour * 60 + minute,
+  };
+}
+
+/**
+ * The instant a local date and time in a timezone refers to
+ * Local times inside a DST gap resolve to a nearby valid instant
+ */
+export function zonedTimeToUtc(
+  date: string,
+  minuteOfDay: number,
+  timezone: string,
+): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+
+  // Shift by the zone's offset, then again in case the offset differs at the shifted instant (DST)
+  let instant = localAsUtc;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedDateParts(timezone, new Date(instant));
+    const [y, m, d] = parts.date.split('-').map(Number);
+    const seenAsUtc = Date.UTC(y, m - 1, d, 0, parts.minuteOfDay);
+    instant += localAsUtc - seenAsUtc;
+  }
+  return new Date(instant);
+}
+
+// Parse HH:mm into minutes since midnight
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Format a Date (stored as UTC midnight) or date string as YYYY-MM-DD
+export function toDateKey(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  return new Date(date).toISOString().substring(0, 10);
+}
+
+/**
+ * A schedule is recurring when it defines weekday calling windows
+ * Legacy schedules only have a single scheduledDate + scheduledTime/endTime pair
+ */
+export function isRecurringSchedule(schedule?: CampaignSchedule): boolean {
+  return !!schedule?.callingWindows && schedule.callingWindows.length > 0;
+}
+
+// Dates on which the campaign must not dial (blackout dates + holidays)
+export function getExcludedDates(schedule: CampaignSchedule): Set<string> {
+  const excluded = new Set<string>();
+  for (const date of schedule.blackoutDates || []) {
+    excluded.add(toDateKey(date));
+  }
+  for (const holiday of schedule.holidays || []) {
+    if (holiday?.date) excluded.add(toDateKey(holiday.date));
+  }
+  return excluded;
+}
+
+// Whether a calling window covers the given weekday/minute (handles windows past midnight)
+function windowCovers(
+  window: CallingWindow,
+  weekday: number,
+  minuteOfDay: number,
+): boolean {
+  const start = parseTimeOfDay(window.startTime);
+  const end = parseTimeOfDay(window.endTime);
+  const days = window.days || [];
+
+  if (end > start) {
+    return days.includes(weekday) && minuteOfDay >= start && minuteOfDay < end;
+  }
+
+  // Window crosses midnight: the tail belongs to the previous weekday's window
+  const previousWeekday = (weekday + 6) % 7;
+  return (
+    (days.includes(weekday) && minuteOfDay >= start) ||
+    (days.includes(previousWeekday) && minuteOfDay < end)
+  );
+}
+
+/**
+ * Check if a recurring schedule allows calling right now in the campaign timezone
+ * - Current local date must be within scheduledDate..endDate
+ * - Current local date must not be a blackout date or holiday
+ * - Current local time must fall inside one of the weekday calling windows
+ */
+export function isWithinCallingWindow(
+  schedule: CampaignSchedule,
+  at: Date = new Date(),
+): boolean {
+  const now = getZonedDateParts(schedule.timezone, at);
+
+  if (schedule.scheduledDate && now.date < toDateKey(schedule.scheduledDate)) {
+    return false;
+  }
+  if (schedule.endDate && now.date > toDateKey(schedule.endDate)) {
+    return false;
+  }
+  if (getExcludedDates(schedule).has(now.date)) {
+    return false;
+  }
+
+  return (schedule.callingWindows || []).some((window) =>
+    windowCovers(window, now.weekday, now.minuteOfDay),
+  );
+}
+
+/**
+ * Check if a recurring schedule's date range is over
+ * True once the local date is after endDate, or on endDate after its last window closed
+ */
+export function hasScheduleEnded(
+  schedule: CampaignSchedule,
+  at: Date = new Date(),
+): boolean {
+  if (!schedule.endDate) return false;
+
+  const now = getZonedDateParts(schedule.timezone, at);
+  const endDate = toDateKey(schedule.endDate);
+  if (now.date > endDate) return true;
+  if (now.date < endDate) return false;
+
+  // On the last day: ended once no window of that day is still open or yet to come
+  const laterWindow = (schedule.callingWindows || []).some((window) => {
+    if (!(window.days || []).includes(now.weekday)) return false;
+    const start = parseTimeOfDay(window.startTime);
+    const end = parseTimeOfDay(window.endTime);
+    return end <= start || now.minuteOfDay < end;
+  });
+  return !laterWindow;
+}
+
+/**
+ * Check if a contact may be dialled now based on the schedule's localCallingHours
+ * evaluated in the contact's own timezone. Always true when no local hours are set.
+ */
+export function isWithinContactLocalHours(
+  schedule: CampaignSchedule | undefined,
+  contact: Pick<CampaignContact, 'phoneNumber' | 'timezone'>,
+  at: Date = new Date(),
+): boolean {
+  const hours = schedule?.localCallingHours;
+  if (!hours?.startTime || !hours?.endTime) return true;
+
+  const timezone = resolveContactTimezone(contact, schedule!.timezone);
+  const { minuteOfDay } = getZonedDateParts(timezone, at);
+  const start = parseTimeOfDay(hours.startTime);
+  const end = parseTimeOfDay(hours.endTime);
+
+  // Hours crossing midnight (e.g. 20:00 - 02:00)
+  if (end <= start) {
+    return minuteOfDay >= start || minuteOfDay < end;
+  }
+  return minuteOfDay >= start && minuteOfDay < end;
+}
@@ -1,58 +1,107 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, mongo } from 'mongoose';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import { Campaign, CampaignContact } from './campaign.schema';
+import { SchedulerLease, ActiveCall } from './scheduler-state.schema';
 import { CampaignService } from './campaign.service';
 import { AgentService } from '../agent/agent.service';
 import { UltravoxService } from '../agent/ultravox.service';
+import { buildTemplateContext } from '../agent/template-context.util';
 import { UserService } from '../user/user.service';
 import { CallHistoryService } from '../call-history/call-history.service';
 import { AppLogger } from '../app.logger';
-
-// Track active calls per user (across all campaigns)
+import { DncService } from '../dnc/dnc.service';
+import { CallConcurrencyService } from '../call-concurrency/call-concurrency.service';
+import { CallerIdService } from '../caller-id/caller-id.service';
+import { ScheduledCallService } from '../scheduled-call/scheduled-call.service';
+import { ScheduledCall } from '../scheduled-call/scheduled-call.schema';
+import {
+  buildCampaignSlotState,
+  pickNextCampaign,
+} from './campaign-concurrency.util';
+import {
+  isRecurringSchedule,
+  isWithinCallingWindow,
+  hasScheduleEnded,
+  isWithinContactLocalHours,
+} from './campaign-schedule.util';
+
+// Concurrency state for a user (across all campaigns)
 // User's maxConcurrentCalls applies to ALL campaigns combined
-interface UserCallState {
+export interface UserCallState {
   userId: string;
   activeCalls: number;
   maxConcurrentCalls: number; // From user.settings.maxConcurrentCalls
-  isProcessing: boolean;
-  activeCampaigns: Set<string>; // Campaign IDs currently being processed
+  isProcessing: boolean; // An instance currently holds the user's processing lock
+  activeCampaigns: string[]; // IDs of the user's active outbound campaigns
+  campaigns: CampaignSlotUsage[]; // How the slots are split across the active campaigns (highest priority first)
+  otherCalls: number; // Slots held by test, inbound and other calls outside the active campaigns
 }
 
-// Track individual active calls for timeout detection
-interface ActiveCallInfo {
-  callId: string;
-  contactId: string;
+// Slot usage of one active campaign
+export interface CampaignSlotUsage {
   campaignId: string;
-  userId: string;
-  startedAt: Date;
+  name: string;
+  priority: number;
+  maxConcurrentCalls?: number;
+  minSharePercent: number;
+  guaranteedCalls: number;
+  activeCalls: number;
 }
 
+/**
+ * Runs outbound campaigns
+ * Active calls and locks live in MongoDB (ActiveCall / SchedulerLease) so several instances can run side by side:
+ * only the instance holding the leader lease runs the scheduler tick, and a per-user lease ensures
+ * one instance at a time claims contacts against the user's concurrency budget.
+ */
 @Injectable()
 export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
   private schedulerInterval: ReturnType<typeof setInterval> | null = null;
-  private userCallStates: Map<string, UserCallState> = new Map();
-  private activeCallsTracker: Map<string, ActiveCallInfo> = new Map(); // Track calls by callId for timeout detection
+  private readonly instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  private isLeader = false;
   private readonly SCHEDULER_INTERVAL_MS = 30000; // Check every 30 seconds
   private readonly CALL_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes timeout for stale calls
+  private readonly LEADER_LEASE_NAME = 'scheduler-leader';
+  private readonly LEADER_LEASE_TTL_MS = 3 * 30000; // Another instance takes over after 3 missed ticks
+  private readonly USER_LOCK_TTL_MS = 2 * 60 * 1000; // Frees the user lock if its holder dies mid-processing
 
   constructor(
     @InjectModel(Campaign.name) private campaignModel: Model<Campaign>,
+    @InjectModel(CampaignContact.name)
+    private contactModel: Model<CampaignContact>,
+    @InjectModel(SchedulerLease.name) private leaseModel: Model<SchedulerLease>,
+    @InjectModel(ActiveCall.name) private activeCallModel: Model<ActiveCall>,
     private readonly campaignService: CampaignService,
     private readonly agentService: AgentService,
     private readonly ultravoxService: UltravoxService,
     private readonly userService: UserService,
     private readonly callHistoryService: CallHistoryService,
+    private readonly dncService: DncService,
+    private readonly callConcurrencyService: CallConcurrencyService,
+    private readonly callerIdService: CallerIdService,
+    private readonly scheduledCallService: ScheduledCallService,
     private readonly logger: AppLogger,
   ) {}
 
   onModuleInit() {
     this.startScheduler();
-    this.logger.log('Campaign Scheduler Service started');
+    this.logger.log(
+      `Campaign Scheduler Service started (instance ${this.instanceId})`,
+    );
   }
 
-  onModuleDestroy() {
+  async onModuleDestroy() {
     this.stopScheduler();
+    if (this.isLeader) {
+      // Hand over leadership right away instead of waiting for the lease to expire
+      await this.releaseLease(this.LEADER_LEASE_NAME, this.instanceId).catch(
+        () => undefined,
+      );
+      this.isLeader = false;
+    }
     this.logger.log('Campaign Scheduler Service stopped');
   }
 
@@ -61,11 +110,11 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
    */
   private startScheduler() {
     // Check immediately on startup
-    this.checkScheduledCampaigns();
+    this.runSchedulerTick();
 
     // Then check every interval
     this.schedulerInterval = setInterval(() => {
-      this.checkScheduledCampaigns();
+      this.runSchedulerTick();
     }, this.SCHEDULER_INTERVAL_MS);
   }
 
@@ -79,6 +128,147 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Whether this instance currently runs the scheduler (other periodic jobs piggyback on the election)
+  isSchedulerLeader(): boolean {
+    return this.isLeader;
+  }
+
+  /**
+   * Take or renew a lease
+   * Succeeds when the lease is free, expired or already held by holderId
+   */
+  private async acquireLease(
+    name: string,
+    holderId: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const now = new Date();
+    try {
+      const lease = await this.leaseModel
+        .findOneAndUpdate(
+          { name, $or: [{ holderId }, { expiresAt: { $lte: now } }] },
+          { $set: { holderId, expiresAt: new Date(now.getTime() + ttlMs) } },
+          { upsert: true, new: true },
+        )
+        .exec();
+      return lease?.holderId === holderId;
+    } catch (err) {
+      // The upsert collides with the unique name when another holder has a live lease
+      if (err instanceof mongo.MongoServerError && err.code === 11000) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  private async releaseLease(name: string, holderId: string): Promise<void> {
+    await this.leaseModel.deleteOne({ name, holderId }).exec();
+  }
+
+  /**
+   * One scheduler tick - runs only on the elected leader
+   * A newly elected leader first rebuilds the active call records from the campaigns
+   */
+  private async runSchedulerTick() {
+    try {
+      const wasLeader = this.isLeader;
+      this.isLeader = await this.acquireLease(
+        this.LEADER_LEASE_NAME,
+        this.instanceId,
+        this.LEADER_LEASE_TTL_MS,
+      );
+
+      if (!this.isLeader) {
+        if (wasLeader) {
+          this.logger.warn(
+            `Instance ${this.instanceId} lost scheduler leadership`,
+          );
+        }
+        return;
+      }
+
+      if (!wasLeader) {
+        this.logger.log(`Instance ${this.instanceId} elected scheduler leader`);
+        await this.recoverActiveCalls();
+      }
+
+      await this.checkScheduledCampaigns();
+    } catch (err) {
+      this.logger.error(
+        'Error running scheduler tick:',
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Reconcile active call records with campaign contacts after a restart or leader change
+   * - Every in-progress contact gets a record (so it counts against concurrency and can time out)
+   * - Records whose contact is no longer in progress are dropped
+   */
+  private async recoverActiveCalls(): Promise<void> {
+    const contacts = await this.contactModel
+      .find({ callStatus: 'in-progress' })
+      .select('campaignId callId providerCallId calledAt')
+      .exec();
+    const campaigns = await this.campaignModel
+      .find({
+        _id: { $in: [...new Set(contacts.map((c) => c.campaignId))] },
+        type: 'outbound',
+      })
+      .select('userId')
+      .exec();
+    const userByCampaign = new Map(
+      campaigns.map((c) => [c._id.toString(), c.userId]),
+    );
+
+    const inProgressKeys = new Set<string>();
+    let recovered = 0;
+
+    for (const contact of contacts) {
+      const userId = userByCampaign.get(contact.campaignId);
+      if (!userId) continue;
+      const campaignId = contact.campaignId;
+      const contactId = contact._id.toString();
+      inProgressKeys.add(`${campaignId}:${contactId}`);
+
+      const result = await this.activeCallModel
+        .updateOne(
+          { campaignId, contactId },
+          {
+            $setOnInsert: {
+              callId: contact.callId || `pending_${campaignId}_${contactId}`,
+              providerCallId: contact.providerCallId,
+              userId,
+              source: 'campaign',
+              startedAt: contact.calledAt || new Date(),
+              instanceId: this.instanceId,
+            },
+          },
+          { upsert: true },
+        )
+        .exec();
+      recovered += result.upsertedCount || 0;
+    }
+
+    let dropped = 0;
+    // Only scheduler records - slots of manual, test and inbound calls are not tied to outbound contacts
+    const records = await this.activeCallModel
+      .find({ source: { $in: ['campaign', null] } })
+      .select('campaignId contactId')
+      .exec();
+    for (const record of records) {
+      if (!inProgressKeys.has(`${record.campaignId}:${record.contactId}`)) {
+        await this.activeCallModel.deleteOne({ _id: record._id }).exec();
+        dropped++;
+      }
+    }
+
+    this.logger.log(
+      `Recovered active calls: ${inProgressKeys.size} in progress, ${recovered} records restored, ${dropped} stale records dropped`,
+    );
+  }
+
   /**
    * Check for scheduled campaigns that need to start
    */
@@ -97,11 +287,30 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       this.logger.log(`Scheduler check: Found ${scheduledCampaigns.length} scheduled outbound campaigns`);
 
       for (const campaign of scheduledCampaigns) {
+        // Recurring schedule whose date range passed without a single window being hit
+        if (
+          isRecurringSchedule(campaign.schedule) &&
+          hasScheduleEnded(campaign.schedule!)
+        ) {
+          this.logger.log(
+            `Campaign "${campaign.name}" schedule ended before it could start, completing campaign`,
+          );
+          await this.campaignService.updateStatus(
+            campaign._id.toString(),
+            'completed',
+          );
+          continue;
+        }
+
         const shouldStart = this.shouldStartCampaign(campaign);
-        this.logger.log(`Campaign "${campaign.name}": shouldStart=${shouldStart}`);
-        
+        this.logger.log(
+          `Campaign "${campaign.name}": shouldStart=${shouldStart}`,
+        );
+
         if (shouldStart) {
-          this.logger.log(`Starting scheduled campaign: ${campaign.name} (${campaign._id})`);
+          this.logger.log(
+            `Starting scheduled campaign: ${campaign.name} (${campaign._id.toString()})`,
+          );
           await this.startCampaign(campaign);
         }
       }
@@ -117,13 +326,36 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       this.logger.log(`Scheduler check: Found ${pausedWindowCampaigns.length} paused-time-window campaigns`);
 
       for (const campaign of pausedWindowCampaigns) {
+        // Recurring schedule past its end date - no further windows to resume in
+        if (
+          isRecurringSchedule(campaign.schedule) &&
+          hasScheduleEnded(campaign.schedule!)
+        ) {
+          this.logger.log(
+            `Paused campaign "${campaign.name}" schedule ended, completing campaign`,
+          );
+          await this.campaignService.updateStatus(
+            campaign._id.toString(),
+            'completed',
+          );
+          continue;
+        }
+
         const canResume = this.canResumeCampaignInWindow(campaign);
-        const hasPendingContacts = campaign.contacts.some(c => c.callStatus === 'pending');
-        
-        this.logger.log(`Paused campaign "${campaign.name}": canResume=${canResume}, hasPendingContacts=${hasPendingContacts}`);
-        
+        const hasPendingContacts =
+          await this.campaignService.hasContactsWithStatus(
+            campaign._id.toString(),
+            ['pending'],
+          );
+
+        this.logger.log(
+          `Paused campaign "${campaign.name}": canResume=${canResume}, hasPendingContacts=${hasPendingContacts}`,
+        );
+
         if (canResume && hasPendingContacts) {
-          this.logger.log(`Resuming paused-time-window campaign: ${campaign.name} (${campaign._id})`);
+          this.logger.log(
+            `Resuming paused-time-window campaign: ${campaign.name} (${campaign._id.toString()})`,
+          );
           await this.resumePausedWindowCampaign(campaign);
         }
       }
@@ -157,13 +389,14 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
         campaignsByUser.get(userId)!.push(campaign);
       }
 
+      // Users with one-off scheduled calls due are processed too (their calls share the same slots)
+      const userIds = new Set([
+        ...campaignsByUser.keys(),
+        ...(await this.scheduledCallService.findUsersWithDueCalls()),
+      ]);
+
       // Process each user's campaigns
-      for (const [userId, userCampaigns] of campaignsByUser) {
-        // Initialize user state if not exists
-        if (!this.userCallStates.has(userId)) {
-          await this.initializeUserState(userId, userCampaigns);
-        }
-        // Process calls for this user's campaigns
+      for (const userId of userIds) {
         await this.processUserCalls(userId);
       }
     } catch (err) {
@@ -175,8 +408,17 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
    * Check if a campaign should start based on its schedule
    * - Starts EXACTLY at scheduled start time (not before)
    * - Cannot start after end time (if specified)
+   * - Recurring schedules start whenever a calling window is open
    */
   private shouldStartCampaign(campaign: Campaign): boolean {
+    if (isRecurringSchedule(campaign.schedule)) {
+      const inWindow = isWithinCallingWindow(campaign.schedule!);
+      this.logger.log(
+        `Campaign "${campaign.name}" recurring schedule check: inCallingWindow=${inWindow}`,
+      );
+      return inWindow;
+    }
+
     if (!campaign.schedule?.scheduledDate || !campaign.schedule?.scheduledTime) {
       this.logger.warn(`Campaign "${campaign.name}": Missing schedule date or time`);
       return false;
@@ -240,9 +482,14 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Check if an active campaign should stop based on end time
+   * Recurring schedules stop whenever the current calling window closes
    */
   private shouldStopCampaign(campaign: Campaign): boolean {
-    if (!campaign.schedule?.endTime) {
+    if (isRecurringSchedule(campaign.schedule)) {
+      return !isWithinCallingWindow(campaign.schedule!);
+    }
+
+    if (!campaign.schedule?.endTime || !campaign.schedule?.scheduledTime) {
       return false; // No end time set, don't stop automatically
     }
 
@@ -325,41 +572,6 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  /**
-   * Initialize user call state
-   * maxConcurrentCalls from user settings applies to ALL campaigns combined
-   */
-  private async initializeUserState(userId: string, campaigns: Campaign[]): Promise<void> {
-    const user = await this.userService.findById(userId);
-    if (!user) {
-      this.logger.warn(`User ${userId} not found, cannot initialize call state`);
-      return;
-    }
-
-    // Count currently in-progress calls across all user's campaigns
-    let totalActiveCalls = 0;
-    const activeCampaignIds = new Set<string>();
-
-    for (const campaign of campaigns) {
-      const inProgressCalls = campaign.contacts.filter(c => c.callStatus === 'in-progress').length;
-      totalActiveCalls += inProgressCalls;
-      if (campaign.status === 'active') {
-        activeCampaignIds.add(campaign._id.toString());
-      }
-    }
-
-    const state: UserCallState = {
-      userId,
-      activeCalls: totalActiveCalls,
-      maxConcurrentCalls: user.settings?.maxConcurrentCalls || 1,
-      isProcessing: false,
-      activeCampaigns: activeCampaignIds,
-    };
-
-    this.userCallStates.set(userId, state);
-    this.logger.log(`Initialized user state: ${userId}, maxConcurrentCalls: ${state.maxConcurrentCalls}, activeCalls: ${state.activeCalls}, campaigns: ${activeCampaignIds.size}`);
-  }
-
   /**
    * Start a campaign
    */
@@ -370,18 +582,6 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       // Update campaign status to active
       await this.campaignService.updateStatus(campaign._id.toString(), 'active');
 
-      // Get or initialize user state
-      let state = this.userCallStates.get(userId);
-      if (!state) {
-        const userCampaigns = await this.campaignModel.find({ userId, status: 'active' }).exec();
-        await this.initializeUserState(userId, userCampaigns);
-        state = this.userCallStates.get(userId);
-      }
-
-      if (state) {
-        state.activeCampaigns.add(campaign._id.toString());
-      }
-
       // Start processing calls
       await this.processUserCalls(userId);
 
@@ -393,84 +593,119 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Process calls for a user (across all their active campaigns)
+   * Process calls for a user (due scheduled calls, then all their active campaigns)
    * Respects user's maxConcurrentCalls limit across ALL campaigns combined
    * Uses atomic operations to prevent duplicate calls
+   * Can run on any instance (webhooks and API actions trigger it) - the user lease keeps it to one at a time
    */
   async processUserCalls(userId: string): Promise<void> {
-    const state = this.userCallStates.get(userId);
-    if (!state) {
-      this.logger.warn(`User state not found for ${userId}`);
-      return;
-    }
-
-    // Prevent concurrent processing for this user
-    if (state.isProcessing) {
+    // Prevent concurrent processing for this user, on this or any other instance
+    const lockName = `user:${userId}`;
+    const lockHolder = `${this.instanceId}:${crypto.randomUUID()}`;
+    if (
+      !(await this.acquireLease(lockName, lockHolder, this.USER_LOCK_TTL_MS))
+    ) {
       this.logger.log(`User ${userId}: Already processing, skipping`);
       return;
     }
 
-    state.isProcessing = true;
-
     try {
-      // Refresh user settings (in case maxConcurrentCalls changed)
-      const user = await this.userService.findById(userId);
-      if (user?.settings?.maxConcurrentCalls) {
-        state.maxConcurrentCalls = user.settings.maxConcurrentCalls;
-      }
-
-      // Calculate available slots (user's total limit minus all active calls)
-      const availableSlots = state.maxConcurrentCalls - state.activeCalls;
+      // Slots left in the user's limit - manual, test and inbound calls hold slots too
+      const { activeCalls, maxConcurrentCalls, availableSlots } =
+        await this.callConcurrencyService.getUsage(userId);
 
       if (availableSlots <= 0) {
-        this.logger.log(`User ${userId}: No available slots (${state.activeCalls}/${state.maxConcurrentCalls} concurrent calls)`);
+        this.logger.log(
+          `User ${userId}: No available slots (${activeCalls}/${maxConcurrentCalls} concurrent calls)`,
+        );
         return;
       }
 
-      // Get all active campaign IDs for this user
-      const activeCampaigns = await this.campaignModel.find({
+      // One-off scheduled calls were asked for at a set time, so they get free slots before campaign contacts
+      const scheduledSlots = await this.initiateDueScheduledCalls(
         userId,
-        status: 'active',
-        type: 'outbound',
-      }).select('_id name').exec();
+        availableSlots,
+      );
+      const campaignSlots = availableSlots - scheduledSlots;
+      if (campaignSlots <= 0) {
+        return;
+      }
+
+      // Get all active campaigns for this user
+      const activeCampaigns = await this.campaignModel
+        .find({
+          userId,
+          status: 'active',
+          type: 'outbound',
+        })
+        .select('_id name concurrency')
+        .exec();
 
       if (activeCampaigns.length === 0) {
         this.logger.log(`User ${userId}: No active campaigns`);
         return;
       }
 
-      this.logger.log(`User ${userId}: Found ${activeCampaigns.length} active campaigns, ${availableSlots} slots available`);
+      this.logger.log(
+        `User ${userId}: Found ${activeCampaigns.length} active campaigns, ${campaignSlots} slots available`,
+      );
 
-      // Use atomic claim to get contacts - round robin across campaigns
-      // This prevents race conditions where same contact is picked twice
+      // Hand out free slots by guaranteed share, priority and per-campaign cap (see pickNextCampaign)
+      // Contacts are claimed atomically, so the same contact is never picked twice
+      const campaignCalls = await this.countActiveCallsByCampaign(
+        userId,
+        activeCampaigns.map((c) => c._id.toString()),
+      );
+      const slotStates = activeCampaigns.map((c) =>
+        buildCampaignSlotState(
+          c._id.toString(),
+          maxConcurrentCalls,
+          c.concurrency,
+          campaignCalls.get(c._id.toString()) || 0,
+        ),
+      );
+      const campaignNames = new Map(
+        activeCampaigns.map((c) => [c._id.toString(), c.name]),
+      );
+      const exhausted = new Set<string>(); // Campaigns without a pending contact to claim
       let claimsProcessed = 0;
-      let campaignIndex = 0;
-      const maxAttempts = availableSlots * activeCampaigns.length; // Prevent infinite loop
-      let attempts = 0;
 
-      while (claimsProcessed < availableSlots && attempts < maxAttempts) {
-        attempts++;
-        const campaign = activeCampaigns[campaignIndex % activeCampaigns.length];
-        campaignIndex++;
+      while (claimsProcessed < campaignSlots) {
+        const next = pickNextCampaign(slotStates, exhausted);
+        if (!next) break;
 
         // Atomically claim a pending contact from this campaign
-        const claimed = await this.campaignService.claimPendingContact(campaign._id.toString());
-        
-        if (claimed) {
-          claimsProcessed++;
-          this.logger.log(
-            `User ${userId}: Claimed contact ${claimed.contact.name} (${claimed.contact.phoneNumber}) ` +
-            `from campaign ${campaign.name}, slot ${claimsProcessed}/${availableSlots}`
-          );
-
-          // Initiate the call (contact is already marked as in-progress atomically)
-          await this.initiateClaimedCall(claimed.campaign, claimed.contact, claimed.contactId, state);
+        const claimed = await this.campaignService.claimPendingContact(
+          next.campaignId,
+        );
+        if (!claimed) {
+          exhausted.add(next.campaignId);
+          continue;
         }
 
-        // If we've gone through all campaigns once without finding pending contacts, break
-        if (campaignIndex >= activeCampaigns.length && claimsProcessed === 0) {
+        claimsProcessed++;
+        next.activeCalls++;
+        this.logger.log(
+          `User ${userId}: Claimed contact ${claimed.contact.name} (${claimed.contact.phoneNumber}) ` +
+            `from campaign ${campaignNames.get(next.campaignId)} (priority ${next.priority}), slot ${claimsProcessed}/${campaignSlots}`,
+        );
+
+        // Initiate the call (contact is already marked as in-progress atomically)
+        // A call placed by another path can take the slot first - stop until one frees up
+        const initiated = await this.initiateClaimedCall(
+          claimed.campaign,
+          claimed.contact,
+          claimed.contactId,
+        );
+        if (initiated === 'no-slot') {
           break;
         }
+        if (initiated === 'no-caller-id') {
+          // Every number of the campaign's pool is capped or cooling down - the slot goes to another campaign
+          claimsProcessed--;
+          next.activeCalls--;
+          exhausted.add(next.campaignId);
+        }
       }
 
       if (claimsProcessed === 0) {
@@ -487,23 +722,41 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
     } catch (err) {
       this.logger.error(`Error processing calls for user ${userId}:`, err?.message || err);
     } finally {
-      state.isProcessing = false;
+      await this.releaseLease(lockName, lockHolder).catch((err) => {
+        this.logger.error(
+          `Error releasing processing lock for user ${userId}:`,
+          err instanceof Error ? err.message : err,
+        );
+      });
     }
   }
 
+  // Active calls per campaign (slots held by scheduled and manually triggered calls of each campaign)
+  private async countActiveCallsByCampaign(
+    userId: string,
+    campaignIds: string[],
+  ): Promise<Map<string, number>> {
+    const counts = await this.activeCallModel
+      .aggregate<{ _id: string; count: number }>([
+        { $match: { userId, campaignId: { $in: campaignIds } } },
+        { $group: { _id: '$campaignId', count: { $sum: 1 } } },
+      ])
+      .exec();
+    return new Map(counts.map((c) => [c._id, c.count]));
+  }
+
   /**
    * Check if campaigns should be marked as completed
    */
   private async checkAndCompleteCampaigns(campaigns: Campaign[]): Promise<void> {
     for (const campaign of campaigns) {
-      // Re-fetch to get latest status
-      const freshCampaign = await this.campaignModel.findById(campaign._id).exec();
-      if (!freshCampaign) continue;
-
-      const pendingContacts = freshCampaign.contacts.filter(c => c.callStatus === 'pending');
-      const inProgressContacts = freshCampaign.contacts.filter(c => c.callStatus === 'in-progress');
+      // Check the latest contact statuses
+      const hasOpenContacts = await this.campaignService.hasContactsWithStatus(
+        campaign._id.toString(),
+        ['pending', 'in-progress'],
+      );
 
-      if (pendingContacts.length === 0 && inProgressContacts.length === 0) {
+      if (!hasOpenContacts) {
         await this.completeCampaign(campaign._id.toString(), campaign.userId);
       }
     }
@@ -512,70 +765,123 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
   /**
    * Initiate a call for an already-claimed contact (atomically marked as in-progress)
    * This method assumes contact is already in 'in-progress' status from atomic claim
+   * Returns 'no-slot' when no call slot was free and 'no-caller-id' when the campaign's
+   * caller ID pool had no number available (the contact goes back to pending in both cases)
    */
   private async initiateClaimedCall(
     campaign: Campaign,
     contact: CampaignContact,
     contactId: string,
-    userState: UserCallState
-  ): Promise<void> {
+  ): Promise<'done' | 'no-slot' | 'no-caller-id'> {
     const campaignId = campaign._id.toString();
 
     try {
+      // Numbers can be added to the do-not-call list after import (e.g. opt-out on another call)
+      if (
+        await this.dncService.isBlocked(campaign.userId, contact.phoneNumber)
+      ) {
+        this.logger.log(
+          `Skipping ${contact.phoneNumber} in campaign ${campaignId}: number is on the do-not-call list`,
+        );
+        await this.campaignService.recordCallAttempt(
+          campaignId,
+          { contactId },
+          'failed',
+          {
+            callNotes: 'Number is on the do-not-call list',
+          },
+        );
+        return 'done';
+      }
+
       // Validate outbound configuration
-      if (!campaign.outboundProvider || !campaign.outboundPhoneNumber) {
-        this.logger.error(`Campaign ${campaignId} missing outbound configuration`);
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: 'Missing outbound phone configuration',
-        });
-        return;
+      if (
+        !campaign.outboundProvider ||
+        !this.callerIdService.hasCallerId(campaign)
+      ) {
+        this.logger.error(
+          `Campaign ${campaignId} missing outbound configuration`,
+        );
+        await this.campaignService.recordCallAttempt(
+          campaignId,
+          { contactId },
+          'failed',
+          {
+            callNotes: 'Missing outbound phone configuration',
+          },
+        );
+        return 'done';
       }
 
       // Get user telephony settings
       const user = await this.userService.findById(campaign.userId);
       if (!user || !user.settings?.telephony) {
         this.logger.error(`User ${campaign.userId} telephony settings not found`);
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: 'User telephony settings not configured',
-        });
-        return;
+        await this.campaignService.recordCallAttempt(
+          campaignId,
+          { contactId },
+          'failed',
+          {
+            callNotes: 'User telephony settings not configured',
+          },
+        );
+        return 'done';
       }
 
       // Get agent
       const agent = await this.agentService.findOne(campaign.agentId);
       if (!agent) {
         this.logger.error(`Agent ${campaign.agentId} not found for campaign ${campaignId}`);
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: 'Agent not found',
-        });
-        return;
+        await this.campaignService.recordCallAttempt(
+          campaignId,
+          { contactId },
+          'failed',
+          {
+            callNotes: 'Agent not found',
+          },
+        );
+        return 'done';
       }
 
       const telephony = user.settings.telephony;
 
-      // Contact is already marked as in-progress from atomic claim
-      // Increment active calls count for user (across all campaigns)
-      userState.activeCalls++;
+      // Pick the caller ID first - a pool with every number capped or cooling down calls later
+      const fromPhoneNumber = await this.callerIdService.selectCallerId(
+        campaign,
+        contact.phoneNumber,
+      );
+      if (!fromPhoneNumber) {
+        await this.campaignService.resetContactToPending(campaignId, contactId);
+        return 'no-caller-id';
+      }
 
-      // Track this call for timeout detection (will be updated with actual callId after creation)
+      // Contact is already marked as in-progress from atomic claim
+      // Count the call against the user's limit and track it for timeout detection
+      // (re-keyed with the actual callId after creation)
       const tempTrackingId = `pending_${campaignId}_${contactId}`;
-      this.activeCallsTracker.set(tempTrackingId, {
+      const slot = await this.callConcurrencyService.acquire(campaign.userId, {
+        source: 'campaign',
         callId: tempTrackingId,
-        contactId,
         campaignId,
-        userId: campaign.userId,
-        startedAt: new Date(),
+        contactId,
       });
+      if (!slot.acquired) {
+        await this.callerIdService.releaseCallerId(campaign, fromPhoneNumber);
+        await this.campaignService.resetContactToPending(campaignId, contactId);
+        return 'no-slot';
+      }
 
       // Create the outbound call to get actual Ultravox callId
       const callResult = await this.ultravoxService.createOutboundCallWithMedium(
         agent.talkrixAgentId,
         {
           provider: campaign.outboundProvider,
-          fromPhoneNumber: campaign.outboundPhoneNumber,
+          fromPhoneNumber,
           toPhoneNumber: contact.phoneNumber,
           maxDuration: '600s',
           recordingEnabled: true,
+          templateContext: buildTemplateContext(agent.callTemplate?.contextSchema, contact.customFields).context,
+          machineDetection: !!campaign.answeringMachine,
           twilioAccountSid: telephony.twilioAccountSid,
           twilioAuthToken: telephony.twilioAuthToken,
           plivoAuthId: telephony.plivoAuthId,
@@ -590,26 +896,33 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
       if (callResult.statusCode === 201 && callResult.data) {
         const ultravoxCallId = callResult.data.callId;
+        const providerCallId = callResult.data.providerCallSid;
         
-        // Remove temporary tracking and add with actual callId
-        this.activeCallsTracker.delete(tempTrackingId);
-        this.activeCallsTracker.set(ultravoxCallId, {
-          callId: ultravoxCallId,
-          contactId,
-          campaignId,
-          userId: campaign.userId,
-          startedAt: new Date(),
-        });
+        // Re-key the tracking record with the actual callId
+        await this.activeCallModel
+          .updateOne(
+            { callId: tempTrackingId },
+            {
+              $set: {
+                callId: ultravoxCallId,
+                providerCallId,
+                startedAt: new Date(),
+              },
+            },
+          )
+          .exec();
 
         // Create call history with actual Ultravox callId
         const callHistory = await this.callHistoryService.create({
           agentId: campaign.agentId,
           userId: campaign.userId,
           talkrixCallId: ultravoxCallId,
+          providerCallId,
           callType: 'outbound',
           agentName: agent.name,
           customerName: contact.name,
           customerPhone: contact.phoneNumber,
+          fromPhoneNumber,
           recordingEnabled: true,
           joinUrl: callResult.data.joinUrl,
           status: 'in-progress',
@@ -619,44 +932,255 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
             campaignName: campaign.name,
             contactId: contactId,
             provider: campaign.outboundProvider,
-            fromPhoneNumber: campaign.outboundPhoneNumber,
+            fromPhoneNumber,
           },
         });
 
         // Update contact with call ID and callHistoryId
-        await this.campaignService.updateContactCallStatus(
-          campaignId,
-          contactId,
-          'in-progress',
-          { 
-            callId: ultravoxCallId,
-            callHistoryId: callHistory._id.toString(),
-          }
-        );
+        await this.campaignService.attachContactCall(campaignId, contactId, {
+          callId: ultravoxCallId,
+          callHistoryId: callHistory._id.toString(),
+          providerCallId,
+        });
 
         this.logger.log(`Call initiated for ${contact.name} (${contact.phoneNumber}) in campaign ${campaign.name}, callId: ${ultravoxCallId}`);
       } else {
-        // Call creation failed - decrement counter, remove tracking, and mark as failed
-        userState.activeCalls = Math.max(0, userState.activeCalls - 1);
-        this.activeCallsTracker.delete(tempTrackingId);
+        // Call creation failed - release the slot and caller ID and mark as failed
+        await this.activeCallModel.deleteOne({ callId: tempTrackingId }).exec();
+        await this.callerIdService.releaseCallerId(campaign, fromPhoneNumber);
         
-        // Mark contact as failed
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: callResult.message || 'Failed to create call',
-        });
+        // Record the failed attempt (re-queued if the retry policy covers connection errors)
+        await this.campaignService.recordCallAttempt(
+          campaignId,
+          { contactId },
+          'connection_error',
+          {
+            callNotes: callResult.message || 'Failed to create call',
+          },
+        );
 
         this.logger.error(`Failed to create call for ${contact.name}: ${callResult.message}`);
       }
+      return 'done';
     } catch (err) {
-      this.logger.error(`Error initiating call for ${contact.name}:`, err?.message || err);
+      this.logger.error(
+        `Error initiating call for ${contact.name}:`,
+        err instanceof Error ? err.message : err,
+      );
 
-      // Decrement active calls count on error and remove tracking
-      userState.activeCalls = Math.max(0, userState.activeCalls - 1);
-      this.activeCallsTracker.delete(`pending_${campaignId}_${contactId}`);
+      // Release the slot on error
+      await this.activeCallModel
+        .deleteOne({ campaignId, contactId })
+        .exec()
+        .catch(() => undefined);
 
-      await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-        callNotes: err?.message || 'Unknown error',
-      });
+      await this.campaignService.recordCallAttempt(
+        campaignId,
+        { contactId },
+        'connection_error',
+        {
+          callNotes: err instanceof Error ? err.message : 'Unknown error',
+        },
+      );
+      return 'done';
+    }
+  }
+
+  /**
+   * Dial the user's due scheduled calls in up to `availableSlots` free slots
+   * Returns the number of slots used - all of them when a call placed by another path took a slot first
+   */
+  private async initiateDueScheduledCalls(
+    userId: string,
+    availableSlots: number,
+  ): Promise<number> {
+    let claimsProcessed = 0;
+    while (claimsProcessed < availableSlots) {
+      const scheduledCall =
+        await this.scheduledCallService.claimDueCall(userId);
+      if (!scheduledCall) break;
+
+      claimsProcessed++;
+      this.logger.log(
+        `User ${userId}: Claimed scheduled call ${scheduledCall._id.toString()} to ${scheduledCall.phoneNumber}, slot ${claimsProcessed}/${availableSlots}`,
+      );
+      if ((await this.initiateScheduledCall(scheduledCall)) === 'no-slot') {
+        return availableSlots;
+      }
+    }
+    return claimsProcessed;
+  }
+
+  /**
+   * Place a claimed scheduled call (atomically marked as in-progress)
+   * Returns 'no-slot' when no call slot was free (the call goes back to scheduled)
+   */
+  private async initiateScheduledCall(
+    scheduledCall: ScheduledCall,
+  ): Promise<'done' | 'no-slot'> {
+    const scheduledCallId = scheduledCall._id.toString();
+    const slotId = `pending_scheduled_${scheduledCallId}`;
+
+    try {
+      if (
+        await this.dncService.isBlocked(
+          scheduledCall.userId,
+          scheduledCall.phoneNumber,
+        )
+      ) {
+        this.logger.log(
+          `Skipping scheduled call ${scheduledCallId}: ${scheduledCall.phoneNumber} is on the do-not-call list`,
+        );
+        await this.scheduledCallService.recordCallAttempt(
+          scheduledCallId,
+          {},
+          'failed',
+          {
+            callNotes: 'Number is on the do-not-call list',
+          },
+        );
+        return 'done';
+      }
+
+      const user = await this.userService.findById(scheduledCall.userId);
+      if (!user || !user.settings?.telephony) {
+        this.logger.error(
+          `User ${scheduledCall.userId} telephony settings not found`,
+        );
+        await this.scheduledCallService.recordCallAttempt(
+          scheduledCallId,
+          {},
+          'failed',
+          {
+            callNotes: 'User telephony settings not configured',
+          },
+        );
+        return 'done';
+      }
+
+      const agent = await this.agentService.findOne(scheduledCall.agentId);
+      if (!agent) {
+        this.logger.error(
+          `Agent ${scheduledCall.agentId} not found for scheduled call ${scheduledCallId}`,
+        );
+        await this.scheduledCallService.recordCallAttempt(
+          scheduledCallId,
+          {},
+          'failed',
+          {
+            callNotes: 'Agent not found',
+          },
+        );
+        return 'done';
+      }
+
+      const telephony = user.settings.telephony;
+
+      const slot = await this.callConcurrencyService.acquire(
+        scheduledCall.userId,
+        { source: 'scheduled', callId: slotId },
+      );
+      if (!slot.acquired) {
+        await this.scheduledCallService.releaseClaim(scheduledCallId);
+        return 'no-slot';
+      }
+
+      const callResult =
+        await this.ultravoxService.createOutboundCallWithMedium(
+          agent.talkrixAgentId,
+          {
+            provider: scheduledCall.provider,
+            fromPhoneNumber: scheduledCall.fromPhoneNumber,
+            toPhoneNumber: scheduledCall.phoneNumber,
+            maxDuration: '600s',
+            recordingEnabled: true,
+            templateContext: buildTemplateContext(
+              agent.callTemplate?.contextSchema,
+              scheduledCall.contextVariables,
+            ).context,
+            twilioAccountSid: telephony.twilioAccountSid,
+            twilioAuthToken: telephony.twilioAuthToken,
+            plivoAuthId: telephony.plivoAuthId,
+            plivoAuthToken: telephony.plivoAuthToken,
+            telnyxApiKey: telephony.telnyxApiKey,
+            telnyxConnectionId: telephony.telnyxConnectionId,
+          },
+        );
+
+      if (callResult.statusCode === 201 && callResult.data) {
+        const ultravoxCallId = callResult.data.callId;
+        const providerCallId = callResult.data.providerCallSid;
+        await this.callConcurrencyService.attachCall(slotId, {
+          callId: ultravoxCallId,
+          providerCallId,
+        });
+
+        // Status callbacks carry no campaign, so the call's end is matched through this record
+        const callHistory = await this.callHistoryService.create({
+          agentId: scheduledCall.agentId,
+          userId: scheduledCall.userId,
+          talkrixCallId: ultravoxCallId,
+          providerCallId,
+          callType: 'outbound',
+          agentName: agent.name,
+          customerName: scheduledCall.customerName,
+          customerPhone: scheduledCall.phoneNumber,
+          fromPhoneNumber: scheduledCall.fromPhoneNumber,
+          recordingEnabled: true,
+          joinUrl: callResult.data.joinUrl,
+          status: 'in-progress',
+          callData: callResult.data,
+          metadata: {
+            scheduledCallId,
+            scheduledCallCalledAt: scheduledCall.calledAt, // Identifies this attempt of the scheduled call
+            provider: scheduledCall.provider,
+            fromPhoneNumber: scheduledCall.fromPhoneNumber,
+          },
+        });
+
+        await this.scheduledCallService.attachCall(scheduledCallId, {
+          callId: ultravoxCallId,
+          providerCallId,
+          callHistoryId: callHistory._id.toString(),
+        });
+
+        this.logger.log(
+          `Scheduled call ${scheduledCallId} to ${scheduledCall.phoneNumber} initiated, callId: ${ultravoxCallId}`,
+        );
+      } else {
+        await this.callConcurrencyService.releaseSlot(slotId);
+        // Re-scheduled if the retry policy covers connection errors
+        await this.scheduledCallService.recordCallAttempt(
+          scheduledCallId,
+          {},
+          'connection_error',
+          {
+            callNotes: callResult.message || 'Failed to create call',
+          },
+        );
+        this.logger.error(
+          `Failed to create scheduled call ${scheduledCallId}: ${callResult.message}`,
+        );
+      }
+      return 'done';
+    } catch (err) {
+      this.logger.error(
+        `Error initiating scheduled call ${scheduledCallId}:`,
+        err instanceof Error ? err.message : err,
+      );
+
+      await this.callConcurrencyService
+        .releaseSlot(slotId)
+        .catch(() => undefined);
+      await this.scheduledCallService.recordCallAttempt(
+        scheduledCallId,
+        {},
+        'connection_error',
+        {
+          callNotes: err instanceof Error ? err.message : 'Unknown error',
+        },
+      );
+      return 'done';
     }
   }
 
@@ -667,7 +1191,6 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
   private async initiateCall(
     campaign: Campaign,
     contact: CampaignContact,
-    userState: UserCallState
   ): Promise<void> {
     const campaignId = campaign._id.toString();
     const contactId = contact._id?.toString();
@@ -678,12 +1201,38 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
     }
 
     try {
+      if (
+        await this.dncService.isBlocked(campaign.userId, contact.phoneNumber)
+      ) {
+        await this.campaignService.updateContactCallStatus(
+          campaignId,
+          contactId,
+          'failed',
+          {
+            callNotes: 'Number is on the do-not-call list',
+          },
+          'scheduler',
+        );
+        return;
+      }
+
       // Validate outbound configuration
-      if (!campaign.outboundProvider || !campaign.outboundPhoneNumber) {
-        this.logger.error(`Campaign ${campaignId} missing outbound configuration`);
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: 'Missing outbound phone configuration',
-        });
+      if (
+        !campaign.outboundProvider ||
+        !this.callerIdService.hasCallerId(campaign)
+      ) {
+        this.logger.error(
+          `Campaign ${campaignId} missing outbound configuration`,
+        );
+        await this.campaignService.updateContactCallStatus(
+          campaignId,
+          contactId,
+          'failed',
+          {
+            callNotes: 'Missing outbound phone configuration',
+          },
+          'scheduler',
+        );
         return;
       }
 
@@ -691,9 +1240,15 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       const user = await this.userService.findById(campaign.userId);
       if (!user || !user.settings?.telephony) {
         this.logger.error(`User ${campaign.userId} telephony settings not found`);
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: 'User telephony settings not configured',
-        });
+        await this.campaignService.updateContactCallStatus(
+          campaignId,
+          contactId,
+          'failed',
+          {
+            callNotes: 'User telephony settings not configured',
+          },
+          'scheduler',
+        );
         return;
       }
 
@@ -701,40 +1256,63 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       const agent = await this.agentService.findOne(campaign.agentId);
       if (!agent) {
         this.logger.error(`Agent ${campaign.agentId} not found for campaign ${campaignId}`);
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: 'Agent not found',
-        });
+        await this.campaignService.updateContactCallStatus(
+          campaignId,
+          contactId,
+          'failed',
+          {
+            callNotes: 'Agent not found',
+          },
+          'scheduler',
+        );
         return;
       }
 
       const telephony = user.settings.telephony;
 
-      // Update contact status to in-progress FIRST - this marks the contact as "being called"
-      // This ensures the contact won't be picked up again (only pending contacts are selected)
-      await this.campaignService.updateContactCallStatus(campaignId, contactId, 'in-progress');
-
-      // Increment active calls count for user (across all campaigns)
-      userState.activeCalls++;
+      const fromPhoneNumber = await this.callerIdService.selectCallerId(
+        campaign,
+        contact.phoneNumber,
+      );
+      if (!fromPhoneNumber) {
+        return;
+      }
 
-      // Track this call for timeout detection (will be updated with actual callId after creation)
+      // Count the call against the user's limit and track it for timeout detection
+      // (re-keyed with the actual callId after creation)
       const tempTrackingId = `pending_${campaignId}_${contactId}`;
-      this.activeCallsTracker.set(tempTrackingId, {
+      const slot = await this.callConcurrencyService.acquire(campaign.userId, {
+        source: 'campaign',
         callId: tempTrackingId,
-        contactId,
         campaignId,
-        userId: campaign.userId,
-        startedAt: new Date(),
+        contactId,
       });
+      if (!slot.acquired) {
+        await this.callerIdService.releaseCallerId(campaign, fromPhoneNumber);
+        return;
+      }
+
+      // Update contact status to in-progress - this marks the contact as "being called"
+      // This ensures the contact won't be picked up again (only pending contacts are selected)
+      await this.campaignService.updateContactCallStatus(
+        campaignId,
+        contactId,
+        'in-progress',
+        undefined,
+        'scheduler',
+      );
 
       // FIRST: Create the outbound call to get actual Ultravox callId
       const callResult = await this.ultravoxService.createOutboundCallWithMedium(
         agent.talkrixAgentId,
         {
           provider: campaign.outboundProvider,
-          fromPhoneNumber: campaign.outboundPhoneNumber,
+          fromPhoneNumber,
           toPhoneNumber: contact.phoneNumber,
           maxDuration: '600s',
           recordingEnabled: true,
+          templateContext: buildTemplateContext(agent.callTemplate?.contextSchema, contact.customFields).context,
+          machineDetection: !!campaign.answeringMachine,
           twilioAccountSid: telephony.twilioAccountSid,
           twilioAuthToken: telephony.twilioAuthToken,
           plivoAuthId: telephony.plivoAuthId,
@@ -749,26 +1327,33 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
       if (callResult.statusCode === 201 && callResult.data) {
         const ultravoxCallId = callResult.data.callId;
+        const providerCallId = callResult.data.providerCallSid;
         
-        // Remove temporary tracking and add with actual callId
-        this.activeCallsTracker.delete(tempTrackingId);
-        this.activeCallsTracker.set(ultravoxCallId, {
-          callId: ultravoxCallId,
-          contactId,
-          campaignId,
-          userId: campaign.userId,
-          startedAt: new Date(),
-        });
+        // Re-key the tracking record with the actual callId
+        await this.activeCallModel
+          .updateOne(
+            { callId: tempTrackingId },
+            {
+              $set: {
+                callId: ultravoxCallId,
+                providerCallId,
+                startedAt: new Date(),
+              },
+            },
+          )
+          .exec();
 
         // THEN: Create call history with actual Ultravox callId
         const callHistory = await this.callHistoryService.create({
           agentId: campaign.agentId,
           userId: campaign.userId,
           talkrixCallId: ultravoxCallId, // Actual Ultravox call ID
+          providerCallId,
           callType: 'outbound',
           agentName: agent.name,
           customerName: contact.name,
           customerPhone: contact.phoneNumber,
+          fromPhoneNumber,
           recordingEnabled: true,
           joinUrl: callResult.data.joinUrl,
           status: 'in-progress',
@@ -778,92 +1363,113 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
             campaignName: campaign.name,
             contactId: contactId,
             provider: campaign.outboundProvider,
-            fromPhoneNumber: campaign.outboundPhoneNumber,
+            fromPhoneNumber,
           },
         });
 
         // Update contact with call ID and callHistoryId
-        await this.campaignService.updateContactCallStatus(
-          campaignId,
-          contactId,
-          'in-progress',
-          { 
-            callId: ultravoxCallId,
-            callHistoryId: callHistory._id.toString(),
-          }
-        );
+        await this.campaignService.attachContactCall(campaignId, contactId, {
+          callId: ultravoxCallId,
+          callHistoryId: callHistory._id.toString(),
+          providerCallId,
+        });
 
         this.logger.log(`Call initiated for ${contact.name} (${contact.phoneNumber}) in campaign ${campaign.name}, callId: ${ultravoxCallId}`);
       } else {
-        // Call creation failed - decrement counter, remove tracking, and mark as failed
-        userState.activeCalls = Math.max(0, userState.activeCalls - 1);
-        this.activeCallsTracker.delete(tempTrackingId);
+        // Call creation failed - release the slot and caller ID and mark as failed
+        await this.activeCallModel.deleteOne({ callId: tempTrackingId }).exec();
+        await this.callerIdService.releaseCallerId(campaign, fromPhoneNumber);
         
         // Mark contact as failed (not in-progress) - won't be retried
-        await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-          callNotes: callResult.message || 'Failed to create call',
-        });
+        await this.campaignService.updateContactCallStatus(
+          campaignId,
+          contactId,
+          'failed',
+          {
+            callNotes: callResult.message || 'Failed to create call',
+          },
+          'scheduler',
+        );
 
         this.logger.error(`Failed to create call for ${contact.name}: ${callResult.message}`);
       }
     } catch (err) {
-      this.logger.error(`Error initiating call for ${contact.name}:`, err?.message || err);
+      this.logger.error(
+        `Error initiating call for ${contact.name}:`,
+        err instanceof Error ? err.message : err,
+      );
 
-      // Decrement active calls count on error and remove tracking
-      userState.activeCalls = Math.max(0, userState.activeCalls - 1);
-      this.activeCallsTracker.delete(`pending_${campaignId}_${contactId}`);
+      // Release the slot on error
+      await this.activeCallModel
+        .deleteOne({ campaignId, contactId })
+        .exec()
+        .catch(() => undefined);
 
-      await this.campaignService.updateContactCallStatus(campaignId, contactId, 'failed', {
-        callNotes: err?.message || 'Unknown error',
-      });
+      await this.campaignService.updateContactCallStatus(
+        campaignId,
+        contactId,
+        'failed',
+        {
+          callNotes: err instanceof Error ? err.message : 'Unknown error',
+        },
+        'scheduler',
+      );
     }
   }
 
   /**
-   * Check and cleanup stale calls that have been in-progress for more than 10 minutes
+   * Check and cleanup stale calls that have been in-progress for more than 15 minutes
    * This handles cases where disconnection webhook is not received
    */
   private async checkAndCleanupStaleCalls(): Promise<void> {
     const now = new Date();
-    const staleCalls: ActiveCallInfo[] = [];
 
-    // Find all calls that have exceeded the timeout
-    for (const [callId, callInfo] of this.activeCallsTracker) {
-      const elapsedMs = now.getTime() - callInfo.startedAt.getTime();
-      if (elapsedMs >= this.CALL_TIMEOUT_MS) {
-        staleCalls.push(callInfo);
-      }
-    }
+    // Calls without a campaign have no contact to fail and a longer limit
+    await this.callConcurrencyService.releaseStaleSlots();
+
+    // Scheduled calls time out like campaign calls
+    await this.cleanupStaleScheduledCalls(now);
+
+    // Find all campaign calls that have exceeded the timeout
+    const staleCalls = await this.activeCallModel
+      .find({
+        campaignId: { $exists: true },
+        startedAt: { $lte: new Date(now.getTime() - this.CALL_TIMEOUT_MS) },
+      })
+      .exec();
 
     if (staleCalls.length === 0) {
       return;
     }
 
-    this.logger.warn(`Found ${staleCalls.length} stale calls (>10 min without disconnection), cleaning up...`);
+    this.logger.warn(
+      `Found ${staleCalls.length} stale calls (>15 min without disconnection), cleaning up...`,
+    );
 
     for (const callInfo of staleCalls) {
       try {
-        // Remove from tracker
-        this.activeCallsTracker.delete(callInfo.callId);
-
-        // Get user state and decrement active calls
-        const state = this.userCallStates.get(callInfo.userId);
-        if (state) {
-          state.activeCalls = Math.max(0, state.activeCalls - 1);
-          this.logger.log(
-            `Released stale call resource for user ${callInfo.userId}. ` +
-            `Active calls: ${state.activeCalls}/${state.maxConcurrentCalls}`
-          );
+        // Release the slot - skip if the call ended meanwhile
+        const released = await this.activeCallModel
+          .deleteOne({ _id: callInfo._id })
+          .exec();
+        if (!released.deletedCount) {
+          continue;
         }
 
-        // Update contact status to failed with timeout reason
-        await this.campaignService.updateContactCallStatus(
-          callInfo.campaignId,
-          callInfo.contactId,
+        this.logger.log(
+          `Released stale call resource for user ${callInfo.userId}. ` +
+            `Active calls: ${await this.callConcurrencyService.countActiveCalls(callInfo.userId)}`,
+        );
+
+        // Record the attempt as failed with timeout reason (no-op if a webhook already finalized it)
+        await this.campaignService.recordCallAttempt(
+          callInfo.campaignId!,
+          { contactId: callInfo.contactId },
           'failed',
           {
-            callNotes: 'Call timed out - no disconnection received after 10 minutes',
-          }
+            callNotes:
+              'Call timed out - no disconnection received after 15 minutes',
+          },
         );
 
         this.logger.log(
@@ -872,27 +1478,101 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
         );
 
         // Trigger next call processing for this user
-        if (state) {
-          setTimeout(() => {
-            this.processUserCalls(callInfo.userId).catch(err => {
-              this.logger.error(`Error processing next calls after stale cleanup:`, err?.message || err);
-            });
-          }, 1000);
-        }
+        setTimeout(() => {
+          this.processUserCalls(callInfo.userId).catch((err) => {
+            this.logger.error(
+              `Error processing next calls after stale cleanup:`,
+              err instanceof Error ? err.message : err,
+            );
+          });
+        }, 1000);
       } catch (err) {
         this.logger.error(`Error cleaning up stale call ${callInfo.callId}:`, err?.message || err);
       }
     }
   }
 
+  // Fail scheduled calls that have been in progress for more than 15 minutes and free their slots
+  private async cleanupStaleScheduledCalls(now: Date): Promise<void> {
+    const staleCalls = await this.scheduledCallService.findInProgressSince(
+      new Date(now.getTime() - this.CALL_TIMEOUT_MS),
+    );
+
+    for (const scheduledCall of staleCalls) {
+      const scheduledCallId = scheduledCall._id.toString();
+      try {
+        // No-op if a webhook finalized the call meanwhile
+        const result = await this.scheduledCallService.recordCallAttempt(
+          scheduledCallId,
+          {
+            callId: scheduledCall.callId,
+            providerCallId: scheduledCall.providerCallId,
+          },
+          'failed',
+          {
+            callNotes:
+              'Call timed out - no disconnection received after 15 minutes',
+          },
+        );
+        if (!result) continue;
+
+        await this.callConcurrencyService.release({
+          callId:
+            scheduledCall.callId || `pending_scheduled_${scheduledCallId}`,
+          providerCallId: scheduledCall.providerCallId,
+        });
+        this.logger.log(
+          `Cleaned up stale scheduled call ${scheduledCallId} (callId=${scheduledCall.callId})`,
+        );
+
+        setTimeout(() => {
+          this.processUserCalls(scheduledCall.userId).catch((err) => {
+            this.logger.error(
+              `Error processing next calls after stale cleanup:`,
+              err instanceof Error ? err.message : err,
+            );
+          });
+        }, 1000);
+      } catch (err) {
+        this.logger.error(
+          `Error cleaning up stale scheduled call ${scheduledCallId}:`,
+          err instanceof Error ? err.message : err,
+        );
+      }
+    }
+  }
+
   /**
    * Handle call ended event - triggered by webhook
-   * This will decrement user's active calls, check if campaign is complete, and trigger next call
+   * This will release the user's call slot, check if campaign is complete, and trigger next call
+   * The slot is found by the Ultravox or carrier call ID, whichever webhook reported the end
    */
-  async onCallEnded(campaignId: string, callId: string): Promise<void> {
+  async onCallEnded(
+    campaignId: string,
+    call: { callId?: string; providerCallId?: string; contactId?: string },
+  ): Promise<void> {
     try {
-      // Remove call from tracker
-      this.activeCallsTracker.delete(callId);
+      // Release the call's slot
+      const callIds = [call.callId, call.providerCallId].filter(
+        (id): id is string => !!id,
+      );
+      const released =
+        callIds.length > 0
+          ? await this.activeCallModel
+              .deleteOne({
+                $or: [
+                  { callId: { $in: callIds } },
+                  { providerCallId: { $in: callIds } },
+                ],
+              })
+              .exec()
+          : { deletedCount: 0 };
+      if (released.deletedCount === 0 && call.contactId) {
+        // The call ended before its IDs were recorded on the slot
+        await this.activeCallModel
+          .deleteOne({ callId: `pending_${campaignId}_${call.contactId}` })
+          .exec();
+      }
 
       // Get campaign to find user and check completion
       const campaign = await this.campaignService.findOne(campaignId);
@@ -902,41 +1582,34 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       }
 
       const userId = campaign.userId;
-      let state = this.userCallStates.get(userId);
-
-      if (state) {
-        // Decrement active calls for user
-        state.activeCalls = Math.max(0, state.activeCalls - 1);
-
-        this.logger.log(`Call ended for user ${userId}. Active calls: ${state.activeCalls}/${state.maxConcurrentCalls}`);
-      }
+      this.logger.log(
+        `Call ended for user ${userId}. Active calls: ${await this.callConcurrencyService.countActiveCalls(userId)}`,
+      );
 
       // Check if all contacts have been called (no pending, no in-progress)
-      const pendingContacts = campaign.contacts.filter(c => c.callStatus === 'pending');
-      const inProgressContacts = campaign.contacts.filter(c => c.callStatus === 'in-progress');
-
-      if (pendingContacts.length === 0 && inProgressContacts.length === 0) {
+      if (
+        !(await this.campaignService.hasContactsWithStatus(campaignId, [
+          'pending',
+          'in-progress',
+        ]))
+      ) {
         // All contacts have been called - mark campaign as completed
-        this.logger.log(`Campaign ${campaign.name} - all contacts called. Marking as completed.`);
+        this.logger.log(
+          `Campaign ${campaign.name} - all contacts called. Marking as completed.`,
+        );
         await this.completeCampaign(campaignId, userId);
         return; // No need to process more calls for this campaign
       }
 
       // If there are still pending contacts, trigger next calls
-      if (state) {
-        setTimeout(() => {
-          this.processUserCalls(userId).catch(err => {
-            this.logger.error(`Error processing next calls after call ended:`, err?.message || err);
-          });
-        }, 1000);
-      } else {
-        // State might not exist if server restarted, reinitialize
-        const userCampaigns = await this.campaignModel.find({ userId, status: 'active' }).exec();
-        if (userCampaigns.length > 0) {
-          await this.initializeUserState(userId, userCampaigns);
-          await this.processUserCalls(userId);
-        }
-      }
+      setTimeout(() => {
+        this.processUserCalls(userId).catch((err) => {
+          this.logger.error(
+            `Error processing next calls after call ended:`,
+            err instanceof Error ? err.message : err,
+          );
+        });
+      }, 1000);
     } catch (err) {
       this.logger.error(`Error handling call ended:`, err?.message || err);
     }
@@ -950,8 +1623,10 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       // Get campaign to calculate final stats
       const campaign = await this.campaignService.findOne(campaignId);
       if (campaign) {
-        const completedCount = campaign.contacts.filter(c => c.callStatus === 'completed').length;
-        const failedCount = campaign.contacts.filter(c => c.callStatus === 'failed' || c.callStatus === 'no-answer').length;
+        const counts =
+          await this.campaignService.getContactStatusCounts(campaignId);
+        const completedCount = counts.completed;
+        const failedCount = counts.failed + counts['no-answer'];
         
         // Update campaign with final stats and completed status
         await this.campaignModel.findByIdAndUpdate(campaignId, {
@@ -964,16 +1639,11 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
         this.logger.log(
           `Campaign "${campaign.name}" completed. ` +
-          `Total: ${campaign.contacts.length}, Successful: ${completedCount}, Failed: ${failedCount}`
+            `Total: ${counts.total}, Successful: ${completedCount}, Failed: ${failedCount}`,
         );
       } else {
         await this.campaignService.updateStatus(campaignId, 'completed');
       }
-
-      const state = this.userCallStates.get(userId);
-      if (state) {
-        state.activeCampaigns.delete(campaignId);
-      }
     } catch (err) {
       this.logger.error(`Error completing campaign ${campaignId}:`, err?.message || err);
     }
@@ -982,7 +1652,7 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
   /**
    * Complete a campaign due to reaching end time
    * Mark as 'paused-time-window' if there are pending contacts (can be resumed next day)
-   * Mark as 'completed' if all contacts have been processed
+   * Mark as 'completed' if all contacts have been processed, or the recurring schedule has ended
    */
   private async completeCampaignDueToEndTime(campaignId: string): Promise<void> {
     try {
@@ -990,15 +1660,14 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       if (!campaign) return;
 
       // Count remaining pending contacts
-      const pendingCount = campaign.contacts.filter(c => c.callStatus === 'pending').length;
+      const { pending: pendingCount } =
+        await this.campaignService.getContactStatusCounts(campaignId);
 
-      // Remove from user state
-      const state = this.userCallStates.get(campaign.userId);
-      if (state) {
-        state.activeCampaigns.delete(campaignId);
-      }
+      const scheduleEnded =
+        isRecurringSchedule(campaign.schedule) &&
+        hasScheduleEnded(campaign.schedule!);
 
-      if (pendingCount > 0) {
+      if (pendingCount > 0 && !scheduleEnded) {
         // If there are pending contacts, mark as 'paused-time-window'
         // This allows the campaign to be resumed in the same time window on subsequent days
         await this.campaignModel.findByIdAndUpdate(campaignId, {
@@ -1016,7 +1685,9 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
         await this.campaignService.updateStatus(campaignId, 'completed');
 
         this.logger.log(
-          `Campaign "${campaign.name}" completed - all contacts processed.`
+          scheduleEnded
+            ? `Campaign "${campaign.name}" completed - schedule ended with ${pendingCount} contacts pending.`
+            : `Campaign "${campaign.name}" completed - all contacts processed.`,
         );
       }
     } catch (err) {
@@ -1029,6 +1700,10 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
    * Returns true if current time is within the campaign's scheduled window
    */
   private canResumeCampaignInWindow(campaign: Campaign): boolean {
+    if (isRecurringSchedule(campaign.schedule)) {
+      return isWithinCallingWindow(campaign.schedule!);
+    }
+
     if (!campaign.schedule?.scheduledDate || !campaign.schedule?.scheduledTime) {
       return false;
     }
@@ -1087,22 +1762,13 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
         startedAt: new Date(),
       }).exec();
 
-      // Get or initialize user state
-      let state = this.userCallStates.get(userId);
-      if (!state) {
-        const userCampaigns = await this.campaignModel.find({ userId, status: 'active' }).exec();
-        await this.initializeUserState(userId, userCampaigns);
-        state = this.userCallStates.get(userId);
-      }
-
-      if (state) {
-        state.activeCampaigns.add(campaign._id.toString());
-      }
-
       // Start processing calls
       await this.processUserCalls(userId);
 
-      const pendingCount = campaign.contacts.filter(c => c.callStatus === 'pending').length;
+      const { pending: pendingCount } =
+        await this.campaignService.getContactStatusCounts(
+          campaign._id.toString(),
+        );
       this.logger.log(`Resumed paused-time-window campaign ${campaign.name} with ${pendingCount} pending contacts`);
     } catch (err) {
       this.logger.error(`Error resuming paused-time-window campaign ${campaign._id}:`, err?.message || err);
@@ -1118,11 +1784,6 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
     await this.campaignService.updateStatus(campaignId, 'paused');
 
-    const state = this.userCallStates.get(campaign.userId);
-    if (state) {
-      state.activeCampaigns.delete(campaignId);
-    }
-
     this.logger.log(`Campaign ${campaignId} paused`);
   }
 
@@ -1139,24 +1800,11 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       startedAt: new Date(),
     }).exec();
 
-    let state = this.userCallStates.get(campaign.userId);
-    if (!state) {
-      const userCampaigns = await this.campaignModel.find({
-        userId: campaign.userId,
-        status: 'active'
-      }).exec();
-      await this.initializeUserState(campaign.userId, [...userCampaigns, campaign]);
-      state = this.userCallStates.get(campaign.userId);
-    }
-
-    if (state) {
-      state.activeCampaigns.add(campaignId);
-    }
-
     // Process calls
     await this.processUserCalls(campaign.userId);
 
-    const pendingCount = campaign.contacts.filter(c => c.callStatus === 'pending').length;
+    const { pending: pendingCount } =
+      await this.campaignService.getContactStatusCounts(campaignId);
     this.logger.log(`Campaign ${campaignId} resumed with ${pendingCount} pending contacts`);
   }
 
@@ -1171,55 +1819,105 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Get current user call state
+   * Get current user call state (shared by all instances)
    */
-  getUserCallState(userId: string): UserCallState | undefined {
-    return this.userCallStates.get(userId);
+  async getUserCallState(userId: string): Promise<UserCallState> {
+    const [user, activeCalls, lock, activeCampaigns] = await Promise.all([
+      this.userService.findById(userId),
+      this.callConcurrencyService.countActiveCalls(userId),
+      this.leaseModel
+        .findOne({ name: `user:${userId}`, expiresAt: { $gt: new Date() } })
+        .exec(),
+      this.campaignModel
+        .find({ userId, status: 'active', type: 'outbound' })
+        .select('_id name concurrency')
+        .exec(),
+    ]);
+    const maxConcurrentCalls = user?.settings?.maxConcurrentCalls || 1;
+
+    const campaignCalls = await this.countActiveCallsByCampaign(
+      userId,
+      activeCampaigns.map((c) => c._id.toString()),
+    );
+    const campaigns: CampaignSlotUsage[] = activeCampaigns
+      .map((c) => {
+        const slotState = buildCampaignSlotState(
+          c._id.toString(),
+          maxConcurrentCalls,
+          c.concurrency,
+          campaignCalls.get(c._id.toString()) || 0,
+        );
+        return {
+          campaignId: slotState.campaignId,
+          name: c.name,
+          priority: slotState.priority,
+          maxConcurrentCalls: slotState.maxConcurrentCalls,
+          minSharePercent: c.concurrency?.minSharePercent || 0,
+          guaranteedCalls: slotState.guaranteedCalls,
+          activeCalls: slotState.activeCalls,
+        };
+      })
+      .sort((a, b) => b.priority - a.priority);
+    const campaignActiveCalls = campaigns.reduce(
+      (sum, c) => sum + c.activeCalls,
+      0,
+    );
+
+    return {
+      userId,
+      activeCalls,
+      maxConcurrentCalls,
+      isProcessing: !!lock,
+      activeCampaigns: activeCampaigns.map((c) => c._id.toString()),
+      campaigns,
+      otherCalls: Math.max(0, activeCalls - campaignActiveCalls),
+    };
   }
 
   /**
    * Get campaign state (derived from user state)
    */
-  getCampaignState(campaignId: string): { activeCalls: number; maxConcurrentCalls: number; isActive: boolean } | undefined {
-    // Find the campaign to get userId
-    for (const [, state] of this.userCallStates) {
-      if (state.activeCampaigns.has(campaignId)) {
-        return {
-          activeCalls: state.activeCalls,
-          maxConcurrentCalls: state.maxConcurrentCalls,
-          isActive: true,
-        };
-      }
+  async getCampaignState(
+    campaignId: string,
+  ): Promise<
+    | { activeCalls: number; maxConcurrentCalls: number; isActive: boolean }
+    | undefined
+  > {
+    const campaign = await this.campaignModel
+      .findById(campaignId)
+      .select('userId status')
+      .exec();
+    if (!campaign || campaign.status !== 'active') {
+      return undefined;
     }
-    return undefined;
+
+    const state = await this.getUserCallState(campaign.userId);
+    return {
+      activeCalls: state.activeCalls,
+      maxConcurrentCalls: state.maxConcurrentCalls,
+      isActive: true,
+    };
   }
 
   /**
-   * Reset user call state - clears stuck active calls counter
+   * Reset user call state - clears stuck active calls
    * Use this when calls are stuck due to missed webhooks or deployments
    */
   async resetUserCallState(userId: string): Promise<{ success: boolean; message: string; previousState?: any }> {
     try {
-      const existingState = this.userCallStates.get(userId);
-      const previousState = existingState ? {
+      const existingState = await this.getUserCallState(userId);
+      const previousState = {
         activeCalls: existingState.activeCalls,
         maxConcurrentCalls: existingState.maxConcurrentCalls,
-        activeCampaigns: Array.from(existingState.activeCampaigns),
-      } : null;
-
-      // Clear all tracked calls for this user
-      for (const [callId, callInfo] of this.activeCallsTracker) {
-        if (callInfo.userId === userId) {
-          this.activeCallsTracker.delete(callId);
-        }
-      }
+        activeCampaigns: existingState.activeCampaigns,
+      };
 
-      // Reset the user state
-      if (existingState) {
-        existingState.activeCalls = 0;
-        existingState.isProcessing = false;
-        this.logger.log(`Reset user call state for ${userId}. Previous active calls: ${previousState?.activeCalls}`);
-      }
+      // Clear all tracked calls and any stuck processing lock for this user
+      await this.activeCallModel.deleteMany({ userId }).exec();
+      await this.leaseModel.deleteOne({ name: `user:${userId}` }).exec();
+      this.logger.log(
+        `Reset user call state for ${userId}. Previous active calls: ${previousState.activeCalls}`,
+      );
 
       // Also reset any in-progress contacts in active campaigns to pending
       const activeCampaigns = await this.campaignModel.find({
@@ -1230,16 +1928,18 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
       let resetContactsCount = 0;
       for (const campaign of activeCampaigns) {
-        for (const contact of campaign.contacts) {
-          if (contact.callStatus === 'in-progress') {
-            await this.campaignService.updateContactCallStatus(
-              campaign._id.toString(),
-              contact._id!.toString(),
-              'failed',
-              { callNotes: 'Reset due to manual state clear' }
-            );
-            resetContactsCount++;
-          }
+        const campaignId = campaign._id.toString();
+        for (const contact of await this.campaignService.findInProgressContacts(
+          campaignId,
+        )) {
+          await this.campaignService.updateContactCallStatus(
+            campaignId,
+            contact._id.toString(),
+            'failed',
+            { callNotes: 'Reset due to manual state clear' },
+            'scheduler',
+          );
+          resetContactsCount++;
         }
       }
 
@@ -1286,11 +1986,16 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
 
     const result = [];
     let totalPendingContacts = 0;
+    const countsByCampaign =
+      await this.campaignService.getContactStatusCountsByCampaign(
+        pausedCampaigns.map((c) => c._id.toString()),
+      );
 
     for (const campaign of pausedCampaigns) {
-      const pendingCount = campaign.contacts.filter(c => c.callStatus === 'pending').length;
-      const completedCount = campaign.contacts.filter(c => c.callStatus === 'completed').length;
-      const failedCount = campaign.contacts.filter(c => c.callStatus === 'failed' || c.callStatus === 'no-answer').length;
+      const counts = countsByCampaign.get(campaign._id.toString())!;
+      const pendingCount = counts.pending;
+      const completedCount = counts.completed;
+      const failedCount = counts.failed + counts['no-answer'];
       
       const isInWindow = this.canResumeCampaignInWindow(campaign);
       
@@ -1300,7 +2005,7 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
           _id: campaign._id.toString(),
           name: campaign.name,
           status: campaign.status,
-          totalContacts: campaign.contacts.length,
+          totalContacts: counts.total,
           pendingContacts: pendingCount,
           completedContacts: completedCount,
           failedContacts: failedCount,
@@ -1326,10 +2031,12 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       campaignCount: number;
       totalContacts: number;
       pendingContacts: number;
+      waitingForLocalWindow: number;
       campaigns: Array<{
         _id: string;
         name: string;
         pendingContacts: number;
+        waitingForLocalWindow: number;
         totalContacts: number;
       }>;
     }>;
@@ -1337,6 +2044,7 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       totalCampaigns: number;
       totalContacts: number;
       totalPending: number;
+      totalWaitingForLocalWindow: number;
       totalCompleted: number;
       totalFailed: number;
     };
@@ -1346,52 +2054,86 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
       type: 'outbound',
     }).exec();
 
-    const byStatus: Record<string, {
-      campaignCount: number;
-      totalContacts: number;
-      pendingContacts: number;
-      campaigns: Array<{
-        _id: string;
-        name: string;
-        pendingContacts: number;
+    const byStatus: Record<
+      string,
+      {
+        campaignCount: number;
         totalContacts: number;
-      }>;
-    }> = {};
+        pendingContacts: number;
+        waitingForLocalWindow: number;
+        campaigns: Array<{
+          _id: string;
+          name: string;
+          pendingContacts: number;
+          waitingForLocalWindow: number;
+          totalContacts: number;
+        }>;
+      }
+    > = {};
 
     let totalPending = 0;
+    let totalWaitingForLocalWindow = 0;
     let totalCompleted = 0;
     let totalFailed = 0;
     let totalContacts = 0;
 
+    const countsByCampaign =
+      await this.campaignService.getContactStatusCountsByCampaign(
+        allCampaigns.map((c) => c._id.toString()),
+      );
+    const now = new Date();
+
     for (const campaign of allCampaigns) {
-      const pendingCount = campaign.contacts.filter(c => c.callStatus === 'pending').length;
-      const completedCount = campaign.contacts.filter(c => c.callStatus === 'completed').length;
-      const failedCount = campaign.contacts.filter(c => c.callStatus === 'failed' || c.callStatus === 'no-answer').length;
+      const counts = countsByCampaign.get(campaign._id.toString())!;
+      const pendingCount = counts.pending;
+      // Pending contacts that are outside their own local calling hours right now
+      let waitingCount = 0;
+      if (campaign.schedule?.localCallingHours && pendingCount > 0) {
+        for (const group of await this.campaignService.countPendingContactsByTimezone(
+          campaign._id.toString(),
+        )) {
+          if (
+            !isWithinContactLocalHours(
+              campaign.schedule,
+              { phoneNumber: '', timezone: group.timezone },
+              now,
+            )
+          ) {
+            waitingCount += group.count;
+          }
+        }
+      }
+      const completedCount = counts.completed;
+      const failedCount = counts.failed + counts['no-answer'];
       
       totalPending += pendingCount;
+      totalWaitingForLocalWindow += waitingCount;
       totalCompleted += completedCount;
       totalFailed += failedCount;
-      totalContacts += campaign.contacts.length;
+      totalContacts += counts.total;
 
       if (!byStatus[campaign.status]) {
         byStatus[campaign.status] = {
           campaignCount: 0,
           totalContacts: 0,
           pendingContacts: 0,
+          waitingForLocalWindow: 0,
           campaigns: [],
         };
       }
 
       byStatus[campaign.status].campaignCount++;
-      byStatus[campaign.status].totalContacts += campaign.contacts.length;
+      byStatus[campaign.status].totalContacts += counts.total;
       byStatus[campaign.status].pendingContacts += pendingCount;
+      byStatus[campaign.status].waitingForLocalWindow += waitingCount;
       
       if (pendingCount > 0) {
         byStatus[campaign.status].campaigns.push({
           _id: campaign._id.toString(),
           name: campaign.name,
           pendingContacts: pendingCount,
-          totalContacts: campaign.contacts.length,
+          waitingForLocalWindow: waitingCount,
+          totalContacts: counts.total,
         });
       }
     }
@@ -1402,6 +2144,7 @@ export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
         totalCampaigns: allCampaigns.length,
         totalContacts,
         totalPending,
+        totalWaitingForLocalWindow,
         totalCompleted,
         totalFailed,
       },
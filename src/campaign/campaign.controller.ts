@@ -12,18 +12,56 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  Res,
+  HttpCode,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { CampaignService } from './campaign.service';
 import { CampaignSchedulerService } from './campaign-scheduler.service';
-import { Campaign, CampaignContact } from './campaign.schema';
+import {
+  Campaign,
+  CampaignAnsweringMachine,
+  CampaignCallerIdPool,
+  CampaignConcurrency,
+  CampaignContact,
+  CampaignSchedule,
+  VoicemailAction,
+} from './campaign.schema';
 import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
-import { ResponseHelper } from '../response.helper';
+import { ToolSecretGuard } from '../webhook/tool-secret.guard';
+import { ResponseHelper, StandardResponse } from '../response.helper';
 import { AppLogger } from '../app.logger';
 import { AgentService } from '../agent/agent.service';
+import { Agent } from '../agent/agent.schema';
 import { UltravoxService } from '../agent/ultravox.service';
+import { buildTemplateContext } from '../agent/template-context.util';
 import { UserService } from '../user/user.service';
+import { TelephonySettings } from '../user/user.schema';
 import { CallHistoryService } from '../call-history/call-history.service';
+import { DncService } from '../dnc/dnc.service';
+import { CallConcurrencyService } from '../call-concurrency/call-concurrency.service';
+import { CallerIdService } from '../caller-id/caller-id.service';
+import { CALLER_ID_STRATEGIES } from '../caller-id/caller-id.util';
+import { validateDispositionConfig } from './disposition.util';
+import { validateRetryPolicy } from './retry-policy.util';
+import { formatCallbackTime } from './callback.util';
+import {
+  normalizePhoneNumber,
+  isSupportedCountry,
+} from '../phone-number.helper';
+import {
+  isRecurringSchedule,
+  isWithinCallingWindow,
+  hasScheduleEnded,
+} from './campaign-schedule.util';
+import {
+  parseContactFile,
+  suggestColumnMapping,
+  applyColumnMapping,
+} from './contact-import.util';
+import { CONTACT_ORDERS, validateContactPriority } from './contact-order.util';
+import { ContactColumnMapping } from './contact-import.schema';
 import * as XLSX from 'xlsx';
 
 @Controller('campaigns')
@@ -37,6 +75,9 @@ export class CampaignController {
     private readonly ultravoxService: UltravoxService,
     private readonly userService: UserService,
     private readonly callHistoryService: CallHistoryService,
+    private readonly dncService: DncService,
+    private readonly callConcurrencyService: CallConcurrencyService,
+    private readonly callerIdService: CallerIdService,
   ) {}
 
   // Helper to extract user info from JWT token or API key
@@ -50,10 +91,269 @@ export class CampaignController {
     return null;
   }
 
+  // Validate campaign concurrency settings - returns an error message or null if valid
+  private validateConcurrency(
+    concurrency?: Partial<CampaignConcurrency>,
+  ): string | null {
+    if (!concurrency) return null;
+
+    if (
+      concurrency.priority !== undefined &&
+      (!Number.isInteger(concurrency.priority) ||
+        concurrency.priority < 0 ||
+        concurrency.priority > 100)
+    ) {
+      return 'concurrency.priority must be an integer between 0 and 100';
+    }
+    if (
+      concurrency.maxConcurrentCalls !== undefined &&
+      concurrency.maxConcurrentCalls !== null &&
+      (!Number.isInteger(concurrency.maxConcurrentCalls) ||
+        concurrency.maxConcurrentCalls < 1)
+    ) {
+      return 'concurrency.maxConcurrentCalls must be a positive integer';
+    }
+    if (
+      concurrency.minSharePercent !== undefined &&
+      (typeof concurrency.minSharePercent !== 'number' ||
+        concurrency.minSharePercent < 0 ||
+        concurrency.minSharePercent > 100)
+    ) {
+      return 'concurrency.minSharePercent must be a number between 0 and 100';
+    }
+    return null;
+  }
+
+  // Validate campaign answering machine settings - returns an error message or null if valid
+  private validateAnsweringMachine(
+    answeringMachine?: Partial<CampaignAnsweringMachine>,
+  ): string | null {
+    if (!answeringMachine) return null;
+
+    const actions: VoicemailAction[] = ['hangup', 'message', 'agent'];
+    if (
+      answeringMachine.action !== undefined &&
+      !actions.includes(answeringMachine.action)
+    ) {
+      return `answeringMachine.action must be one of: ${actions.join(', ')}`;
+    }
+    if (
+      answeringMachine.action === 'message' &&
+      (typeof answeringMachine.message !== 'string' ||
+        !answeringMachine.message.trim())
+    ) {
+      return 'answeringMachine.message is required when action is message';
+    }
+    if (
+      answeringMachine.action === 'agent' &&
+      (typeof answeringMachine.agentScript !== 'string' ||
+        !answeringMachine.agentScript.trim())
+    ) {
+      return 'answeringMachine.agentScript is required when action is agent';
+    }
+    return null;
+  }
+
+  /**
+   * Normalize an inbound number to E.164 and make sure no other inbound campaign answers it
+   * (incoming calls are routed by the dialled number)
+   */
+  private async checkInboundPhoneNumber(
+    phoneNumber: string,
+    campaignId?: string,
+  ): Promise<{ phoneNumber?: string; error?: string; statusCode?: number }> {
+    const phone = normalizePhoneNumber(phoneNumber);
+    if (!phone.valid) {
+      return {
+        error: `Invalid inbound phone number: ${phone.error}`,
+        statusCode: 400,
+      };
+    }
+
+    const existing = await this.campaignService.findInboundCampaignByNumber(
+      phone.e164,
+    );
+    if (existing && existing._id.toString() !== campaignId) {
+      return {
+        error: `${phone.e164} is already assigned to inbound campaign "${existing.name}"`,
+        statusCode: 409,
+      };
+    }
+    return { phoneNumber: phone.e164 };
+  }
+
+  /**
+   * Validate a caller ID pool and normalize its numbers to E.164
+   * Every number must be one of the user's configured numbers for the campaign's provider
+   */
+  private async checkCallerIdPool(
+    pool: Partial<CampaignCallerIdPool>,
+    provider: Campaign['outboundProvider'],
+    userId: string,
+  ): Promise<{ pool?: CampaignCallerIdPool; error?: string }> {
+    if (!Array.isArray(pool.numbers) || pool.numbers.length === 0) {
+      return {
+        error:
+          'callerIdPool.numbers must be a non-empty array of phone numbers',
+      };
+    }
+    if (
+      pool.strategy !== undefined &&
+      !CALLER_ID_STRATEGIES.includes(pool.strategy)
+    ) {
+      return {
+        error: `callerIdPool.strategy must be one of: ${CALLER_ID_STRATEGIES.join(', ')}`,
+      };
+    }
+    if (
+      pool.dailyCallCap !== undefined &&
+      pool.dailyCallCap !== null &&
+      (!Number.isInteger(pool.dailyCallCap) || pool.dailyCallCap < 1)
+    ) {
+      return { error: 'callerIdPool.dailyCallCap must be a positive integer' };
+    }
+    if (
+      pool.cooldownSeconds !== undefined &&
+      pool.cooldownSeconds !== null &&
+      (!Number.isInteger(pool.cooldownSeconds) || pool.cooldownSeconds < 0)
+    ) {
+      return {
+        error: 'callerIdPool.cooldownSeconds must be a non-negative integer',
+      };
+    }
+    if (!provider) {
+      return { error: 'outboundProvider is required for a caller ID pool' };
+    }
+
+    const user = await this.userService.findById(userId);
+    const telephony = user?.settings?.telephony;
+    const configured =
+      {
+        twilio: telephony?.twilioPhoneNumbers,
+        plivo: telephony?.plivoPhoneNumbers,
+        telnyx: telephony?.telnyxPhoneNumbers,
+      }[provider] || [];
+    const available = new Set(
+      configured.map((number) => {
+        const phone = normalizePhoneNumber(number);
+        return phone.valid ? phone.e164 : number;
+      }),
+    );
+
+    const numbers: string[] = [];
+    for (const number of pool.numbers) {
+      const phone = normalizePhoneNumber(number);
+      if (!phone.valid) {
+        return { error: `Invalid caller ID ${number}: ${phone.error}` };
+      }
+      if (!available.has(phone.e164)) {
+        return {
+          error: `${phone.e164} is not one of your ${provider} phone numbers`,
+        };
+      }
+      if (!numbers.includes(phone.e164)) numbers.push(phone.e164);
+    }
+    return { pool: { strategy: 'round-robin', ...pool, numbers } };
+  }
+
+  // Validate a campaign schedule - returns an error message or null when valid
+  // Accepts a single-day window (scheduledTime/endTime) or recurring callingWindows
+  private validateSchedule(schedule?: CampaignSchedule): string | null {
+    if (!schedule) return null;
+
+    const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (
+      !schedule.scheduledDate ||
+      isNaN(new Date(schedule.scheduledDate).getTime())
+    ) {
+      return 'schedule.scheduledDate must be a valid date';
+    }
+    if (
+      schedule.scheduledTime !== undefined &&
+      !timePattern.test(schedule.scheduledTime)
+    ) {
+      return 'schedule.scheduledTime must be in HH:mm format';
+    }
+    if (schedule.endTime !== undefined && !timePattern.test(schedule.endTime)) {
+      return 'schedule.endTime must be in HH:mm format';
+    }
+    if (schedule.endDate !== undefined) {
+      if (isNaN(new Date(schedule.endDate).getTime())) {
+        return 'schedule.endDate must be a valid date';
+      }
+      if (
+        new Date(schedule.endDate).getTime() <
+        new Date(schedule.scheduledDate).getTime()
+      ) {
+        return 'schedule.endDate must not be before schedule.scheduledDate';
+      }
+    }
+
+    if (schedule.callingWindows !== undefined) {
+      if (!Array.isArray(schedule.callingWindows)) {
+        return 'schedule.callingWindows must be an array';
+      }
+      for (const window of schedule.callingWindows) {
+        if (
+          !Array.isArray(window?.days) ||
+          window.days.length === 0 ||
+          window.days.some(
+            (d: number) => !Number.isInteger(d) || d < 0 || d > 6,
+          )
+        ) {
+          return 'schedule.callingWindows[].days must be a non-empty list of weekdays (0 = Sunday ... 6 = Saturday)';
+        }
+        if (
+          !timePattern.test(window.startTime) ||
+          !timePattern.test(window.endTime)
+        ) {
+          return 'schedule.callingWindows[].startTime and endTime must be in HH:mm format';
+        }
+        if (window.startTime === window.endTime) {
+          return 'schedule.callingWindows[].startTime and endTime must differ';
+        }
+      }
+    }
+
+    if (
+      schedule.blackoutDates !== undefined &&
+      (!Array.isArray(schedule.blackoutDates) ||
+        schedule.blackoutDates.some((d: string) => !datePattern.test(d)))
+    ) {
+      return 'schedule.blackoutDates must be a list of YYYY-MM-DD dates';
+    }
+    if (
+      schedule.holidays !== undefined &&
+      (!Array.isArray(schedule.holidays) ||
+        schedule.holidays.some((h) => !datePattern.test(h?.date)))
+    ) {
+      return 'schedule.holidays[].date must be in YYYY-MM-DD format';
+    }
+
+    if (
+      schedule.localCallingHours !== undefined &&
+      (!timePattern.test(schedule.localCallingHours?.startTime) ||
+        !timePattern.test(schedule.localCallingHours?.endTime))
+    ) {
+      return 'schedule.localCallingHours.startTime and endTime must be in HH:mm format';
+    }
+
+    if (!schedule.scheduledTime && !isRecurringSchedule(schedule)) {
+      return 'schedule requires either scheduledTime or callingWindows';
+    }
+    return null;
+  }
+
   // Create a new campaign
   @UseGuards(AuthOrApiKeyGuard)
   @Post()
-  async create(@Body() campaignData: any, @Req() req: any) {
+  async create(
+    @Body()
+    campaignData: Partial<Campaign> & { contacts?: Partial<CampaignContact>[] },
+    @Req() req: any,
+  ) {
     const userInfo = this.getUserFromRequest(req);
     if (!userInfo || !userInfo.userId) {
       this.logger.warn('userId missing or invalid in create campaign');
@@ -62,12 +362,14 @@ export class CampaignController {
 
     try {
       // Validate agent exists
+      let contextSchema: Record<string, any> | undefined;
       if (campaignData.agentId) {
         const agent = await this.agentService.findOne(campaignData.agentId);
         if (!agent) {
           return this.responseHelper.error('Agent not found', 404);
         }
         campaignData.agentName = agent.name;
+        contextSchema = agent.callTemplate?.contextSchema;
       }
 
       // Validate schedule for outbound campaigns
@@ -80,10 +382,157 @@ export class CampaignController {
         return this.responseHelper.error('Contacts are required for outbound campaigns. Please upload a file with valid contacts (name and phone number).', 400);
       }
 
-      const campaign = await this.campaignService.create({
-        ...campaignData,
-        userId: userInfo.userId,
-      });
+      const scheduleError = this.validateSchedule(campaignData.schedule);
+      if (scheduleError) {
+        return this.responseHelper.error(scheduleError, 400);
+      }
+
+      const retryPolicyError = validateRetryPolicy(campaignData.retryPolicy);
+      if (retryPolicyError) {
+        return this.responseHelper.error(retryPolicyError, 400);
+      }
+
+      const concurrencyError = this.validateConcurrency(
+        campaignData.concurrency,
+      );
+      if (concurrencyError) {
+        return this.responseHelper.error(concurrencyError, 400);
+      }
+
+      const answeringMachineError = this.validateAnsweringMachine(
+        campaignData.answeringMachine,
+      );
+      if (answeringMachineError) {
+        return this.responseHelper.error(answeringMachineError, 400);
+      }
+
+      const dispositionError = validateDispositionConfig(
+        campaignData.disposition,
+      );
+      if (dispositionError) {
+        return this.responseHelper.error(dispositionError, 400);
+      }
+
+      if (
+        campaignData.contactOrder !== undefined &&
+        !CONTACT_ORDERS.includes(campaignData.contactOrder)
+      ) {
+        return this.responseHelper.error(
+          `contactOrder must be one of: ${CONTACT_ORDERS.join(', ')}`,
+          400,
+        );
+      }
+
+      if (campaignData.callerIdPool) {
+        const callerIds = await this.checkCallerIdPool(
+          campaignData.callerIdPool,
+          campaignData.outboundProvider,
+          userInfo.userId,
+        );
+        if (callerIds.error) {
+          return this.responseHelper.error(callerIds.error, 400);
+        }
+        campaignData.callerIdPool = callerIds.pool;
+      }
+
+      if (
+        campaignData.defaultCountry !== undefined &&
+        !isSupportedCountry(campaignData.defaultCountry)
+      ) {
+        return this.responseHelper.error(
+          'defaultCountry must be an ISO 3166-1 alpha-2 country code (e.g. IN, US)',
+          400,
+        );
+      }
+
+      if (campaignData.inboundPhoneNumber) {
+        const inbound = await this.checkInboundPhoneNumber(
+          campaignData.inboundPhoneNumber,
+        );
+        if (inbound.error) {
+          return this.responseHelper.error(inbound.error, inbound.statusCode);
+        }
+        campaignData.inboundPhoneNumber = inbound.phoneNumber;
+      }
+
+      // Normalize inline contacts to E.164 and check custom fields against the agent's contextSchema
+      // - reject the request if any contact is invalid
+      if (
+        Array.isArray(campaignData.contacts) &&
+        campaignData.contacts.length > 0
+      ) {
+        const user = await this.userService.findById(userInfo.userId);
+        const defaultCountry =
+          campaignData.defaultCountry || user?.settings?.defaultCountry;
+        const invalid: {
+          row: number;
+          name?: string;
+          phoneNumber?: string;
+          error: string;
+        }[] = [];
+
+        campaignData.contacts = campaignData.contacts.map((contact, index) => {
+          const phone = normalizePhoneNumber(
+            contact.phoneNumber,
+            defaultCountry,
+          );
+          if (!phone.valid) {
+            invalid.push({
+              row: index + 1,
+              name: contact.name,
+              phoneNumber: contact.phoneNumber,
+              error: phone.error,
+            });
+            return contact;
+          }
+          const priorityError = validateContactPriority(contact.priority);
+          if (priorityError) {
+            invalid.push({
+              row: index + 1,
+              name: contact.name,
+              phoneNumber: contact.phoneNumber,
+              error: priorityError,
+            });
+            return contact;
+          }
+          if (!contact.customFields) {
+            return { ...contact, phoneNumber: phone.e164 };
+          }
+
+          const variables = buildTemplateContext(
+            contextSchema,
+            contact.customFields,
+          );
+          if (variables.errors.length > 0) {
+            invalid.push({
+              row: index + 1,
+              name: contact.name,
+              phoneNumber: contact.phoneNumber,
+              error: variables.errors.join('; '),
+            });
+            return contact;
+          }
+          return {
+            ...contact,
+            phoneNumber: phone.e164,
+            customFields: { ...contact.customFields, ...variables.context },
+          };
+        });
+
+        if (invalid.length > 0) {
+          return this.responseHelper.error(
+            `${invalid.length} contacts are invalid`,
+            400,
+            { invalid },
+          );
+        }
+      }
+
+      const { contacts, ...campaignFields } = campaignData;
+      const campaign = await this.campaignService.create(
+        { ...campaignFields, userId: userInfo.userId },
+        Array.isArray(contacts) ? contacts : [],
+      );
 
       this.logger.log(`Campaign created for user ${userInfo.userId}`);
       return this.responseHelper.success(campaign, 'Campaign created', 201);
@@ -151,17 +600,10 @@ export class CampaignController {
     }
 
     try {
-      const state = this.campaignSchedulerService.getUserCallState(userInfo.userId);
-      const user = await this.userService.findById(userInfo.userId);
-      const maxConcurrentCalls = user?.settings?.maxConcurrentCalls || 1;
-
-      return this.responseHelper.success({
-        userId: userInfo.userId,
-        activeCalls: state?.activeCalls ?? 0,
-        maxConcurrentCalls: state?.maxConcurrentCalls ?? maxConcurrentCalls,
-        isProcessing: state?.isProcessing ?? false,
-        activeCampaigns: state ? Array.from(state.activeCampaigns) : [],
-      }, 'Call state fetched');
+      const state = await this.campaignSchedulerService.getUserCallState(
+        userInfo.userId,
+      );
+      return this.responseHelper.success(state, 'Call state fetched');
     } catch (err) {
       this.logger.error('Error fetching call state', err);
       return this.responseHelper.error('Failed to fetch call state', 500, err?.message || err);
@@ -192,6 +634,76 @@ export class CampaignController {
     }
   }
 
+  /**
+   * Built-in agent tool: record the outcome of the current campaign call
+   * Called by Ultravox during a call with the call ID as an automatic parameter
+   * NOTE: This route MUST be defined BEFORE the :id routes to avoid being caught by them
+   */
+  @UseGuards(ToolSecretGuard)
+  @Post('tool/disposition')
+  @HttpCode(200)
+  async toolRecordDisposition(
+    @Body()
+    body: {
+      callId?: string;
+      outcome?: string;
+      fields?: Record<string, any>;
+      notes?: string;
+    },
+  ) {
+    if (!body?.callId) {
+      return { result: 'Unable to identify the current call.' };
+    }
+
+    try {
+      const recorded = await this.campaignService.recordDisposition(
+        body.callId,
+        body,
+      );
+      if (recorded.error) {
+        return { result: `The outcome was not recorded. ${recorded.error}` };
+      }
+      return {
+        result: `The call outcome "${recorded.disposition!.outcome}" has been recorded.`,
+      };
+    } catch (err) {
+      this.logger.error('Error in disposition tool', err);
+      return { result: 'Unable to record the call outcome right now.' };
+    }
+  }
+
+  /**
+   * Built-in agent tool: schedule a callback the contact asked for on the current call
+   * NOTE: This route MUST be defined BEFORE the :id routes to avoid being caught by them
+   */
+  @UseGuards(ToolSecretGuard)
+  @Post('tool/callback')
+  @HttpCode(200)
+  async toolScheduleCallback(
+    @Body() body: { callId?: string; time?: string; notes?: string },
+  ) {
+    if (!body?.callId) {
+      return { result: 'Unable to identify the current call.' };
+    }
+
+    try {
+      const scheduled = await this.campaignService.scheduleCallbackFromCall(
+        body.callId,
+        body,
+      );
+      if (scheduled.error) {
+        return { result: `The callback was not scheduled. ${scheduled.error}` };
+      }
+      const { scheduledAt, timezone } = scheduled.callback!;
+      return {
+        result: `Callback scheduled for ${formatCallbackTime(scheduledAt, timezone!)}. Confirm this time with the caller.`,
+      };
+    } catch (err) {
+      this.logger.error('Error in callback tool', err);
+      return { result: 'Unable to schedule the callback right now.' };
+    }
+  }
+
   // Get all campaigns with pending contacts that can be resumed in their time window
   // These are campaigns in 'paused-time-window' status with pending contacts
   // NOTE: This route MUST be defined BEFORE the :id route to avoid being caught by it
@@ -261,6 +773,84 @@ export class CampaignController {
         updateData.agentName = agent.name;
       }
 
+      const scheduleError = this.validateSchedule(updateData.schedule);
+      if (scheduleError) {
+        return this.responseHelper.error(scheduleError, 400);
+      }
+
+      if (
+        updateData.defaultCountry !== undefined &&
+        !isSupportedCountry(updateData.defaultCountry)
+      ) {
+        return this.responseHelper.error(
+          'defaultCountry must be an ISO 3166-1 alpha-2 country code (e.g. IN, US)',
+          400,
+        );
+      }
+
+      const retryPolicyError = validateRetryPolicy(updateData.retryPolicy);
+      if (retryPolicyError) {
+        return this.responseHelper.error(retryPolicyError, 400);
+      }
+
+      const concurrencyError = this.validateConcurrency(updateData.concurrency);
+      if (concurrencyError) {
+        return this.responseHelper.error(concurrencyError, 400);
+      }
+
+      const answeringMachineError = this.validateAnsweringMachine(
+        updateData.answeringMachine,
+      );
+      if (answeringMachineError) {
+        return this.responseHelper.error(answeringMachineError, 400);
+      }
+
+      const dispositionError = validateDispositionConfig(
+        updateData.disposition,
+      );
+      if (dispositionError) {
+        return this.responseHelper.error(dispositionError, 400);
+      }
+
+      if (
+        updateData.contactOrder !== undefined &&
+        !CONTACT_ORDERS.includes(updateData.contactOrder)
+      ) {
+        return this.responseHelper.error(
+          `contactOrder must be one of: ${CONTACT_ORDERS.join(', ')}`,
+          400,
+        );
+      }
+
+      if (updateData.callerIdPool) {
+        const existing = await this.campaignService.findOne(id);
+        if (!existing) {
+          return this.responseHelper.error('Campaign not found', 404);
+        }
+        const provider =
+          updateData.outboundProvider || existing.outboundProvider;
+        const callerIds = await this.checkCallerIdPool(
+          updateData.callerIdPool,
+          provider,
+          existing.userId,
+        );
+        if (callerIds.error) {
+          return this.responseHelper.error(callerIds.error, 400);
+        }
+        updateData.callerIdPool = callerIds.pool;
+      }
+
+      if (updateData.inboundPhoneNumber) {
+        const inbound = await this.checkInboundPhoneNumber(
+          updateData.inboundPhoneNumber,
+          id,
+        );
+        if (inbound.error) {
+          return this.responseHelper.error(inbound.error, inbound.statusCode);
+        }
+        updateData.inboundPhoneNumber = inbound.phoneNumber;
+      }
+
       const campaign = await this.campaignService.update(id, updateData);
       if (!campaign) {
         return this.responseHelper.error('Campaign not found', 404);
@@ -317,12 +907,19 @@ export class CampaignController {
     @Param('id') id: string,
     @Query('page') page: string = '1',
     @Query('limit') limit: string = '50',
+    @Query('disposition') disposition?: string,
+    @Query('hasCallback') hasCallback?: string,
   ) {
     try {
       const result = await this.campaignService.getContacts(
         id,
         parseInt(page, 10),
         parseInt(limit, 10),
+        {
+          disposition,
+          hasCallback:
+            hasCallback === undefined ? undefined : hasCallback === 'true',
+        },
       );
       return this.responseHelper.success(result, 'Contacts fetched');
     } catch (err) {
@@ -336,16 +933,54 @@ export class CampaignController {
   @Post(':id/contacts')
   async addContacts(
     @Param('id') id: string,
-    @Body() body: { contacts: { name: string; phoneNumber: string }[] },
+    @Body()
+    body: {
+      contacts: {
+        name: string;
+        phoneNumber: string;
+        timezone?: string;
+        priority?: number;
+        group?: string;
+        customFields?: Record<string, any>;
+      }[];
+    },
   ) {
     try {
-      const campaign = await this.campaignService.addContacts(id, body.contacts);
-      if (!campaign) {
+      const result = await this.campaignService.addContacts(id, body.contacts);
+      if (!result) {
         return this.responseHelper.error('Campaign not found', 404);
       }
 
-      this.logger.log(`${body.contacts.length} contacts added to campaign ${id}`);
-      return this.responseHelper.success(campaign, 'Contacts added');
+      if (result.invalid.length > 0) {
+        return this.responseHelper.error(
+          `${result.invalid.length} contacts are invalid`,
+          400,
+          {
+            invalid: result.invalid,
+          },
+        );
+      }
+
+      const skippedCount = result.skippedDoNotCall.length;
+      if (skippedCount > 0 && skippedCount === body.contacts.length) {
+        return this.responseHelper.error(
+          'All contacts are on the do-not-call list',
+          400,
+          {
+            skippedDoNotCall: result.skippedDoNotCall,
+          },
+        );
+      }
+
+      this.logger.log(
+        `${body.contacts.length - skippedCount} contacts added to campaign ${id}, ${skippedCount} skipped (do-not-call)`,
+      );
+      return this.responseHelper.success(
+        result.campaign,
+        skippedCount > 0
+          ? `Contacts added, ${skippedCount} skipped (on do-not-call list)`
+          : 'Contacts added',
+      );
     } catch (err) {
       this.logger.error('Error adding contacts', err);
       return this.responseHelper.error('Failed to add contacts', 500, err?.message || err);
@@ -361,31 +996,149 @@ export class CampaignController {
     @Body() contactData: Partial<CampaignContact>,
   ) {
     try {
-      const campaign = await this.campaignService.updateContact(id, contactId, contactData);
-      if (!campaign) {
+      if (contactData.phoneNumber !== undefined) {
+        const phone = await this.campaignService.normalizeContactPhone(
+          id,
+          contactData.phoneNumber,
+        );
+        if (!phone.valid) {
+          return this.responseHelper.error(
+            `Invalid phone number: ${phone.error}`,
+            400,
+          );
+        }
+        contactData.phoneNumber = phone.e164;
+      }
+
+      const priorityError = validateContactPriority(contactData.priority);
+      if (priorityError) {
+        return this.responseHelper.error(priorityError, 400);
+      }
+
+      if (contactData.customFields !== undefined) {
+        const fields = await this.campaignService.validateContactFields(
+          id,
+          contactData.customFields || {},
+        );
+        if (fields.errors.length > 0) {
+          return this.responseHelper.error(
+            `Invalid custom fields: ${fields.errors.join('; ')}`,
+            400,
+          );
+        }
+        contactData.customFields = fields.customFields;
+      }
+
+      const contact = await this.campaignService.updateContact(
+        id,
+        contactId,
+        contactData,
+      );
+      if (!contact) {
         return this.responseHelper.error('Campaign or contact not found', 404);
       }
 
       this.logger.log(`Contact ${contactId} updated in campaign ${id}`);
-      return this.responseHelper.success(campaign, 'Contact updated');
+      return this.responseHelper.success(contact, 'Contact updated');
     } catch (err) {
       this.logger.error('Error updating contact', err);
       return this.responseHelper.error('Failed to update contact', 500, err?.message || err);
     }
   }
 
+  /**
+   * Schedule or move a contact's callback
+   * Body: { time: "tomorrow 4pm" } (contact's local time) or { scheduledAt: ISO 8601 }, optional notes
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Put(':id/contacts/:contactId/callback')
+  async scheduleCallback(
+    @Param('id') id: string,
+    @Param('contactId') contactId: string,
+    @Body() body: { time?: string; scheduledAt?: string; notes?: string },
+  ) {
+    try {
+      if (!body?.time && !body?.scheduledAt) {
+        return this.responseHelper.error(
+          'time or scheduledAt is required',
+          400,
+        );
+      }
+
+      let scheduledAt: Date | undefined;
+      if (body.scheduledAt) {
+        scheduledAt = new Date(body.scheduledAt);
+        if (isNaN(scheduledAt.getTime()) || scheduledAt <= new Date()) {
+          return this.responseHelper.error(
+            'scheduledAt must be a valid date in the future',
+            400,
+          );
+        }
+      }
+
+      const result = await this.campaignService.scheduleCallback(
+        id,
+        contactId,
+        {
+          time: body.scheduledAt ? undefined : body.time,
+          scheduledAt,
+          notes: body.notes,
+          source: 'api',
+        },
+      );
+      if (result.error) {
+        return this.responseHelper.error(
+          result.error,
+          result.statusCode || 400,
+        );
+      }
+
+      return this.responseHelper.success(result.contact, 'Callback scheduled');
+    } catch (err) {
+      this.logger.error('Error scheduling callback', err);
+      return this.responseHelper.error(
+        'Failed to schedule callback',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Cancel a contact's pending callback
+  @UseGuards(AuthOrApiKeyGuard)
+  @Delete(':id/contacts/:contactId/callback')
+  async cancelCallback(
+    @Param('id') id: string,
+    @Param('contactId') contactId: string,
+  ) {
+    try {
+      const contact = await this.campaignService.cancelCallback(id, contactId);
+      if (!contact) {
+        return this.responseHelper.error('Contact or callback not found', 404);
+      }
+      return this.responseHelper.success(contact, 'Callback cancelled');
+    } catch (err) {
+      this.logger.error('Error cancelling callback', err);
+      return this.responseHelper.error(
+        'Failed to cancel callback',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
   // Delete a contact from a campaign
   @UseGuards(AuthOrApiKeyGuard)
   @Delete(':id/contacts/:contactId')
   async deleteContact(@Param('id') id: string, @Param('contactId') contactId: string) {
     try {
-      const campaign = await this.campaignService.deleteContact(id, contactId);
-      if (!campaign) {
-        return this.responseHelper.error('Campaign not found', 404);
+      const contact = await this.campaignService.deleteContact(id, contactId);
+      if (!contact) {
+        return this.responseHelper.error('Campaign or contact not found', 404);
       }
 
       this.logger.log(`Contact ${contactId} deleted from campaign ${id}`);
-      return this.responseHelper.success(campaign, 'Contact deleted');
+      return this.responseHelper.success(contact, 'Contact deleted');
     } catch (err) {
       this.logger.error('Error deleting contact', err);
       return this.responseHelper.error('Failed to delete contact', 500, err?.message || err);
@@ -402,73 +1155,63 @@ export class CampaignController {
     }
 
     try {
-      // Parse the Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data: any[] = XLSX.utils.sheet_to_json(worksheet);
-
-      if (data.length === 0) {
+      // One-step import: columns are matched with the suggested mapping and every other column
+      // becomes a custom field. Use /contact-imports to review or choose the mapping first.
+      const { headers, rows } = parseContactFile(file.buffer);
+      if (rows.length === 0) {
         return this.responseHelper.error('Excel file is empty', 400);
       }
 
-      // Extract contacts from Excel data
-      // Support various column name formats
-      const contacts: { name: string; phoneNumber: string }[] = [];
-
-      for (const row of data) {
-        // Try to find name column (case-insensitive)
-        const name =
-          row.name ||
-          row.Name ||
-          row.NAME ||
-          row['Full Name'] ||
-          row['full name'] ||
-          row['Contact Name'] ||
-          row['contact name'] ||
-          '';
-
-        // Try to find phone column (case-insensitive)
-        const phone =
-          row.phone ||
-          row.Phone ||
-          row.PHONE ||
-          row.phoneNumber ||
-          row.PhoneNumber ||
-          row['Phone Number'] ||
-          row['phone number'] ||
-          row.mobile ||
-          row.Mobile ||
-          row.MOBILE ||
-          row['Mobile Number'] ||
-          row['mobile number'] ||
-          '';
-
-        if (name && phone) {
-          contacts.push({
-            name: String(name).trim(),
-            phoneNumber: String(phone).trim(),
-          });
-        }
-      }
-
-      if (contacts.length === 0) {
+      const mapping = suggestColumnMapping(headers);
+      if (!mapping.name || !mapping.phoneNumber) {
         return this.responseHelper.error(
-          'No valid contacts found. Make sure your Excel file has "name" and "phone" columns.',
+          'Could not detect the name and phone columns. Use the contact import with a column mapping instead.',
           400,
+          { headers, suggestedMapping: mapping },
         );
       }
 
+      const contacts = rows.map((row) =>
+        applyColumnMapping(row, mapping as ContactColumnMapping),
+      );
+
       // Bulk import contacts
-      const campaign = await this.campaignService.bulkImportContacts(id, contacts);
-      if (!campaign) {
+      const result = await this.campaignService.bulkImportContacts(
+        id,
+        contacts,
+      );
+      if (!result) {
         return this.responseHelper.error('Campaign not found', 404);
       }
 
-      this.logger.log(`${contacts.length} contacts uploaded to campaign ${id}`);
+      const failedCount =
+        result.invalid.length +
+        result.duplicates.length +
+        result.skippedDoNotCall.length;
+      this.logger.log(
+        `Contacts uploaded to campaign ${id}: ${result.importedCount} imported, ${result.invalid.length} invalid, ` +
+          `${result.duplicates.length} duplicates, ${result.skippedDoNotCall.length} do-not-call`,
+      );
       return this.responseHelper.success(
-        { importedCount: contacts.length, campaign },
-        `${contacts.length} contacts imported successfully`,
+        {
+          totalRows: contacts.length,
+          importedCount: result.importedCount,
+          validCount: result.importedCount + result.skippedDoNotCall.length,
+          invalidCount: result.invalid.length,
+          duplicateCount: result.duplicates.length,
+          skippedDoNotCallCount: result.skippedDoNotCall.length,
+          errors: [
+            ...result.invalid,
+            ...result.duplicates,
+            ...result.skippedDoNotCall,
+          ],
+          failedRowsUrl:
+            failedCount > 0 ? `/campaigns/${id}/upload/errors` : null,
+          campaign: result.campaign,
+        },
+        failedCount > 0
+          ? `${result.importedCount} contacts imported successfully, ${failedCount} rows rejected`
+          : `${result.importedCount} contacts imported successfully`,
       );
     } catch (err) {
       this.logger.error('Error uploading contacts', err);
@@ -476,6 +1219,50 @@ export class CampaignController {
     }
   }
 
+  // Download rows rejected by the most recent file import as CSV
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get(':id/upload/errors')
+  async downloadImportErrors(@Param('id') id: string, @Res() res: Response) {
+    try {
+      const campaign = await this.campaignService.findOne(id);
+      if (!campaign) {
+        return res
+          .status(404)
+          .json(this.responseHelper.error('Campaign not found', 404));
+      }
+
+      const rows = (campaign.lastImportErrors || []).map((e) => ({
+        row: e.row ?? '',
+        name: e.name || '',
+        phoneNumber: e.phoneNumber || '',
+        reason: e.reason,
+        error: e.error || '',
+      }));
+      const worksheet = XLSX.utils.json_to_sheet(rows, {
+        header: ['row', 'name', 'phoneNumber', 'reason', 'error'],
+      });
+      const csv = XLSX.utils.sheet_to_csv(worksheet);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="campaign-${id}-import-errors.csv"`,
+      );
+      return res.send(csv);
+    } catch (err) {
+      this.logger.error('Error downloading import errors', err);
+      return res
+        .status(500)
+        .json(
+          this.responseHelper.error(
+            'Failed to download import errors',
+            500,
+            err instanceof Error ? err.message : err,
+          ),
+        );
+    }
+  }
+
   // Get campaign statistics
   @UseGuards(AuthOrApiKeyGuard)
   @Get(':id/stats')
@@ -507,7 +1294,12 @@ export class CampaignController {
     },
   ) {
     try {
-      const campaign = await this.campaignService.updateContactCallStatus(
+      const existing = await this.campaignService.findContact(id, contactId);
+      if (!existing) {
+        return this.responseHelper.error('Campaign or contact not found', 404);
+      }
+
+      const contact = await this.campaignService.updateContactCallStatus(
         id,
         contactId,
         body.callStatus,
@@ -516,14 +1308,21 @@ export class CampaignController {
           callDuration: body.callDuration,
           callNotes: body.callNotes,
         },
+        'api',
       );
 
-      if (!campaign) {
-        return this.responseHelper.error('Campaign or contact not found', 404);
+      if (!contact) {
+        return this.responseHelper.error(
+          `Contact call status cannot change from ${existing.callStatus} to ${body.callStatus}`,
+          409,
+        );
       }
 
       this.logger.log(`Contact ${contactId} call status updated to ${body.callStatus}`);
-      return this.responseHelper.success(campaign, 'Contact call status updated');
+      return this.responseHelper.success(
+        contact,
+        'Contact call status updated',
+      );
     } catch (err) {
       this.logger.error('Error updating contact call status', err);
       return this.responseHelper.error('Failed to update contact call status', 500, err?.message || err);
@@ -565,8 +1364,14 @@ export class CampaignController {
       }
 
       // Verify outbound phone number is configured
-      if (!campaign.outboundProvider || !campaign.outboundPhoneNumber) {
-        return this.responseHelper.error('Outbound phone number is not configured for this campaign', 400);
+      if (
+        !campaign.outboundProvider ||
+        !this.callerIdService.hasCallerId(campaign)
+      ) {
+        return this.responseHelper.error(
+          'Outbound phone number is not configured for this campaign',
+          400,
+        );
       }
 
       // Get user telephony settings
@@ -587,16 +1392,16 @@ export class CampaignController {
       }
 
       // Find contacts to call - allow pending or failed contacts to be called/retried
-      const contactsToCall = campaign.contacts.filter(
-        (c) => body.contactIds.includes(c._id?.toString() || '') && 
-               (c.callStatus === 'pending' || c.callStatus === 'failed')
+      const selectedContacts = await this.campaignService.findContactsByIds(
+        id,
+        body.contactIds,
+      );
+      const contactsToCall = selectedContacts.filter(
+        (c) => c.callStatus === 'pending' || c.callStatus === 'failed',
       );
 
       if (contactsToCall.length === 0) {
         // Provide more helpful error message
-        const selectedContacts = campaign.contacts.filter(
-          (c) => body.contactIds.includes(c._id?.toString() || '')
-        );
         if (selectedContacts.length === 0) {
           return this.responseHelper.error('No contacts found with the provided IDs', 400);
         }
@@ -617,21 +1422,92 @@ export class CampaignController {
         error?: string;
       }> = [];
 
+      // Never dial numbers on the do-not-call list
+      const { allowed, blocked } = await this.dncService.filterBlocked(
+        campaign.userId,
+        contactsToCall,
+      );
+      for (const contact of blocked) {
+        await this.campaignService.updateContactCallStatus(
+          id,
+          contact._id.toString(),
+          'failed',
+          {
+            callNotes: 'Number is on the do-not-call list',
+          },
+        );
+        results.push({
+          contactId: contact._id.toString(),
+          contactName: contact.name,
+          phoneNumber: contact.phoneNumber,
+          success: false,
+          error: 'Number is on the do-not-call list',
+        });
+      }
+
       // Process each contact
-      for (const contact of contactsToCall) {
+      let limitReached = false;
+      for (const contact of allowed) {
+        let slotId: string | undefined;
+        let fromPhoneNumber: string | null = null;
         try {
+          fromPhoneNumber = await this.callerIdService.selectCallerId(
+            campaign,
+            contact.phoneNumber,
+          );
+          if (!fromPhoneNumber) {
+            results.push({
+              contactId: contact._id.toString(),
+              contactName: contact.name,
+              phoneNumber: contact.phoneNumber,
+              success: false,
+              error:
+                'No caller ID available - every pool number is at its daily cap or cooling down',
+            });
+            continue;
+          }
+
+          // Every call needs a free slot of the user's concurrent call limit
+          const slot = await this.callConcurrencyService.acquire(
+            campaign.userId,
+            {
+              source: 'manual',
+              callId: `pending_${id}_${contact._id.toString()}`,
+              campaignId: id,
+              contactId: contact._id.toString(),
+            },
+          );
+          if (!slot.acquired) {
+            await this.callerIdService.releaseCallerId(
+              campaign,
+              fromPhoneNumber,
+            );
+            limitReached = true;
+            results.push({
+              contactId: contact._id.toString(),
+              contactName: contact.name,
+              phoneNumber: contact.phoneNumber,
+              success: false,
+              error: `Concurrent call limit reached (${slot.activeCalls}/${slot.maxConcurrentCalls})`,
+            });
+            continue;
+          }
+          slotId = slot.slotId;
+
           // Update contact status to in-progress
-          await this.campaignService.updateContactCallStatus(id, contact._id!.toString(), 'in-progress');
+          await this.campaignService.updateContactCallStatus(id, contact._id.toString(), 'in-progress');
 
           // Create the call with the selected provider
           const callResult = await this.ultravoxService.createOutboundCallWithMedium(
             agent.talkrixAgentId,
             {
-              provider: campaign.outboundProvider!,
-              fromPhoneNumber: campaign.outboundPhoneNumber!,
+              provider: campaign.outboundProvider,
+              fromPhoneNumber,
               toPhoneNumber: contact.phoneNumber,
               maxDuration: '600s',
               recordingEnabled: true,
+              templateContext: buildTemplateContext(agent.callTemplate?.contextSchema, contact.customFields).context,
+              machineDetection: !!campaign.answeringMachine,
               // Pass credentials based on provider
               twilioAccountSid: telephony.twilioAccountSid,
               twilioAuthToken: telephony.twilioAuthToken,
@@ -643,15 +1519,22 @@ export class CampaignController {
           );
 
           if (callResult.statusCode === 201 && callResult.data) {
+            await this.callConcurrencyService.attachCall(slotId!, {
+              callId: callResult.data.callId,
+              providerCallId: callResult.data.providerCallSid,
+            });
+
             // Create call history record
             const callHistory = await this.callHistoryService.create({
               agentId: campaign.agentId,
               userId: userInfo.userId,
               talkrixCallId: callResult.data.callId,
+              providerCallId: callResult.data.providerCallSid,
               callType: 'outbound',
               agentName: agent.name,
               customerName: contact.name,
               customerPhone: contact.phoneNumber,
+              fromPhoneNumber,
               recordingEnabled: true,
               joinUrl: callResult.data.joinUrl,
               callData: callResult.data,
@@ -659,20 +1542,23 @@ export class CampaignController {
                 campaignId: campaign._id,
                 campaignName: campaign.name,
                 provider: campaign.outboundProvider,
-                fromPhoneNumber: campaign.outboundPhoneNumber,
+                fromPhoneNumber,
               },
             });
 
             // Update contact with call ID
-            await this.campaignService.updateContactCallStatus(
-              id, 
-              contact._id!.toString(), 
-              'in-progress',
-              { callId: callResult.data.callId }
+            await this.campaignService.attachContactCall(
+              id,
+              contact._id.toString(),
+              {
+                callId: callResult.data.callId,
+                callHistoryId: callHistory._id?.toString(),
+                providerCallId: callResult.data.providerCallSid,
+              },
             );
 
             results.push({
-              contactId: contact._id!.toString(),
+              contactId: contact._id.toString(),
               contactName: contact.name,
               phoneNumber: contact.phoneNumber,
               success: true,
@@ -683,9 +1569,14 @@ export class CampaignController {
             this.logger.log(`Call triggered for contact ${contact.name} (${contact.phoneNumber}) in campaign ${campaign.name}`);
           } else {
             // Call creation failed
-            await this.campaignService.updateContactCallStatus(id, contact._id!.toString(), 'failed');
+            await this.callConcurrencyService.releaseSlot(slotId!);
+            await this.callerIdService.releaseCallerId(
+              campaign,
+              fromPhoneNumber,
+            );
+            await this.campaignService.updateContactCallStatus(id, contact._id.toString(), 'failed');
             results.push({
-              contactId: contact._id!.toString(),
+              contactId: contact._id.toString(),
               contactName: contact.name,
               phoneNumber: contact.phoneNumber,
               success: false,
@@ -694,9 +1585,19 @@ export class CampaignController {
           }
         } catch (contactErr) {
           this.logger.error(`Error triggering call for contact ${contact.name}:`, contactErr);
-          await this.campaignService.updateContactCallStatus(id, contact._id!.toString(), 'failed');
+          if (slotId) {
+            await this.callConcurrencyService
+              .releaseSlot(slotId)
+              .catch(() => undefined);
+          }
+          if (fromPhoneNumber) {
+            await this.callerIdService
+              .releaseCallerId(campaign, fromPhoneNumber)
+              .catch(() => undefined);
+          }
+          await this.campaignService.updateContactCallStatus(id, contact._id.toString(), 'failed');
           results.push({
-            contactId: contact._id!.toString(),
+            contactId: contact._id.toString(),
             contactName: contact.name,
             phoneNumber: contact.phoneNumber,
             success: false,
@@ -710,6 +1611,14 @@ export class CampaignController {
 
       this.logger.log(`Campaign ${campaign.name}: ${successCount} calls triggered, ${failedCount} failed`);
 
+      if (successCount === 0 && limitReached) {
+        return this.responseHelper.error(
+          'Concurrent call limit reached - no calls were triggered',
+          429,
+          { results },
+        );
+      }
+
       return this.responseHelper.success({
         results,
         summary: {
@@ -755,13 +1664,20 @@ export class CampaignController {
       }
 
       // Verify outbound configuration
-      if (!campaign.outboundProvider || !campaign.outboundPhoneNumber) {
-        return this.responseHelper.error('Outbound phone number is not configured for this campaign', 400);
+      if (
+        !campaign.outboundProvider ||
+        !this.callerIdService.hasCallerId(campaign)
+      ) {
+        return this.responseHelper.error(
+          'Outbound phone number is not configured for this campaign',
+          400,
+        );
       }
 
       // Verify there are pending contacts
-      const pendingContacts = campaign.contacts.filter(c => c.callStatus === 'pending');
-      if (pendingContacts.length === 0) {
+      if (
+        !(await this.campaignService.hasContactsWithStatus(id, ['pending']))
+      ) {
         return this.responseHelper.error('No pending contacts to call', 400);
       }
 
@@ -845,26 +1761,38 @@ export class CampaignController {
       }
 
       // Verify there are pending contacts
-      const pendingContacts = campaign.contacts.filter(c => c.callStatus === 'pending');
-      if (pendingContacts.length === 0) {
+      const { pending: pendingContacts } =
+        await this.campaignService.getContactStatusCounts(id);
+      if (pendingContacts === 0) {
         return this.responseHelper.error('No pending contacts to call', 400);
       }
 
       // Verify outbound configuration
-      if (!campaign.outboundProvider || !campaign.outboundPhoneNumber) {
-        return this.responseHelper.error('Outbound phone number is not configured for this campaign', 400);
+      if (
+        !campaign.outboundProvider ||
+        !this.callerIdService.hasCallerId(campaign)
+      ) {
+        return this.responseHelper.error(
+          'Outbound phone number is not configured for this campaign',
+          400,
+        );
       }
 
       // Resume the campaign
       await this.campaignSchedulerService.resumeCampaign(id);
 
-      this.logger.log(`Campaign ${campaign.name} resumed by user ${userInfo.userId} with ${pendingContacts.length} pending contacts`);
+      this.logger.log(
+        `Campaign ${campaign.name} resumed by user ${userInfo.userId} with ${pendingContacts} pending contacts`,
+      );
       
       const updatedCampaign = await this.campaignService.findOne(id);
-      return this.responseHelper.success({
-        campaign: updatedCampaign,
-        pendingContacts: pendingContacts.length,
-      }, 'Campaign resumed successfully');
+      return this.responseHelper.success(
+        {
+          campaign: updatedCampaign,
+          pendingContacts,
+        },
+        'Campaign resumed successfully',
+      );
     } catch (err) {
       this.logger.error('Error resuming campaign', err);
       return this.responseHelper.error('Failed to resume campaign', 500, err?.message || err);
@@ -938,7 +1866,9 @@ export class CampaignController {
         timeDiff = nowInTimezone!.getTime() - scheduledDateTime.getTime();
       }
 
-      const pendingContacts = campaign.contacts.filter(c => c.callStatus === 'pending');
+      const contactCounts =
+        await this.campaignService.getContactStatusCounts(id);
+      const isRecurring = isRecurringSchedule(campaign.schedule);
       
       return this.responseHelper.success({
         campaignId: id,
@@ -948,7 +1878,12 @@ export class CampaignController {
         schedule: {
           scheduledDate: campaign.schedule?.scheduledDate,
           scheduledTime: campaign.schedule?.scheduledTime,
+          endTime: campaign.schedule?.endTime,
           timezone: campaign.schedule?.timezone,
+          endDate: campaign.schedule?.endDate,
+          callingWindows: campaign.schedule?.callingWindows,
+          blackoutDates: campaign.schedule?.blackoutDates,
+          holidays: campaign.schedule?.holidays,
         },
         computed: {
           timezone,
@@ -957,17 +1892,21 @@ export class CampaignController {
           scheduledDateTime: scheduledDateTime?.toISOString(),
           timeDiffSeconds: timeDiff !== null ? Math.round(timeDiff / 1000) : null,
           shouldStart: timeDiff !== null ? (timeDiff >= 0 && timeDiff < 5 * 60 * 1000) : false,
+          isRecurring,
+          inCallingWindow: isRecurring ? isWithinCallingWindow(campaign.schedule!) : null,
+          scheduleEnded: isRecurring ? hasScheduleEnded(campaign.schedule!) : null,
         },
         outboundConfig: {
           provider: campaign.outboundProvider,
           phoneNumber: campaign.outboundPhoneNumber,
+          callerIdPool: campaign.callerIdPool,
         },
         userSettings: {
           maxConcurrentCalls: user?.settings?.maxConcurrentCalls || 1,
         },
         contactStats: {
-          total: campaign.contacts.length,
-          pending: pendingContacts.length,
+          total: contactCounts.total,
+          pending: contactCounts.pending,
         },
         checks: {
           isOutbound: campaign.type === 'outbound',
@@ -975,8 +1914,8 @@ export class CampaignController {
           hasScheduleDate: !!campaign.schedule?.scheduledDate,
           hasScheduleTime: !!campaign.schedule?.scheduledTime,
           hasOutboundProvider: !!campaign.outboundProvider,
-          hasOutboundPhoneNumber: !!campaign.outboundPhoneNumber,
-          hasPendingContacts: pendingContacts.length > 0,
+          hasOutboundPhoneNumber: this.callerIdService.hasCallerId(campaign),
+          hasPendingContacts: contactCounts.pending > 0,
         },
       }, 'Debug info fetched');
     } catch (err) {
@@ -1009,29 +1948,33 @@ export class CampaignController {
       const user = await this.userService.findById(userInfo.userId);
       const maxConcurrentCalls = user?.settings?.maxConcurrentCalls || 1;
 
-      const state = this.campaignSchedulerService.getCampaignState(id);
-      
-      // Calculate from campaign data if state not in memory
-      const pendingContacts = campaign.contacts.filter(c => c.callStatus === 'pending').length;
-      const inProgressContacts = campaign.contacts.filter(c => c.callStatus === 'in-progress').length;
-      const completedContacts = campaign.contacts.filter(c => c.callStatus === 'completed').length;
-      const failedContacts = campaign.contacts.filter(c => c.callStatus === 'failed' || c.callStatus === 'no-answer').length;
+      const state = await this.campaignSchedulerService.getCampaignState(id);
 
-      return this.responseHelper.success({
-        campaignId: id,
-        status: campaign.status,
-        // User's maxConcurrentCalls applies to ALL campaigns combined
-        activeCalls: state?.activeCalls ?? inProgressContacts,
-        maxConcurrentCalls: state?.maxConcurrentCalls ?? maxConcurrentCalls,
-        isActive: state?.isActive ?? false,
-        contactStats: {
-          total: campaign.contacts.length,
-          pending: pendingContacts,
-          inProgress: inProgressContacts,
-          completed: completedContacts,
-          failed: failedContacts,
+      // Fall back to the campaign's contacts when the campaign is not running
+      const counts = await this.campaignService.getContactStatusCounts(id);
+      const pendingContacts = counts.pending;
+      const inProgressContacts = counts['in-progress'];
+      const completedContacts = counts.completed;
+      const failedContacts = counts.failed + counts['no-answer'];
+
+      return this.responseHelper.success(
+        {
+          campaignId: id,
+          status: campaign.status,
+          // User's maxConcurrentCalls applies to ALL campaigns combined
+          activeCalls: state?.activeCalls ?? inProgressContacts,
+          maxConcurrentCalls: state?.maxConcurrentCalls ?? maxConcurrentCalls,
+          isActive: state?.isActive ?? false,
+          contactStats: {
+            total: counts.total,
+            pending: pendingContacts,
+            inProgress: inProgressContacts,
+            completed: completedContacts,
+            failed: failedContacts,
+          },
         },
-      }, 'Campaign state fetched');
+        'Campaign state fetched',
+      );
     } catch (err) {
       this.logger.error('Error fetching campaign state', err);
       return this.responseHelper.error('Failed to fetch campaign state', 500, err?.message || err);
@@ -1048,7 +1991,7 @@ export class CampaignController {
     @Body() body: { 
       name: string; 
       phoneNumber: string;
-      metadata?: Record<string, any>; // Optional custom metadata
+      metadata?: Record<string, any>; // Optional custom fields - also passed to the agent as template variables
     },
     @Req() req: any,
   ) {
@@ -1063,6 +2006,18 @@ export class CampaignController {
         return this.responseHelper.error('Name and phoneNumber are required', 400);
       }
 
+      const phone = await this.campaignService.normalizeContactPhone(
+        id,
+        body.phoneNumber,
+      );
+      if (!phone.valid) {
+        return this.responseHelper.error(
+          `Invalid phone number: ${phone.error}`,
+          400,
+        );
+      }
+      body.phoneNumber = phone.e164;
+
       // Get the campaign
       const campaign = await this.campaignService.findOne(id);
       if (!campaign) {
@@ -1085,8 +2040,14 @@ export class CampaignController {
       }
 
       // Verify outbound phone number is configured
-      if (!campaign.outboundProvider || !campaign.outboundPhoneNumber) {
-        return this.responseHelper.error('Outbound phone number is not configured for this campaign', 400);
+      if (
+        !campaign.outboundProvider ||
+        !this.callerIdService.hasCallerId(campaign)
+      ) {
+        return this.responseHelper.error(
+          'Outbound phone number is not configured for this campaign',
+          400,
+        );
       }
 
       // Get user telephony settings
@@ -1106,91 +2067,205 @@ export class CampaignController {
         return this.responseHelper.error('Agent not found for this campaign', 404);
       }
 
-      // Add the contact to the campaign
-      const newContact = {
-        name: body.name.trim(),
-        phoneNumber: body.phoneNumber.trim(),
-        callStatus: 'pending' as const,
-        isLocked: true, // Lock contact when created via API trigger
-      };
-
-      const updatedCampaign = await this.campaignService.addContacts(id, [newContact]);
-      if (!updatedCampaign) {
-        return this.responseHelper.error('Failed to add contact to campaign', 500);
+      // Reject numbers on the do-not-call list before adding the contact
+      if (await this.dncService.isBlocked(campaign.userId, body.phoneNumber)) {
+        return this.responseHelper.error(
+          'Phone number is on the do-not-call list',
+          403,
+        );
       }
 
-      // Find the newly added contact (it will be the last one with matching phone number)
-      const addedContact = updatedCampaign.contacts
-        .filter(c => c.phoneNumber === newContact.phoneNumber && c.name === newContact.name)
-        .pop();
+      const fromPhoneNumber = await this.callerIdService.selectCallerId(
+        campaign,
+        body.phoneNumber,
+      );
+      if (!fromPhoneNumber) {
+        return this.responseHelper.error(
+          'No caller ID available - every pool number is at its daily cap or cooling down',
+          429,
+        );
+      }
 
-      if (!addedContact || !addedContact._id) {
-        return this.responseHelper.error('Failed to find added contact', 500);
+      // Take a call slot before adding the contact, so a refused call leaves nothing behind
+      const slot = await this.callConcurrencyService.acquire(campaign.userId, {
+        source: 'manual',
+      });
+      if (!slot.acquired) {
+        await this.callerIdService.releaseCallerId(campaign, fromPhoneNumber);
+        return this.responseHelper.error(
+          `Concurrent call limit reached (${slot.activeCalls}/${slot.maxConcurrentCalls})`,
+          429,
+          {
+            activeCalls: slot.activeCalls,
+            maxConcurrentCalls: slot.maxConcurrentCalls,
+          },
+        );
       }
+      const slotId = slot.slotId!;
 
-      // Update contact status to in-progress
-      await this.campaignService.updateContactCallStatus(id, addedContact._id.toString(), 'in-progress');
+      try {
+        const response = await this.placeApiTriggeredCall(
+          id,
+          campaign,
+          agent,
+          telephony,
+          body,
+          userInfo.userId,
+          slotId,
+          fromPhoneNumber,
+        );
+        if (response.statusCode !== 201) {
+          await this.callConcurrencyService.releaseSlot(slotId);
+          await this.callerIdService.releaseCallerId(campaign, fromPhoneNumber);
+        }
+        return response;
+      } catch (err) {
+        await this.callConcurrencyService
+          .releaseSlot(slotId)
+          .catch(() => undefined);
+        await this.callerIdService
+          .releaseCallerId(campaign, fromPhoneNumber)
+          .catch(() => undefined);
+        throw err;
+      }
+    } catch (err) {
+      this.logger.error('Error in API trigger call', err);
+      return this.responseHelper.error(
+        'Failed to trigger call',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
 
-      // Create the call with the selected provider
-      // Pass campaignId and contactId for webhook tracking
-      const callResult = await this.ultravoxService.createOutboundCallWithMedium(
-        agent.talkrixAgentId,
+  // Add the API-triggered contact and call it from the caller ID and in the slot already taken for it
+  private async placeApiTriggeredCall(
+    id: string,
+    campaign: Campaign,
+    agent: Agent,
+    telephony: TelephonySettings,
+    body: { name: string; phoneNumber: string; metadata?: Record<string, any> },
+    userId: string,
+    slotId: string,
+    fromPhoneNumber: string,
+  ): Promise<StandardResponse> {
+    // Add the contact to the campaign
+    const newContact = {
+      name: body.name.trim(),
+      phoneNumber: body.phoneNumber.trim(),
+      customFields:
+        body.metadata && typeof body.metadata === 'object'
+          ? body.metadata
+          : undefined,
+      callStatus: 'pending' as const,
+      isLocked: true, // Lock contact when created via API trigger
+    };
+
+    const addResult = await this.campaignService.addContacts(id, [newContact]);
+    if (addResult && addResult.invalid.length > 0) {
+      return this.responseHelper.error(
+        `Invalid contact: ${addResult.invalid[0].error}`,
+        400,
         {
-          provider: campaign.outboundProvider!,
-          fromPhoneNumber: campaign.outboundPhoneNumber!,
-          toPhoneNumber: addedContact.phoneNumber,
-          maxDuration: '600s',
-          recordingEnabled: true,
-          // Pass credentials based on provider
-          twilioAccountSid: telephony.twilioAccountSid,
-          twilioAuthToken: telephony.twilioAuthToken,
-          plivoAuthId: telephony.plivoAuthId,
-          plivoAuthToken: telephony.plivoAuthToken,
-          telnyxApiKey: telephony.telnyxApiKey,
-          telnyxConnectionId: telephony.telnyxConnectionId,
-          // Pass tracking info for webhook callbacks
-          campaignId: id,
-          contactId: addedContact._id.toString(),
-        }
+          invalid: addResult.invalid,
+        },
       );
+    }
 
-      if (callResult.statusCode === 201 && callResult.data) {
-        // Create call history record
-        const callHistory = await this.callHistoryService.create({
-          agentId: campaign.agentId,
-          userId: userInfo.userId,
-          talkrixCallId: callResult.data.callId,
-          callType: 'outbound',
-          agentName: agent.name,
-          customerName: addedContact.name,
-          customerPhone: addedContact.phoneNumber,
-          recordingEnabled: true,
-          joinUrl: callResult.data.joinUrl,
-          callData: callResult.data,
-          metadata: {
-            campaignId: campaign._id,
-            campaignName: campaign.name,
-            provider: campaign.outboundProvider,
-            fromPhoneNumber: campaign.outboundPhoneNumber,
-            apiTriggered: true,
-            customMetadata: body.metadata,
-          },
-        });
+    if (!addResult) {
+      return this.responseHelper.error(
+        'Failed to add contact to campaign',
+        500,
+      );
+    }
 
-        // Update contact with call ID and history reference
-        await this.campaignService.updateContactCallStatus(
-          id,
-          addedContact._id.toString(),
-          'in-progress',
-          { 
-            callId: callResult.data.callId,
-            callHistoryId: callHistory._id?.toString(),
-          }
-        );
+    const addedContact = addResult.contacts[0];
+    if (!addedContact || !addedContact._id) {
+      return this.responseHelper.error('Failed to find added contact', 500);
+    }
 
-        this.logger.log(`API Trigger: Call initiated for ${addedContact.name} (${addedContact.phoneNumber}) in campaign ${campaign.name}`);
+    // Update contact status to in-progress
+    await this.campaignService.updateContactCallStatus(
+      id,
+      addedContact._id.toString(),
+      'in-progress',
+    );
+
+    // Create the call with the selected provider
+    // Pass campaignId and contactId for webhook tracking
+    const callResult = await this.ultravoxService.createOutboundCallWithMedium(
+      agent.talkrixAgentId,
+      {
+        provider: campaign.outboundProvider!,
+        fromPhoneNumber,
+        toPhoneNumber: addedContact.phoneNumber,
+        maxDuration: '600s',
+        recordingEnabled: true,
+        templateContext: buildTemplateContext(
+          agent.callTemplate?.contextSchema,
+          addedContact.customFields,
+        ).context,
+        machineDetection: !!campaign.answeringMachine,
+        // Pass credentials based on provider
+        twilioAccountSid: telephony.twilioAccountSid,
+        twilioAuthToken: telephony.twilioAuthToken,
+        plivoAuthId: telephony.plivoAuthId,
+        plivoAuthToken: telephony.plivoAuthToken,
+        telnyxApiKey: telephony.telnyxApiKey,
+        telnyxConnectionId: telephony.telnyxConnectionId,
+        // Pass tracking info for webhook callbacks
+        campaignId: id,
+        contactId: addedContact._id.toString(),
+      },
+    );
+
+    if (callResult.statusCode === 201 && callResult.data) {
+      await this.callConcurrencyService.attachCall(slotId, {
+        callId: callResult.data.callId,
+        providerCallId: callResult.data.providerCallSid,
+      });
 
-        return this.responseHelper.success({
+      // Create call history record
+      const callHistory = await this.callHistoryService.create({
+        agentId: campaign.agentId,
+        userId,
+        talkrixCallId: callResult.data.callId,
+        providerCallId: callResult.data.providerCallSid,
+        callType: 'outbound',
+        agentName: agent.name,
+        customerName: addedContact.name,
+        customerPhone: addedContact.phoneNumber,
+        fromPhoneNumber,
+        recordingEnabled: true,
+        joinUrl: callResult.data.joinUrl,
+        callData: callResult.data,
+        metadata: {
+          campaignId: campaign._id,
+          campaignName: campaign.name,
+          provider: campaign.outboundProvider,
+          fromPhoneNumber,
+          apiTriggered: true,
+          customMetadata: body.metadata,
+        },
+      });
+
+      // Update contact with call ID and history reference
+      await this.campaignService.attachContactCall(
+        id,
+        addedContact._id.toString(),
+        {
+          callId: callResult.data.callId,
+          callHistoryId: callHistory._id?.toString(),
+          providerCallId: callResult.data.providerCallSid,
+        },
+      );
+
+      this.logger.log(
+        `API Trigger: Call initiated for ${addedContact.name} (${addedContact.phoneNumber}) in campaign ${campaign.name}`,
+      );
+
+      return this.responseHelper.success(
+        {
           contactId: addedContact._id.toString(),
           contactName: addedContact.name,
           phoneNumber: addedContact.phoneNumber,
@@ -1198,22 +2273,27 @@ export class CampaignController {
           callHistoryId: callHistory._id?.toString(),
           campaignId: campaign._id,
           campaignName: campaign.name,
-        }, 'Call triggered successfully', 201);
-      } else {
-        // Call creation failed - update contact status
-        await this.campaignService.updateContactCallStatus(id, addedContact._id.toString(), 'failed');
-        
-        this.logger.error(`API Trigger: Failed to create call for ${addedContact.name}: ${callResult.message}`);
-        
-        return this.responseHelper.error(
-          callResult.message || 'Failed to create call',
-          callResult.statusCode || 500,
-          { contactId: addedContact._id.toString() }
-        );
-      }
-    } catch (err) {
-      this.logger.error('Error in API trigger call', err);
-      return this.responseHelper.error('Failed to trigger call', 500, err?.message || err);
+        },
+        'Call triggered successfully',
+        201,
+      );
+    } else {
+      // Call creation failed - update contact status
+      await this.campaignService.updateContactCallStatus(
+        id,
+        addedContact._id.toString(),
+        'failed',
+      );
+
+      this.logger.error(
+        `API Trigger: Failed to create call for ${addedContact.name}: ${callResult.message}`,
+      );
+
+      return this.responseHelper.error(
+        callResult.message || 'Failed to create call',
+        callResult.statusCode || 500,
+        { contactId: addedContact._id.toString() },
+      );
     }
   }
 }
@@ -3,18 +3,49 @@ import { JwtModule } from '@nestjs/jwt';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
-import { Campaign, CampaignSchema } from './campaign.schema';
+import {
+  Campaign,
+  CampaignSchema,
+  CampaignContact,
+  CampaignContactSchema,
+} from './campaign.schema';
 import { CampaignService } from './campaign.service';
 import { CampaignSchedulerService } from './campaign-scheduler.service';
 import { CampaignController } from './campaign.controller';
+import {
+  ContactImport,
+  ContactImportSchema,
+  ContactImportTemplate,
+  ContactImportTemplateSchema,
+} from './contact-import.schema';
+import { ContactImportService } from './contact-import.service';
+import { ContactImportController } from './contact-import.controller';
+import {
+  SchedulerLease,
+  SchedulerLeaseSchema,
+  ActiveCall,
+  ActiveCallSchema,
+} from './scheduler-state.schema';
 import { UserModule } from '../user/user.module';
 import { SharedModule } from '../shared.module';
 import { AgentModule } from '../agent/agent.module';
 import { CallHistoryModule } from '../call-history/call-history.module';
+import { DncModule } from '../dnc/dnc.module';
+import { CallConcurrencyModule } from '../call-concurrency/call-concurrency.module';
+import { CallerIdModule } from '../caller-id/caller-id.module';
+import { ScheduledCallModule } from '../scheduled-call/scheduled-call.module';
+import { WebhookModule } from '../webhook/webhook.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Campaign.name, schema: CampaignSchema }]),
+    MongooseModule.forFeature([
+      { name: Campaign.name, schema: CampaignSchema },
+      { name: CampaignContact.name, schema: CampaignContactSchema },
+      { name: ContactImport.name, schema: ContactImportSchema },
+      { name: ContactImportTemplate.name, schema: ContactImportTemplateSchema },
+      { name: SchedulerLease.name, schema: SchedulerLeaseSchema },
+      { name: ActiveCall.name, schema: ActiveCallSchema },
+    ]),
     MulterModule.register({
       limits: {
         fileSize: 10 * 1024 * 1024, // 10MB limit
@@ -32,9 +63,14 @@ import { CallHistoryModule } from '../call-history/call-history.module';
     SharedModule,
     forwardRef(() => AgentModule),
     forwardRef(() => CallHistoryModule),
+    forwardRef(() => DncModule),
+    CallConcurrencyModule,
+    CallerIdModule,
+    forwardRef(() => ScheduledCallModule),
+    forwardRef(() => WebhookModule),
   ],
-  providers: [CampaignService, CampaignSchedulerService],
-  controllers: [CampaignController],
+  providers: [CampaignService, CampaignSchedulerService, ContactImportService],
+  controllers: [CampaignController, ContactImportController],
   exports: [CampaignService, CampaignSchedulerService],
 })
 export class CampaignModule {}
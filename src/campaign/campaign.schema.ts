@@ -1,23 +1,122 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import {
+  StatusTransition,
+  StatusTransitionSchema,
+} from '../call-lifecycle/status-transition.schema';
+import {
+  CallDisposition,
+  CallDispositionSchema,
+} from './call-disposition.schema';
+
+// Outcome of a single call attempt (used by the retry policy)
+// voicemail: answering machine detection found a machine instead of a person
+export type CallAttemptOutcome =
+  | 'completed'
+  | 'busy'
+  | 'no-answer'
+  | 'voicemail'
+  | 'connection_error'
+  | 'failed';
+
+// Outcomes that a campaign may choose to retry
+export type RetryableOutcome =
+  'busy' | 'no-answer' | 'voicemail' | 'connection_error';
+
+// Order in which a campaign's pending contacts are dialled
+// priority: highest contact priority first, oldest first within a priority
+// fifo / lifo: oldest / newest contact first (lifo suits fresh leads added through the API)
+// random: any eligible contact
+// round-robin: one contact from each contact group in turn (priority order within a group)
+export type ContactOrder =
+  'priority' | 'fifo' | 'lifo' | 'random' | 'round-robin';
+
+// A single dial attempt recorded on a contact
+@Schema({ _id: false })
+export class CallAttempt {
+  @Prop({ required: true })
+  attemptNumber: number;
+
+  @Prop()
+  callId?: string; // Ultravox/Talkrix call ID for this attempt
+
+  @Prop()
+  providerCallId?: string; // Carrier call ID for this attempt
+
+  @Prop({ required: true })
+  outcome: CallAttemptOutcome;
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  endedAt?: Date;
+
+  @Prop()
+  callDuration?: number; // in seconds
+
+  @Prop()
+  notes?: string;
+}
+
+export const CallAttemptSchema = SchemaFactory.createForClass(CallAttempt);
+
+// A callback the contact asked for - the contact is dialled at scheduledAt ahead of the queue
+@Schema({ _id: false })
+export class ContactCallback {
+  @Prop({ required: true })
+  scheduledAt: Date;
+
+  @Prop()
+  requestedTime?: string; // Time as it was given (e.g. "tomorrow 4pm"), read in timezone
+
+  @Prop()
+  timezone?: string; // Contact timezone the time was read in
+
+  @Prop()
+  notes?: string;
+
+  @Prop({ required: true })
+  source: 'agent' | 'api'; // scheduleCallback tool or the contacts API
+
+  @Prop()
+  callId?: string; // Call the agent scheduled it on
 
-// Contact schema for campaign contacts
-@Schema({ _id: true, timestamps: true })
-export class CampaignContact {
-  _id?: Types.ObjectId; // MongoDB auto-generated ID
+  @Prop({ required: true })
+  createdAt: Date;
+}
+
+export const ContactCallbackSchema =
+  SchemaFactory.createForClass(ContactCallback);
+
+// Campaign contact - stored in its own collection (one document per contact) so campaigns
+// are not limited by the document size and contacts can be queried through indexes
+@Schema({ timestamps: true })
+export class CampaignContact extends Document<Types.ObjectId> {
+  @Prop({ required: true })
+  campaignId: string;
 
   @Prop({ required: true })
   name: string;
 
   @Prop({ required: true })
-  phoneNumber: string; // Phone number with country code (with or without +)
+  phoneNumber: string; // E.164 phone number (e.g. +919876543210)
 
   @Prop({ default: 'pending' })
-  callStatus: 'pending' | 'completed' | 'failed' | 'in-progress' | 'no-answer';
+  callStatus:
+    | 'pending'
+    | 'completed'
+    | 'failed'
+    | 'in-progress'
+    | 'no-answer'
+    | 'voicemail';
 
   @Prop()
   callId?: string; // Ultravox/Talkrix call ID
 
+  @Prop()
+  providerCallId?: string; // Carrier call ID of the current call (Twilio CallSid, Plivo request UUID, Telnyx call_control_id)
+
   @Prop()
   callHistoryId?: string; // Reference to CallHistory document
 
@@ -32,28 +131,310 @@ export class CampaignContact {
 
   @Prop({ default: false })
   isLocked?: boolean; // When true, contact cannot be updated or deleted (set when call is triggered via API)
+
+  @Prop({ type: [CallAttemptSchema], default: [] })
+  attempts?: CallAttempt[]; // History of every dial attempt for this contact
+
+  @Prop({ type: [StatusTransitionSchema], default: [] })
+  statusHistory?: StatusTransition[]; // Every accepted callStatus change
+
+  @Prop()
+  nextAttemptAt?: Date; // When set, a re-queued contact is not dialled before this time
+
+  @Prop()
+  timezone?: string; // Contact's IANA timezone - from upload or derived from the phone number's region
+
+  @Prop({ default: 0 })
+  priority?: number; // 0 - 100, higher priority contacts are dialled first by the 'priority' and 'round-robin' orders
+
+  @Prop()
+  group?: string; // Contact group the 'round-robin' order rotates through
+
+  @Prop({ default: () => Math.random() })
+  randomKey?: number; // Uniform in [0, 1) - the 'random' order claims the contact nearest to a random pivot
+
+  @Prop({ type: Object })
+  customFields?: Record<string, any>; // Extra contact data (e.g. due_amount) passed to the agent as template variables
+
+  @Prop({ type: CallDispositionSchema })
+  disposition?: CallDisposition; // Outcome the agent recorded on the latest call
+
+  @Prop({ type: ContactCallbackSchema })
+  callback?: ContactCallback; // Pending callback - cleared when the callback call is placed
 }
 
 export const CampaignContactSchema = SchemaFactory.createForClass(CampaignContact);
 
-// Campaign schedule for outbound campaigns
+// Claims, status counts and listing walk a campaign's contacts in insertion order
+CampaignContactSchema.index({ campaignId: 1, callStatus: 1, _id: 1 });
+CampaignContactSchema.index({ campaignId: 1, _id: 1 });
+// Claims in priority order, overall and per contact group
+CampaignContactSchema.index({
+  campaignId: 1,
+  callStatus: 1,
+  priority: -1,
+  _id: 1,
+});
+CampaignContactSchema.index({
+  campaignId: 1,
+  callStatus: 1,
+  group: 1,
+  priority: -1,
+  _id: 1,
+});
+CampaignContactSchema.index({ campaignId: 1, callStatus: 1, randomKey: 1 });
+// Timezones of the pending contacts, looked up on every claim with local calling hours
+CampaignContactSchema.index({ campaignId: 1, callStatus: 1, timezone: 1 });
+// Webhook lookups by call ID and duplicate checks on import
+CampaignContactSchema.index({ campaignId: 1, callId: 1 });
+CampaignContactSchema.index({ campaignId: 1, providerCallId: 1 });
+CampaignContactSchema.index({ campaignId: 1, phoneNumber: 1 });
+CampaignContactSchema.index({
+  campaignId: 1,
+  'disposition.outcome': 1,
+  _id: 1,
+});
+CampaignContactSchema.index({
+  campaignId: 1,
+  callStatus: 1,
+  'callback.scheduledAt': 1,
+});
+
+// Weekly calling window for recurring schedules (e.g. Mon-Fri 09:00-12:00)
 @Schema({ _id: false })
-export class CampaignSchedule {
+export class CallingWindow {
+  @Prop({ type: [Number], required: true })
+  days: number[]; // Weekdays the window applies to: 0 = Sunday ... 6 = Saturday
+
+  @Prop({ required: true })
+  startTime: string; // HH:mm format
+
+  @Prop({ required: true })
+  endTime: string; // HH:mm format (earlier than startTime = window ends the next day)
+}
+
+export const CallingWindowSchema = SchemaFactory.createForClass(CallingWindow);
+
+// Holiday on which a recurring campaign does not dial
+@Schema({ _id: false })
+export class CampaignHoliday {
+  @Prop({ required: true })
+  date: string; // YYYY-MM-DD in the campaign timezone
+
+  @Prop()
+  name?: string;
+}
+
+export const CampaignHolidaySchema =
+  SchemaFactory.createForClass(CampaignHoliday);
+
+// Hours during which contacts may be dialled, in each contact's own timezone
+@Schema({ _id: false })
+export class LocalCallingHours {
   @Prop({ required: true })
-  scheduledDate: Date;
+  startTime: string; // HH:mm format in the contact's timezone
 
   @Prop({ required: true })
-  scheduledTime: string; // HH:mm format - start time
+  endTime: string; // HH:mm format in the contact's timezone
+}
+
+export const LocalCallingHoursSchema =
+  SchemaFactory.createForClass(LocalCallingHours);
 
+// Campaign schedule for outbound campaigns
+// Either a single-day window (scheduledTime/endTime on scheduledDate) or a
+// recurring schedule (callingWindows between scheduledDate and endDate)
+@Schema({ _id: false })
+export class CampaignSchedule {
   @Prop({ required: true })
-  endTime: string; // HH:mm format - end time (required)
+  scheduledDate: Date; // Start date (first day of the range for recurring schedules)
+
+  @Prop()
+  scheduledTime?: string; // HH:mm format - start time (single-day schedules)
+
+  @Prop()
+  endTime?: string; // HH:mm format - end time (single-day schedules)
 
   @Prop({ required: true })
   timezone: string; // e.g., 'America/New_York', 'Asia/Kolkata'
+
+  // Recurring schedule fields
+  @Prop()
+  endDate?: Date; // Last day of the range (inclusive) - runs until contacts are exhausted when not set
+
+  @Prop({ type: [CallingWindowSchema], default: undefined })
+  callingWindows?: CallingWindow[]; // Per-weekday windows - makes the schedule recurring when set
+
+  @Prop({ type: [String], default: undefined })
+  blackoutDates?: string[]; // YYYY-MM-DD dates with no calling
+
+  @Prop({ type: [CampaignHolidaySchema], default: undefined })
+  holidays?: CampaignHoliday[];
+
+  @Prop({ type: LocalCallingHoursSchema })
+  localCallingHours?: LocalCallingHours; // When set, each contact is only dialled within these hours in their own timezone
 }
 
 export const CampaignScheduleSchema = SchemaFactory.createForClass(CampaignSchedule);
 
+// Retry rules for contacts that were not reached
+@Schema({ _id: false })
+export class CampaignRetryPolicy {
+  @Prop({ default: 1 })
+  maxAttempts: number; // Total attempts per contact, including the first one (1 = no retries)
+
+  @Prop({ default: 60 })
+  retryDelayMinutes: number; // Minimum delay between two attempts to the same contact
+
+  @Prop({ type: [String], default: ['busy', 'no-answer'] })
+  retryOn: RetryableOutcome[]; // Outcomes that re-queue the contact
+}
+
+export const CampaignRetryPolicySchema =
+  SchemaFactory.createForClass(CampaignRetryPolicy);
+
+// How a campaign shares its owner's concurrent call limit with the owner's other campaigns
+@Schema({ _id: false })
+export class CampaignConcurrency {
+  @Prop({ default: 0 })
+  priority: number; // 0 - 100, free slots go to higher priority campaigns first
+
+  @Prop()
+  maxConcurrentCalls?: number; // Cap for this campaign - bounded only by the user's limit when not set
+
+  @Prop({ default: 0 })
+  minSharePercent: number; // Share of the user's limit (whole slots) kept for this campaign while it has contacts to call
+}
+
+export const CampaignConcurrencySchema =
+  SchemaFactory.createForClass(CampaignConcurrency);
+
+// What a campaign call does when answering machine detection finds a machine
+// hangup: end the call, message: play a pre-set message, agent: the agent speaks a voicemail script
+export type VoicemailAction = 'hangup' | 'message' | 'agent';
+
+// Answering machine detection for a campaign's outbound calls
+@Schema({ _id: false })
+export class CampaignAnsweringMachine {
+  @Prop({ enum: ['hangup', 'message', 'agent'], default: 'hangup' })
+  action: VoicemailAction;
+
+  @Prop()
+  message?: string; // Text played (text-to-speech) after the beep for the 'message' action
+
+  @Prop()
+  agentScript?: string; // What the agent says after the beep for the 'agent' action
+}
+
+export const CampaignAnsweringMachineSchema = SchemaFactory.createForClass(
+  CampaignAnsweringMachine,
+);
+
+// Type of a disposition field - enum values must be one of the field's options
+export type DispositionFieldType =
+  'string' | 'number' | 'boolean' | 'date' | 'enum';
+
+// A named call outcome the agent can record (e.g. agreed, refused, callback)
+@Schema({ _id: false })
+export class DispositionOutcome {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string; // Tells the agent when to pick this outcome
+}
+
+export const DispositionOutcomeSchema =
+  SchemaFactory.createForClass(DispositionOutcome);
+
+// A typed value the agent records with the outcome (e.g. promised_payment_date)
+@Schema({ _id: false })
+export class DispositionField {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({
+    required: true,
+    enum: ['string', 'number', 'boolean', 'date', 'enum'],
+  })
+  type: DispositionFieldType;
+
+  @Prop({ default: false })
+  required: boolean;
+
+  @Prop({ type: [String], default: undefined })
+  options?: string[]; // Allowed values of 'enum' fields
+
+  @Prop()
+  description?: string;
+}
+
+export const DispositionFieldSchema =
+  SchemaFactory.createForClass(DispositionField);
+
+// Outcomes and fields the agent records for each call of a campaign (recordCallOutcome tool)
+@Schema({ _id: false })
+export class CampaignDisposition {
+  @Prop({ type: [DispositionOutcomeSchema], required: true })
+  outcomes: DispositionOutcome[];
+
+  @Prop({ type: [DispositionFieldSchema], default: [] })
+  fields: DispositionField[];
+}
+
+export const CampaignDispositionSchema =
+  SchemaFactory.createForClass(CampaignDisposition);
+
+// How a campaign picks the caller ID of each call from its pool
+// round-robin: take turns, least-used-today: the number with the fewest calls today,
+// local-presence: the number closest to the contact (same area code, then same country)
+export type CallerIdStrategy =
+  'round-robin' | 'least-used-today' | 'local-presence';
+
+// Pool of the user's numbers a campaign rotates its outbound calls across
+@Schema({ _id: false })
+export class CampaignCallerIdPool {
+  @Prop({ type: [String], required: true })
+  numbers: string[]; // E.164 numbers configured for the campaign's outboundProvider
+
+  @Prop({
+    enum: ['round-robin', 'least-used-today', 'local-presence'],
+    default: 'round-robin',
+  })
+  strategy: CallerIdStrategy;
+
+  @Prop()
+  dailyCallCap?: number; // Max calls per number per day (UTC) - no cap when not set
+
+  @Prop()
+  cooldownSeconds?: number; // Min time between two calls from the same number - none when not set
+}
+
+export const CampaignCallerIdPoolSchema =
+  SchemaFactory.createForClass(CampaignCallerIdPool);
+
+// A row rejected during contact import (kept so failed rows can be downloaded)
+@Schema({ _id: false })
+export class ContactImportError {
+  @Prop()
+  row?: number; // Spreadsheet row number (header is row 1)
+
+  @Prop()
+  name?: string;
+
+  @Prop()
+  phoneNumber?: string; // As provided in the file
+
+  @Prop({ required: true })
+  reason: 'invalid' | 'duplicate' | 'do-not-call';
+
+  @Prop()
+  error?: string;
+}
+
+export const ContactImportErrorSchema =
+  SchemaFactory.createForClass(ContactImportError);
+
 // Main Campaign schema
 @Schema({ timestamps: true })
 export class Campaign extends Document {
@@ -72,15 +453,55 @@ export class Campaign extends Document {
   @Prop()
   agentName?: string; // Cached agent name for display
 
-  @Prop({ default: 'draft', enum: ['draft', 'active', 'paused', 'completed', 'scheduled', 'paused-time-window'] })
-  status: 'draft' | 'active' | 'paused' | 'completed' | 'scheduled' | 'paused-time-window';
-
-  @Prop({ type: [CampaignContactSchema], default: [] })
-  contacts: CampaignContact[];
+  @Prop({
+    default: 'draft',
+    enum: [
+      'draft',
+      'active',
+      'paused',
+      'completed',
+      'scheduled',
+      'paused-time-window',
+    ],
+  })
+  status:
+    | 'draft'
+    | 'active'
+    | 'paused'
+    | 'completed'
+    | 'scheduled'
+    | 'paused-time-window';
 
   @Prop({ type: CampaignScheduleSchema })
   schedule?: CampaignSchedule; // Only required for outbound campaigns
 
+  @Prop({ type: CampaignRetryPolicySchema })
+  retryPolicy?: CampaignRetryPolicy; // Optional - contacts are dialled once when not set
+
+  @Prop({
+    enum: ['priority', 'fifo', 'lifo', 'random', 'round-robin'],
+    default: 'priority',
+  })
+  contactOrder: ContactOrder; // Order pending contacts are claimed in
+
+  @Prop()
+  lastClaimedGroup?: string; // Contact group the last 'round-robin' claim came from ('' = contacts without a group)
+
+  @Prop({ type: CampaignConcurrencySchema })
+  concurrency?: CampaignConcurrency; // Optional - equal priority, no cap and no guaranteed share when not set
+
+  @Prop({ type: CampaignAnsweringMachineSchema })
+  answeringMachine?: CampaignAnsweringMachine; // Optional - answering machine detection is off when not set
+
+  @Prop({ type: CampaignDispositionSchema })
+  disposition?: CampaignDisposition; // Optional - the agent cannot record call outcomes when not set
+
+  @Prop()
+  defaultCountry?: string; // ISO country for numbers without a country code - falls back to the user's setting
+
+  @Prop({ type: [ContactImportErrorSchema], default: undefined })
+  lastImportErrors?: ContactImportError[]; // Rejected rows from the most recent file import
+
   @Prop()
   description?: string;
 
@@ -119,6 +540,12 @@ export class Campaign extends Document {
   @Prop()
   outboundPhoneNumber?: string; // Selected phone number for outbound calls
 
+  @Prop({ type: CampaignCallerIdPoolSchema })
+  callerIdPool?: CampaignCallerIdPool; // Optional - calls come from outboundPhoneNumber when not set
+
+  @Prop()
+  lastCallerId?: string; // Pool number of the last 'round-robin' call
+
   // API Integration settings
   @Prop({ default: false })
   apiTriggerEnabled: boolean; // Enable API endpoint to add contacts and trigger calls
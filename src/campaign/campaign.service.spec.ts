@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { CampaignService } from './campaign.service';
+import {
+  Campaign,
+  CampaignContact,
+  CampaignRetryPolicy,
+} from './campaign.schema';
+import { DncService } from '../dnc/dnc.service';
+import { UserService } from '../user/user.service';
+import { AgentService } from '../agent/agent.service';
+import { CallHistoryService } from '../call-history/call-history.service';
+import { AppLogger } from '../app.logger';
+
+const CAMPAIGN_ID = '6650f0c2a1b2c3d4e5f60718';
+const CONTACT_ID = '6650f0c2a1b2c3d4e5f60720';
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+
+interface StoredContact {
+  _id: string;
+  callStatus: CampaignContact['callStatus'];
+  callId?: string | null;
+  attempts: Record<string, any>[];
+  callback?: { scheduledAt: Date };
+  [key: string]: any;
+}
+
+type ContactUpdate = {
+  $set: Record<string, any>;
+  $push: { attempts: Record<string, any> };
+};
+
+// Contacts collection holding a single contact - updates only apply while it is in progress
+function createContactModel(contact: StoredContact) {
+  return {
+    contact,
+    findOne: jest.fn(() => ({
+      exec: () =>
+        Promise.resolve(contact.callStatus === 'in-progress' ? contact : null),
+    })),
+    findOneAndUpdate: jest.fn(
+      (filter: { callStatus: string }, update: ContactUpdate) => ({
+        exec: () => {
+          if (contact.callStatus !== filter.callStatus) {
+            return Promise.resolve(null);
+          }
+          Object.assign(contact, update.$set);
+          contact.attempts.push(update.$push.attempts);
+          return Promise.resolve(contact);
+        },
+      }),
+    ),
+  };
+}
+
+describe('CampaignService', () => {
+  let service: CampaignService;
+  let contactModel: ReturnType<typeof createContactModel>;
+  let retryPolicy: CampaignRetryPolicy | undefined;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    retryPolicy = undefined;
+    contactModel = createContactModel({
+      _id: CONTACT_ID,
+      callStatus: 'in-progress',
+      callId: 'call-1',
+      attempts: [],
+    });
+    const campaignModel = {
+      findById: jest.fn(() => ({
+        select: () => ({ exec: () => Promise.resolve({ retryPolicy }) }),
+      })),
+      updateOne: jest.fn(() => ({ exec: () => Promise.resolve() })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignService,
+        { provide: getModelToken(Campaign.name), useValue: campaignModel },
+        {
+          provide: getModelToken(CampaignContact.name),
+          useValue: contactModel,
+        },
+        { provide: DncService, useValue: {} },
+        { provide: UserService, useValue: {} },
+        { provide: AgentService, useValue: {} },
+        { provide: CallHistoryService, useValue: {} },
+        {
+          provide: AppLogger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CampaignService>(CampaignService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('recordCallAttempt', () => {
+    it('re-queues a retryable outcome after the retry delay', async () => {
+      retryPolicy = {
+        maxAttempts: 3,
+        retryDelayMinutes: 30,
+        retryOn: ['busy'],
+      };
+
+      const result = await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'busy',
+      );
+
+      expect(result?.willRetry).toBe(true);
+      expect(contactModel.contact.callStatus).toBe('pending');
+      expect(contactModel.contact.nextAttemptAt).toEqual(
+        new Date(NOW + 30 * 60 * 1000),
+      );
+      // Late events of this attempt must not match the re-queued contact
+      expect(contactModel.contact.callId).toBeNull();
+      expect(contactModel.contact.attempts).toEqual([
+        expect.objectContaining({
+          attemptNumber: 1,
+          callId: 'call-1',
+          outcome: 'busy',
+        }),
+      ]);
+    });
+
+    it('stops after the last attempt', async () => {
+      retryPolicy = {
+        maxAttempts: 2,
+        retryDelayMinutes: 30,
+        retryOn: ['busy'],
+      };
+      contactModel.contact.attempts.push({ attemptNumber: 1, outcome: 'busy' });
+
+      const result = await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'busy',
+      );
+
+      expect(result?.willRetry).toBe(false);
+      expect(contactModel.contact.callStatus).toBe('failed');
+      expect(contactModel.contact.attempts).toHaveLength(2);
+    });
+
+    it('does not retry an outcome missing from retryOn', async () => {
+      retryPolicy = {
+        maxAttempts: 3,
+        retryDelayMinutes: 30,
+        retryOn: ['busy', 'voicemail'],
+      };
+
+      const result = await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'no-answer',
+      );
+
+      expect(result?.willRetry).toBe(false);
+      expect(contactModel.contact.callStatus).toBe('no-answer');
+    });
+
+    it('dials once without a retry policy', async () => {
+      const result = await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'voicemail',
+      );
+
+      expect(result?.willRetry).toBe(false);
+      expect(contactModel.contact.callStatus).toBe('voicemail');
+    });
+
+    it('dials a requested callback regardless of the retry policy', async () => {
+      const callbackAt = new Date(NOW + 24 * 60 * 60 * 1000);
+      contactModel.contact.callback = { scheduledAt: callbackAt };
+
+      const result = await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'completed',
+      );
+
+      expect(result?.willRetry).toBe(true);
+      expect(contactModel.contact.callStatus).toBe('pending');
+      expect(contactModel.contact.nextAttemptAt).toEqual(callbackAt);
+    });
+
+    it('records a duplicate end event only once', async () => {
+      retryPolicy = { maxAttempts: 3, retryDelayMinutes: 0, retryOn: ['busy'] };
+
+      await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'busy',
+      );
+      const duplicate = await service.recordCallAttempt(
+        CAMPAIGN_ID,
+        { callId: 'call-1' },
+        'busy',
+      );
+
+      expect(duplicate).toBeNull();
+      expect(contactModel.contact.attempts).toHaveLength(1);
+    });
+
+    it('ignores an event without a contact or call reference', async () => {
+      await expect(
+        service.recordCallAttempt(CAMPAIGN_ID, {}, 'completed'),
+      ).resolves.toBeNull();
+      expect(contactModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,30 +1,199 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import { Campaign, CampaignContact } from './campaign.schema';
+import { Model, Types, mongo } from 'mongoose';
+import {
+  Campaign,
+  CampaignContact,
+  CallAttempt,
+  CallAttemptOutcome,
+  ContactCallback,
+  ContactImportError,
+} from './campaign.schema';
+import {
+  isRecurringSchedule,
+  isWithinContactLocalHours,
+} from './campaign-schedule.util';
+import {
+  getTimezoneForPhoneNumber,
+  isValidTimezone,
+  resolveContactTimezone,
+} from './phone-timezone.util';
+import {
+  getContactSort,
+  getNextRoundRobinGroup,
+  validateContactPriority,
+} from './contact-order.util';
+import {
+  describeDispositionConfig,
+  parseDisposition,
+} from './disposition.util';
+import { parseCallbackTime } from './callback.util';
+import { CallDisposition } from './call-disposition.schema';
+import { DncService } from '../dnc/dnc.service';
+import { UserService } from '../user/user.service';
+import { AgentService } from '../agent/agent.service';
+import { CallHistoryService } from '../call-history/call-history.service';
+import { CallHistory } from '../call-history/call-history.schema';
+import { buildTemplateContext } from '../agent/template-context.util';
+import {
+  normalizePhoneNumber,
+  PhoneNumberResult,
+} from '../phone-number.helper';
+import {
+  CallEventSource,
+  canTransition,
+  CONTACT_STATUS_TRANSITIONS,
+} from '../call-lifecycle/call-state.util';
+import { AppLogger } from '../app.logger';
+
+// Number of a campaign's contacts in each call status
+export type ContactStatusCounts = Record<
+  CampaignContact['callStatus'],
+  number
+> & { total: number };
+
+// Embedded contacts are copied to the contacts collection in batches of this size
+const MIGRATION_BATCH_SIZE = 1000;
 
 @Injectable()
-export class CampaignService {
-  constructor(@InjectModel(Campaign.name) private campaignModel: Model<Campaign>) {}
+export class CampaignService implements OnModuleInit {
+  constructor(
+    @InjectModel(Campaign.name) private campaignModel: Model<Campaign>,
+    @InjectModel(CampaignContact.name)
+    private contactModel: Model<CampaignContact>,
+    private readonly dncService: DncService,
+    private readonly userService: UserService,
+    private readonly agentService: AgentService,
+    private readonly callHistoryService: CallHistoryService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async onModuleInit() {
+    await this.migrateEmbeddedContacts();
+    await this.migrateContactPriority();
+  }
+
+  // Contacts created before contact priorities get the default priority, so they are not
+  // sorted behind newer contacts by the 'priority' order
+  private async migrateContactPriority(): Promise<void> {
+    const result = await this.contactModel
+      .updateMany(
+        { callStatus: 'pending', priority: { $exists: false } },
+        { $set: { priority: 0 } },
+      )
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.log(
+        `Set the default priority on ${result.modifiedCount} pending contacts`,
+      );
+    }
+  }
+
+  /**
+   * Move contacts still embedded in campaign documents (the old Campaign.contacts array)
+   * into the contacts collection. Contact IDs are kept, so call history and callback URLs still match.
+   * Safe to re-run or run on several instances at once - contacts already copied are skipped.
+   */
+  private async migrateEmbeddedContacts(): Promise<void> {
+    const cursor = this.campaignModel.collection.find(
+      { contacts: { $exists: true } },
+      { projection: { contacts: 1 } },
+    );
+
+    let campaignCount = 0;
+    let contactCount = 0;
+    for await (const doc of cursor) {
+      const campaignId = doc._id.toString();
+      const contacts = ((doc.contacts || []) as Partial<CampaignContact>[]).map(
+        (contact) => {
+          const timezone = this.getContactTimezone(
+            contact.phoneNumber,
+            contact.timezone,
+          );
+          return {
+            ...contact,
+            campaignId,
+            randomKey: Math.random(),
+            ...(timezone ? { timezone } : {}),
+          };
+        },
+      );
+
+      for (
+        let start = 0;
+        start < contacts.length;
+        start += MIGRATION_BATCH_SIZE
+      ) {
+        try {
+          await this.contactModel.collection.insertMany(
+            contacts.slice(start, start + MIGRATION_BATCH_SIZE),
+            { ordered: false },
+          );
+        } catch (err) {
+          // Contacts copied by an interrupted or concurrent run already exist
+          const writeErrors =
+            err instanceof mongo.MongoBulkWriteError
+              ? [err.writeErrors].flat()
+              : [];
+          if (
+            !(err instanceof mongo.MongoServerError && err.code === 11000) &&
+            !(
+              writeErrors.length > 0 &&
+              writeErrors.every((e) => e.code === 11000)
+            )
+          ) {
+            throw err;
+          }
+        }
+      }
+
+      const totalContacts = await this.contactModel
+        .countDocuments({ campaignId })
+        .exec();
+      await this.campaignModel.collection.updateOne(
+        { _id: doc._id },
+        { $unset: { contacts: '' }, $set: { totalContacts } },
+      );
+      campaignCount++;
+      contactCount += contacts.length;
+    }
+
+    if (campaignCount > 0) {
+      this.logger.log(
+        `Migrated ${contactCount} embedded contacts from ${campaignCount} campaigns to the contacts collection`,
+      );
+    }
+  }
 
-  // Create a new campaign
-  async create(campaignData: Partial<Campaign>): Promise<Campaign> {
+  // Create a new campaign (with its initial contacts)
+  async create(
+    campaignData: Partial<Campaign>,
+    contacts: Partial<CampaignContact>[] = [],
+  ): Promise<Campaign> {
     // Auto-set status to 'scheduled' for outbound campaigns with schedule
     let status = campaignData.status || 'draft';
     if (
       campaignData.type === 'outbound' &&
       campaignData.schedule?.scheduledDate &&
-      campaignData.schedule?.scheduledTime
+      (campaignData.schedule?.scheduledTime ||
+        isRecurringSchedule(campaignData.schedule))
     ) {
       status = 'scheduled';
     }
 
-    const campaign = new this.campaignModel({
+    const campaign = await new this.campaignModel({
       ...campaignData,
       status,
-      totalContacts: campaignData.contacts?.length || 0,
-    });
-    return campaign.save();
+      totalContacts: contacts.length,
+    }).save();
+
+    if (contacts.length > 0) {
+      const campaignId = campaign._id.toString();
+      await this.contactModel.insertMany(
+        contacts.map((contact) => ({ ...contact, campaignId })),
+      );
+    }
+    return campaign;
   }
 
   // Find all campaigns
@@ -65,15 +234,39 @@ export class CampaignService {
     return this.campaignModel.findById(id).exec();
   }
 
+  /**
+   * Find the inbound campaign that answers calls to a phone number
+   * Paused, completed and deactivated campaigns do not take calls
+   */
+  async findInboundCampaignByNumber(
+    phoneNumber: string,
+  ): Promise<Campaign | null> {
+    const result = normalizePhoneNumber(phoneNumber);
+    const e164 = result.valid ? result.e164 : phoneNumber;
+    // Match numbers stored with or without the leading '+'
+    const candidates = [
+      ...new Set([e164, e164.replace(/^\+/, ''), phoneNumber]),
+    ];
+
+    return this.campaignModel
+      .findOne({
+        type: 'inbound',
+        inboundPhoneNumber: { $in: candidates },
+        isActive: { $ne: false },
+        status: { $nin: ['paused', 'completed'] },
+      })
+      .sort({ updatedAt: -1 })
+      .exec();
+  }
+
   // Update a campaign
   async update(id: string, updateData: Partial<Campaign>): Promise<Campaign | null> {
-    // If contacts are being updated, recalculate totalContacts
-    if (updateData.contacts) {
-      updateData.totalContacts = updateData.contacts.length;
-    }
-
     // Auto-update status to 'scheduled' if outbound campaign gets schedule and is in draft
-    if (updateData.schedule?.scheduledDate && updateData.schedule?.scheduledTime) {
+    if (
+      updateData.schedule?.scheduledDate &&
+      (updateData.schedule?.scheduledTime ||
+        isRecurringSchedule(updateData.schedule))
+    ) {
       const existingCampaign = await this.campaignModel.findById(id).exec();
       if (
         existingCampaign &&
@@ -87,24 +280,195 @@ export class CampaignService {
     return this.campaignModel.findByIdAndUpdate(id, updateData, { new: true }).exec();
   }
 
-  // Delete a campaign
+  // Delete a campaign and its contacts
   async delete(id: string): Promise<Campaign | null> {
-    return this.campaignModel.findByIdAndDelete(id).exec();
+    const campaign = await this.campaignModel.findByIdAndDelete(id).exec();
+    if (campaign) {
+      await this.contactModel.deleteMany({ campaignId: id }).exec();
+    }
+    return campaign;
   }
 
   // Add contacts to a campaign
-  async addContacts(campaignId: string, contacts: Partial<CampaignContact>[]): Promise<Campaign | null> {
+  // Phone numbers are normalized to E.164 and custom fields are checked against the agent's
+  // contextSchema - nothing is saved if any contact is invalid.
+  // Numbers on the owner's do-not-call list are skipped and returned in skippedDoNotCall
+  async addContacts(
+    campaignId: string,
+    contacts: Partial<CampaignContact>[],
+  ): Promise<{
+    campaign: Campaign;
+    contacts: CampaignContact[]; // The contacts that were added
+    skippedDoNotCall: Partial<CampaignContact>[];
+    invalid: ContactImportError[];
+  } | null> {
     const campaign = await this.campaignModel.findById(campaignId).exec();
     if (!campaign) return null;
 
-    const newContacts = contacts.map(contact => ({
+    const defaultCountry = await this.getDefaultCountry(campaign);
+    const contextSchema = await this.getContextSchema(campaign);
+    const invalid: ContactImportError[] = [];
+    const normalized: (Partial<CampaignContact> & { phoneNumber: string })[] =
+      [];
+
+    contacts.forEach((contact, index) => {
+      const result = normalizePhoneNumber(contact.phoneNumber, defaultCountry);
+      if (!result.valid) {
+        invalid.push({
+          row: index + 1,
+          name: contact.name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: result.error,
+        });
+        return;
+      }
+
+      const priorityError = validateContactPriority(contact.priority);
+      if (priorityError) {
+        invalid.push({
+          row: index + 1,
+          name: contact.name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: priorityError,
+        });
+        return;
+      }
+
+      const variables = buildTemplateContext(
+        contextSchema,
+        contact.customFields,
+      );
+      if (variables.errors.length > 0) {
+        invalid.push({
+          row: index + 1,
+          name: contact.name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: variables.errors.join('; '),
+        });
+        return;
+      }
+
+      normalized.push({
+        ...contact,
+        phoneNumber: result.e164,
+        customFields: contact.customFields
+          ? { ...contact.customFields, ...variables.context }
+          : undefined,
+      });
+    });
+
+    if (invalid.length > 0) {
+      return { campaign, contacts: [], skippedDoNotCall: [], invalid };
+    }
+
+    const { allowed, blocked } = await this.dncService.filterBlocked(
+      campaign.userId,
+      normalized,
+    );
+
+    const newContacts = allowed.map((contact) => ({
       ...contact,
+      campaignId,
+      timezone: this.getContactTimezone(contact.phoneNumber, contact.timezone),
       callStatus: 'pending' as const,
     }));
 
-    campaign.contacts.push(...newContacts as any);
-    campaign.totalContacts = campaign.contacts.length;
-    return campaign.save();
+    const inserted =
+      newContacts.length > 0
+        ? await this.contactModel.insertMany(newContacts)
+        : [];
+    const updatedCampaign = await this.campaignModel
+      .findByIdAndUpdate(
+        campaignId,
+        { $inc: { totalContacts: inserted.length } },
+        { new: true },
+      )
+      .exec();
+    return {
+      campaign: updatedCampaign || campaign,
+      contacts: inserted as CampaignContact[],
+      skippedDoNotCall: blocked,
+      invalid: [],
+    };
+  }
+
+  /**
+   * Normalize a single phone number to E.164 using the campaign's default country
+   * (falls back to the owner's default country)
+   */
+  async normalizeContactPhone(
+    campaignId: string,
+    phoneNumber: string,
+  ): Promise<PhoneNumberResult> {
+    const campaign = await this.campaignModel
+      .findById(campaignId)
+      .select('userId defaultCountry')
+      .exec();
+    return normalizePhoneNumber(
+      phoneNumber,
+      campaign ? await this.getDefaultCountry(campaign) : undefined,
+    );
+  }
+
+  /**
+   * Check a contact's custom fields against the campaign agent's contextSchema
+   * Returns the fields with declared variables coerced to their declared types
+   */
+  async validateContactFields(
+    campaignId: string,
+    customFields: Record<string, any>,
+  ): Promise<{ customFields: Record<string, any>; errors: string[] }> {
+    const campaign = await this.campaignModel
+      .findById(campaignId)
+      .select('agentId')
+      .exec();
+    const { context, errors } = buildTemplateContext(
+      campaign ? await this.getContextSchema(campaign) : undefined,
+      customFields,
+    );
+    return { customFields: { ...customFields, ...context }, errors };
+  }
+
+  // Template variables the campaign's agent declares (callTemplate.contextSchema)
+  private async getContextSchema(
+    campaign: Pick<Campaign, 'agentId'>,
+  ): Promise<Record<string, any> | undefined> {
+    if (!campaign.agentId) return undefined;
+    const agent = await this.agentService.findOne(campaign.agentId);
+    return agent?.callTemplate?.contextSchema || undefined;
+  }
+
+  // Default country for reading numbers without a country code: campaign setting, then user setting
+  private async getDefaultCountry(
+    campaign: Pick<Campaign, 'userId' | 'defaultCountry'>,
+  ): Promise<string | undefined> {
+    if (campaign.defaultCountry) return campaign.defaultCountry;
+    const user = await this.userService.findById(campaign.userId);
+    return user?.settings?.defaultCountry || undefined;
+  }
+
+  // Find a single contact of a campaign
+  async findContact(
+    campaignId: string,
+    contactId: string,
+  ): Promise<CampaignContact | null> {
+    if (!Types.ObjectId.isValid(contactId)) return null;
+    return this.contactModel.findOne({ _id: contactId, campaignId }).exec();
+  }
+
+  // Find several contacts of a campaign by ID (unknown IDs are ignored)
+  async findContactsByIds(
+    campaignId: string,
+    contactIds: string[],
+  ): Promise<CampaignContact[]> {
+    const ids = contactIds.filter((id) => Types.ObjectId.isValid(id));
+    return this.contactModel
+      .find({ campaignId, _id: { $in: ids } })
+      .sort({ _id: 1 })
+      .exec();
   }
 
   // Update a single contact in a campaign
@@ -112,72 +476,199 @@ export class CampaignService {
     campaignId: string,
     contactId: string,
     contactData: Partial<CampaignContact>
-  ): Promise<Campaign | null> {
+  ): Promise<CampaignContact | null> {
     // First check if contact is locked
-    const campaign = await this.campaignModel.findOne({
-      _id: campaignId,
-      'contacts._id': contactId,
-    }).exec();
-    
-    if (campaign) {
-      const contact = campaign.contacts.find(c => c._id?.toString() === contactId);
-      if (contact?.isLocked) {
-        throw new Error('Contact is locked and cannot be modified. Calls have been triggered for this contact.');
-      }
+    const contact = await this.findContact(campaignId, contactId);
+    if (!contact) return null;
+    if (contact.isLocked) {
+      throw new Error(
+        'Contact is locked and cannot be modified. Calls have been triggered for this contact.',
+      );
     }
 
-    return this.campaignModel.findOneAndUpdate(
-      { _id: campaignId, 'contacts._id': contactId },
-      { $set: { 'contacts.$': { ...contactData, _id: contactId } } },
-      { new: true }
-    ).exec();
+    if (contactData.phoneNumber) {
+      contactData.timezone = this.getContactTimezone(
+        contactData.phoneNumber,
+        contactData.timezone,
+      );
+    }
+
+    // Call state is only changed by calls - use updateContactCallStatus for that
+    // (and scheduleCallback / cancelCallback for callbacks)
+    const { callStatus, ...fields } = contactData;
+    delete fields._id;
+    delete fields.campaignId;
+    delete fields.attempts;
+    delete fields.callback;
+    const updated = await this.contactModel
+      .findOneAndUpdate(
+        { _id: contactId, campaignId },
+        { $set: fields },
+        { new: true },
+      )
+      .exec();
+
+    if (updated && callStatus && callStatus !== contact.callStatus) {
+      const moved = await this.updateContactCallStatus(
+        campaignId,
+        contactId,
+        callStatus,
+        undefined,
+        'api',
+      );
+      if (!moved) {
+        throw new Error(
+          `Contact call status cannot change from ${updated.callStatus} to ${callStatus}`,
+        );
+      }
+      return moved;
+    }
+    return updated;
   }
 
   // Delete a contact from a campaign
-  async deleteContact(campaignId: string, contactId: string): Promise<Campaign | null> {
+  async deleteContact(
+    campaignId: string,
+    contactId: string,
+  ): Promise<CampaignContact | null> {
     // First check if contact is locked
-    const existingCampaign = await this.campaignModel.findOne({
-      _id: campaignId,
-      'contacts._id': contactId,
-    }).exec();
-    
-    if (existingCampaign) {
-      const contact = existingCampaign.contacts.find(c => c._id?.toString() === contactId);
-      if (contact?.isLocked) {
-        throw new Error('Contact is locked and cannot be deleted. Calls have been triggered for this contact.');
-      }
+    const existing = await this.findContact(campaignId, contactId);
+    if (!existing) return null;
+    if (existing.isLocked) {
+      throw new Error(
+        'Contact is locked and cannot be deleted. Calls have been triggered for this contact.',
+      );
     }
 
-    const campaign = await this.campaignModel.findByIdAndUpdate(
-      campaignId,
-      { $pull: { contacts: { _id: contactId } } },
-      { new: true }
-    ).exec();
-
-    if (campaign) {
-      campaign.totalContacts = campaign.contacts.length;
-      await campaign.save();
+    const contact = await this.contactModel
+      .findOneAndDelete({ _id: contactId, campaignId })
+      .exec();
+    if (contact) {
+      await this.campaignModel
+        .updateOne(
+          { _id: campaignId },
+          {
+            $inc: {
+              totalContacts: -1,
+              ...this.statsDelta(contact.callStatus, undefined),
+            },
+          },
+        )
+        .exec();
     }
-    return campaign;
+    return contact;
   }
 
-  // Get contacts for a campaign with pagination
+  // Get contacts for a campaign with pagination (in the order they were added)
+  // disposition filters by recorded outcome ('none' = contacts without one), hasCallback by pending callback
   async getContacts(
     campaignId: string,
     page: number = 1,
-    limit: number = 50
+    limit: number = 50,
+    filters: { disposition?: string; hasCallback?: boolean } = {},
   ): Promise<{ contacts: CampaignContact[]; total: number; page: number; totalPages: number }> {
-    const campaign = await this.campaignModel.findById(campaignId).exec();
-    if (!campaign) {
-      return { contacts: [], total: 0, page: 1, totalPages: 0 };
+    const skip = (page - 1) * limit;
+    const query: Record<string, any> = { campaignId };
+    if (filters.disposition === 'none') {
+      query['disposition.outcome'] = { $exists: false };
+    } else if (filters.disposition) {
+      query['disposition.outcome'] = filters.disposition;
     }
+    if (filters.hasCallback !== undefined) {
+      query.callback = { $exists: filters.hasCallback };
+    }
+    const [contacts, total] = await Promise.all([
+      this.contactModel
+        .find(query)
+        .sort({ _id: 1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.contactModel.countDocuments(query).exec(),
+    ]);
 
-    const total = campaign.contacts.length;
-    const totalPages = Math.ceil(total / limit);
-    const skip = (page - 1) * limit;
-    const contacts = campaign.contacts.slice(skip, skip + limit);
+    return { contacts, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  // Contacts per call status for a campaign
+  async getContactStatusCounts(
+    campaignId: string,
+  ): Promise<ContactStatusCounts> {
+    const counts = await this.getContactStatusCountsByCampaign([campaignId]);
+    return counts.get(campaignId)!;
+  }
+
+  // Contacts per call status for several campaigns at once (every requested campaign gets an entry)
+  async getContactStatusCountsByCampaign(
+    campaignIds: string[],
+  ): Promise<Map<string, ContactStatusCounts>> {
+    const groups = await this.contactModel
+      .aggregate<{
+        _id: { campaignId: string; callStatus: CampaignContact['callStatus'] };
+        count: number;
+      }>([
+        { $match: { campaignId: { $in: campaignIds } } },
+        {
+          $group: {
+            _id: { campaignId: '$campaignId', callStatus: '$callStatus' },
+            count: { $sum: 1 },
+          },
+        },
+      ])
+      .exec();
 
-    return { contacts, total, page, totalPages };
+    const result = new Map<string, ContactStatusCounts>();
+    for (const campaignId of campaignIds) {
+      result.set(campaignId, {
+        total: 0,
+        pending: 0,
+        'in-progress': 0,
+        completed: 0,
+        failed: 0,
+        'no-answer': 0,
+        voicemail: 0,
+      });
+    }
+    for (const group of groups) {
+      const counts = result.get(group._id.campaignId)!;
+      counts[group._id.callStatus] =
+        (counts[group._id.callStatus] || 0) + group.count;
+      counts.total += group.count;
+    }
+    return result;
+  }
+
+  // Whether a campaign has any contact in one of the given call statuses
+  async hasContactsWithStatus(
+    campaignId: string,
+    statuses: CampaignContact['callStatus'][],
+  ): Promise<boolean> {
+    return !!(await this.contactModel
+      .exists({ campaignId, callStatus: { $in: statuses } })
+      .exec());
+  }
+
+  // Pending contacts of a campaign grouped by their stored timezone (for contact-local calling hours)
+  async countPendingContactsByTimezone(
+    campaignId: string,
+  ): Promise<{ timezone?: string; count: number }[]> {
+    const groups = await this.contactModel
+      .aggregate<{ _id: string | null; count: number }>([
+        { $match: { campaignId, callStatus: 'pending' } },
+        { $group: { _id: '$timezone', count: { $sum: 1 } } },
+      ])
+      .exec();
+    return groups.map((g) => ({
+      timezone: g._id || undefined,
+      count: g.count,
+    }));
+  }
+
+  // In-progress contacts of a campaign
+  async findInProgressContacts(campaignId: string): Promise<CampaignContact[]> {
+    return this.contactModel
+      .find({ campaignId, callStatus: 'in-progress' })
+      .exec();
   }
 
   // Update campaign status
@@ -198,116 +689,403 @@ export class CampaignService {
     campaignId: string,
     callId: string,
     callStatus: CampaignContact['callStatus'],
-    callData?: { callDuration?: number; callNotes?: string }
-  ): Promise<Campaign | null> {
-    const updateFields: Record<string, any> = {
-      'contacts.$.callStatus': callStatus,
-    };
+    callData?: { callDuration?: number; callNotes?: string },
+    source: CallEventSource = 'system',
+  ): Promise<CampaignContact | null> {
+    const updateFields: Record<string, any> = {};
 
     // Only update calledAt if it's a completion status (not in-progress)
     if (callStatus !== 'in-progress') {
-      updateFields['contacts.$.calledAt'] = new Date();
+      updateFields.calledAt = new Date();
     }
     
-    if (callData?.callDuration !== undefined) updateFields['contacts.$.callDuration'] = callData.callDuration;
-    if (callData?.callNotes) updateFields['contacts.$.callNotes'] = callData.callNotes;
-
-    const campaign = await this.campaignModel.findOneAndUpdate(
-      { _id: campaignId, 'contacts.callId': callId },
-      { $set: updateFields },
-      { new: true }
-    ).exec();
-
-    // Update campaign statistics
-    if (campaign) {
-      const stats = this.calculateCampaignStats(campaign);
-      await this.campaignModel.findByIdAndUpdate(campaignId, stats).exec();
-    }
+    if (callData?.callDuration !== undefined)
+      updateFields.callDuration = callData.callDuration;
+    if (callData?.callNotes) updateFields.callNotes = callData.callNotes;
 
-    return campaign;
+    return this.transitionContact(
+      campaignId,
+      { callId },
+      callStatus,
+      updateFields,
+      source,
+    );
   }
 
-  // Update contact call status
+  /**
+   * Update contact call status
+   * The change must follow CONTACT_STATUS_TRANSITIONS (a contact that already finished is
+   * never put back in progress) - returns null when the contact is missing or the change is refused
+   */
   async updateContactCallStatus(
     campaignId: string,
     contactId: string,
     callStatus: CampaignContact['callStatus'],
-    callData?: { callId?: string; callHistoryId?: string; callDuration?: number; callNotes?: string }
-  ): Promise<Campaign | null> {
+    callData?: {
+      callId?: string;
+      callHistoryId?: string;
+      callDuration?: number;
+      callNotes?: string;
+    },
+    source: CallEventSource = 'system',
+  ): Promise<CampaignContact | null> {
+    if (!Types.ObjectId.isValid(contactId)) return null;
+
     const updateFields: Record<string, any> = {
-      'contacts.$.callStatus': callStatus,
-      'contacts.$.calledAt': new Date(),
+      calledAt: new Date(),
     };
 
-    if (callData?.callId) updateFields['contacts.$.callId'] = callData.callId;
-    if (callData?.callHistoryId) updateFields['contacts.$.callHistoryId'] = callData.callHistoryId;
-    if (callData?.callDuration) updateFields['contacts.$.callDuration'] = callData.callDuration;
-    if (callData?.callNotes) updateFields['contacts.$.callNotes'] = callData.callNotes;
+    if (callData?.callId) updateFields.callId = callData.callId;
+    if (callData?.callHistoryId)
+      updateFields.callHistoryId = callData.callHistoryId;
+    if (callData?.callDuration)
+      updateFields.callDuration = callData.callDuration;
+    if (callData?.callNotes) updateFields.callNotes = callData.callNotes;
 
-    const campaign = await this.campaignModel.findOneAndUpdate(
-      { _id: campaignId, 'contacts._id': contactId },
-      { $set: updateFields },
-      { new: true }
-    ).exec();
+    return this.transitionContact(
+      campaignId,
+      { _id: contactId },
+      callStatus,
+      updateFields,
+      source,
+    );
+  }
 
-    // Update campaign statistics
-    if (campaign) {
-      const stats = this.calculateCampaignStats(campaign);
-      await this.campaignModel.findByIdAndUpdate(campaignId, stats).exec();
+  /**
+   * Attach the created call to a contact that is being dialled
+   * Only applies while the contact is still in-progress, so a call that already ended
+   * (its webhook arrived before this) is not re-opened
+   */
+  async attachContactCall(
+    campaignId: string,
+    contactId: string,
+    call: { callId: string; callHistoryId?: string; providerCallId?: string },
+  ): Promise<CampaignContact | null> {
+    const updateFields: Record<string, any> = { callId: call.callId };
+    if (call.callHistoryId) updateFields.callHistoryId = call.callHistoryId;
+    if (call.providerCallId) updateFields.providerCallId = call.providerCallId;
+
+    return this.contactModel
+      .findOneAndUpdate(
+        { _id: contactId, campaignId, callStatus: 'in-progress' },
+        { $set: updateFields },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Move a contact to another call status if the transition graph allows it, recording the change
+  private async transitionContact(
+    campaignId: string,
+    match: Record<string, any>,
+    callStatus: CampaignContact['callStatus'],
+    updateFields: Record<string, any>,
+    source: CallEventSource,
+  ): Promise<CampaignContact | null> {
+    const current = await this.contactModel
+      .findOne({ ...match, campaignId })
+      .select('callStatus')
+      .exec();
+    if (!current) return null;
+
+    // Same status - only the call details change
+    if (current.callStatus === callStatus) {
+      return this.contactModel
+        .findOneAndUpdate(
+          { _id: current._id, callStatus },
+          { $set: updateFields },
+          { new: true },
+        )
+        .exec();
     }
 
-    return campaign;
+    if (
+      !canTransition(CONTACT_STATUS_TRANSITIONS, current.callStatus, callStatus)
+    ) {
+      this.logger.warn(
+        `Ignoring contact ${current._id.toString()} call status change ${current.callStatus} -> ${callStatus} (source: ${source})`,
+      );
+      return null;
+    }
+
+    // Guard on the status we read so a concurrent change wins cleanly
+    const updated = await this.contactModel
+      .findOneAndUpdate(
+        { _id: current._id, callStatus: current.callStatus },
+        {
+          $set: { ...updateFields, callStatus },
+          $push: {
+            statusHistory: {
+              from: current.callStatus,
+              to: callStatus,
+              at: new Date(),
+              source,
+            },
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!updated) return null;
+
+    // Update campaign statistics
+    await this.applyStatsChange(campaignId, current.callStatus, callStatus);
+    return updated;
   }
 
-  // Calculate campaign statistics
-  private calculateCampaignStats(campaign: Campaign) {
-    let completedCalls = 0;
-    let successfulCalls = 0;
-    let failedCalls = 0;
+  /**
+   * Campaign counter changes when a contact moves between call statuses
+   * completedCalls counts every finished contact, successfulCalls completed ones and failedCalls failed/no-answer ones
+   * (a voicemail is finished but neither successful nor failed)
+   */
+  private statsDelta(
+    from?: CampaignContact['callStatus'],
+    to?: CampaignContact['callStatus'],
+  ): Record<string, number> {
+    const weights = (status?: CampaignContact['callStatus']) => ({
+      completedCalls:
+        status === 'completed' ||
+        status === 'failed' ||
+        status === 'no-answer' ||
+        status === 'voicemail'
+          ? 1
+          : 0,
+      successfulCalls: status === 'completed' ? 1 : 0,
+      failedCalls: status === 'failed' || status === 'no-answer' ? 1 : 0,
+    });
+    const before = weights(from);
+    const after = weights(to);
 
-    for (const contact of campaign.contacts) {
-      if (contact.callStatus === 'completed') {
-        completedCalls++;
-        successfulCalls++;
-      } else if (contact.callStatus === 'failed' || contact.callStatus === 'no-answer') {
-        completedCalls++;
-        failedCalls++;
-      }
+    const delta: Record<string, number> = {};
+    for (const key of Object.keys(after) as (keyof typeof after)[]) {
+      if (after[key] !== before[key]) delta[key] = after[key] - before[key];
     }
+    return delta;
+  }
 
-    return { completedCalls, successfulCalls, failedCalls };
+  // Keep the campaign's call counters in step with a contact status change (no full recount needed)
+  private async applyStatsChange(
+    campaignId: string,
+    from: CampaignContact['callStatus'],
+    to: CampaignContact['callStatus'],
+  ): Promise<void> {
+    const delta = this.statsDelta(from, to);
+    if (Object.keys(delta).length > 0) {
+      await this.campaignModel
+        .updateOne({ _id: campaignId }, { $inc: delta })
+        .exec();
+    }
   }
 
-  // Bulk import contacts
+  /**
+   * Bulk import contacts from a file
+   * - Phone numbers are normalized to E.164; invalid rows are rejected
+   * - Extra columns are kept as custom fields and checked against the agent's contextSchema
+   * - Numbers already in the campaign (or repeated in the file) are skipped as duplicates
+   * - Numbers on the owner's do-not-call list are skipped
+   * Rejected rows are stored on the campaign as lastImportErrors so they can be downloaded
+   * (pass recordErrors: false when importing a file in chunks and record them once at the end)
+   */
   async bulkImportContacts(
     campaignId: string,
-    contacts: { name: string; phoneNumber: string }[]
-  ): Promise<Campaign | null> {
-    const normalizedContacts = contacts.map(contact => ({
-      name: contact.name.trim(),
-      phoneNumber: this.normalizePhoneNumber(contact.phoneNumber),
-      callStatus: 'pending' as const,
-    }));
-
+    contacts: {
+      name: string;
+      phoneNumber: string;
+      timezone?: string;
+      priority?: number;
+      group?: string;
+      customFields?: Record<string, any>;
+      row?: number;
+    }[],
+    options: { recordErrors?: boolean } = {},
+  ): Promise<{
+    campaign: Campaign;
+    importedCount: number;
+    invalid: ContactImportError[];
+    duplicates: ContactImportError[];
+    skippedDoNotCall: ContactImportError[];
+  } | null> {
     const campaign = await this.campaignModel.findById(campaignId).exec();
     if (!campaign) return null;
 
-    campaign.contacts.push(...normalizedContacts as any);
-    campaign.totalContacts = campaign.contacts.length;
-    return campaign.save();
-  }
+    const defaultCountry = await this.getDefaultCountry(campaign);
+    const contextSchema = await this.getContextSchema(campaign);
+    const invalid: ContactImportError[] = [];
+    const duplicates: ContactImportError[] = [];
+    const candidates: {
+      contact: (typeof contacts)[number];
+      name: string;
+      e164: string;
+      customFields?: Record<string, any>;
+    }[] = [];
+    const validContacts: {
+      campaignId: string;
+      name: string;
+      phoneNumber: string;
+      timezone?: string;
+      priority?: number;
+      group?: string;
+      customFields?: Record<string, any>;
+      callStatus: 'pending';
+      row?: number;
+    }[] = [];
 
-  // Normalize phone number (ensure country code format)
-  private normalizePhoneNumber(phone: string): string {
-    // Remove all non-digit characters except +
-    let normalized = phone.replace(/[^\d+]/g, '');
-    
-    // If it doesn't start with +, add it if there's no leading zero
-    if (!normalized.startsWith('+') && !normalized.startsWith('0')) {
-      normalized = '+' + normalized;
+    for (const contact of contacts) {
+      const name = (contact.name || '').trim();
+      if (!name) {
+        invalid.push({
+          row: contact.row,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: 'Name is missing',
+        });
+        continue;
+      }
+
+      const result = normalizePhoneNumber(contact.phoneNumber, defaultCountry);
+      if (!result.valid) {
+        invalid.push({
+          row: contact.row,
+          name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: result.error,
+        });
+        continue;
+      }
+
+      const priorityError = validateContactPriority(contact.priority);
+      if (priorityError) {
+        invalid.push({
+          row: contact.row,
+          name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: priorityError,
+        });
+        continue;
+      }
+
+      const variables = buildTemplateContext(
+        contextSchema,
+        contact.customFields,
+      );
+      if (variables.errors.length > 0) {
+        invalid.push({
+          row: contact.row,
+          name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'invalid',
+          error: variables.errors.join('; '),
+        });
+        continue;
+      }
+
+      candidates.push({
+        contact,
+        name,
+        e164: result.e164,
+        customFields: contact.customFields
+          ? { ...contact.customFields, ...variables.context }
+          : undefined,
+      });
     }
-    
-    return normalized;
+
+    // Only look up the numbers in this file - the campaign's other contacts are never loaded
+    const existingNumbers: string[] =
+      candidates.length > 0
+        ? await this.contactModel
+            .distinct('phoneNumber', {
+              campaignId,
+              phoneNumber: { $in: [...new Set(candidates.map((c) => c.e164))] },
+            })
+            .exec()
+        : [];
+    const seen = new Set(existingNumbers);
+
+    for (const { contact, name, e164, customFields } of candidates) {
+      if (seen.has(e164)) {
+        duplicates.push({
+          row: contact.row,
+          name,
+          phoneNumber: contact.phoneNumber,
+          reason: 'duplicate',
+          error: `Duplicate of ${e164}`,
+        });
+        continue;
+      }
+      seen.add(e164);
+
+      validContacts.push({
+        campaignId,
+        name,
+        phoneNumber: e164,
+        timezone: this.getContactTimezone(e164, contact.timezone),
+        priority: contact.priority,
+        group: contact.group,
+        customFields,
+        callStatus: 'pending',
+        row: contact.row,
+      });
+    }
+
+    const { allowed, blocked } = await this.dncService.filterBlocked(
+      campaign.userId,
+      validContacts,
+    );
+    const skippedDoNotCall: ContactImportError[] = blocked.map((c) => ({
+      row: c.row,
+      name: c.name,
+      phoneNumber: c.phoneNumber,
+      reason: 'do-not-call',
+      error: 'Number is on the do-not-call list',
+    }));
+
+    if (allowed.length > 0) {
+      // The row number only reports import errors and is not stored
+      await this.contactModel.insertMany(
+        allowed.map((contact) => ({ ...contact, row: undefined })),
+      );
+    }
+
+    const update: Record<string, any> = {
+      $inc: { totalContacts: allowed.length },
+    };
+    if (options.recordErrors !== false) {
+      update.$set = {
+        lastImportErrors: [...invalid, ...duplicates, ...skippedDoNotCall],
+      };
+    }
+    const updatedCampaign = await this.campaignModel
+      .findByIdAndUpdate(campaignId, update, { new: true })
+      .exec();
+
+    return {
+      campaign: updatedCampaign || campaign,
+      importedCount: allowed.length,
+      invalid,
+      duplicates,
+      skippedDoNotCall,
+    };
+  }
+
+  // Replace the rows rejected by the most recent import
+  async setLastImportErrors(
+    campaignId: string,
+    errors: ContactImportError[],
+  ): Promise<void> {
+    await this.campaignModel
+      .updateOne({ _id: campaignId }, { $set: { lastImportErrors: errors } })
+      .exec();
+  }
+
+  // Explicit timezone if valid, otherwise derived from the phone number's region
+  private getContactTimezone(
+    phoneNumber?: string,
+    timezone?: string,
+  ): string | undefined {
+    if (timezone && isValidTimezone(timezone.trim())) return timezone.trim();
+    return getTimezoneForPhoneNumber(phoneNumber) || undefined;
   }
 
   // Get campaign statistics
@@ -317,31 +1095,382 @@ export class CampaignService {
     successfulCalls: number;
     failedCalls: number;
     pendingCalls: number;
+    awaitingRetry: number;
     successRate: number;
+    totalAttempts: number;
+    averageAttemptsPerContact: number;
+    dispositions: Record<string, number>; // Contacts per recorded outcome (every configured outcome is listed)
+    attemptsPerContact: Array<{
+      contactId: string;
+      name: string;
+      phoneNumber: string;
+      callStatus: CampaignContact['callStatus'];
+      attempts: number;
+      lastOutcome?: CallAttemptOutcome;
+      nextAttemptAt?: Date;
+    }>;
   } | null> {
     const campaign = await this.campaignModel.findById(campaignId).exec();
     if (!campaign) return null;
 
-    const pendingCalls = campaign.contacts.filter(c => c.callStatus === 'pending').length;
+    const now = new Date();
+    const [pendingCalls, awaitingRetry, dispositionCounts, contactAttempts] =
+      await Promise.all([
+        this.contactModel
+          .countDocuments({ campaignId, callStatus: 'pending' })
+          .exec(),
+        this.contactModel
+          .countDocuments({
+            campaignId,
+            callStatus: 'pending',
+            nextAttemptAt: { $gt: now },
+          })
+          .exec(),
+        this.contactModel
+          .aggregate<{ _id: string; count: number }>([
+            {
+              $match: { campaignId, 'disposition.outcome': { $exists: true } },
+            },
+            { $group: { _id: '$disposition.outcome', count: { $sum: 1 } } },
+          ])
+          .exec(),
+        // Attempt count and last outcome per contact, without loading the attempt history
+        this.contactModel
+          .aggregate<{
+            _id: Types.ObjectId;
+            name: string;
+            phoneNumber: string;
+            callStatus: CampaignContact['callStatus'];
+            attempts: number;
+            lastOutcome?: CallAttemptOutcome;
+            nextAttemptAt?: Date;
+          }>([
+            { $match: { campaignId } },
+            { $sort: { _id: 1 } },
+            {
+              $project: {
+                name: 1,
+                phoneNumber: 1,
+                callStatus: 1,
+                nextAttemptAt: 1,
+                attempts: { $size: { $ifNull: ['$attempts', []] } },
+                lastOutcome: {
+                  $arrayElemAt: [{ $ifNull: ['$attempts.outcome', []] }, -1],
+                },
+              },
+            },
+          ])
+          .exec(),
+      ]);
     const successRate = campaign.completedCalls > 0
       ? Math.round((campaign.successfulCalls / campaign.completedCalls) * 100)
       : 0;
 
+    const attemptsPerContact = contactAttempts.map((c) => ({
+      contactId: c._id.toString(),
+      name: c.name,
+      phoneNumber: c.phoneNumber,
+      callStatus: c.callStatus,
+      attempts: c.attempts,
+      lastOutcome: c.lastOutcome,
+      nextAttemptAt: c.nextAttemptAt,
+    }));
+    const totalAttempts = attemptsPerContact.reduce(
+      (sum, c) => sum + c.attempts,
+      0,
+    );
+
+    // Outcomes recorded before the settings changed are still counted
+    const dispositions: Record<string, number> = {};
+    for (const outcome of campaign.disposition?.outcomes || []) {
+      dispositions[outcome.name] = 0;
+    }
+    for (const group of dispositionCounts) {
+      dispositions[group._id] = group.count;
+    }
+
     return {
       totalContacts: campaign.totalContacts,
       completedCalls: campaign.completedCalls,
       successfulCalls: campaign.successfulCalls,
       failedCalls: campaign.failedCalls,
       pendingCalls,
+      awaitingRetry,
       successRate,
+      totalAttempts,
+      averageAttemptsPerContact:
+        attemptsPerContact.length > 0
+          ? Math.round((totalAttempts / attemptsPerContact.length) * 100) / 100
+          : 0,
+      dispositions,
+      attemptsPerContact,
+    };
+  }
+
+  /**
+   * Record the outcome the agent submitted for a call (recordCallOutcome tool)
+   * Stored on the call's history record and its campaign contact
+   * Returns the stored disposition, or an error to read back to the agent
+   */
+  async recordDisposition(
+    callId: string,
+    input: { outcome?: string; fields?: Record<string, any>; notes?: string },
+  ): Promise<{ disposition?: CallDisposition; error?: string }> {
+    const callHistory =
+      await this.callHistoryService.findByTalkrixCallId(callId);
+    const campaignId = (
+      callHistory?.metadata?.campaignId as string | undefined
+    )?.toString();
+    if (!callHistory || !campaignId) {
+      return {
+        error:
+          'This call is not part of a campaign, so no outcome can be recorded.',
+      };
+    }
+    if (callHistory.status !== 'in-progress') {
+      return {
+        error: 'This call is not in progress, so no outcome can be recorded.',
+      };
+    }
+
+    const campaign = await this.campaignModel
+      .findById(campaignId)
+      .select('disposition')
+      .lean()
+      .exec();
+    if (!campaign?.disposition?.outcomes?.length) {
+      return { error: 'This campaign does not record call outcomes.' };
+    }
+
+    const parsed = parseDisposition(campaign.disposition, input);
+    if (parsed.error) {
+      return {
+        error: `${parsed.error} ${describeDispositionConfig(campaign.disposition)}`,
+      };
+    }
+
+    const disposition: CallDisposition = {
+      outcome: parsed.outcome!,
+      fields: parsed.fields,
+      notes:
+        typeof input.notes === 'string' && input.notes.trim()
+          ? input.notes.trim()
+          : undefined,
+      callId,
+      recordedAt: new Date(),
+    };
+
+    // The call may have ended while the outcome was being checked
+    const updated = await this.callHistoryService.updateInProgress(
+      callHistory._id.toString(),
+      { disposition },
+    );
+    if (!updated) {
+      return {
+        error: 'This call is not in progress, so no outcome can be recorded.',
+      };
+    }
+
+    const contact = await this.contactModel
+      .findOneAndUpdate(this.getCallContactFilter(callHistory, campaignId), {
+        $set: { disposition },
+      })
+      .exec();
+    if (!contact) {
+      this.logger.warn(
+        `Disposition for call ${callId}: no contact found in campaign ${campaignId}`,
+      );
+    }
+
+    this.logger.log(
+      `Disposition ${disposition.outcome} recorded for call ${callId} (campaign ${campaignId})`,
+    );
+    return { disposition };
+  }
+
+  // Filter for the contact a campaign call was placed to
+  // (manually triggered calls do not keep the contact ID in the call metadata)
+  private getCallContactFilter(
+    callHistory: CallHistory,
+    campaignId: string,
+  ): Record<string, any> {
+    const contactId = (
+      callHistory.metadata?.contactId as string | undefined
+    )?.toString();
+    return contactId && Types.ObjectId.isValid(contactId)
+      ? { _id: contactId, campaignId }
+      : { campaignId, callId: callHistory.talkrixCallId };
+  }
+
+  /**
+   * Schedule a callback the contact asked for during a call (scheduleCallback tool)
+   * The time is read in the contact's timezone. Returns an error to read back to the agent.
+   */
+  async scheduleCallbackFromCall(
+    callId: string,
+    input: { time?: string; notes?: string },
+  ): Promise<{ callback?: ContactCallback; error?: string }> {
+    const callHistory =
+      await this.callHistoryService.findByTalkrixCallId(callId);
+    const campaignId = (
+      callHistory?.metadata?.campaignId as string | undefined
+    )?.toString();
+    if (!callHistory || !campaignId) {
+      return {
+        error:
+          'This call is not part of a campaign, so no callback can be scheduled.',
+      };
+    }
+
+    const contact = await this.contactModel
+      .findOne(this.getCallContactFilter(callHistory, campaignId))
+      .exec();
+    if (!contact) {
+      return { error: 'The contact for this call could not be found.' };
+    }
+
+    return this.scheduleCallback(campaignId, contact._id.toString(), {
+      time: input.time,
+      notes: input.notes,
+      source: 'agent',
+      callId,
+    });
+  }
+
+  /**
+   * Schedule (or move) a contact's callback
+   * `time` is read in the contact's timezone (see parseCallbackTime), `scheduledAt` is taken as is.
+   * A contact on a call keeps calling - the end of the call re-queues it for the callback.
+   * Any other contact goes back to pending and waits for the callback time.
+   */
+  async scheduleCallback(
+    campaignId: string,
+    contactId: string,
+    input: {
+      time?: string;
+      scheduledAt?: Date;
+      notes?: string;
+      source: ContactCallback['source'];
+      callId?: string;
+    },
+  ): Promise<{
+    callback?: ContactCallback;
+    contact?: CampaignContact;
+    error?: string;
+    statusCode?: number;
+  }> {
+    const campaign = await this.campaignModel
+      .findById(campaignId)
+      .select('type status schedule')
+      .exec();
+    if (!campaign) {
+      return { error: 'Campaign not found', statusCode: 404 };
+    }
+    if (campaign.type !== 'outbound') {
+      return {
+        error: 'Callbacks can only be scheduled for outbound campaigns.',
+        statusCode: 400,
+      };
+    }
+    if (campaign.status === 'completed') {
+      return {
+        error: 'The campaign is completed, so no callback can be scheduled.',
+        statusCode: 400,
+      };
+    }
+
+    const contact = await this.findContact(campaignId, contactId);
+    if (!contact) {
+      return { error: 'Contact not found', statusCode: 404 };
+    }
+
+    const timezone = resolveContactTimezone(
+      contact,
+      campaign.schedule?.timezone || 'UTC',
+    );
+    let scheduledAt = input.scheduledAt;
+    if (!scheduledAt) {
+      const parsed = parseCallbackTime(input.time || '', timezone);
+      if (parsed.error) {
+        return { error: parsed.error, statusCode: 400 };
+      }
+      scheduledAt = parsed.scheduledAt!;
+    }
+
+    const callback: ContactCallback = {
+      scheduledAt,
+      requestedTime: input.time,
+      timezone,
+      notes:
+        typeof input.notes === 'string' && input.notes.trim()
+          ? input.notes.trim()
+          : undefined,
+      source: input.source,
+      callId: input.callId,
+      createdAt: new Date(),
     };
+
+    const onCall = contact.callStatus === 'in-progress';
+    const updateFields: Record<string, any> = { callback };
+    if (!onCall) {
+      updateFields.nextAttemptAt = scheduledAt;
+      // Clear the last call so its late events don't match the re-queued contact
+      updateFields.callId = null;
+      updateFields.providerCallId = null;
+      updateFields.callHistoryId = null;
+    }
+
+    const updated = await this.transitionContact(
+      campaignId,
+      { _id: contact._id },
+      onCall ? 'in-progress' : 'pending',
+      updateFields,
+      input.source === 'agent' ? 'talkrix' : 'api',
+    );
+    if (!updated) {
+      return {
+        error:
+          'The contact changed while scheduling the callback - please try again.',
+        statusCode: 409,
+      };
+    }
+
+    this.logger.log(
+      `Callback for contact ${contactId} in campaign ${campaignId} scheduled for ${scheduledAt.toISOString()} (${input.source})`,
+    );
+    return { callback, contact: updated };
+  }
+
+  // Cancel a contact's pending callback - a waiting contact stays pending and is dialled in normal order
+  async cancelCallback(
+    campaignId: string,
+    contactId: string,
+  ): Promise<CampaignContact | null> {
+    const contact = await this.findContact(campaignId, contactId);
+    if (!contact?.callback) return null;
+
+    const update: Record<string, any> = { $unset: { callback: 1 } };
+    if (
+      contact.callStatus === 'pending' &&
+      contact.nextAttemptAt?.getTime() ===
+        contact.callback.scheduledAt.getTime()
+    ) {
+      update.$set = { nextAttemptAt: null };
+    }
+    return this.contactModel
+      .findOneAndUpdate({ _id: contact._id, campaignId }, update, { new: true })
+      .exec();
   }
 
   /**
    * Atomically claim a pending contact for calling
    * This uses MongoDB's findOneAndUpdate with query conditions to ensure
    * only ONE process can claim a contact (prevents duplicate calls)
-   * 
+   *
+   * Contacts are claimed in the order they were added.
+   * Contacts re-queued by the retry policy are skipped until their nextAttemptAt has passed.
+   * When the schedule has localCallingHours, contacts outside their local hours are skipped
+   * (left pending, not failed) until their window opens.
    * Returns the contact that was claimed, or null if no pending contacts
    */
   async claimPendingContact(campaignId: string): Promise<{
@@ -349,69 +1478,308 @@ export class CampaignService {
     contact: CampaignContact;
     contactId: string;
   } | null> {
-    // Use findOneAndUpdate with arrayFilters to atomically find and update
-    // a contact that is CURRENTLY pending
-    const campaign = await this.campaignModel.findOneAndUpdate(
-      {
-        _id: campaignId,
-        'contacts.callStatus': 'pending', // Only campaigns with pending contacts
+    const campaign = await this.campaignModel.findById(campaignId).exec();
+    if (!campaign) {
+      return null;
+    }
+
+    const now = new Date();
+    const filter: Record<string, any> = {
+      campaignId,
+      callStatus: 'pending',
+      $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }],
+    };
+
+    // Contact-local hours only depend on the contact's timezone, so restrict the claim
+    // to the timezones that are currently inside their local window
+    // (read from the campaignId/callStatus/timezone index - nextAttemptAt is left to the claim itself)
+    if (campaign.schedule?.localCallingHours) {
+      const timezones: (string | null)[] = await this.contactModel
+        .distinct('timezone', { campaignId, callStatus: 'pending' })
+        .exec();
+      const open = timezones.filter(
+        (tz): tz is string =>
+          !!tz &&
+          isWithinContactLocalHours(
+            campaign.schedule,
+            { phoneNumber: '', timezone: tz },
+            now,
+          ),
+      );
+      // Contacts without a timezone fall back to the campaign timezone
+      const openWithoutTimezone = isWithinContactLocalHours(
+        campaign.schedule,
+        { phoneNumber: '' },
+        now,
+      );
+      if (open.length === 0 && !openWithoutTimezone) {
+        return null;
+      }
+      filter.timezone = { $in: openWithoutTimezone ? [...open, null] : open };
+    }
+
+    // Only ONE caller can move a given contact from pending to in-progress
+    const claimUpdate = {
+      $set: {
+        callStatus: 'in-progress',
+        calledAt: now,
+        nextAttemptAt: null,
       },
-      {
-        $set: {
-          'contacts.$[elem].callStatus': 'in-progress',
-          'contacts.$[elem].calledAt': new Date(),
+      $unset: { callback: 1 },
+      $push: {
+        statusHistory: {
+          from: 'pending',
+          to: 'in-progress',
+          at: now,
+          source: 'scheduler',
         },
       },
-      {
-        new: false, // Return the document BEFORE the update (to get original contact info)
-        arrayFilters: [{ 'elem.callStatus': 'pending' }],
-      }
-    ).exec();
+    };
 
-    if (!campaign) {
+    // Callbacks that are due go ahead of the contact order, earliest first
+    const contact =
+      (await this.contactModel
+        .findOneAndUpdate(
+          { ...filter, 'callback.scheduledAt': { $lte: now } },
+          claimUpdate,
+          { sort: { 'callback.scheduledAt': 1 }, new: true },
+        )
+        .exec()) ||
+      (await this.claimInContactOrder(campaign, filter, claimUpdate));
+
+    if (!contact) {
       return null;
     }
 
-    // Find the contact that was pending (now it's in-progress)
-    const pendingContact = campaign.contacts.find(c => c.callStatus === 'pending');
-    if (!pendingContact || !pendingContact._id) {
-      return null;
+    return {
+      campaign,
+      contact,
+      contactId: contact._id.toString(),
+    };
+  }
+
+  /**
+   * Claim one contact matching `filter` in the campaign's contactOrder
+   * Every strategy ends in a findOneAndUpdate guarded by the pending filter, so two schedulers
+   * never claim the same contact - a strategy that loses a race falls back to priority order.
+   * The random order takes the first contact at or after a random pivot on the indexed randomKey,
+   * wrapping around to the last one before it.
+   */
+  private async claimInContactOrder(
+    campaign: Campaign,
+    filter: Record<string, any>,
+    update: Record<string, any>,
+  ): Promise<CampaignContact | null> {
+    if (campaign.contactOrder === 'random') {
+      const pivot = Math.random();
+      const contact =
+        (await this.contactModel
+          .findOneAndUpdate({ ...filter, randomKey: { $gte: pivot } }, update, {
+            sort: { randomKey: 1 },
+            new: true,
+          })
+          .exec()) ||
+        (await this.contactModel
+          .findOneAndUpdate({ ...filter, randomKey: { $lt: pivot } }, update, {
+            sort: { randomKey: -1 },
+            new: true,
+          })
+          .exec());
+      if (contact) return contact;
     }
 
-    // Get the updated campaign to return
-    const updatedCampaign = await this.campaignModel.findById(campaignId).exec();
-    if (!updatedCampaign) {
-      return null;
+    if (campaign.contactOrder === 'round-robin') {
+      const ungroupedFilter = { ...filter, group: { $in: [null, ''] } };
+      const [groups, hasUngrouped] = await Promise.all([
+        this.contactModel.distinct('group', filter).exec() as Promise<
+          (string | null)[]
+        >,
+        this.contactModel.exists(ungroupedFilter).exec(),
+      ]);
+      const group = getNextRoundRobinGroup(
+        [
+          ...groups.filter((g): g is string => !!g),
+          ...(hasUngrouped ? [''] : []),
+        ],
+        campaign.lastClaimedGroup,
+      );
+      if (group === undefined) return null;
+
+      const contact = await this.contactModel
+        .findOneAndUpdate(
+          group ? { ...filter, group } : ungroupedFilter,
+          update,
+          { sort: getContactSort('priority'), new: true },
+        )
+        .exec();
+      if (contact) {
+        await this.campaignModel
+          .updateOne(
+            { _id: campaign._id },
+            { $set: { lastClaimedGroup: group } },
+          )
+          .exec();
+        return contact;
+      }
     }
 
-    // Find the contact in updated campaign (now in-progress)
-    const claimedContact = updatedCampaign.contacts.find(
-      c => c._id?.toString() === pendingContact._id?.toString()
-    );
+    return this.contactModel
+      .findOneAndUpdate(filter, update, {
+        sort: getContactSort(campaign.contactOrder),
+        new: true,
+      })
+      .exec();
+  }
 
-    if (!claimedContact) {
+  /**
+   * Record the outcome of a call attempt and apply the campaign's retry policy
+   *
+   * Only acts on a contact that is currently in-progress, so duplicate end events
+   * for the same call (e.g. Talkrix webhook + Twilio status callback) are ignored.
+   * The call is matched by its Ultravox or carrier call ID, so a late event for an earlier
+   * attempt never finalizes the contact's next attempt.
+   * When the outcome is retryable and attempts remain, the contact is re-queued as
+   * pending with nextAttemptAt = now + retryDelayMinutes.
+   *
+   * Returns null when no in-progress contact matched (already finalized or not found)
+   */
+  async recordCallAttempt(
+    campaignId: string,
+    match: { contactId?: string; callId?: string; providerCallId?: string },
+    outcome: CallAttemptOutcome,
+    callData?: { callDuration?: number; callNotes?: string },
+    source: CallEventSource = 'system',
+  ): Promise<{ contact: CampaignContact; willRetry: boolean } | null> {
+    const callIds = [match.callId, match.providerCallId].filter(
+      (id): id is string => !!id,
+    );
+    if (!match.contactId && callIds.length === 0) return null;
+    if (match.contactId && !Types.ObjectId.isValid(match.contactId))
       return null;
+
+    const contactMatch: Record<string, any> = {
+      campaignId,
+      callStatus: 'in-progress',
+    };
+    if (match.contactId) contactMatch._id = match.contactId;
+    if (callIds.length > 0) {
+      const callMatch: Record<string, any>[] = [
+        { callId: { $in: callIds } },
+        { providerCallId: { $in: callIds } },
+      ];
+      // The call IDs are attached once the call is created - an end event can arrive before that
+      if (match.contactId) callMatch.push({ callId: null });
+      contactMatch.$or = callMatch;
     }
 
-    return {
-      campaign: updatedCampaign,
-      contact: claimedContact,
-      contactId: pendingContact._id.toString(),
+    const contact = await this.contactModel.findOne(contactMatch).exec();
+    if (!contact) return null;
+
+    const campaign = await this.campaignModel
+      .findById(campaignId)
+      .select('retryPolicy')
+      .exec();
+    if (!campaign) return null;
+
+    const now = new Date();
+    const attemptNumber = (contact.attempts?.length || 0) + 1;
+    const policy = campaign.retryPolicy;
+    const maxAttempts = policy?.maxAttempts ?? 1;
+    const retryOn: string[] = policy?.retryOn ?? [];
+    const willRetry = retryOn.includes(outcome) && attemptNumber < maxAttempts;
+
+    const attempt: CallAttempt = {
+      attemptNumber,
+      callId: contact.callId,
+      providerCallId: contact.providerCallId,
+      outcome,
+      startedAt: contact.calledAt,
+      endedAt: now,
+      callDuration: callData?.callDuration,
+      notes: callData?.callNotes,
+    };
+
+    const updateFields: {
+      callStatus?: CampaignContact['callStatus'];
+      [field: string]: any;
+    } = {
+      calledAt: now,
     };
+    if (callData?.callDuration !== undefined)
+      updateFields.callDuration = callData.callDuration;
+    if (callData?.callNotes) updateFields.callNotes = callData.callNotes;
+
+    // A callback the contact asked for on this call is dialled regardless of the retry policy
+    const callback = contact.callback?.scheduledAt;
+    if (callback || willRetry) {
+      const delayMs = (policy?.retryDelayMinutes ?? 0) * 60 * 1000;
+      updateFields.callStatus = 'pending';
+      updateFields.nextAttemptAt =
+        callback || new Date(now.getTime() + delayMs);
+      // Clear the call reference so late events for this attempt don't match the re-queued contact
+      updateFields.callId = null;
+      updateFields.providerCallId = null;
+      updateFields.callHistoryId = null;
+    } else {
+      updateFields.callStatus = this.outcomeToCallStatus(outcome);
+    }
+
+    // Guard on in-progress again so only one of several concurrent end events wins
+    const updatedContact = await this.contactModel
+      .findOneAndUpdate(
+        { _id: contact._id, callStatus: 'in-progress' },
+        {
+          $set: updateFields,
+          $push: {
+            attempts: attempt,
+            statusHistory: {
+              from: 'in-progress',
+              to: updateFields.callStatus,
+              at: now,
+              source,
+            },
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!updatedContact) return null;
+
+    await this.applyStatsChange(
+      campaignId,
+      'in-progress',
+      updatedContact.callStatus,
+    );
+    return { contact: updatedContact, willRetry: willRetry || !!callback };
+  }
+
+  // Map an attempt outcome to the final contact call status
+  private outcomeToCallStatus(
+    outcome: CallAttemptOutcome,
+  ): CampaignContact['callStatus'] {
+    switch (outcome) {
+      case 'completed':
+        return 'completed';
+      case 'no-answer':
+        return 'no-answer';
+      case 'voicemail':
+        return 'voicemail';
+      default:
+        return 'failed';
+    }
   }
 
   /**
    * Reset contact status back to pending (used when call initiation fails before API call)
    */
   async resetContactToPending(campaignId: string, contactId: string): Promise<void> {
-    await this.campaignModel.findOneAndUpdate(
-      { _id: campaignId, 'contacts._id': contactId },
-      {
-        $set: {
-          'contacts.$.callStatus': 'pending',
-          'contacts.$.calledAt': null,
-        },
-      }
-    ).exec();
+    await this.transitionContact(
+      campaignId,
+      { _id: contactId },
+      'pending',
+      { calledAt: null },
+      'scheduler',
+    );
   }
 }
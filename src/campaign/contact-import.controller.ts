@@ -0,0 +1,470 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ContactImportService } from './contact-import.service';
+import { ContactImport, ContactColumnMapping } from './contact-import.schema';
+import { validateColumnMapping } from './contact-import.util';
+import { CampaignService } from './campaign.service';
+import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
+import { ResponseHelper } from '../response.helper';
+import { AppLogger } from '../app.logger';
+import { Types, mongo } from 'mongoose';
+
+// Request with the user set by AuthOrApiKeyGuard
+interface AuthenticatedRequest {
+  user?: { sub?: string; email?: string };
+  apiUser?: { _id?: Types.ObjectId; email?: string };
+}
+
+/**
+ * Two-step contact import
+ * 1. POST /contact-imports with the file -> headers, sample rows and a suggested column mapping
+ * 2. POST /contact-imports/:importId/commit with the mapping -> import runs (in the background for large files)
+ */
+@Controller('contact-imports')
+export class ContactImportController {
+  constructor(
+    private readonly contactImportService: ContactImportService,
+    private readonly campaignService: CampaignService,
+    private readonly responseHelper: ResponseHelper,
+    private readonly logger: AppLogger,
+  ) {}
+
+  // Helper to extract user info from JWT token or API key
+  private getUserFromRequest(
+    req: AuthenticatedRequest,
+  ): { userId: string; email?: string } | null {
+    if (req.user?.sub) {
+      return { userId: String(req.user.sub), email: req.user.email };
+    }
+    if (req.apiUser?._id) {
+      return { userId: String(req.apiUser._id), email: req.apiUser.email };
+    }
+    return null;
+  }
+
+  // Import with progress as a percentage of rows processed
+  private withProgress(contactImport: ContactImport) {
+    const progress =
+      contactImport.status === 'completed'
+        ? 100
+        : contactImport.totalRows > 0
+          ? Math.floor(
+              (contactImport.processedRows / contactImport.totalRows) * 100,
+            )
+          : 0;
+    const failedCount =
+      contactImport.invalidCount +
+      contactImport.duplicateCount +
+      contactImport.skippedDoNotCallCount;
+    return {
+      ...contactImport.toObject<ContactImport>(),
+      progress,
+      failedRowsUrl:
+        contactImport.status === 'completed' && failedCount > 0
+          ? `/campaigns/${contactImport.campaignId}/upload/errors`
+          : null,
+    };
+  }
+
+  // ===== Mapping templates =====
+
+  // List saved column mappings
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get('templates')
+  async findTemplates(@Req() req: AuthenticatedRequest) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const templates = await this.contactImportService.findTemplates(
+        userInfo.userId,
+      );
+      return this.responseHelper.success(templates, 'Import templates fetched');
+    } catch (err) {
+      this.logger.error('Error fetching import templates', err);
+      return this.responseHelper.error(
+        'Failed to fetch import templates',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Save a column mapping for reuse
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post('templates')
+  async createTemplate(
+    @Body() body: { name: string; mapping: ContactColumnMapping },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (!body.name?.trim()) {
+      return this.responseHelper.error('name is required', 400);
+    }
+    const mappingError = this.validateTemplateMapping(body.mapping);
+    if (mappingError) {
+      return this.responseHelper.error(mappingError, 400);
+    }
+
+    try {
+      const template = await this.contactImportService.saveTemplate(
+        userInfo.userId,
+        body.name.trim(),
+        body.mapping,
+      );
+      return this.responseHelper.success(
+        template,
+        'Import template saved',
+        201,
+      );
+    } catch (err) {
+      this.logger.error('Error saving import template', err);
+      return this.responseHelper.error(
+        'Failed to save import template',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  @UseGuards(AuthOrApiKeyGuard)
+  @Put('templates/:templateId')
+  async updateTemplate(
+    @Param('templateId') templateId: string,
+    @Body() body: { name?: string; mapping?: ContactColumnMapping },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (body.name !== undefined && !body.name.trim()) {
+      return this.responseHelper.error('name cannot be empty', 400);
+    }
+    if (body.mapping !== undefined) {
+      const mappingError = this.validateTemplateMapping(body.mapping);
+      if (mappingError) {
+        return this.responseHelper.error(mappingError, 400);
+      }
+    }
+
+    try {
+      const template = await this.contactImportService.updateTemplate(
+        userInfo.userId,
+        templateId,
+        {
+          name: body.name?.trim(),
+          mapping: body.mapping,
+        },
+      );
+      if (!template) {
+        return this.responseHelper.error('Import template not found', 404);
+      }
+      return this.responseHelper.success(template, 'Import template updated');
+    } catch (err) {
+      if (err instanceof mongo.MongoServerError && err.code === 11000) {
+        return this.responseHelper.error(
+          'An import template with this name already exists',
+          409,
+        );
+      }
+      this.logger.error('Error updating import template', err);
+      return this.responseHelper.error(
+        'Failed to update import template',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  @UseGuards(AuthOrApiKeyGuard)
+  @Delete('templates/:templateId')
+  async deleteTemplate(
+    @Param('templateId') templateId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const template = await this.contactImportService.deleteTemplate(
+        userInfo.userId,
+        templateId,
+      );
+      if (!template) {
+        return this.responseHelper.error('Import template not found', 404);
+      }
+      return this.responseHelper.success(template, 'Import template deleted');
+    } catch (err) {
+      this.logger.error('Error deleting import template', err);
+      return this.responseHelper.error(
+        'Failed to delete import template',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // A template is not tied to a file, so only the shape of the mapping can be checked
+  private validateTemplateMapping(
+    mapping?: ContactColumnMapping,
+  ): string | null {
+    if (!mapping || typeof mapping !== 'object') {
+      return 'mapping is required';
+    }
+    const columns = [
+      mapping.name,
+      mapping.phoneNumber,
+      mapping.timezone,
+      mapping.priority,
+      mapping.group,
+      ...Object.values(mapping.customFields || {}),
+    ].filter((column): column is string => !!column);
+    return validateColumnMapping(mapping, columns);
+  }
+
+  // ===== Imports =====
+
+  /**
+   * Step 1: upload a CSV/XLSX file for a campaign
+   * Returns detected headers, sample rows, a suggested mapping and saved templates that fit the file
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  async preview(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: { campaignId: string },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (!file) {
+      return this.responseHelper.error('No file uploaded', 400);
+    }
+    if (!body.campaignId) {
+      return this.responseHelper.error('campaignId is required', 400);
+    }
+
+    try {
+      const campaign = await this.campaignService.findOne(body.campaignId);
+      if (!campaign || campaign.userId !== userInfo.userId) {
+        return this.responseHelper.error('Campaign not found', 404);
+      }
+
+      const contactImport = await this.contactImportService.createPreview(
+        userInfo.userId,
+        body.campaignId,
+        file,
+      );
+      if (!contactImport) {
+        return this.responseHelper.error(
+          'File is empty or has no header row',
+          400,
+        );
+      }
+
+      const templates = (
+        await this.contactImportService.findTemplates(userInfo.userId)
+      ).filter(
+        (t) => validateColumnMapping(t.mapping, contactImport.headers) === null,
+      );
+
+      this.logger.log(
+        `Contact import ${contactImport._id.toString()} created for campaign ${body.campaignId} (${contactImport.totalRows} rows)`,
+      );
+      return this.responseHelper.success(
+        {
+          ...contactImport.toObject<ContactImport>(),
+          matchingTemplates: templates,
+        },
+        'File uploaded - submit a column mapping to import',
+        201,
+      );
+    } catch (err) {
+      this.logger.error('Error previewing contact import', err);
+      return this.responseHelper.error(
+        'Failed to process file',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Recent imports for a campaign
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get()
+  async findAll(
+    @Query('campaignId') campaignId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (!campaignId) {
+      return this.responseHelper.error('campaignId is required', 400);
+    }
+
+    try {
+      const imports = await this.contactImportService.findByCampaign(
+        userInfo.userId,
+        campaignId,
+      );
+      return this.responseHelper.success(
+        imports.map((i) => this.withProgress(i)),
+        'Contact imports fetched',
+      );
+    } catch (err) {
+      this.logger.error('Error fetching contact imports', err);
+      return this.responseHelper.error(
+        'Failed to fetch contact imports',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Import status and progress
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get(':importId')
+  async findOne(
+    @Param('importId') importId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const contactImport = await this.contactImportService.findOne(
+        userInfo.userId,
+        importId,
+      );
+      if (!contactImport) {
+        return this.responseHelper.error('Import not found', 404);
+      }
+      return this.responseHelper.success(
+        this.withProgress(contactImport),
+        'Contact import fetched',
+      );
+    } catch (err) {
+      this.logger.error('Error fetching contact import', err);
+      return this.responseHelper.error(
+        'Failed to fetch contact import',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Step 2: import the file with an explicit column mapping (or a saved template)
+   * Pass saveAsTemplate to store the mapping for later files
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post(':importId/commit')
+  async commit(
+    @Param('importId') importId: string,
+    @Body()
+    body: {
+      mapping?: ContactColumnMapping;
+      templateId?: string;
+      saveAsTemplate?: string;
+    },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      let mapping = body.mapping;
+      if (!mapping && body.templateId) {
+        const template = await this.contactImportService.findTemplate(
+          userInfo.userId,
+          body.templateId,
+        );
+        if (!template) {
+          return this.responseHelper.error('Import template not found', 404);
+        }
+        mapping = template.mapping;
+      }
+      if (!mapping) {
+        return this.responseHelper.error(
+          'mapping or templateId is required',
+          400,
+        );
+      }
+
+      const result = await this.contactImportService.commit(
+        userInfo.userId,
+        importId,
+        mapping,
+      );
+      if (result.error) {
+        return this.responseHelper.error(
+          result.error,
+          result.statusCode || 400,
+        );
+      }
+
+      if (body.saveAsTemplate?.trim()) {
+        await this.contactImportService.saveTemplate(
+          userInfo.userId,
+          body.saveAsTemplate.trim(),
+          mapping,
+        );
+      }
+
+      const contactImport = result.contactImport!;
+      return this.responseHelper.success(
+        this.withProgress(contactImport),
+        contactImport.status === 'completed'
+          ? `${contactImport.importedCount} contacts imported`
+          : contactImport.status === 'failed'
+            ? `Import failed: ${contactImport.error}`
+            : 'Import started - poll the import for progress',
+        contactImport.status === 'completed' ||
+          contactImport.status === 'failed'
+          ? 200
+          : 202,
+      );
+    } catch (err) {
+      this.logger.error('Error committing contact import', err);
+      return this.responseHelper.error(
+        'Failed to import contacts',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+// Which file column holds each contact field (values are header names from the file)
+@Schema({ _id: false })
+export class ContactColumnMapping {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  phoneNumber: string;
+
+  @Prop()
+  timezone?: string;
+
+  @Prop()
+  priority?: string;
+
+  @Prop()
+  group?: string;
+
+  @Prop({ type: Object })
+  customFields?: Record<string, string>; // Custom field / template variable name -> header
+}
+
+export const ContactColumnMappingSchema =
+  SchemaFactory.createForClass(ContactColumnMapping);
+
+export type ContactImportStatus =
+  'pending-mapping' | 'queued' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Two-step contact file import
+ * The uploaded file is kept until a column mapping is submitted, then processed in the background
+ */
+@Schema({ timestamps: true })
+export class ContactImport extends Document {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  campaignId: string;
+
+  @Prop()
+  fileName?: string;
+
+  @Prop({ type: Buffer, select: false })
+  fileData?: Buffer; // Original upload - removed once the import has finished
+
+  @Prop({ type: [String], default: [] })
+  headers: string[];
+
+  @Prop({ type: [Object], default: [] })
+  sampleRows: Record<string, any>[]; // First rows of the file for the preview
+
+  @Prop({ default: 0 })
+  totalRows: number;
+
+  @Prop({ type: Object })
+  suggestedMapping?: Partial<ContactColumnMapping>;
+
+  @Prop({ type: ContactColumnMappingSchema })
+  mapping?: ContactColumnMapping; // Mapping the import was committed with
+
+  @Prop({
+    enum: ['pending-mapping', 'queued', 'processing', 'completed', 'failed'],
+    default: 'pending-mapping',
+  })
+  status: ContactImportStatus;
+
+  @Prop({ default: 0 })
+  processedRows: number;
+
+  @Prop({ default: 0 })
+  importedCount: number;
+
+  @Prop({ default: 0 })
+  invalidCount: number;
+
+  @Prop({ default: 0 })
+  duplicateCount: number;
+
+  @Prop({ default: 0 })
+  skippedDoNotCallCount: number;
+
+  @Prop()
+  error?: string; // Why the import failed
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  instanceId?: string; // Server instance running the import
+
+  @Prop()
+  heartbeatAt?: Date; // Refreshed while the import runs - a stale heartbeat means its instance stopped
+}
+
+export const ContactImportSchema = SchemaFactory.createForClass(ContactImport);
+
+ContactImportSchema.index({ userId: 1, campaignId: 1, createdAt: -1 });
+ContactImportSchema.index({ status: 1 });
+
+// Saved column mapping that can be reused for files with the same layout
+@Schema({ timestamps: true })
+export class ContactImportTemplate extends Document {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: ContactColumnMappingSchema, required: true })
+  mapping: ContactColumnMapping;
+}
+
+export const ContactImportTemplateSchema = SchemaFactory.createForClass(
+  ContactImportTemplate,
+);
+
+ContactImportTemplateSchema.index({ userId: 1, name: 1 }, { unique: true });
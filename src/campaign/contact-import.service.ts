@@ -0,0 +1,368 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import {
+  ContactImport,
+  ContactImportTemplate,
+  ContactColumnMapping,
+} from './contact-import.schema';
+import { ContactImportError } from './campaign.schema';
+import { CampaignService } from './campaign.service';
+import {
+  parseContactFile,
+  suggestColumnMapping,
+  validateColumnMapping,
+  applyColumnMapping,
+} from './contact-import.util';
+import { AppLogger } from '../app.logger';
+
+const SAMPLE_ROW_COUNT = 5;
+const IMPORT_CHUNK_SIZE = 500; // Rows written to the campaign per batch
+const INLINE_IMPORT_MAX_ROWS = 1000; // Larger files are processed in the background
+const HEARTBEAT_INTERVAL_MS = 30 * 1000; // How often a running import refreshes its heartbeat
+const STALE_HEARTBEAT_MS = 3 * HEARTBEAT_INTERVAL_MS; // An import without a heartbeat for this long was interrupted
+
+@Injectable()
+export class ContactImportService implements OnModuleInit, OnModuleDestroy {
+  private readonly instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  private staleImportInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    @InjectModel(ContactImport.name)
+    private contactImportModel: Model<ContactImport>,
+    @InjectModel(ContactImportTemplate.name)
+    private templateModel: Model<ContactImportTemplate>,
+    private readonly campaignService: CampaignService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async onModuleInit() {
+    await this.failStaleImports();
+    this.staleImportInterval = setInterval(() => {
+      this.failStaleImports().catch((err) =>
+        this.logger.error('Error failing interrupted contact imports', err),
+      );
+    }, STALE_HEARTBEAT_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.staleImportInterval) {
+      clearInterval(this.staleImportInterval);
+      this.staleImportInterval = null;
+    }
+  }
+
+  /**
+   * Imports whose instance stopped while running them cannot be resumed - mark them failed
+   * Imports still running on another instance keep a fresh heartbeat and are left alone
+   */
+  private async failStaleImports(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_HEARTBEAT_MS);
+    const result = await this.contactImportModel
+      .updateMany(
+        {
+          status: { $in: ['queued', 'processing'] },
+          $or: [{ heartbeatAt: null }, { heartbeatAt: { $lt: staleBefore } }],
+        },
+        {
+          $set: {
+            status: 'failed',
+            error: 'Import was interrupted by a server restart',
+            completedAt: new Date(),
+          },
+        },
+      )
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.warn(
+        `Marked ${result.modifiedCount} interrupted contact imports as failed`,
+      );
+    }
+  }
+
+  /**
+   * Step 1: store the uploaded file and return its headers, sample rows and a suggested mapping
+   * Returns null if the file has no header row
+   */
+  async createPreview(
+    userId: string,
+    campaignId: string,
+    file: { buffer: Buffer; originalname?: string },
+  ): Promise<ContactImport | null> {
+    const { headers, rows } = parseContactFile(file.buffer);
+    if (headers.length === 0) {
+      return null;
+    }
+
+    const contactImport = new this.contactImportModel({
+      userId,
+      campaignId,
+      fileName: file.originalname,
+      fileData: file.buffer,
+      headers,
+      sampleRows: rows.slice(0, SAMPLE_ROW_COUNT).map((r) => r.values),
+      totalRows: rows.length,
+      suggestedMapping: suggestColumnMapping(headers),
+      status: 'pending-mapping',
+    });
+    const saved = await contactImport.save();
+    saved.fileData = undefined;
+    return saved;
+  }
+
+  async findOne(
+    userId: string,
+    importId: string,
+  ): Promise<ContactImport | null> {
+    return this.contactImportModel.findOne({ _id: importId, userId }).exec();
+  }
+
+  async findByCampaign(
+    userId: string,
+    campaignId: string,
+  ): Promise<ContactImport[]> {
+    return this.contactImportModel
+      .find({ userId, campaignId })
+      .select('-sampleRows')
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .exec();
+  }
+
+  /**
+   * Step 2: commit an import with an explicit column mapping
+   * Small files are imported before returning; larger ones are queued and processed in the background
+   * Returns an error message if the import cannot be committed
+   */
+  async commit(
+    userId: string,
+    importId: string,
+    mapping: ContactColumnMapping,
+  ): Promise<{
+    contactImport?: ContactImport;
+    error?: string;
+    statusCode?: number;
+  }> {
+    const contactImport = await this.contactImportModel
+      .findOne({ _id: importId, userId })
+      .exec();
+    if (!contactImport) {
+      return { error: 'Import not found', statusCode: 404 };
+    }
+    if (contactImport.status !== 'pending-mapping') {
+      return {
+        error: `Import has already been committed (status: ${contactImport.status})`,
+        statusCode: 409,
+      };
+    }
+
+    const mappingError = validateColumnMapping(mapping, contactImport.headers);
+    if (mappingError) {
+      return { error: mappingError, statusCode: 400 };
+    }
+
+    // Claim the import so a repeated request cannot run it twice
+    const queued = await this.contactImportModel
+      .findOneAndUpdate(
+        { _id: importId, status: 'pending-mapping' },
+        {
+          $set: {
+            status: 'queued',
+            mapping,
+            instanceId: this.instanceId,
+            heartbeatAt: new Date(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!queued) {
+      return { error: 'Import has already been committed', statusCode: 409 };
+    }
+
+    if (queued.totalRows <= INLINE_IMPORT_MAX_ROWS) {
+      await this.runImport(importId);
+      return { contactImport: (await this.findOne(userId, importId))! };
+    }
+
+    // Background job - progress is reported through processedRows on the import
+    this.runImport(importId).catch((err) =>
+      this.logger.error(`Contact import ${importId} crashed`, err),
+    );
+    return { contactImport: queued };
+  }
+
+  // Process a committed import in chunks, updating progress after each chunk
+  private async runImport(importId: string): Promise<void> {
+    const contactImport = await this.contactImportModel
+      .findById(importId)
+      .select('+fileData')
+      .exec();
+    if (!contactImport?.fileData || !contactImport.mapping) {
+      await this.markFailed(importId, 'Uploaded file is no longer available');
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.contactImportModel
+        .updateOne({ _id: importId }, { $set: { heartbeatAt: new Date() } })
+        .exec()
+        .catch((err) =>
+          this.logger.error(
+            `Could not refresh heartbeat of contact import ${importId}`,
+            err,
+          ),
+        );
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      await this.contactImportModel
+        .updateOne(
+          { _id: importId },
+          {
+            $set: {
+              status: 'processing',
+              startedAt: new Date(),
+              instanceId: this.instanceId,
+              heartbeatAt: new Date(),
+            },
+          },
+        )
+        .exec();
+
+      const { rows } = parseContactFile(contactImport.fileData);
+      const mapping = contactImport.mapping;
+      const errors: ContactImportError[] = [];
+      const counts = {
+        processedRows: 0,
+        importedCount: 0,
+        invalidCount: 0,
+        duplicateCount: 0,
+        skippedDoNotCallCount: 0,
+      };
+
+      for (let start = 0; start < rows.length; start += IMPORT_CHUNK_SIZE) {
+        const contacts = rows
+          .slice(start, start + IMPORT_CHUNK_SIZE)
+          .map((row) => applyColumnMapping(row, mapping));
+        const result = await this.campaignService.bulkImportContacts(
+          contactImport.campaignId,
+          contacts,
+          { recordErrors: false },
+        );
+        if (!result) {
+          await this.markFailed(importId, 'Campaign not found');
+          return;
+        }
+
+        errors.push(
+          ...result.invalid,
+          ...result.duplicates,
+          ...result.skippedDoNotCall,
+        );
+        counts.processedRows += contacts.length;
+        counts.importedCount += result.importedCount;
+        counts.invalidCount += result.invalid.length;
+        counts.duplicateCount += result.duplicates.length;
+        counts.skippedDoNotCallCount += result.skippedDoNotCall.length;
+
+        await this.contactImportModel
+          .updateOne({ _id: importId }, { $set: counts })
+          .exec();
+      }
+
+      await this.campaignService.setLastImportErrors(
+        contactImport.campaignId,
+        errors,
+      );
+      await this.contactImportModel
+        .updateOne(
+          { _id: importId },
+          {
+            $set: { status: 'completed', completedAt: new Date() },
+            $unset: { fileData: 1 },
+          },
+        )
+        .exec();
+
+      this.logger.log(
+        `Contact import ${importId} completed: ${counts.importedCount} imported, ${counts.invalidCount} invalid, ` +
+          `${counts.duplicateCount} duplicates, ${counts.skippedDoNotCallCount} do-not-call`,
+      );
+    } catch (err) {
+      this.logger.error(`Contact import ${importId} failed`, err);
+      await this.markFailed(
+        importId,
+        err instanceof Error ? err.message : 'Import failed',
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async markFailed(importId: string, error: string): Promise<void> {
+    await this.contactImportModel
+      .updateOne(
+        { _id: importId },
+        { $set: { status: 'failed', error, completedAt: new Date() } },
+      )
+      .exec();
+  }
+
+  // ===== Mapping templates =====
+
+  async findTemplates(userId: string): Promise<ContactImportTemplate[]> {
+    return this.templateModel.find({ userId }).sort({ name: 1 }).exec();
+  }
+
+  async findTemplate(
+    userId: string,
+    templateId: string,
+  ): Promise<ContactImportTemplate | null> {
+    return this.templateModel.findOne({ _id: templateId, userId }).exec();
+  }
+
+  // Create a template, or replace the mapping of the user's template with the same name
+  async saveTemplate(
+    userId: string,
+    name: string,
+    mapping: ContactColumnMapping,
+  ): Promise<ContactImportTemplate> {
+    const template = await this.templateModel
+      .findOneAndUpdate(
+        { userId, name },
+        { $set: { userId, name, mapping } },
+        { upsert: true, new: true },
+      )
+      .exec();
+    return template;
+  }
+
+  async updateTemplate(
+    userId: string,
+    templateId: string,
+    data: { name?: string; mapping?: ContactColumnMapping },
+  ): Promise<ContactImportTemplate | null> {
+    const update: Record<string, any> = {};
+    if (data.name !== undefined) update.name = data.name;
+    if (data.mapping !== undefined) update.mapping = data.mapping;
+    return this.templateModel
+      .findOneAndUpdate(
+        { _id: templateId, userId },
+        { $set: update },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async deleteTemplate(
+    userId: string,
+    templateId: string,
+  ): Promise<ContactImportTemplate | null> {
+    return this.templateModel
+      .findOneAndDelete({ _id: templateId, userId })
+      .exec();
+  }
+}
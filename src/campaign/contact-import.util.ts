@@ -0,0 +1,205 @@
+import * as XLSX from 'xlsx';
+import { ContactColumnMapping } from './contact-import.schema';
+import { parseContactPriority } from './contact-order.util';
+
+// Value of a spreadsheet cell (empty cells are read as '')
+export type ContactCellValue = string | number | boolean | Date;
+
+export interface ContactFileRow {
+  row: number; // Spreadsheet row number (header is row 1)
+  values: Record<string, ContactCellValue>; // Header -> cell value
+}
+
+export interface MappedContact {
+  name: string;
+  phoneNumber: string;
+  timezone?: string;
+  priority?: number;
+  group?: string;
+  customFields?: Record<string, any>;
+  row: number;
+}
+
+// Header spellings recognised for each contact field (compared lower-case without spaces/punctuation)
+const COLUMN_ALIASES: Record<
+  'name' | 'phoneNumber' | 'timezone' | 'priority' | 'group',
+  string[]
+> = {
+  name: ['name', 'fullname', 'contactname', 'customername'],
+  phoneNumber: [
+    'phone',
+    'phonenumber',
+    'phoneno',
+    'mobile',
+    'mobilenumber',
+    'mobileno',
+    'cell',
+    'cellphone',
+    'telephone',
+    'tel',
+    'contactnumber',
+    'number',
+    'msisdn',
+  ],
+  timezone: ['timezone', 'tz'],
+  priority: ['priority', 'contactpriority'],
+  group: ['group', 'contactgroup', 'segment'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Turn a header into a template variable name (e.g. "Due Amount" -> due_amount)
+export function toFieldName(header: string): string {
+  const field = header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^\d/.test(field) ? `field_${field}` : field;
+}
+
+/**
+ * Read the first sheet of a CSV/XLSX file
+ * Blank headers become "Column N" and repeated headers get a numeric suffix so every column is addressable
+ */
+export function parseContactFile(buffer: Buffer): {
+  headers: string[];
+  rows: ContactFileRow[];
+} {
+  // raw: CSV cells stay text so leading '+' and zeros in phone numbers are kept
+  const workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!worksheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<ContactCellValue[]>(worksheet, {
+    header: 1,
+    defval: '',
+    blankrows: true,
+  });
+  if (matrix.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const seen = new Map<string, number>();
+  const headers = matrix[0].map((cell, index) => {
+    const header = String(cell ?? '').trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+
+  const rows: ContactFileRow[] = [];
+  matrix.slice(1).forEach((cells, index) => {
+    if (!cells.some((cell) => String(cell ?? '').trim() !== '')) return;
+    const values: Record<string, ContactCellValue> = {};
+    headers.forEach((header, column) => {
+      values[header] = cells[column] ?? '';
+    });
+    rows.push({ row: index + 2, values });
+  });
+
+  return { headers, rows };
+}
+
+/**
+ * Guess which columns hold the name, phone number, timezone, priority and group
+ * Every other column is suggested as a custom field
+ */
+export function suggestColumnMapping(
+  headers: string[],
+): Partial<ContactColumnMapping> {
+  const mapping: Partial<ContactColumnMapping> = {};
+  const used = new Set<string>();
+
+  for (const field of [
+    'phoneNumber',
+    'name',
+    'timezone',
+    'priority',
+    'group',
+  ] as const) {
+    const match = headers.find(
+      (h) => !used.has(h) && COLUMN_ALIASES[field].includes(normalizeHeader(h)),
+    );
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  }
+
+  const customFields: Record<string, string> = {};
+  for (const header of headers) {
+    const field = toFieldName(header);
+    if (used.has(header) || !field || customFields[field]) continue;
+    customFields[field] = header;
+  }
+  if (Object.keys(customFields).length > 0) {
+    mapping.customFields = customFields;
+  }
+
+  return mapping;
+}
+
+// Check a mapping refers only to columns present in the file - returns an error message or null
+export function validateColumnMapping(
+  mapping: Partial<ContactColumnMapping> | undefined,
+  headers: string[],
+): string | null {
+  if (!mapping?.name || !mapping?.phoneNumber) {
+    return 'Mapping must specify the name and phoneNumber columns';
+  }
+
+  const columns = [
+    mapping.name,
+    mapping.phoneNumber,
+    mapping.timezone,
+    mapping.priority,
+    mapping.group,
+    ...Object.values(mapping.customFields || {}),
+  ];
+  const missing = columns.filter(
+    (column) => column && !headers.includes(column),
+  );
+  if (missing.length > 0) {
+    return `Columns not found in file: ${missing.join(', ')}`;
+  }
+
+  for (const field of Object.keys(mapping.customFields || {})) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(field)) {
+      return `Invalid custom field name "${field}" - use letters, numbers and underscores`;
+    }
+  }
+  return null;
+}
+
+// Build a contact from a file row using a column mapping (empty custom field cells are left out)
+export function applyColumnMapping(
+  row: ContactFileRow,
+  mapping: ContactColumnMapping,
+): MappedContact {
+  const cell = (header?: string) =>
+    header ? String(row.values[header] ?? '').trim() : '';
+
+  const customFields: Record<string, ContactCellValue> = {};
+  for (const [field, header] of Object.entries(mapping.customFields || {})) {
+    const value = row.values[header];
+    if (value === undefined || value === null || String(value).trim() === '')
+      continue;
+    customFields[field] = typeof value === 'string' ? value.trim() : value;
+  }
+
+  return {
+    name: cell(mapping.name),
+    phoneNumber: cell(mapping.phoneNumber),
+    timezone: cell(mapping.timezone) || undefined,
+    priority: parseContactPriority(cell(mapping.priority)),
+    group: cell(mapping.group) || undefined,
+    customFields:
+      Object.keys(customFields).length > 0 ? customFields : undefined,
+    row: row.row,
+  };
+}
@@ -0,0 +1,76 @@
+import {
+  getContactSort,
+  getNextRoundRobinGroup,
+  parseContactPriority,
+  validateContactPriority,
+} from './contact-order.util';
+
+describe('contact-order.util', () => {
+  describe('getContactSort', () => {
+    it('walks contacts in upload order for fifo and lifo', () => {
+      expect(getContactSort('fifo')).toEqual({ _id: 1 });
+      expect(getContactSort('lifo')).toEqual({ _id: -1 });
+    });
+
+    it('calls the highest priority first, oldest first within a priority', () => {
+      expect(getContactSort('priority')).toEqual({ priority: -1, _id: 1 });
+      expect(getContactSort(undefined)).toEqual({ priority: -1, _id: 1 });
+    });
+  });
+
+  describe('getNextRoundRobinGroup', () => {
+    it('starts with the first group by name', () => {
+      expect(getNextRoundRobinGroup(['west', 'east', 'north'])).toBe('east');
+    });
+
+    it('moves on to the next group by name', () => {
+      expect(getNextRoundRobinGroup(['west', 'east', 'north'], 'east')).toBe(
+        'north',
+      );
+      expect(getNextRoundRobinGroup(['west', 'east', 'north'], 'north')).toBe(
+        'west',
+      );
+    });
+
+    it('wraps around after the last group', () => {
+      expect(getNextRoundRobinGroup(['west', 'east', 'north'], 'west')).toBe(
+        'east',
+      );
+    });
+
+    it('visits contacts without a group first', () => {
+      expect(getNextRoundRobinGroup(['b', '', 'a'])).toBe('');
+      expect(getNextRoundRobinGroup(['b', '', 'a'], '')).toBe('a');
+    });
+
+    it('continues after a group that has run out of contacts', () => {
+      expect(getNextRoundRobinGroup(['a', 'c'], 'b')).toBe('c');
+    });
+
+    it('returns undefined without groups', () => {
+      expect(getNextRoundRobinGroup([], 'a')).toBeUndefined();
+    });
+  });
+
+  describe('validateContactPriority', () => {
+    it('accepts a missing priority or an integer in range', () => {
+      expect(validateContactPriority(undefined)).toBeNull();
+      expect(validateContactPriority(0)).toBeNull();
+      expect(validateContactPriority(100)).toBeNull();
+    });
+
+    it('rejects anything else', () => {
+      expect(validateContactPriority(101)).not.toBeNull();
+      expect(validateContactPriority(1.5)).not.toBeNull();
+      expect(validateContactPriority('5')).not.toBeNull();
+    });
+  });
+
+  describe('parseContactPriority', () => {
+    it('reads a priority cell', () => {
+      expect(parseContactPriority('')).toBeUndefined();
+      expect(parseContactPriority('42')).toBe(42);
+      expect(parseContactPriority('high')).toBeNaN();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { ContactOrder } from './campaign.schema';
+
+export const CONTACT_ORDERS: ContactOrder[] = [
+  'priority',
+  'fifo',
+  'lifo',
+  'random',
+  'round-robin',
+];
+
+export const MIN_CONTACT_PRIORITY = 0;
+export const MAX_CONTACT_PRIORITY = 100;
+
+// Check a contact priority - returns an error message or null if valid
+export function validateContactPriority(priority: any): string | null {
+  if (priority === undefined || priority === null) return null;
+  if (
+    !Number.isInteger(priority) ||
+    priority < MIN_CONTACT_PRIORITY ||
+    priority > MAX_CONTACT_PRIORITY
+  ) {
+    return `priority must be an integer between ${MIN_CONTACT_PRIORITY} and ${MAX_CONTACT_PRIORITY}`;
+  }
+  return null;
+}
+
+// Read a priority cell from an uploaded file ("" = not set, anything non-numeric = NaN so it is rejected)
+export function parseContactPriority(value: string): number | undefined {
+  if (value === '') return undefined;
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : NaN;
+}
+
+// Sort used to claim contacts for the orders that map to an index walk
+export function getContactSort(
+  order: ContactOrder | undefined,
+): Record<string, 1 | -1> {
+  switch (order) {
+    case 'fifo':
+      return { _id: 1 };
+    case 'lifo':
+      return { _id: -1 };
+    default:
+      return { priority: -1, _id: 1 };
+  }
+}
+
+/**
+ * Next contact group in the round-robin rotation
+ * Groups are visited in name order ('' = contacts without a group), wrapping around after the last one
+ */
+export function getNextRoundRobinGroup(
+  groups: string[],
+  lastGroup?: string,
+): string | undefined {
+  if (groups.length === 0) return undefined;
+  const sorted = [...groups].sort();
+  if (lastGroup === undefined) return sorted[0];
+  return sorted.find((group) => group > lastGroup) ?? sorted[0];
+}
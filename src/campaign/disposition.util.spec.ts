@@ -0,0 +1,226 @@
+import {
+  CampaignDisposition,
+  DispositionField,
+  DispositionFieldType,
+} from './campaign.schema';
+import {
+  parseDisposition,
+  validateDispositionConfig,
+} from './disposition.util';
+
+const CONFIG: CampaignDisposition = {
+  outcomes: [
+    { name: 'interested', description: 'Wants a follow-up' },
+    { name: 'not_interested' },
+  ],
+  fields: [
+    { name: 'budget', type: 'number', required: false },
+    { name: 'decision_maker', type: 'boolean', required: false },
+    { name: 'callback_date', type: 'date', required: false },
+    {
+      name: 'plan',
+      type: 'enum',
+      options: ['Basic', 'Premium'],
+      required: false,
+    },
+    { name: 'notes', type: 'string', required: true },
+  ],
+};
+
+describe('disposition.util', () => {
+  describe('validateDispositionConfig', () => {
+    it('accepts a missing config or a valid one', () => {
+      expect(validateDispositionConfig(undefined)).toBeNull();
+      expect(validateDispositionConfig(CONFIG)).toBeNull();
+      expect(
+        validateDispositionConfig({ outcomes: [{ name: 'done' }] }),
+      ).toBeNull();
+    });
+
+    it('requires at least one outcome', () => {
+      expect(validateDispositionConfig({ outcomes: [] })).toBe(
+        'disposition.outcomes must be a non-empty array',
+      );
+      expect(validateDispositionConfig({})).toBe(
+        'disposition.outcomes must be a non-empty array',
+      );
+    });
+
+    it('rejects outcome names that are not identifier-like', () => {
+      expect(
+        validateDispositionConfig({ outcomes: [{ name: '1st call' }] }),
+      ).toMatch(/^disposition\.outcomes\[\]\.name must start with a letter/);
+    });
+
+    it('rejects outcomes listed twice in any case', () => {
+      expect(
+        validateDispositionConfig({
+          outcomes: [{ name: 'Interested' }, { name: 'interested' }],
+        }),
+      ).toBe('disposition outcome interested is listed twice');
+    });
+
+    it('rejects fields listed twice', () => {
+      expect(
+        validateDispositionConfig({
+          outcomes: [{ name: 'done' }],
+          fields: [
+            { name: 'notes', type: 'string', required: false },
+            { name: 'notes', type: 'string', required: false },
+          ],
+        }),
+      ).toBe('disposition field notes is listed twice');
+    });
+
+    it('rejects unknown field types', () => {
+      expect(
+        validateDispositionConfig({
+          outcomes: [{ name: 'done' }],
+          fields: [
+            {
+              name: 'score',
+              type: 'integer' as DispositionFieldType,
+              required: false,
+            },
+          ],
+        }),
+      ).toBe(
+        'disposition field score: type must be one of: string, number, boolean, date, enum',
+      );
+    });
+
+    it('requires options for enum fields', () => {
+      expect(
+        validateDispositionConfig({
+          outcomes: [{ name: 'done' }],
+          fields: [
+            { name: 'plan', type: 'enum', options: [], required: false },
+          ],
+        }),
+      ).toBe(
+        'disposition field plan: options must be a non-empty array of strings',
+      );
+    });
+
+    it('requires required to be a boolean', () => {
+      const field = {
+        name: 'notes',
+        type: 'string',
+        required: 'yes',
+      } as unknown as DispositionField;
+
+      expect(
+        validateDispositionConfig({
+          outcomes: [{ name: 'done' }],
+          fields: [field],
+        }),
+      ).toBe('disposition field notes: required must be a boolean');
+    });
+  });
+
+  describe('parseDisposition', () => {
+    it('matches the outcome case-insensitively and stores it as configured', () => {
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: ' INTERESTED ',
+          fields: { notes: 'Call back' },
+        }),
+      ).toEqual({ outcome: 'interested', fields: { notes: 'Call back' } });
+    });
+
+    it('rejects an unknown outcome', () => {
+      expect(parseDisposition(CONFIG, { outcome: 'maybe' })).toEqual({
+        error: 'Unknown outcome "maybe".',
+      });
+      expect(parseDisposition(CONFIG, {})).toEqual({
+        error: 'Unknown outcome "".',
+      });
+    });
+
+    it('rejects unknown fields', () => {
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: { notes: 'ok', mood: 'happy', age: 40 },
+        }),
+      ).toEqual({ error: 'Unknown field(s): mood, age.' });
+    });
+
+    it('rejects a missing required field', () => {
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: { notes: '' },
+        }),
+      ).toEqual({ error: 'Field notes is required.' });
+    });
+
+    it('leaves out optional fields that were not sent', () => {
+      expect(
+        parseDisposition(
+          { outcomes: [{ name: 'done' }], fields: [] },
+          { outcome: 'done' },
+        ),
+      ).toEqual({ outcome: 'done', fields: undefined });
+    });
+
+    it('converts numbers, booleans and dates', () => {
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: {
+            budget: '2500.50',
+            decision_maker: 'Yes',
+            callback_date: '2026-03-12',
+            notes: 42,
+          },
+        }),
+      ).toEqual({
+        outcome: 'interested',
+        fields: {
+          budget: 2500.5,
+          decision_maker: true,
+          callback_date: new Date('2026-03-12'),
+          notes: '42',
+        },
+      });
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: { decision_maker: 'no', notes: 'ok' },
+        }).fields,
+      ).toEqual({ decision_maker: false, notes: 'ok' });
+    });
+
+    it('rejects values that do not fit the field type', () => {
+      const parse = (fields: Record<string, unknown>) =>
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: { notes: 'ok', ...fields },
+        }).error;
+
+      expect(parse({ budget: 'a lot' })).toBe('Field budget must be a number.');
+      expect(parse({ decision_maker: 'maybe' })).toBe(
+        'Field decision_maker must be true or false.',
+      );
+      expect(parse({ callback_date: 'next week' })).toBe(
+        'Field callback_date must be a date (YYYY-MM-DD or ISO 8601).',
+      );
+    });
+
+    it('matches enum values case-insensitively and stores them as configured', () => {
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: { plan: 'premium', notes: 'ok' },
+        }).fields,
+      ).toEqual({ plan: 'Premium', notes: 'ok' });
+      expect(
+        parseDisposition(CONFIG, {
+          outcome: 'interested',
+          fields: { plan: 'Gold', notes: 'ok' },
+        }).error,
+      ).toBe('Field plan must be one of: Basic, Premium.');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  CampaignDisposition,
+  DispositionField,
+  DispositionFieldType,
+} from './campaign.schema';
+
+export const DISPOSITION_FIELD_TYPES: DispositionFieldType[] = [
+  'string',
+  'number',
+  'boolean',
+  'date',
+  'enum',
+];
+
+// Outcome and field names are passed to the agent, so they are kept identifier-like
+const DISPOSITION_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+
+// Check a campaign's disposition settings - returns an error message or null if valid
+export function validateDispositionConfig(
+  disposition?: Partial<CampaignDisposition>,
+): string | null {
+  if (!disposition) return null;
+
+  if (
+    !Array.isArray(disposition.outcomes) ||
+    disposition.outcomes.length === 0
+  ) {
+    return 'disposition.outcomes must be a non-empty array';
+  }
+  const outcomeNames = new Set<string>();
+  for (const outcome of disposition.outcomes) {
+    if (
+      typeof outcome?.name !== 'string' ||
+      !DISPOSITION_NAME_PATTERN.test(outcome.name)
+    ) {
+      return 'disposition.outcomes[].name must start with a letter and contain only letters, digits, _ and - (max 64)';
+    }
+    if (outcomeNames.has(outcome.name.toLowerCase())) {
+      return `disposition outcome ${outcome.name} is listed twice`;
+    }
+    outcomeNames.add(outcome.name.toLowerCase());
+  }
+
+  if (disposition.fields === undefined) return null;
+  if (!Array.isArray(disposition.fields)) {
+    return 'disposition.fields must be an array';
+  }
+  const fieldNames = new Set<string>();
+  for (const field of disposition.fields) {
+    if (
+      typeof field?.name !== 'string' ||
+      !DISPOSITION_NAME_PATTERN.test(field.name)
+    ) {
+      return 'disposition.fields[].name must start with a letter and contain only letters, digits, _ and - (max 64)';
+    }
+    if (fieldNames.has(field.name)) {
+      return `disposition field ${field.name} is listed twice`;
+    }
+    fieldNames.add(field.name);
+    if (!DISPOSITION_FIELD_TYPES.includes(field.type)) {
+      return `disposition field ${field.name}: type must be one of: ${DISPOSITION_FIELD_TYPES.join(', ')}`;
+    }
+    if (
+      field.type === 'enum' &&
+      (!Array.isArray(field.options) ||
+        field.options.length === 0 ||
+        field.options.some((o) => typeof o !== 'string'))
+    ) {
+      return `disposition field ${field.name}: options must be a non-empty array of strings`;
+    }
+    if (field.required !== undefined && typeof field.required !== 'boolean') {
+      return `disposition field ${field.name}: required must be a boolean`;
+    }
+  }
+  return null;
+}
+
+// Convert a value sent by the agent to the field's type - returns undefined when it does not fit
+function convertFieldValue(
+  field: DispositionField,
+  value: unknown,
+): string | number | boolean | Date | undefined {
+  switch (field.type) {
+    case 'string':
+      return typeof value === 'string' ||
+        typeof value === 'number' ||
+        typeof value === 'boolean'
+        ? String(value)
+        : undefined;
+    case 'number': {
+      const number =
+        typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : value;
+      return typeof number === 'number' && Number.isFinite(number)
+        ? number
+        : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (['true', 'yes'].includes(String(value).toLowerCase())) return true;
+      if (['false', 'no'].includes(String(value).toLowerCase())) return false;
+      return undefined;
+    case 'date': {
+      const date =
+        typeof value === 'string' || typeof value === 'number'
+          ? new Date(value)
+          : undefined;
+      return date && !isNaN(date.getTime()) ? date : undefined;
+    }
+    case 'enum':
+      return field.options?.find(
+        (option) => option.toLowerCase() === String(value).toLowerCase(),
+      );
+  }
+}
+
+/**
+ * Check an outcome submitted by the agent against the campaign's disposition settings
+ * Outcome and enum values are matched case-insensitively and stored as configured;
+ * field values are converted to their types. Returns the values to store or an error for the agent.
+ */
+export function parseDisposition(
+  config: CampaignDisposition,
+  input: { outcome?: string; fields?: Record<string, unknown> },
+): { outcome?: string; fields?: Record<string, any>; error?: string } {
+  const outcome = config.outcomes.find(
+    (o) =>
+      o.name.toLowerCase() ===
+      String(input.outcome ?? '')
+        .trim()
+        .toLowerCase(),
+  );
+  if (!outcome) {
+    return { error: `Unknown outcome "${input.outcome ?? ''}".` };
+  }
+
+  const submitted =
+    input.fields && typeof input.fields === 'object' ? input.fields : {};
+  const definitions = config.fields || [];
+  const unknown = Object.keys(submitted).filter(
+    (name) => !definitions.some((field) => field.name === name),
+  );
+  if (unknown.length > 0) {
+    return { error: `Unknown field(s): ${unknown.join(', ')}.` };
+  }
+
+  const fields: Record<string, any> = {};
+  for (const field of definitions) {
+    const value = submitted[field.name];
+    if (value === undefined || value === null || value === '') {
+      if (field.required) {
+        return { error: `Field ${field.name} is required.` };
+      }
+      continue;
+    }
+    const converted = convertFieldValue(field, value);
+    if (converted === undefined) {
+      return {
+        error: `Field ${field.name} must be ${describeFieldType(field)}.`,
+      };
+    }
+    fields[field.name] = converted;
+  }
+
+  return {
+    outcome: outcome.name,
+    fields: Object.keys(fields).length > 0 ? fields : undefined,
+  };
+}
+
+function describeFieldType(field: DispositionField): string {
+  switch (field.type) {
+    case 'enum':
+      return `one of: ${field.options?.join(', ')}`;
+    case 'date':
+      return 'a date (YYYY-MM-DD or ISO 8601)';
+    case 'boolean':
+      return 'true or false';
+    default:
+      return `a ${field.type}`;
+  }
+}
+
+// Accepted outcomes and fields in words, returned to the agent with a rejected submission
+export function describeDispositionConfig(config: CampaignDisposition): string {
+  const outcomes = config.outcomes
+    .map((o) => (o.description ? `${o.name} (${o.description})` : o.name))
+    .join('; ');
+  const fields = (config.fields || [])
+    .map(
+      (f) =>
+        `${f.name}: ${describeFieldType(f)}${f.required ? ', required' : ''}${f.description ? ` - ${f.description}` : ''}`,
+    )
+    .join('; ');
+  return `Accepted outcomes: ${outcomes}.${fields ? ` Fields: ${fields}.` : ''}`;
+}
@@ -0,0 +1,77 @@
+import {
+  getTimezoneForPhoneNumber,
+  isValidTimezone,
+  resolveContactTimezone,
+} from './phone-timezone.util';
+
+describe('phone-timezone.util', () => {
+  describe('isValidTimezone', () => {
+    it('accepts IANA timezones only', () => {
+      expect(isValidTimezone('Asia/Kolkata')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+      expect(isValidTimezone('')).toBe(false);
+      expect(isValidTimezone(undefined)).toBe(false);
+    });
+  });
+
+  describe('getTimezoneForPhoneNumber', () => {
+    it('maps the country calling code', () => {
+      expect(getTimezoneForPhoneNumber('+44 20 7123 4567')).toBe(
+        'Europe/London',
+      );
+      expect(getTimezoneForPhoneNumber('+919876543210')).toBe('Asia/Kolkata');
+      expect(getTimezoneForPhoneNumber('0049 30 12345678')).toBe(
+        'Europe/Berlin',
+      );
+    });
+
+    it('matches the longest country code first', () => {
+      expect(getTimezoneForPhoneNumber('+971501234567')).toBe('Asia/Dubai');
+      expect(getTimezoneForPhoneNumber('+353871234567')).toBe('Europe/Dublin');
+    });
+
+    it('uses the area code in North America', () => {
+      expect(getTimezoneForPhoneNumber('+12125550123')).toBe(
+        'America/New_York',
+      );
+      expect(getTimezoneForPhoneNumber('+13125550123')).toBe('America/Chicago');
+      expect(getTimezoneForPhoneNumber('+14155550123')).toBe(
+        'America/Los_Angeles',
+      );
+      expect(getTimezoneForPhoneNumber('+16045550123')).toBe(
+        'America/Vancouver',
+      );
+    });
+
+    it('returns null for local or unknown numbers', () => {
+      expect(getTimezoneForPhoneNumber('02071234567')).toBeNull();
+      expect(getTimezoneForPhoneNumber('+999123456789')).toBeNull();
+      expect(getTimezoneForPhoneNumber('+4412')).toBeNull();
+      expect(getTimezoneForPhoneNumber(undefined)).toBeNull();
+    });
+  });
+
+  describe('resolveContactTimezone', () => {
+    it('prefers a valid contact timezone', () => {
+      expect(
+        resolveContactTimezone(
+          { phoneNumber: '+12125550123', timezone: 'Europe/Paris' },
+          'UTC',
+        ),
+      ).toBe('Europe/Paris');
+    });
+
+    it('falls back to the phone number, then the campaign timezone', () => {
+      expect(
+        resolveContactTimezone(
+          { phoneNumber: '+12125550123', timezone: 'Nowhere/City' },
+          'UTC',
+        ),
+      ).toBe('America/New_York');
+      expect(
+        resolveContactTimezone({ phoneNumber: '02071234567' }, 'Europe/London'),
+      ).toBe('Europe/London');
+      expect(resolveContactTimezone({}, '')).toBe('UTC');
+    });
+  });
+});
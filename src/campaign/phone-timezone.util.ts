@@ -0,0 +1,159 @@
+// Best-effort mapping from a phone number to the callee's IANA timezone.
+// Countries spanning several zones map to their most populous zone, except
+// North America where the area code is used to pick the zone.
+
+// Country calling code -> primary timezone (matched longest prefix first)
+const COUNTRY_CODE_TIMEZONES: Record<string, string> = {
+  '7': 'Europe/Moscow',
+  '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg',
+  '30': 'Europe/Athens',
+  '31': 'Europe/Amsterdam',
+  '32': 'Europe/Brussels',
+  '33': 'Europe/Paris',
+  '34': 'Europe/Madrid',
+  '36': 'Europe/Budapest',
+  '39': 'Europe/Rome',
+  '40': 'Europe/Bucharest',
+  '41': 'Europe/Zurich',
+  '43': 'Europe/Vienna',
+  '44': 'Europe/London',
+  '45': 'Europe/Copenhagen',
+  '46': 'Europe/Stockholm',
+  '47': 'Europe/Oslo',
+  '48': 'Europe/Warsaw',
+  '49': 'Europe/Berlin',
+  '51': 'America/Lima',
+  '52': 'America/Mexico_City',
+  '54': 'America/Argentina/Buenos_Aires',
+  '55': 'America/Sao_Paulo',
+  '56': 'America/Santiago',
+  '57': 'America/Bogota',
+  '60': 'Asia/Kuala_Lumpur',
+  '61': 'Australia/Sydney',
+  '62': 'Asia/Jakarta',
+  '63': 'Asia/Manila',
+  '64': 'Pacific/Auckland',
+  '65': 'Asia/Singapore',
+  '66': 'Asia/Bangkok',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '84': 'Asia/Ho_Chi_Minh',
+  '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '93': 'Asia/Kabul',
+  '94': 'Asia/Colombo',
+  '95': 'Asia/Yangon',
+  '98': 'Asia/Tehran',
+  '212': 'Africa/Casablanca',
+  '234': 'Africa/Lagos',
+  '254': 'Africa/Nairobi',
+  '351': 'Europe/Lisbon',
+  '353': 'Europe/Dublin',
+  '358': 'Europe/Helsinki',
+  '380': 'Europe/Kyiv',
+  '852': 'Asia/Hong_Kong',
+  '880': 'Asia/Dhaka',
+  '886': 'Asia/Taipei',
+  '960': 'Indian/Maldives',
+  '961': 'Asia/Beirut',
+  '962': 'Asia/Amman',
+  '965': 'Asia/Kuwait',
+  '966': 'Asia/Riyadh',
+  '968': 'Asia/Muscat',
+  '971': 'Asia/Dubai',
+  '972': 'Asia/Jerusalem',
+  '973': 'Asia/Bahrain',
+  '974': 'Asia/Qatar',
+  '977': 'Asia/Kathmandu',
+};
+
+// North American area codes outside the Eastern zone (Eastern is the default)
+// prettier-ignore
+const NANP_AREA_CODE_TIMEZONES: Array<[string, string[]]> = [
+  ['America/Chicago', [
+    '205', '251', '256', '334', '659', '938', '479', '501', '870', '217', '224', '309', '312', '331',
+    '447', '464', '618', '630', '708', '730', '773', '779', '815', '847', '872', '319', '515', '563',
+    '641', '712', '316', '620', '785', '913', '225', '318', '337', '504', '985', '218', '320', '507',
+    '612', '651', '763', '952', '228', '601', '662', '769', '314', '417', '573', '636', '660', '816',
+    '975', '308', '402', '531', '405', '539', '580', '918', '210', '214', '254', '281', '325', '346',
+    '361', '409', '430', '432', '469', '512', '682', '713', '726', '737', '806', '817', '830', '832',
+    '903', '936', '940', '945', '956', '972', '979', '262', '274', '414', '534', '608', '715', '920',
+    '701', '605', '615', '629', '731', '901', '931', '270', '364',
+  ]],
+  ['America/Denver', [
+    '303', '719', '720', '970', '983', '208', '986', '406', '505', '575', '385', '435', '801', '307', '915',
+  ]],
+  ['America/Phoenix', ['480', '520', '602', '623', '928']],
+  ['America/Los_Angeles', [
+    '209', '213', '279', '310', '323', '341', '350', '408', '415', '424', '442', '510', '530', '559',
+    '562', '619', '626', '628', '650', '657', '661', '669', '707', '714', '747', '760', '805', '818',
+    '820', '831', '840', '858', '909', '916', '925', '949', '951', '206', '253', '360', '425', '509',
+    '564', '458', '503', '541', '971', '702', '725', '775',
+  ]],
+  ['America/Anchorage', ['907']],
+  ['Pacific/Honolulu', ['808']],
+  ['America/Winnipeg', ['204', '431']],
+  ['America/Regina', ['306', '639']],
+  ['America/Edmonton', ['403', '587', '780', '825']],
+  ['America/Vancouver', ['236', '250', '604', '672', '778']],
+  ['America/Halifax', ['506', '782', '902']],
+  ['America/St_Johns', ['709']],
+];
+
+const NANP_LOOKUP = new Map<string, string>();
+for (const [timezone, areaCodes] of NANP_AREA_CODE_TIMEZONES) {
+  for (const areaCode of areaCodes) {
+    NANP_LOOKUP.set(areaCode, timezone);
+  }
+}
+
+// Check if a string is a timezone the runtime understands
+export function isValidTimezone(timezone?: string): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive the callee's timezone from a phone number in international format
+ * Returns null for local numbers (leading 0) or unknown country codes
+ */
+export function getTimezoneForPhoneNumber(phoneNumber?: string): string | null {
+  if (!phoneNumber) return null;
+
+  const trimmed = phoneNumber.trim();
+  if (trimmed.startsWith('0') && !trimmed.startsWith('00')) return null;
+
+  const digits = trimmed.replace(/\D/g, '').replace(/^00/, '');
+  if (digits.length < 8) return null;
+
+  // North America: +1 followed by a 3-digit area code
+  if (digits.startsWith('1')) {
+    return NANP_LOOKUP.get(digits.substring(1, 4)) || 'America/New_York';
+  }
+
+  for (const length of [3, 2, 1]) {
+    const timezone = COUNTRY_CODE_TIMEZONES[digits.substring(0, length)];
+    if (timezone) return timezone;
+  }
+  return null;
+}
+
+/**
+ * Resolve the timezone for a contact
+ * Explicit contact timezone -> phone number region -> campaign fallback
+ */
+export function resolveContactTimezone(
+  contact: { phoneNumber?: string; timezone?: string },
+  fallback: string,
+): string {
+  if (isValidTimezone(contact.timezone)) return contact.timezone!;
+  return getTimezoneForPhoneNumber(contact.phoneNumber) || fallback || 'UTC';
+}
@@ -0,0 +1,40 @@
+import { CampaignRetryPolicy, RetryableOutcome } from './campaign.schema';
+
+export const RETRYABLE_OUTCOMES: RetryableOutcome[] = [
+  'busy',
+  'no-answer',
+  'voicemail',
+  'connection_error',
+];
+
+// Validate retry policy settings - returns an error message or null if valid
+export function validateRetryPolicy(
+  retryPolicy?: Partial<CampaignRetryPolicy>,
+): string | null {
+  if (!retryPolicy) return null;
+
+  if (
+    retryPolicy.maxAttempts !== undefined &&
+    (!Number.isInteger(retryPolicy.maxAttempts) ||
+      retryPolicy.maxAttempts < 1 ||
+      retryPolicy.maxAttempts > 10)
+  ) {
+    return 'retryPolicy.maxAttempts must be an integer between 1 and 10';
+  }
+  if (
+    retryPolicy.retryDelayMinutes !== undefined &&
+    (typeof retryPolicy.retryDelayMinutes !== 'number' ||
+      retryPolicy.retryDelayMinutes < 0)
+  ) {
+    return 'retryPolicy.retryDelayMinutes must be a non-negative number';
+  }
+  if (retryPolicy.retryOn !== undefined) {
+    if (
+      !Array.isArray(retryPolicy.retryOn) ||
+      retryPolicy.retryOn.some((o) => !RETRYABLE_OUTCOMES.includes(o))
+    ) {
+      return `retryPolicy.retryOn may only contain: ${RETRYABLE_OUTCOMES.join(', ')}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Time-limited lock shared by all backend instances
+ * Used for scheduler leader election ("scheduler-leader") and per-user call processing ("user:<userId>")
+ */
+@Schema({ timestamps: true })
+export class SchedulerLease extends Document {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ required: true })
+  holderId: string; // Instance ID of the current holder
+
+  @Prop({ required: true })
+  expiresAt: Date; // Lease is free for anyone to take after this
+}
+
+export const SchedulerLeaseSchema =
+  SchemaFactory.createForClass(SchedulerLease);
+
+// What placed a call: the campaign scheduler, a manual/API trigger, an agent test call, an incoming call
+// or a one-off scheduled call
+export type CallSlotSource =
+  'campaign' | 'manual' | 'test' | 'inbound' | 'scheduled';
+
+/**
+ * A call that holds one of its user's concurrency slots and has not yet been seen to end
+ * A user's active call count is the number of these documents, so it survives restarts
+ * and is shared by every instance
+ */
+@Schema({ timestamps: true })
+export class ActiveCall extends Document {
+  @Prop({ required: true, unique: true })
+  callId: string; // Ultravox call ID, or pending_<...> while the call is being created
+
+  @Prop({ enum: ['campaign', 'manual', 'test', 'inbound', 'scheduled'] })
+  source?: CallSlotSource; // Unset on records created before slots covered every call
+
+  @Prop()
+  slot?: number; // Slot index below the user's limit - unique per user, so concurrent acquires cannot overshoot
+
+  @Prop({ index: true, sparse: true })
+  providerCallId?: string; // Carrier call ID, so telephony callbacks can release the slot
+
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  @Prop()
+  campaignId?: string; // Set for calls to campaign contacts
+
+  @Prop()
+  contactId?: string;
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop()
+  instanceId?: string; // Instance that placed the call
+}
+
+export const ActiveCallSchema = SchemaFactory.createForClass(ActiveCall);
+ActiveCallSchema.index({ campaignId: 1, contactId: 1 });
+ActiveCallSchema.index(
+  { userId: 1, slot: 1 },
+  { unique: true, partialFilterExpression: { slot: { $exists: true } } },
+);
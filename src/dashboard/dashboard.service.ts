@@ -302,6 +302,7 @@ export class DashboardService {
       case 'completed':
         return 'completed';
       case 'missed':
+      case 'voicemail':
         return 'missed';
       case 'in-progress':
       case 'initiated':
@@ -0,0 +1,429 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  Res,
+  HttpCode,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { DncService } from './dnc.service';
+import { UserService } from '../user/user.service';
+import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
+import { ToolSecretGuard } from '../webhook/tool-secret.guard';
+import { ResponseHelper } from '../response.helper';
+import { AppLogger } from '../app.logger';
+import { Types } from 'mongoose';
+import { normalizePhoneNumber } from '../phone-number.helper';
+import * as XLSX from 'xlsx';
+
+// Request with the user set by AuthOrApiKeyGuard
+interface AuthenticatedRequest {
+  user?: { sub?: string; email?: string };
+  apiUser?: { _id?: Types.ObjectId; email?: string };
+}
+
+@Controller('dnc')
+export class DncController {
+  constructor(
+    private readonly dncService: DncService,
+    private readonly userService: UserService,
+    private readonly responseHelper: ResponseHelper,
+    private readonly logger: AppLogger,
+  ) {}
+
+  // Helper to extract user info from JWT token or API key
+  private getUserFromRequest(
+    req: AuthenticatedRequest,
+  ): { userId: string; email?: string } | null {
+    if (req.user?.sub) {
+      return { userId: String(req.user.sub), email: req.user.email };
+    }
+    if (req.apiUser?._id) {
+      return { userId: String(req.apiUser._id), email: req.apiUser.email };
+    }
+    return null;
+  }
+
+  // Country used to read numbers entered without a country code
+  private async getDefaultCountry(userId: string): Promise<string | undefined> {
+    const settings = await this.userService.getSettings(userId);
+    return settings?.defaultCountry;
+  }
+
+  /**
+   * Get the do-not-call list for the current user with pagination and search
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get()
+  async findAll(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('search') search?: string,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const result = await this.dncService.findByUserId(
+        userInfo.userId,
+        page ? parseInt(page, 10) : 1,
+        limit ? parseInt(limit, 10) : 20,
+        search,
+      );
+      return this.responseHelper.success(result, 'Do-not-call list fetched');
+    } catch (err) {
+      this.logger.error('Error fetching do-not-call list', err);
+      return this.responseHelper.error(
+        'Failed to fetch do-not-call list',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Add a number to the do-not-call list
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post()
+  async create(
+    @Body() body: { phoneNumber: string; name?: string; reason?: string },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (!body.phoneNumber) {
+      return this.responseHelper.error('phoneNumber is required', 400);
+    }
+
+    try {
+      const phone = normalizePhoneNumber(
+        body.phoneNumber,
+        await this.getDefaultCountry(userInfo.userId),
+      );
+      if (!phone.valid) {
+        return this.responseHelper.error(
+          `Invalid phone number: ${phone.error}`,
+          400,
+        );
+      }
+
+      const entry = await this.dncService.add(userInfo.userId, {
+        phoneNumber: phone.e164,
+        name: body.name,
+        reason: body.reason,
+        source: req.apiUser ? 'api' : 'manual',
+      });
+      this.logger.log(
+        `Number added to do-not-call list for user ${userInfo.userId}`,
+      );
+      return this.responseHelper.success(
+        entry,
+        'Number added to do-not-call list',
+        201,
+      );
+    } catch (err) {
+      this.logger.error('Error adding number to do-not-call list', err);
+      return this.responseHelper.error(
+        'Failed to add number to do-not-call list',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Check whether a number is on the do-not-call list
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get('check')
+  async check(
+    @Query('phoneNumber') phoneNumber: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (!phoneNumber) {
+      return this.responseHelper.error('phoneNumber is required', 400);
+    }
+
+    try {
+      const phone = normalizePhoneNumber(
+        phoneNumber,
+        await this.getDefaultCountry(userInfo.userId),
+      );
+      if (!phone.valid) {
+        return this.responseHelper.error(
+          `Invalid phone number: ${phone.error}`,
+          400,
+        );
+      }
+
+      const blocked = await this.dncService.isBlocked(
+        userInfo.userId,
+        phone.e164,
+      );
+      return this.responseHelper.success(
+        { phoneNumber: phone.e164, blocked },
+        blocked
+          ? 'Number is on the do-not-call list'
+          : 'Number is not on the do-not-call list',
+      );
+    } catch (err) {
+      this.logger.error('Error checking do-not-call list', err);
+      return this.responseHelper.error(
+        'Failed to check do-not-call list',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Export the do-not-call list as CSV
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get('export')
+  async exportCsv(@Req() req: AuthenticatedRequest, @Res() res: Response) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return res
+        .status(401)
+        .json(this.responseHelper.error('Unauthorized', 401));
+    }
+
+    try {
+      const entries = await this.dncService.findAllByUserId(userInfo.userId);
+      const rows = entries.map((e) => ({
+        phoneNumber: e.phoneNumber,
+        name: e.name || '',
+        reason: e.reason || '',
+        source: e.source,
+        addedAt: e.createdAt ? e.createdAt.toISOString() : '',
+      }));
+
+      const worksheet = XLSX.utils.json_to_sheet(rows, {
+        header: ['phoneNumber', 'name', 'reason', 'source', 'addedAt'],
+      });
+      const csv = XLSX.utils.sheet_to_csv(worksheet);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader(
+        'Content-Disposition',
+        'attachment; filename="do-not-call.csv"',
+      );
+      return res.send(csv);
+    } catch (err) {
+      this.logger.error('Error exporting do-not-call list', err);
+      return res
+        .status(500)
+        .json(
+          this.responseHelper.error(
+            'Failed to export do-not-call list',
+            500,
+            err instanceof Error ? err.message : err,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Import numbers from a CSV/Excel file
+   * Accepts "phone"/"phoneNumber"/"mobile" columns plus optional "name" and "reason"
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  async importCsv(
+    @UploadedFile() file: Express.Multer.File,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (!file) {
+      return this.responseHelper.error('No file uploaded', 400);
+    }
+
+    try {
+      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const data =
+        XLSX.utils.sheet_to_json<Record<string, string | number>>(worksheet);
+
+      if (data.length === 0) {
+        return this.responseHelper.error('File is empty', 400);
+      }
+
+      const rows: { phoneNumber: string; name?: string; reason?: string }[] =
+        [];
+      for (const row of data) {
+        const phone =
+          row.phone ||
+          row.Phone ||
+          row.phoneNumber ||
+          row.PhoneNumber ||
+          row['Phone Number'] ||
+          row['phone number'] ||
+          row.mobile ||
+          row.Mobile ||
+          '';
+        if (!phone) continue;
+
+        const name = row.name || row.Name || '';
+        const reason = row.reason || row.Reason || '';
+        rows.push({
+          phoneNumber: String(phone).trim(),
+          name: name ? String(name).trim() : undefined,
+          reason: reason ? String(reason).trim() : undefined,
+        });
+      }
+
+      if (rows.length === 0) {
+        return this.responseHelper.error(
+          'No phone numbers found. Make sure your file has a "phone" column.',
+          400,
+        );
+      }
+
+      const result = await this.dncService.importEntries(
+        userInfo.userId,
+        rows,
+        await this.getDefaultCountry(userInfo.userId),
+      );
+      this.logger.log(
+        `Do-not-call import for user ${userInfo.userId}: ${result.imported} imported, ${result.duplicates} duplicates, ${result.invalid} invalid`,
+      );
+      return this.responseHelper.success(
+        result,
+        `${result.imported} numbers added to do-not-call list`,
+      );
+    } catch (err) {
+      this.logger.error('Error importing do-not-call list', err);
+      return this.responseHelper.error(
+        'Failed to process file',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Built-in agent tool: add the current caller to the do-not-call list
+   * Called by Ultravox during a call with the call ID as an automatic parameter
+   */
+  @UseGuards(ToolSecretGuard)
+  @Post('tool/opt-out')
+  @HttpCode(200)
+  async toolOptOut(@Body() body: { callId?: string; reason?: string }) {
+    if (!body?.callId) {
+      return { result: 'Unable to identify the current call.' };
+    }
+
+    try {
+      const entry = await this.dncService.addFromCall(body.callId, body.reason);
+      if (!entry) {
+        this.logger.warn(
+          `Do-not-call tool: no customer phone found for call ${body.callId}`,
+        );
+        return { result: 'Unable to identify the caller phone number.' };
+      }
+
+      this.logger.log(
+        `Caller on call ${body.callId} added to do-not-call list`,
+      );
+      return {
+        result:
+          'The caller has been added to the do-not-call list and will not be called again.',
+      };
+    } catch (err) {
+      this.logger.error('Error in do-not-call tool', err);
+      return { result: 'Unable to update the do-not-call list right now.' };
+    }
+  }
+
+  /**
+   * Update the name or reason of an entry
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Put(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: { name?: string; reason?: string },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const entry = await this.dncService.update(userInfo.userId, id, body);
+      if (!entry) {
+        return this.responseHelper.error('Do-not-call entry not found', 404);
+      }
+      return this.responseHelper.success(entry, 'Do-not-call entry updated');
+    } catch (err) {
+      this.logger.error('Error updating do-not-call entry', err);
+      return this.responseHelper.error(
+        'Failed to update do-not-call entry',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Remove a number from the do-not-call list
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Delete(':id')
+  async remove(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const entry = await this.dncService.remove(userInfo.userId, id);
+      if (!entry) {
+        return this.responseHelper.error('Do-not-call entry not found', 404);
+      }
+      this.logger.log(
+        `Number removed from do-not-call list for user ${userInfo.userId}`,
+      );
+      return this.responseHelper.success(
+        entry,
+        'Number removed from do-not-call list',
+      );
+    } catch (err) {
+      this.logger.error('Error removing do-not-call entry', err);
+      return this.responseHelper.error(
+        'Failed to remove do-not-call entry',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { DncEntry, DncEntrySchema } from './dnc.schema';
+import { DncService } from './dnc.service';
+import { DncController } from './dnc.controller';
+import { UserModule } from '../user/user.module';
+import { SharedModule } from '../shared.module';
+import { CallHistoryModule } from '../call-history/call-history.module';
+import { WebhookModule } from '../webhook/webhook.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DncEntry.name, schema: DncEntrySchema },
+    ]),
+    MulterModule.register({
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+      },
+    }),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get('JWT_SECRET'),
+        signOptions: { expiresIn: '1d' },
+      }),
+      inject: [ConfigService],
+    }),
+    UserModule,
+    SharedModule,
+    forwardRef(() => CallHistoryModule),
+    forwardRef(() => WebhookModule),
+  ],
+  providers: [DncService],
+  controllers: [DncController],
+  exports: [DncService],
+})
+export class DncModule {}
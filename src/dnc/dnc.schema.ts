@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type DncSource = 'manual' | 'import' | 'agent-tool' | 'api';
+
+// Do-not-call entry - numbers on a user's list are never dialled by any outbound path
+@Schema({ timestamps: true })
+export class DncEntry extends Document {
+  @Prop({ required: true })
+  userId: string; // Owner of the list
+
+  @Prop({ required: true })
+  phoneNumber: string; // Normalized phone number (same format as campaign contacts)
+
+  @Prop()
+  name?: string;
+
+  @Prop()
+  reason?: string;
+
+  @Prop({ enum: ['manual', 'import', 'agent-tool', 'api'], default: 'manual' })
+  source: DncSource;
+
+  @Prop()
+  callId?: string; // Talkrix call ID when the caller opted out during a call
+
+  @Prop()
+  createdAt?: Date; // Set by timestamps - when the number was added
+}
+
+export const DncEntrySchema = SchemaFactory.createForClass(DncEntry);
+
+// One entry per number per user
+DncEntrySchema.index({ userId: 1, phoneNumber: 1 }, { unique: true });
+DncEntrySchema.index({ userId: 1, createdAt: -1 });
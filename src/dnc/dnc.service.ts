@@ -0,0 +1,222 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { DncEntry, DncSource } from './dnc.schema';
+import { CallHistoryService } from '../call-history/call-history.service';
+import { normalizePhoneNumber } from '../phone-number.helper';
+
+@Injectable()
+export class DncService {
+  constructor(
+    @InjectModel(DncEntry.name) private dncModel: Model<DncEntry>,
+    private readonly callHistoryService: CallHistoryService,
+  ) {}
+
+  // Normalize phone number to E.164 like campaign contacts - null when it cannot be parsed
+  private toE164(phone: string, defaultCountry?: string): string | null {
+    const result = normalizePhoneNumber(phone, defaultCountry);
+    return result.valid ? result.e164 : null;
+  }
+
+  // Add a number to the user's list (no-op if it is already there) - null when the number is invalid
+  async add(
+    userId: string,
+    data: {
+      phoneNumber: string;
+      name?: string;
+      reason?: string;
+      source?: DncSource;
+      callId?: string;
+    },
+    defaultCountry?: string,
+  ): Promise<DncEntry | null> {
+    const phoneNumber = this.toE164(data.phoneNumber, defaultCountry);
+    if (!phoneNumber) {
+      return null;
+    }
+
+    const entry = await this.dncModel
+      .findOneAndUpdate(
+        { userId, phoneNumber },
+        {
+          $setOnInsert: {
+            userId,
+            phoneNumber,
+            name: data.name,
+            reason: data.reason,
+            source: data.source || 'manual',
+            callId: data.callId,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+    return entry;
+  }
+
+  // Get the user's list with pagination and optional phone/name search
+  async findByUserId(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    search?: string,
+  ): Promise<{
+    entries: DncEntry[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    const skip = (page - 1) * limit;
+    const query: Record<string, any> = { userId };
+    if (search) {
+      const pattern = new RegExp(
+        search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+        'i',
+      );
+      query.$or = [{ phoneNumber: pattern }, { name: pattern }];
+    }
+
+    const [entries, total] = await Promise.all([
+      this.dncModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.dncModel.countDocuments(query).exec(),
+    ]);
+
+    return { entries, total, page, pages: Math.ceil(total / limit) };
+  }
+
+  // Get every entry for export
+  async findAllByUserId(userId: string): Promise<DncEntry[]> {
+    return this.dncModel.find({ userId }).sort({ createdAt: -1 }).exec();
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    data: { name?: string; reason?: string },
+  ): Promise<DncEntry | null> {
+    return this.dncModel
+      .findOneAndUpdate(
+        { _id: id, userId },
+        { $set: { name: data.name, reason: data.reason } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async remove(userId: string, id: string): Promise<DncEntry | null> {
+    return this.dncModel.findOneAndDelete({ _id: id, userId }).exec();
+  }
+
+  // Check if a single number is on the user's list (only valid numbers can be on it)
+  async isBlocked(userId: string, phoneNumber: string): Promise<boolean> {
+    const normalized = this.toE164(phoneNumber);
+    if (!normalized) {
+      return false;
+    }
+
+    const count = await this.dncModel
+      .countDocuments({ userId, phoneNumber: normalized })
+      .exec();
+    return count > 0;
+  }
+
+  // Split items into those that may be dialled and those on the user's list
+  async filterBlocked<T extends { phoneNumber: string }>(
+    userId: string,
+    items: T[],
+  ): Promise<{ allowed: T[]; blocked: T[] }> {
+    if (items.length === 0) {
+      return { allowed: [], blocked: [] };
+    }
+
+    const numbers = [
+      ...new Set(items.map((item) => this.toE164(item.phoneNumber))),
+    ].filter((phoneNumber): phoneNumber is string => !!phoneNumber);
+    const entries = await this.dncModel
+      .find({ userId, phoneNumber: { $in: numbers } })
+      .select('phoneNumber')
+      .exec();
+    const blockedNumbers = new Set(entries.map((e) => e.phoneNumber));
+
+    const allowed: T[] = [];
+    const blocked: T[] = [];
+    for (const item of items) {
+      const phoneNumber = this.toE164(item.phoneNumber);
+      if (phoneNumber && blockedNumbers.has(phoneNumber)) {
+        blocked.push(item);
+      } else {
+        allowed.push(item);
+      }
+    }
+    return { allowed, blocked };
+  }
+
+  // Bulk add numbers from an import - existing numbers are left untouched
+  async importEntries(
+    userId: string,
+    rows: { phoneNumber: string; name?: string; reason?: string }[],
+    defaultCountry?: string,
+  ): Promise<{ imported: number; duplicates: number; invalid: number }> {
+    let imported = 0;
+    let duplicates = 0;
+    let invalid = 0;
+
+    for (const row of rows) {
+      const normalized = normalizePhoneNumber(row.phoneNumber, defaultCountry);
+      if (!normalized.valid) {
+        invalid++;
+        continue;
+      }
+      const phoneNumber = normalized.e164;
+
+      const result = await this.dncModel
+        .updateOne(
+          { userId, phoneNumber },
+          {
+            $setOnInsert: {
+              userId,
+              phoneNumber,
+              name: row.name,
+              reason: row.reason,
+              source: 'import',
+            },
+          },
+          { upsert: true },
+        )
+        .exec();
+
+      if (result.upsertedCount > 0) {
+        imported++;
+      } else {
+        duplicates++;
+      }
+    }
+
+    return { imported, duplicates, invalid };
+  }
+
+  /**
+   * Add the customer of an in-progress call to the call owner's list
+   * Used by the built-in agent tool when a caller asks not to be called again
+   */
+  async addFromCall(callId: string, reason?: string): Promise<DncEntry | null> {
+    const callHistory =
+      await this.callHistoryService.findByTalkrixCallId(callId);
+    if (!callHistory?.customerPhone) {
+      return null;
+    }
+
+    return this.add(callHistory.userId, {
+      phoneNumber: callHistory.customerPhone,
+      name: callHistory.customerName,
+      reason: reason || 'Caller asked not to be called again',
+      source: 'agent-tool',
+      callId,
+    });
+  }
+}
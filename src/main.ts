@@ -11,6 +11,7 @@ async function bootstrap() {
 
   const app = await NestFactory.create(AppModule, {
     logger: new AppLogger(),
+    rawBody: true, // Keep the raw request body for webhook signature verification
   });
   const configService = app.get(ConfigService);
   app.useGlobalFilters(new AllExceptionsFilter());
@@ -0,0 +1,108 @@
+import {
+  isSupportedCountry,
+  normalizePhoneNumber,
+} from './phone-number.helper';
+
+describe('phone-number.helper', () => {
+  describe('isSupportedCountry', () => {
+    it('accepts known country codes in any case', () => {
+      expect(isSupportedCountry('US')).toBe(true);
+      expect(isSupportedCountry('in')).toBe(true);
+    });
+
+    it('rejects unknown or missing country codes', () => {
+      expect(isSupportedCountry('XX')).toBe(false);
+      expect(isSupportedCountry('')).toBe(false);
+      expect(isSupportedCountry(undefined)).toBe(false);
+    });
+  });
+
+  describe('normalizePhoneNumber', () => {
+    it('keeps international numbers in E.164', () => {
+      expect(normalizePhoneNumber('+1 (201) 555-0123')).toEqual({
+        valid: true,
+        e164: '+12015550123',
+        country: 'US',
+      });
+    });
+
+    it('reads a 00 prefix as +', () => {
+      expect(normalizePhoneNumber('00919876543210')).toEqual({
+        valid: true,
+        e164: '+919876543210',
+        country: 'IN',
+      });
+      expect(normalizePhoneNumber('0044 20 7123 4567', 'US')).toEqual({
+        valid: true,
+        e164: '+442071234567',
+        country: 'GB',
+      });
+    });
+
+    it('reads national numbers as numbers of the default country', () => {
+      expect(normalizePhoneNumber('(201) 555-0123', 'US')).toEqual({
+        valid: true,
+        e164: '+12015550123',
+        country: 'US',
+      });
+      expect(normalizePhoneNumber('09876543210', 'in')).toEqual({
+        valid: true,
+        e164: '+919876543210',
+        country: 'IN',
+      });
+    });
+
+    it('keeps the country code of international numbers over the default country', () => {
+      expect(normalizePhoneNumber('+12015550123', 'GB')).toEqual({
+        valid: true,
+        e164: '+12015550123',
+        country: 'US',
+      });
+    });
+
+    it('reads digits without a default country as an international number', () => {
+      expect(normalizePhoneNumber(919876543210)).toEqual({
+        valid: true,
+        e164: '+919876543210',
+        country: 'IN',
+      });
+    });
+
+    it('rejects national numbers without a default country', () => {
+      const expected = {
+        valid: false,
+        error: 'Phone number has no country code and no default country is set',
+      };
+
+      expect(normalizePhoneNumber('09876543210')).toEqual(expected);
+      expect(normalizePhoneNumber('09876543210', 'XX')).toEqual(expected);
+    });
+
+    it('rejects empty input', () => {
+      for (const raw of ['', '   ', null, undefined]) {
+        expect(normalizePhoneNumber(raw, 'US')).toEqual({
+          valid: false,
+          error: 'Phone number is empty',
+        });
+      }
+    });
+
+    it('rejects input that is not a phone number', () => {
+      expect(normalizePhoneNumber('call me', 'US')).toEqual({
+        valid: false,
+        error: 'Phone number could not be parsed',
+      });
+    });
+
+    it('rejects numbers that are not valid', () => {
+      expect(normalizePhoneNumber('+1201555')).toEqual({
+        valid: false,
+        error: 'Phone number is not valid',
+      });
+      expect(normalizePhoneNumber('201 555', 'US')).toEqual({
+        valid: false,
+        error: 'Phone number is not valid for US',
+      });
+    });
+  });
+});
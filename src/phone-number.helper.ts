@@ -0,0 +1,64 @@
+import {
+  parsePhoneNumberFromString,
+  isSupportedCountry as isKnownCountry,
+  CountryCode,
+} from 'libphonenumber-js';
+
+export type PhoneNumberResult =
+  | { valid: true; e164: string; country?: string }
+  | { valid: false; error: string };
+
+// Check if a string is an ISO 3166-1 alpha-2 country code known to the phone number metadata
+export function isSupportedCountry(country?: string): boolean {
+  return !!country && isKnownCountry(country.toUpperCase());
+}
+
+/**
+ * Normalize a phone number to E.164 (e.g. +919876543210)
+ * Numbers without a country code are read as national numbers of defaultCountry.
+ * "00" international prefixes are accepted in place of "+".
+ */
+export function normalizePhoneNumber(
+  raw: string | number | null | undefined,
+  defaultCountry?: string,
+): PhoneNumberResult {
+  const input = String(raw ?? '').trim();
+  if (!input) {
+    return { valid: false, error: 'Phone number is empty' };
+  }
+
+  const cleaned = input.replace(/^00/, '+');
+  const country = isSupportedCountry(defaultCountry)
+    ? (defaultCountry!.toUpperCase() as CountryCode)
+    : undefined;
+
+  if (!cleaned.startsWith('+') && !country) {
+    // Without a default country only full international numbers can be read
+    const digitsOnly = cleaned.replace(/\D/g, '');
+    const asInternational = parsePhoneNumberFromString(`+${digitsOnly}`);
+    if (asInternational?.isValid()) {
+      return {
+        valid: true,
+        e164: asInternational.number,
+        country: asInternational.country,
+      };
+    }
+    return {
+      valid: false,
+      error: 'Phone number has no country code and no default country is set',
+    };
+  }
+
+  const parsed = parsePhoneNumberFromString(cleaned, country);
+  if (!parsed) {
+    return { valid: false, error: 'Phone number could not be parsed' };
+  }
+  if (!parsed.isValid()) {
+    return {
+      valid: false,
+      error: `Phone number is not valid${parsed.country ? ` for ${parsed.country}` : ''}`,
+    };
+  }
+
+  return { valid: true, e164: parsed.number, country: parsed.country };
+}
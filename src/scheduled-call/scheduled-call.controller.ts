@@ -0,0 +1,444 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ScheduledCallService } from './scheduled-call.service';
+import { ScheduledCall, ScheduledCallStatus } from './scheduled-call.schema';
+import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
+import { ResponseHelper } from '../response.helper';
+import { AppLogger } from '../app.logger';
+import { AgentService } from '../agent/agent.service';
+import { buildTemplateContext } from '../agent/template-context.util';
+import { UserService } from '../user/user.service';
+import { DncService } from '../dnc/dnc.service';
+import { normalizePhoneNumber } from '../phone-number.helper';
+import { parseCallbackTime } from '../campaign/callback.util';
+import {
+  getTimezoneForPhoneNumber,
+  isValidTimezone,
+} from '../campaign/phone-timezone.util';
+import { validateRetryPolicy } from '../campaign/retry-policy.util';
+import { CampaignRetryPolicy } from '../campaign/campaign.schema';
+
+const SCHEDULED_CALL_STATUSES: ScheduledCallStatus[] = [
+  'scheduled',
+  'in-progress',
+  'completed',
+  'no-answer',
+  'voicemail',
+  'failed',
+  'cancelled',
+];
+
+// Request with the user set by AuthOrApiKeyGuard
+interface AuthenticatedRequest {
+  user?: { sub?: string; email?: string };
+  apiUser?: { _id?: Types.ObjectId; email?: string };
+}
+
+@Controller('scheduled-calls')
+export class ScheduledCallController {
+  constructor(
+    private readonly scheduledCallService: ScheduledCallService,
+    private readonly agentService: AgentService,
+    private readonly userService: UserService,
+    private readonly dncService: DncService,
+    private readonly responseHelper: ResponseHelper,
+    private readonly logger: AppLogger,
+  ) {}
+
+  // Helper to extract user info from JWT token or API key
+  private getUserFromRequest(
+    req: AuthenticatedRequest,
+  ): { userId: string; email?: string } | null {
+    if (req.user?.sub) {
+      return { userId: String(req.user.sub), email: req.user.email };
+    }
+    if (req.apiUser?._id) {
+      return { userId: String(req.apiUser._id), email: req.apiUser.email };
+    }
+    return null;
+  }
+
+  /**
+   * Normalize the caller ID to E.164 and find the provider it belongs to
+   * The number must be one of the user's configured numbers (for `provider` when given)
+   */
+  private async checkFromPhoneNumber(
+    userId: string,
+    fromPhoneNumber: string,
+    provider?: ScheduledCall['provider'],
+  ): Promise<{
+    fromPhoneNumber?: string;
+    provider?: ScheduledCall['provider'];
+    error?: string;
+  }> {
+    const phone = normalizePhoneNumber(fromPhoneNumber);
+    if (!phone.valid) {
+      return { error: `Invalid fromPhoneNumber: ${phone.error}` };
+    }
+
+    const telephony = (await this.userService.findById(userId))?.settings
+      ?.telephony;
+    const numbersByProvider: Record<
+      ScheduledCall['provider'],
+      string[] | undefined
+    > = {
+      twilio: telephony?.twilioPhoneNumbers,
+      plivo: telephony?.plivoPhoneNumbers,
+      telnyx: telephony?.telnyxPhoneNumbers,
+    };
+    const providers = provider
+      ? [provider]
+      : (Object.keys(numbersByProvider) as ScheduledCall['provider'][]);
+    const match = providers.find((p) =>
+      (numbersByProvider[p] || []).some((number) => {
+        const configured = normalizePhoneNumber(number);
+        return (configured.valid ? configured.e164 : number) === phone.e164;
+      }),
+    );
+    if (!match) {
+      return {
+        error: `${phone.e164} is not one of your ${provider ? `${provider} ` : ''}phone numbers`,
+      };
+    }
+    return { fromPhoneNumber: phone.e164, provider: match };
+  }
+
+  // Read a run time in the given timezone - returns the time or an error message
+  private parseRunAt(
+    runAt: unknown,
+    timezone: string,
+  ): { runAt?: Date; error?: string } {
+    if (typeof runAt !== 'string' || !runAt.trim()) {
+      return { error: 'runAt is required' };
+    }
+    const parsed = parseCallbackTime(runAt, timezone, new Date(), 'run');
+    return parsed.error
+      ? { error: parsed.error }
+      : { runAt: parsed.scheduledAt };
+  }
+
+  /**
+   * Schedule a call to one number
+   * Body: { agentId, phoneNumber, fromPhoneNumber, runAt, timezone?, provider?, customerName?,
+   *         contextVariables?, retryPolicy? }
+   * runAt is read in `timezone` (default: the callee's region) unless it carries an offset,
+   * e.g. "2026-03-14 16:00", "today 16:00", "in 2 hours" or "2026-03-14T10:30:00Z"
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post()
+  async create(
+    @Body()
+    body: {
+      agentId?: string;
+      phoneNumber?: string;
+      fromPhoneNumber?: string;
+      runAt?: string;
+      timezone?: string;
+      provider?: ScheduledCall['provider'];
+      customerName?: string;
+      contextVariables?: Record<string, any>;
+      retryPolicy?: CampaignRetryPolicy;
+    },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      if (!body?.agentId || !body?.phoneNumber || !body?.fromPhoneNumber) {
+        return this.responseHelper.error(
+          'agentId, phoneNumber and fromPhoneNumber are required',
+          400,
+        );
+      }
+      if (
+        body.provider !== undefined &&
+        !['twilio', 'plivo', 'telnyx'].includes(body.provider)
+      ) {
+        return this.responseHelper.error(
+          'provider must be one of: twilio, plivo, telnyx',
+          400,
+        );
+      }
+      if (body.timezone !== undefined && !isValidTimezone(body.timezone)) {
+        return this.responseHelper.error(
+          `Invalid timezone: ${body.timezone}`,
+          400,
+        );
+      }
+      if (
+        body.contextVariables !== undefined &&
+        (typeof body.contextVariables !== 'object' ||
+          body.contextVariables === null ||
+          Array.isArray(body.contextVariables))
+      ) {
+        return this.responseHelper.error(
+          'contextVariables must be an object',
+          400,
+        );
+      }
+      const retryPolicyError = validateRetryPolicy(body.retryPolicy);
+      if (retryPolicyError) {
+        return this.responseHelper.error(retryPolicyError, 400);
+      }
+
+      const agent = await this.agentService.findOne(body.agentId);
+      if (!agent || agent.userId !== userInfo.userId) {
+        return this.responseHelper.error('Agent not found', 404);
+      }
+
+      const settings = await this.userService.getSettings(userInfo.userId);
+      const phone = normalizePhoneNumber(
+        body.phoneNumber,
+        settings?.defaultCountry,
+      );
+      if (!phone.valid) {
+        return this.responseHelper.error(
+          `Invalid phone number: ${phone.error}`,
+          400,
+        );
+      }
+      if (await this.dncService.isBlocked(userInfo.userId, phone.e164)) {
+        return this.responseHelper.error(
+          'Phone number is on the do-not-call list',
+          403,
+        );
+      }
+
+      const callerId = await this.checkFromPhoneNumber(
+        userInfo.userId,
+        body.fromPhoneNumber,
+        body.provider,
+      );
+      if (callerId.error) {
+        return this.responseHelper.error(callerId.error, 400);
+      }
+
+      // Values are checked against the agent's declared template variables now, not when the call is due
+      const templateContext = buildTemplateContext(
+        agent.callTemplate?.contextSchema,
+        body.contextVariables,
+      );
+      if (templateContext.errors.length > 0) {
+        return this.responseHelper.error(
+          'Invalid contextVariables',
+          400,
+          templateContext.errors,
+        );
+      }
+
+      const timezone =
+        body.timezone || getTimezoneForPhoneNumber(phone.e164) || 'UTC';
+      const schedule = this.parseRunAt(body.runAt, timezone);
+      if (schedule.error) {
+        return this.responseHelper.error(schedule.error, 400);
+      }
+
+      const scheduledCall = await this.scheduledCallService.create({
+        userId: userInfo.userId,
+        agentId: agent._id.toString(),
+        agentName: agent.name,
+        phoneNumber: phone.e164,
+        customerName: body.customerName,
+        provider: callerId.provider,
+        fromPhoneNumber: callerId.fromPhoneNumber,
+        runAt: schedule.runAt,
+        timezone,
+        requestedTime: body.runAt,
+        contextVariables: body.contextVariables,
+        retryPolicy: body.retryPolicy,
+      });
+
+      this.logger.log(
+        `Call to ${phone.e164} scheduled for ${schedule.runAt!.toISOString()} by user ${userInfo.userId}`,
+      );
+      return this.responseHelper.success(scheduledCall, 'Call scheduled', 201);
+    } catch (err) {
+      this.logger.error('Error scheduling call', err);
+      return this.responseHelper.error(
+        'Failed to schedule call',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Get the current user's scheduled calls with pagination, optionally filtered by status
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get()
+  async findAll(
+    @Req() req: AuthenticatedRequest,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('status') status?: string,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    if (
+      status &&
+      !SCHEDULED_CALL_STATUSES.includes(status as ScheduledCallStatus)
+    ) {
+      return this.responseHelper.error(
+        `status must be one of: ${SCHEDULED_CALL_STATUSES.join(', ')}`,
+        400,
+      );
+    }
+
+    try {
+      const result = await this.scheduledCallService.findByUserId(
+        userInfo.userId,
+        page ? parseInt(page, 10) : 1,
+        limit ? parseInt(limit, 10) : 20,
+        status as ScheduledCallStatus | undefined,
+      );
+      return this.responseHelper.success(result, 'Scheduled calls fetched');
+    } catch (err) {
+      this.logger.error('Error fetching scheduled calls', err);
+      return this.responseHelper.error(
+        'Failed to fetch scheduled calls',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Get a single scheduled call with its attempts
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get(':id')
+  async findOne(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const scheduledCall = await this.scheduledCallService.findOne(id);
+      if (!scheduledCall || scheduledCall.userId !== userInfo.userId) {
+        return this.responseHelper.error('Scheduled call not found', 404);
+      }
+      return this.responseHelper.success(
+        scheduledCall,
+        'Scheduled call fetched',
+      );
+    } catch (err) {
+      this.logger.error('Error fetching scheduled call', err);
+      return this.responseHelper.error(
+        'Failed to fetch scheduled call',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Move a scheduled call to another time
+   * Body: { runAt, timezone? } - the call's timezone is kept when none is given
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Put(':id/reschedule')
+  async reschedule(
+    @Param('id') id: string,
+    @Body() body: { runAt?: string; timezone?: string },
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const scheduledCall = await this.scheduledCallService.findOne(id);
+      if (!scheduledCall || scheduledCall.userId !== userInfo.userId) {
+        return this.responseHelper.error('Scheduled call not found', 404);
+      }
+      if (body?.timezone !== undefined && !isValidTimezone(body.timezone)) {
+        return this.responseHelper.error(
+          `Invalid timezone: ${body.timezone}`,
+          400,
+        );
+      }
+
+      const timezone = body?.timezone || scheduledCall.timezone;
+      const schedule = this.parseRunAt(body?.runAt, timezone);
+      if (schedule.error) {
+        return this.responseHelper.error(schedule.error, 400);
+      }
+
+      const updated = await this.scheduledCallService.reschedule(id, {
+        runAt: schedule.runAt!,
+        timezone,
+        requestedTime: body.runAt,
+      });
+      if (!updated) {
+        return this.responseHelper.error(
+          `Only scheduled calls can be rescheduled (call is ${scheduledCall.status})`,
+          409,
+        );
+      }
+
+      this.logger.log(
+        `Scheduled call ${id} moved to ${schedule.runAt!.toISOString()}`,
+      );
+      return this.responseHelper.success(updated, 'Call rescheduled');
+    } catch (err) {
+      this.logger.error('Error rescheduling call', err);
+      return this.responseHelper.error(
+        'Failed to reschedule call',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // Cancel a call that has not been dialled yet (or is waiting for a retry)
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post(':id/cancel')
+  async cancel(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const scheduledCall = await this.scheduledCallService.findOne(id);
+      if (!scheduledCall || scheduledCall.userId !== userInfo.userId) {
+        return this.responseHelper.error('Scheduled call not found', 404);
+      }
+
+      const cancelled = await this.scheduledCallService.cancel(id);
+      if (!cancelled) {
+        return this.responseHelper.error(
+          `Only scheduled calls can be cancelled (call is ${scheduledCall.status})`,
+          409,
+        );
+      }
+
+      this.logger.log(
+        `Scheduled call ${id} cancelled by user ${userInfo.userId}`,
+      );
+      return this.responseHelper.success(cancelled, 'Scheduled call cancelled');
+    } catch (err) {
+      this.logger.error('Error cancelling scheduled call', err);
+      return this.responseHelper.error(
+        'Failed to cancel scheduled call',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+}
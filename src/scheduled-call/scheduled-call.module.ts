@@ -0,0 +1,35 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ScheduledCall, ScheduledCallSchema } from './scheduled-call.schema';
+import { ScheduledCallService } from './scheduled-call.service';
+import { ScheduledCallController } from './scheduled-call.controller';
+import { UserModule } from '../user/user.module';
+import { SharedModule } from '../shared.module';
+import { AgentModule } from '../agent/agent.module';
+import { DncModule } from '../dnc/dnc.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ScheduledCall.name, schema: ScheduledCallSchema },
+    ]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get('JWT_SECRET'),
+        signOptions: { expiresIn: '1d' },
+      }),
+      inject: [ConfigService],
+    }),
+    UserModule,
+    SharedModule,
+    forwardRef(() => AgentModule),
+    forwardRef(() => DncModule),
+  ],
+  providers: [ScheduledCallService],
+  controllers: [ScheduledCallController],
+  exports: [ScheduledCallService],
+})
+export class ScheduledCallModule {}
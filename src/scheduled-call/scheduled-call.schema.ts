@@ -0,0 +1,106 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  CallAttempt,
+  CallAttemptSchema,
+  CampaignRetryPolicy,
+  CampaignRetryPolicySchema,
+} from '../campaign/campaign.schema';
+
+// scheduled: waiting for its run time (or for a retry)
+// in-progress: being dialled - the outcome of the call decides the next status
+// completed / no-answer / voicemail / failed: final outcome of the last attempt
+// cancelled: cancelled by the user before it was dialled
+export type ScheduledCallStatus =
+  | 'scheduled'
+  | 'in-progress'
+  | 'completed'
+  | 'no-answer'
+  | 'voicemail'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * A single outbound call to one number at a set time, outside of any campaign
+ * Dialled by the campaign scheduler in the user's concurrency slots; every attempt gets its
+ * own CallHistory record (metadata.scheduledCallId points back here)
+ */
+@Schema({ timestamps: true })
+export class ScheduledCall extends Document<Types.ObjectId> {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  agentId: string;
+
+  @Prop()
+  agentName?: string;
+
+  @Prop({ required: true })
+  phoneNumber: string; // E.164
+
+  @Prop()
+  customerName?: string;
+
+  @Prop({ required: true, enum: ['twilio', 'plivo', 'telnyx'] })
+  provider: 'twilio' | 'plivo' | 'telnyx';
+
+  @Prop({ required: true })
+  fromPhoneNumber: string; // E.164, one of the user's numbers for the provider
+
+  @Prop({ required: true })
+  runAt: Date; // When the call was asked for
+
+  @Prop({ required: true })
+  timezone: string; // IANA timezone runAt was given in
+
+  @Prop()
+  requestedTime?: string; // runAt as it was sent, e.g. "tomorrow 10:30am"
+
+  @Prop({ type: Object })
+  contextVariables?: Record<string, any>; // Values for the agent's template variables
+
+  @Prop({ type: CampaignRetryPolicySchema })
+  retryPolicy?: CampaignRetryPolicy; // Optional - the call is dialled once when not set
+
+  @Prop({
+    enum: [
+      'scheduled',
+      'in-progress',
+      'completed',
+      'no-answer',
+      'voicemail',
+      'failed',
+      'cancelled',
+    ],
+    default: 'scheduled',
+  })
+  status: ScheduledCallStatus;
+
+  @Prop()
+  nextAttemptAt?: Date; // When the scheduler dials it next - runAt, then the retry time
+
+  @Prop({ type: [CallAttemptSchema], default: [] })
+  attempts?: CallAttempt[];
+
+  @Prop()
+  callId?: string; // Ultravox call ID of the current or last attempt
+
+  @Prop()
+  providerCallId?: string;
+
+  @Prop()
+  callHistoryId?: string;
+
+  @Prop()
+  calledAt?: Date; // When the current or last attempt was dialled
+
+  @Prop()
+  cancelledAt?: Date;
+}
+
+export const ScheduledCallSchema = SchemaFactory.createForClass(ScheduledCall);
+
+ScheduledCallSchema.index({ status: 1, nextAttemptAt: 1 });
+ScheduledCallSchema.index({ userId: 1, status: 1, nextAttemptAt: 1 });
+ScheduledCallSchema.index({ callId: 1 }, { sparse: true });
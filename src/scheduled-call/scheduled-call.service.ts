@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ScheduledCall, ScheduledCallStatus } from './scheduled-call.schema';
+import { CallAttempt, CallAttemptOutcome } from '../campaign/campaign.schema';
+import { AppLogger } from '../app.logger';
+
+@Injectable()
+export class ScheduledCallService {
+  constructor(
+    @InjectModel(ScheduledCall.name)
+    private scheduledCallModel: Model<ScheduledCall>,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async create(data: Partial<ScheduledCall>): Promise<ScheduledCall> {
+    return this.scheduledCallModel.create({
+      ...data,
+      status: 'scheduled',
+      nextAttemptAt: data.runAt,
+    });
+  }
+
+  // A user's scheduled calls with pagination, next due first
+  async findByUserId(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    status?: ScheduledCallStatus,
+  ): Promise<{
+    scheduledCalls: ScheduledCall[];
+    total: number;
+    page: number;
+    pages: number;
+    limit: number;
+  }> {
+    const filter: Record<string, any> = { userId };
+    if (status) filter.status = status;
+
+    const skip = (page - 1) * limit;
+    const [scheduledCalls, total] = await Promise.all([
+      this.scheduledCallModel
+        .find(filter)
+        .sort({ nextAttemptAt: 1, runAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.scheduledCallModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      scheduledCalls,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+      limit,
+    };
+  }
+
+  async findOne(id: string): Promise<ScheduledCall | null> {
+    if (!Types.ObjectId.isValid(id)) return null;
+    return this.scheduledCallModel.findById(id).exec();
+  }
+
+  // Move a call that has not been dialled yet (or waits for a retry) to a new run time
+  // Returns null when the call is no longer scheduled
+  async reschedule(
+    id: string,
+    schedule: { runAt: Date; timezone: string; requestedTime?: string },
+  ): Promise<ScheduledCall | null> {
+    return this.scheduledCallModel
+      .findOneAndUpdate(
+        { _id: id, status: 'scheduled' },
+        { $set: { ...schedule, nextAttemptAt: schedule.runAt } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Cancel a call that has not been dialled yet - returns null when the call is no longer scheduled
+  async cancel(id: string): Promise<ScheduledCall | null> {
+    return this.scheduledCallModel
+      .findOneAndUpdate(
+        { _id: id, status: 'scheduled' },
+        {
+          $set: {
+            status: 'cancelled',
+            cancelledAt: new Date(),
+            nextAttemptAt: null,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // Users with at least one call due now
+  async findUsersWithDueCalls(): Promise<string[]> {
+    return this.scheduledCallModel
+      .distinct('userId', {
+        status: 'scheduled',
+        nextAttemptAt: { $lte: new Date() },
+      })
+      .exec();
+  }
+
+  /**
+   * Atomically claim the user's next due call for dialling (scheduled -> in-progress)
+   * The references of the previous attempt are cleared, so its late events don't match this one
+   */
+  async claimDueCall(userId: string): Promise<ScheduledCall | null> {
+    const now = new Date();
+    return this.scheduledCallModel
+      .findOneAndUpdate(
+        { userId, status: 'scheduled', nextAttemptAt: { $lte: now } },
+        {
+          $set: {
+            status: 'in-progress',
+            calledAt: now,
+            callId: null,
+            providerCallId: null,
+            callHistoryId: null,
+          },
+        },
+        { sort: { nextAttemptAt: 1 }, new: true },
+      )
+      .exec();
+  }
+
+  // Put a claimed call back when it could not be dialled yet (no free slot)
+  async releaseClaim(id: string): Promise<void> {
+    await this.scheduledCallModel
+      .updateOne(
+        { _id: id, status: 'in-progress', callId: null },
+        { $set: { status: 'scheduled' }, $unset: { calledAt: 1 } },
+      )
+      .exec();
+  }
+
+  async attachCall(
+    id: string,
+    call: { callId: string; providerCallId?: string; callHistoryId: string },
+  ): Promise<void> {
+    await this.scheduledCallModel
+      .updateOne({ _id: id, status: 'in-progress' }, { $set: call })
+      .exec();
+  }
+
+  // In-progress calls dialled before `before` - candidates for the stale call timeout
+  async findInProgressSince(before: Date): Promise<ScheduledCall[]> {
+    return this.scheduledCallModel
+      .find({ status: 'in-progress', calledAt: { $lte: before } })
+      .exec();
+  }
+
+  /**
+   * Record the outcome of an attempt and apply the call's retry policy
+   * Works like CampaignService.recordCallAttempt: only an in-progress call matching the attempt's
+   * call IDs is updated, so duplicate end events are ignored. Before the call IDs are attached an
+   * event only matches when it carries the attempt's calledAt, so a late event of the previous
+   * attempt cannot end a re-claimed call. A retryable outcome with attempts left puts the call back
+   * to scheduled at now + retryDelayMinutes.
+   * Returns null when no in-progress call matched (already finalized or not found)
+   */
+  async recordCallAttempt(
+    id: string,
+    match: { callId?: string; providerCallId?: string; calledAt?: Date },
+    outcome: CallAttemptOutcome,
+    callData?: { callDuration?: number; callNotes?: string },
+  ): Promise<{ scheduledCall: ScheduledCall; willRetry: boolean } | null> {
+    if (!Types.ObjectId.isValid(id)) return null;
+
+    const scheduledCallMatch: Record<string, any> = {
+      _id: id,
+      status: 'in-progress',
+    };
+    const callIds = [match.callId, match.providerCallId].filter(
+      (callId): callId is string => !!callId,
+    );
+    if (callIds.length > 0) {
+      const callMatch: Record<string, any>[] = [
+        { callId: { $in: callIds } },
+        { providerCallId: { $in: callIds } },
+      ];
+      // The call IDs are attached once the call is created - an end event can arrive before that
+      if (match.calledAt) {
+        callMatch.push({ callId: null, calledAt: match.calledAt });
+      }
+      scheduledCallMatch.$or = callMatch;
+    }
+
+    const scheduledCall = await this.scheduledCallModel
+      .findOne(scheduledCallMatch)
+      .exec();
+    if (!scheduledCall) return null;
+
+    const now = new Date();
+    const attemptNumber = (scheduledCall.attempts?.length || 0) + 1;
+    const policy = scheduledCall.retryPolicy;
+    const retryOn: string[] = policy?.retryOn ?? [];
+    const willRetry =
+      retryOn.includes(outcome) && attemptNumber < (policy?.maxAttempts ?? 1);
+
+    const attempt: CallAttempt = {
+      attemptNumber,
+      callId: scheduledCall.callId,
+      providerCallId: scheduledCall.providerCallId,
+      outcome,
+      startedAt: scheduledCall.calledAt,
+      endedAt: now,
+      callDuration: callData?.callDuration,
+      notes: callData?.callNotes,
+    };
+
+    const updateFields: Record<string, any> = willRetry
+      ? {
+          status: 'scheduled',
+          nextAttemptAt: new Date(
+            now.getTime() + (policy?.retryDelayMinutes ?? 0) * 60 * 1000,
+          ),
+        }
+      : { status: this.outcomeToStatus(outcome), nextAttemptAt: null };
+
+    const updated = await this.scheduledCallModel
+      .findOneAndUpdate(
+        { _id: scheduledCall._id, status: 'in-progress' },
+        { $set: updateFields, $push: { attempts: attempt } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) return null;
+
+    this.logger.log(
+      `Scheduled call ${id} attempt ${attemptNumber}: outcome=${outcome}, status=${updated.status}` +
+        (willRetry
+          ? ` (retry at ${updated.nextAttemptAt?.toISOString()})`
+          : ''),
+    );
+    return { scheduledCall: updated, willRetry };
+  }
+
+  // Map an attempt outcome to the final status of the call
+  private outcomeToStatus(outcome: CallAttemptOutcome): ScheduledCallStatus {
+    switch (outcome) {
+      case 'completed':
+        return 'completed';
+      case 'no-answer':
+        return 'no-answer';
+      case 'voicemail':
+        return 'voicemail';
+      default:
+        return 'failed';
+    }
+  }
+}
@@ -11,12 +11,14 @@ import { ResponseHelper } from '../response.helper';
 import { AppLogger } from '../app.logger';
 import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
 import { TelephonyProvider } from './user.schema';
+import { isSupportedCountry } from '../phone-number.helper';
 
 // DTOs for settings updates
 interface UpdateGeneralSettingsDto {
   maxConcurrentCalls?: number;
   maxRagDocuments?: number;
   maxAgents?: number;
+  defaultCountry?: string;
 }
 
 interface UpdateTelephonySettingsDto {
@@ -33,6 +35,7 @@ interface UpdateTelephonySettingsDto {
   telnyxApiKey?: string;
   telnyxPhoneNumbers?: string[];
   telnyxConnectionId?: string;
+  telnyxPublicKey?: string;
 }
 
 @Controller('settings')
@@ -81,6 +84,7 @@ export class SettingsController {
           maxConcurrentCalls: settings.maxConcurrentCalls ?? 2,
           maxRagDocuments: settings.maxRagDocuments ?? 1,
           maxAgents: settings.maxAgents ?? 10,
+          defaultCountry: settings.defaultCountry || null,
         },
         telephony: {
           provider: telephony.provider || 'none',
@@ -96,6 +100,7 @@ export class SettingsController {
           telnyxApiKey: telephony.telnyxApiKey ? '********' : null,
           telnyxPhoneNumbers: telephony.telnyxPhoneNumbers || [],
           telnyxConnectionId: telephony.telnyxConnectionId || null,
+          telnyxPublicKey: telephony.telnyxPublicKey || null,
         },
         apiKey: user.apiKey ? this.maskString(user.apiKey) : null,
         maxCorpusLimit: user.maxCorpusLimit ?? 1,
@@ -128,6 +133,15 @@ export class SettingsController {
       if (body.maxAgents !== undefined && (body.maxAgents < 1 || body.maxAgents > 50)) {
         return this.responseHelper.error('maxAgents must be between 1 and 50', 400);
       }
+      if (body.defaultCountry !== undefined) {
+        body.defaultCountry = String(body.defaultCountry).toUpperCase();
+        if (!isSupportedCountry(body.defaultCountry)) {
+          return this.responseHelper.error(
+            'defaultCountry must be an ISO 3166-1 alpha-2 country code (e.g. IN, US)',
+            400,
+          );
+        }
+      }
 
       const user = await this.userService.updateGeneralSettings(userInfo.userId, body);
       if (!user) {
@@ -135,11 +149,15 @@ export class SettingsController {
       }
 
       this.logger.log(`General settings updated for user: ${userInfo.email || userInfo.userId}`);
-      return this.responseHelper.success({
-        maxConcurrentCalls: user.settings?.maxConcurrentCalls ?? 2,
-        maxRagDocuments: user.settings?.maxRagDocuments ?? 1,
-        maxAgents: user.settings?.maxAgents ?? 10,
-      }, 'General settings updated successfully');
+      return this.responseHelper.success(
+        {
+          maxConcurrentCalls: user.settings?.maxConcurrentCalls ?? 2,
+          maxRagDocuments: user.settings?.maxRagDocuments ?? 1,
+          maxAgents: user.settings?.maxAgents ?? 10,
+          defaultCountry: user.settings?.defaultCountry || null,
+        },
+        'General settings updated successfully',
+      );
     } catch (err) {
       this.logger.error('Failed to update general settings', err);
       return this.responseHelper.error('Failed to update general settings', 500, err?.message || err);
@@ -172,12 +190,21 @@ export class SettingsController {
       this.logger.log(`Telephony settings updated for user: ${userInfo.email || userInfo.userId}`);
       
       const telephony = user.settings?.telephony || {};
-      return this.responseHelper.success({
-        provider: telephony.provider || 'none',
-        plivoConfigured: !!(telephony.plivoAuthId && telephony.plivoAuthToken),
-        twilioConfigured: !!(telephony.twilioAccountSid && telephony.twilioAuthToken),
-        telnyxConfigured: !!(telephony.telnyxApiKey),
-      }, 'Telephony settings updated successfully');
+      return this.responseHelper.success(
+        {
+          provider: telephony.provider || 'none',
+          plivoConfigured: !!(
+            telephony.plivoAuthId && telephony.plivoAuthToken
+          ),
+          twilioConfigured: !!(
+            telephony.twilioAccountSid && telephony.twilioAuthToken
+          ),
+          telnyxConfigured: !!(
+            telephony.telnyxApiKey && telephony.telnyxConnectionId
+          ),
+        },
+        'Telephony settings updated successfully',
+      );
     } catch (err) {
       this.logger.error('Failed to update telephony settings', err);
       return this.responseHelper.error('Failed to update telephony settings', 500, err?.message || err);
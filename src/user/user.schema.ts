@@ -39,6 +39,9 @@ export class TelephonySettings {
 
   @Prop()
   telnyxConnectionId?: string;
+
+  @Prop()
+  telnyxPublicKey?: string; // Base64 Ed25519 key from the Telnyx portal, used to verify webhook signatures
 }
 
 export const TelephonySettingsSchema = SchemaFactory.createForClass(TelephonySettings);
@@ -55,6 +58,9 @@ export class UserSettings {
   @Prop({ default: 10 })
   maxAgents: number;
 
+  @Prop()
+  defaultCountry?: string; // ISO 3166-1 alpha-2 (e.g. 'IN', 'US') used to read phone numbers without a country code
+
   @Prop({ type: TelephonySettingsSchema, default: () => ({}) })
   telephony: TelephonySettings;
 }
@@ -45,11 +45,19 @@ export class UserService {
   }
 
   /**
-   * Update general settings (maxConcurrentCalls, maxRagDocuments, maxAgents)
+   * Update general settings (maxConcurrentCalls, maxRagDocuments, maxAgents, defaultCountry)
    */
   async updateGeneralSettings(
     userId: string,
-    settings: Partial<Pick<UserSettings, 'maxConcurrentCalls' | 'maxRagDocuments' | 'maxAgents'>>,
+    settings: Partial<
+      Pick<
+        UserSettings,
+        | 'maxConcurrentCalls'
+        | 'maxRagDocuments'
+        | 'maxAgents'
+        | 'defaultCountry'
+      >
+    >,
   ) {
     const updateFields: Record<string, any> = {};
     
@@ -62,6 +70,9 @@ export class UserService {
     if (settings.maxAgents !== undefined) {
       updateFields['settings.maxAgents'] = settings.maxAgents;
     }
+    if (settings.defaultCountry !== undefined) {
+      updateFields['settings.defaultCountry'] = settings.defaultCountry;
+    }
 
     return this.userModel.findByIdAndUpdate(
       userId,
@@ -113,6 +124,10 @@ export class UserService {
     if (telephony.telnyxConnectionId !== undefined) {
       updateFields['settings.telephony.telnyxConnectionId'] = telephony.telnyxConnectionId;
     }
+    if (telephony.telnyxPublicKey !== undefined) {
+      updateFields['settings.telephony.telnyxPublicKey'] =
+        telephony.telnyxPublicKey;
+    }
 
     return this.userModel.findByIdAndUpdate(
       userId,
@@ -0,0 +1,324 @@
+import { Injectable } from '@nestjs/common';
+import * as Twilio from 'twilio';
+import { CampaignService } from '../campaign/campaign.service';
+import { Campaign } from '../campaign/campaign.schema';
+import { AgentService } from '../agent/agent.service';
+import { UltravoxService } from '../agent/ultravox.service';
+import { PlivoService } from '../agent/plivo.service';
+import { TelnyxService } from '../agent/telnyx.service';
+import { buildTemplateContext } from '../agent/template-context.util';
+import { UserService } from '../user/user.service';
+import { TelephonySettings } from '../user/user.schema';
+import { AnsweredBy, CallHistory } from '../call-history/call-history.schema';
+import {
+  CallLifecycleService,
+  CallRef,
+} from '../call-lifecycle/call-lifecycle.service';
+import { AppLogger } from '../app.logger';
+import { escapeXml } from '../xml.helper';
+
+export type AmdProvider = 'twilio' | 'plivo' | 'telnyx';
+
+// client_state put on the Telnyx speak command of a voicemail message, so its call.speak.ended hangs up
+export const TELNYX_VOICEMAIL_CLIENT_STATE = 'voicemail';
+
+// An answering machine detection report from a provider
+export interface MachineDetectionResult {
+  provider: AmdProvider;
+  answeredBy: AnsweredBy;
+  carrierCallId: string; // ID the provider's call control API takes (Twilio CallSid, Plivo CallUUID, Telnyx call_control_id)
+  detected: boolean; // The report carries the human/machine verdict
+  greetingEnded: boolean; // The machine's greeting is over (beep), so a message can be left now
+}
+
+/**
+ * Applies a campaign's answeringMachine setting when a call reaches a machine
+ * - hangup: the call is ended as soon as the machine is detected
+ * - message: after the beep the call is taken off the agent and the pre-set message is read out
+ * - agent: after the beep the call is handed to a new Ultravox call in which the agent speaks the voicemail script
+ * Twilio and Plivo report once (Twilio after the greeting), Telnyx reports the verdict and the end of
+ * the greeting separately. The call history records who answered, so the end of the call is
+ * stored with the 'voicemail' outcome (see CallLifecycleService).
+ */
+@Injectable()
+export class AnsweringMachineService {
+  constructor(
+    private readonly campaignService: CampaignService,
+    private readonly agentService: AgentService,
+    private readonly ultravoxService: UltravoxService,
+    private readonly plivoService: PlivoService,
+    private readonly telnyxService: TelnyxService,
+    private readonly userService: UserService,
+    private readonly callLifecycleService: CallLifecycleService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  async handleResult(
+    ref: CallRef,
+    result: MachineDetectionResult,
+  ): Promise<void> {
+    const callHistory = await this.callLifecycleService.handleEvent(ref, {
+      type: 'machine-detected',
+      source: result.provider,
+      answeredBy: result.answeredBy,
+    });
+    if (result.answeredBy !== 'machine') return;
+
+    const campaignId =
+      ref.campaignId ||
+      (callHistory?.metadata?.campaignId as string | undefined)?.toString();
+    const campaign = campaignId
+      ? await this.campaignService.findOne(campaignId)
+      : null;
+    const settings = campaign?.answeringMachine;
+    if (!campaign || !settings) {
+      this.logger.log(
+        `Machine answered call ${result.carrierCallId} - no answering machine setting, leaving the call as is`,
+      );
+      return;
+    }
+
+    const user = await this.userService.findById(campaign.userId);
+    const telephony = user?.settings?.telephony;
+    if (!telephony) {
+      throw new Error(
+        `Telephony settings of user ${campaign.userId} not found`,
+      );
+    }
+
+    const action = settings.action || 'hangup';
+    if (
+      action === 'hangup' ||
+      (action === 'message' && !settings.message) ||
+      (action === 'agent' && !settings.agentScript)
+    ) {
+      if (result.detected) {
+        this.logger.log(
+          `Machine answered call ${result.carrierCallId} - hanging up (campaign ${campaign.name})`,
+        );
+        await this.hangup(result.provider, result.carrierCallId, telephony);
+      }
+      return;
+    }
+
+    // Messages are left after the beep
+    if (!result.greetingEnded) return;
+
+    if (action === 'message') {
+      this.logger.log(
+        `Machine answered call ${result.carrierCallId} - leaving the voicemail message (campaign ${campaign.name})`,
+      );
+      await this.playMessage(
+        result.provider,
+        result.carrierCallId,
+        telephony,
+        campaign,
+        ref,
+      );
+    } else {
+      this.logger.log(
+        `Machine answered call ${result.carrierCallId} - agent leaves the voicemail (campaign ${campaign.name})`,
+      );
+      await this.leaveAgentVoicemail(
+        result.provider,
+        result.carrierCallId,
+        telephony,
+        campaign,
+        ref,
+        callHistory,
+      );
+    }
+  }
+
+  // A Telnyx voicemail message finished playing - end the call
+  async handleTelnyxSpeakEnded(
+    callControlId: string,
+    campaignId?: string,
+  ): Promise<void> {
+    const campaign = campaignId
+      ? await this.campaignService.findOne(campaignId)
+      : null;
+    const user = campaign
+      ? await this.userService.findById(campaign.userId)
+      : null;
+    const apiKey = user?.settings?.telephony?.telnyxApiKey;
+    if (!apiKey) {
+      throw new Error(
+        `No Telnyx API key to hang up voicemail call ${callControlId}`,
+      );
+    }
+    await this.telnyxService.hangupCall(apiKey, callControlId);
+  }
+
+  private async hangup(
+    provider: AmdProvider,
+    carrierCallId: string,
+    telephony: TelephonySettings,
+  ): Promise<void> {
+    switch (provider) {
+      case 'twilio':
+        await this.getTwilioClient(telephony)
+          .calls(carrierCallId)
+          .update({ status: 'completed' });
+        break;
+      case 'plivo':
+        await this.plivoService.hangupCall({
+          authId: telephony.plivoAuthId!,
+          authToken: telephony.plivoAuthToken!,
+          callUuid: carrierCallId,
+        });
+        break;
+      case 'telnyx':
+        await this.telnyxService.hangupCall(
+          telephony.telnyxApiKey!,
+          carrierCallId,
+        );
+        break;
+    }
+  }
+
+  // Stop the agent stream and read the campaign's voicemail message, then hang up
+  private async playMessage(
+    provider: AmdProvider,
+    carrierCallId: string,
+    telephony: TelephonySettings,
+    campaign: Campaign,
+    ref: CallRef,
+  ): Promise<void> {
+    const message = campaign.answeringMachine!.message!;
+    switch (provider) {
+      case 'twilio':
+        await this.getTwilioClient(telephony)
+          .calls(carrierCallId)
+          .update({
+            twiml: `<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(message)}</Say><Hangup/></Response>`,
+          });
+        break;
+      case 'plivo': {
+        // Plivo follows XML from a URL - the voicemail endpoint reads the message from the campaign
+        const params = new URLSearchParams({
+          campaignId: campaign._id.toString(),
+        });
+        if (ref.contactId) params.append('contactId', ref.contactId);
+        await this.plivoService.transferCall({
+          authId: telephony.plivoAuthId!,
+          authToken: telephony.plivoAuthToken!,
+          callUuid: carrierCallId,
+          url: `${this.getWebhookBaseUrl()}/webhook/plivo/voicemail?${params.toString()}`,
+        });
+        break;
+      }
+      case 'telnyx':
+        // The call is hung up on the call.speak.ended event carrying this client state
+        await this.telnyxService.stopStreaming(
+          telephony.telnyxApiKey!,
+          carrierCallId,
+        );
+        await this.telnyxService.speak(
+          telephony.telnyxApiKey!,
+          carrierCallId,
+          message,
+          TELNYX_VOICEMAIL_CLIENT_STATE,
+        );
+        break;
+    }
+  }
+
+  // Hand the call to a new Ultravox call that opens with the voicemail script
+  private async leaveAgentVoicemail(
+    provider: AmdProvider,
+    carrierCallId: string,
+    telephony: TelephonySettings,
+    campaign: Campaign,
+    ref: CallRef,
+    callHistory: CallHistory | null,
+  ): Promise<void> {
+    const agent = await this.agentService.findOne(campaign.agentId);
+    if (!agent) {
+      throw new Error(
+        `Agent ${campaign.agentId} of campaign ${campaign._id.toString()} not found`,
+      );
+    }
+
+    const campaignId = campaign._id.toString();
+    const contactId =
+      ref.contactId ||
+      (callHistory?.metadata?.contactId as string | undefined)?.toString();
+    const contact = contactId
+      ? await this.campaignService.findContact(campaignId, contactId)
+      : null;
+
+    const voicemail = await this.ultravoxService.createVoicemailCallWithMedium(
+      agent.talkrixAgentId,
+      {
+        provider,
+        script: campaign.answeringMachine!.agentScript!,
+        templateContext: buildTemplateContext(
+          agent.callTemplate?.contextSchema,
+          contact?.customFields,
+        ).context,
+      },
+    );
+    if (voicemail.statusCode !== 201 || !voicemail.data) {
+      throw new Error(
+        `Voicemail call could not be created: ${voicemail.message}`,
+      );
+    }
+
+    const joinUrl = voicemail.data.joinUrl;
+    await this.callLifecycleService.replaceUltravoxCall(ref, {
+      talkrixCallId: voicemail.data.callId,
+      joinUrl,
+    });
+
+    switch (provider) {
+      case 'twilio':
+        await this.getTwilioClient(telephony)
+          .calls(carrierCallId)
+          .update({
+            twiml: `<?xml version="1.0" encoding="UTF-8"?><Response><Connect><Stream url="${escapeXml(joinUrl)}" /></Connect></Response>`,
+          });
+        break;
+      case 'plivo': {
+        // The answer URL streams the call to the joinUrl just stored with the call history
+        const params = new URLSearchParams({ campaignId });
+        if (contactId) params.append('contactId', contactId);
+        if (callHistory)
+          params.append('callHistoryId', callHistory._id.toString());
+        await this.plivoService.transferCall({
+          authId: telephony.plivoAuthId!,
+          authToken: telephony.plivoAuthToken!,
+          callUuid: carrierCallId,
+          url: `${this.getWebhookBaseUrl()}/webhook/plivo/answer?${params.toString()}`,
+        });
+        break;
+      }
+      case 'telnyx':
+        await this.telnyxService.stopStreaming(
+          telephony.telnyxApiKey!,
+          carrierCallId,
+        );
+        await this.telnyxService.startStreaming(
+          telephony.telnyxApiKey!,
+          carrierCallId,
+          joinUrl,
+        );
+        break;
+    }
+  }
+
+  private getTwilioClient(telephony: TelephonySettings) {
+    return Twilio.default(
+      telephony.twilioAccountSid,
+      telephony.twilioAuthToken,
+    );
+  }
+
+  private getWebhookBaseUrl(): string {
+    const baseUrl = process.env.WEBHOOK_BASE_URL?.replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error('WEBHOOK_BASE_URL must be set to redirect Plivo calls');
+    }
+    return baseUrl;
+  }
+}
@@ -0,0 +1,238 @@
+import { Injectable } from '@nestjs/common';
+import { CampaignService } from '../campaign/campaign.service';
+import { AgentService } from '../agent/agent.service';
+import { Agent } from '../agent/agent.schema';
+import { Campaign } from '../campaign/campaign.schema';
+import { InboundMediumCall, UltravoxService } from '../agent/ultravox.service';
+import { PlivoService } from '../agent/plivo.service';
+import { CallHistoryService } from '../call-history/call-history.service';
+import { CallConcurrencyService } from '../call-concurrency/call-concurrency.service';
+import { CallLifecycleService } from '../call-lifecycle/call-lifecycle.service';
+import { AppLogger } from '../app.logger';
+import { normalizePhoneNumber } from '../phone-number.helper';
+import { escapeXml } from '../xml.helper';
+
+export type InboundProvider = 'twilio' | 'plivo' | 'telnyx';
+
+const DEFAULT_FALLBACK_MESSAGE =
+  'Sorry, this number is not available right now. Goodbye.';
+
+/**
+ * Answers incoming phone calls for inbound campaigns
+ * The dialled number selects the campaign, whose agent takes the call through an Ultravox stream
+ * Incoming calls hold one of the campaign owner's concurrency slots; when none is free the caller
+ * hears the fallback message. A provider retrying an incoming call is answered with the agent call
+ * already created for it
+ */
+@Injectable()
+export class InboundCallService {
+  constructor(
+    private readonly campaignService: CampaignService,
+    private readonly agentService: AgentService,
+    private readonly ultravoxService: UltravoxService,
+    private readonly plivoService: PlivoService,
+    private readonly callHistoryService: CallHistoryService,
+    private readonly callConcurrencyService: CallConcurrencyService,
+    private readonly callLifecycleService: CallLifecycleService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  /**
+   * Build the provider markup answering an incoming call
+   * Streams the call to the campaign's agent, or plays the fallback message and hangs up
+   * when no inbound campaign owns the number or the agent call cannot be created
+   */
+  async answer(
+    provider: InboundProvider,
+    call: { to: string; from: string; providerCallId?: string },
+  ): Promise<string> {
+    try {
+      return await this.routeCall(provider, call);
+    } catch (err) {
+      this.logger.error(
+        `Error answering inbound ${provider} call to ${call.to}`,
+        err instanceof Error ? err.message : err,
+      );
+      return this.buildFallbackMarkup(provider);
+    }
+  }
+
+  private async routeCall(
+    provider: InboundProvider,
+    call: { to: string; from: string; providerCallId?: string },
+  ): Promise<string> {
+    // A provider retrying the request for a call that was already routed gets the same agent call
+    if (call.providerCallId) {
+      const existing = await this.callHistoryService.findByProviderCallId(
+        call.providerCallId,
+      );
+      if (existing) {
+        const joinUrl = await this.callLifecycleService.getJoinUrl({
+          callHistoryId: existing._id.toString(),
+        });
+        this.logger.log(
+          `Inbound ${provider} call ${call.providerCallId} was already routed (call ${existing.talkrixCallId})`,
+        );
+        return joinUrl
+          ? this.buildStreamMarkup(provider, joinUrl)
+          : this.buildFallbackMarkup(provider);
+      }
+    }
+
+    const campaign = await this.campaignService.findInboundCampaignByNumber(
+      call.to,
+    );
+    if (!campaign) {
+      this.logger.warn(
+        `Inbound ${provider} call to ${call.to} - no inbound campaign for this number`,
+      );
+      return this.buildFallbackMarkup(provider);
+    }
+
+    const agent = await this.agentService.findOne(campaign.agentId);
+    if (!agent) {
+      this.logger.warn(
+        `Inbound call to ${call.to} - agent ${campaign.agentId} of campaign ${campaign._id.toString()} not found`,
+      );
+      return this.buildFallbackMarkup(provider);
+    }
+
+    const slot = await this.callConcurrencyService.acquire(campaign.userId, {
+      source: 'inbound',
+    });
+    if (!slot.acquired) {
+      this.logger.warn(
+        `Inbound call to ${call.to} - concurrent call limit reached (${slot.activeCalls}/${slot.maxConcurrentCalls})`,
+      );
+      return this.buildFallbackMarkup(provider);
+    }
+
+    try {
+      return await this.connectCall(
+        provider,
+        call,
+        campaign,
+        agent,
+        slot.slotId!,
+      );
+    } catch (err) {
+      await this.callConcurrencyService
+        .releaseSlot(slot.slotId!)
+        .catch(() => undefined);
+      throw err;
+    }
+  }
+
+  /**
+   * Create the agent call in the slot taken for it and record it in the call history
+   * The agent call is deleted again when it cannot be recorded, as nobody would ever join it
+   */
+  private async connectCall(
+    provider: InboundProvider,
+    call: { to: string; from: string; providerCallId?: string },
+    campaign: Campaign,
+    agent: Agent,
+    slotId: string,
+  ): Promise<string> {
+    const callResult = await this.ultravoxService.createInboundCallWithMedium(
+      agent.talkrixAgentId,
+      {
+        provider,
+        recordingEnabled: true,
+      },
+    );
+    if (callResult.statusCode !== 201 || !callResult.data?.joinUrl) {
+      this.logger.error(
+        `Inbound call to ${call.to} - failed to create agent call: ${callResult.message}`,
+      );
+      await this.callConcurrencyService.releaseSlot(slotId);
+      return this.buildFallbackMarkup(provider);
+    }
+    const agentCall = callResult.data;
+
+    try {
+      await this.recordCall(provider, call, campaign, agent, slotId, agentCall);
+    } catch (err) {
+      await this.ultravoxService.deleteCall(agentCall.callId);
+      throw err;
+    }
+
+    this.logger.log(
+      `Inbound ${provider} call from ${call.from} to ${call.to} routed to agent ${agent.name} ` +
+        `(campaign ${campaign._id.toString()}, call ${agentCall.callId})`,
+    );
+    return this.buildStreamMarkup(provider, agentCall.joinUrl);
+  }
+
+  // Attach the agent call to its slot and create its call history record
+  private async recordCall(
+    provider: InboundProvider,
+    call: { to: string; from: string; providerCallId?: string },
+    campaign: Campaign,
+    agent: Agent,
+    slotId: string,
+    agentCall: InboundMediumCall,
+  ): Promise<void> {
+    await this.callConcurrencyService.attachCall(slotId, {
+      callId: agentCall.callId,
+      providerCallId: call.providerCallId,
+    });
+
+    const caller = normalizePhoneNumber(call.from);
+    await this.callHistoryService.create({
+      agentId: campaign.agentId,
+      userId: campaign.userId,
+      talkrixCallId: agentCall.callId,
+      providerCallId: call.providerCallId,
+      callType: 'inbound',
+      agentName: agent.name,
+      customerPhone: caller.valid ? caller.e164 : call.from,
+      recordingEnabled: true,
+      joinUrl: agentCall.joinUrl,
+      callData: agentCall,
+      status: 'in-progress',
+      metadata: {
+        campaignId: campaign._id,
+        campaignName: campaign.name,
+        provider,
+        inboundPhoneNumber: campaign.inboundPhoneNumber,
+        providerCallId: call.providerCallId,
+      },
+    });
+  }
+
+  private buildStreamMarkup(
+    provider: InboundProvider,
+    joinUrl: string,
+  ): string {
+    if (provider === 'plivo') {
+      return this.plivoService.buildStreamXml(joinUrl);
+    }
+
+    // TwiML and Telnyx TeXML share the <Connect><Stream> verb
+    const streamAttributes =
+      provider === 'telnyx' ? ' bidirectionalMode="rtp"' : '';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Connect>
+    <Stream url="${escapeXml(joinUrl)}"${streamAttributes} />
+  </Connect>
+</Response>`;
+  }
+
+  // Message for calls that cannot be routed - INBOUND_FALLBACK_MESSAGE overrides the default
+  private buildFallbackMarkup(provider: InboundProvider): string {
+    const message = escapeXml(
+      process.env.INBOUND_FALLBACK_MESSAGE || DEFAULT_FALLBACK_MESSAGE,
+    );
+    const speak =
+      provider === 'plivo'
+        ? `<Speak>${message}</Speak>`
+        : `<Say>${message}</Say>`;
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${speak}
+  <Hangup/>
+</Response>`;
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { WebhookAuthService } from './webhook-auth.service';
+
+/**
+ * Guards the endpoints Ultravox calls for the built-in agent tools
+ * Requests must carry the tool secret of the owner of the call in `callId` in the x-tool-secret header
+ */
+@Injectable()
+export class ToolSecretGuard implements CanActivate {
+  constructor(private readonly webhookAuthService: WebhookAuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<Request>();
+    const { callId } = (req.body || {}) as { callId?: unknown };
+    const valid = await this.webhookAuthService.verifyToolSecret(
+      req.header('x-tool-secret'),
+      typeof callId === 'string' ? callId : undefined,
+    );
+    if (!valid) {
+      throw new UnauthorizedException('Invalid tool secret');
+    }
+    return true;
+  }
+}
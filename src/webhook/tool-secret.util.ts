@@ -0,0 +1,12 @@
+import * as crypto from 'crypto';
+
+/**
+ * Secret the built-in agent tools of one user's agents send in the x-tool-secret header
+ * Derived from TALKRIX_TOOL_SECRET and the user ID, so a secret seen by one user only
+ * authenticates tool requests for that user's calls. Undefined while TALKRIX_TOOL_SECRET is not set.
+ */
+export function getToolSecret(userId: string): string | undefined {
+  const secret = process.env.TALKRIX_TOOL_SECRET;
+  if (!secret) return undefined;
+  return crypto.createHmac('sha256', secret).update(userId).digest('hex');
+}
@@ -0,0 +1,412 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { HttpService } from '@nestjs/axios';
+import * as crypto from 'crypto';
+import { WebhookAuthService } from './webhook-auth.service';
+import { getToolSecret } from './tool-secret.util';
+import { CallHistoryService } from '../call-history/call-history.service';
+import { CampaignService } from '../campaign/campaign.service';
+import { TelnyxService } from '../agent/telnyx.service';
+import { UserService } from '../user/user.service';
+import { AppLogger } from '../app.logger';
+
+const CAMPAIGN_ID = '6650f0c2a1b2c3d4e5f60718';
+const CALL_HISTORY_ID = '6650f0c2a1b2c3d4e5f60719';
+const NOW = Date.parse('2026-10-19T12:00:10.000Z');
+
+interface FakeRequest {
+  method: string;
+  originalUrl: string;
+  body: Record<string, any>;
+  rawBody?: Buffer;
+  headers: Record<string, string>;
+}
+
+// Just enough of an express request for the signature checks
+function createRequest(req: Partial<FakeRequest>) {
+  const headers = req.headers || {};
+  return {
+    method: req.method || 'POST',
+    originalUrl: req.originalUrl || '/',
+    body: req.body || {},
+    rawBody: req.rawBody,
+    protocol: 'https',
+    get: () => 'internal.example.com',
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as RawBodyRequest<Request>;
+}
+
+describe('WebhookAuthService', () => {
+  let service: WebhookAuthService;
+  let telephony: Record<string, string>;
+  let campaignOwnerId: string;
+  const env = { ...process.env };
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    process.env.WEBHOOK_VERIFY_SIGNATURES = 'true';
+    process.env.TALKRIX_WEBHOOK_SECRET = 'talkrix-secret';
+    delete process.env.TELNYX_PUBLIC_KEY;
+    telephony = {};
+    campaignOwnerId = 'user-1';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookAuthService,
+        TelnyxService,
+        { provide: HttpService, useValue: {} },
+        {
+          provide: CallHistoryService,
+          useValue: {
+            findById: jest.fn(() => Promise.resolve({ userId: 'user-1' })),
+            findByProviderCallId: jest.fn(() =>
+              Promise.resolve({ userId: 'user-1' }),
+            ),
+            findByTalkrixCallId: jest.fn((callId: string) =>
+              Promise.resolve(
+                callId === 'call-1' ? { userId: 'user-1' } : null,
+              ),
+            ),
+          },
+        },
+        {
+          provide: CampaignService,
+          useValue: {
+            findOne: jest.fn(() =>
+              Promise.resolve({ userId: campaignOwnerId }),
+            ),
+          },
+        },
+        {
+          provide: UserService,
+          useValue: {
+            findById: jest.fn(() =>
+              Promise.resolve({ settings: { telephony } }),
+            ),
+          },
+        },
+        {
+          provide: AppLogger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookAuthService>(WebhookAuthService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...env };
+  });
+
+  describe('verifyTwilio', () => {
+    // Example request from Twilio's webhook security docs, checked against the twilio SDK
+    const params = {
+      CallSid: 'CA1234567890ABCDE',
+      Caller: '+14158675310',
+      Digits: '1234',
+      From: '+14158675310',
+      To: '+18005551212',
+    };
+
+    beforeEach(() => {
+      process.env.WEBHOOK_BASE_URL = 'https://mycompany.com/';
+      telephony.twilioAuthToken = '12345';
+    });
+
+    it('accepts a request signed with the owner auth token', async () => {
+      const req = createRequest({
+        originalUrl: '/myapp.php?foo=1&bar=2',
+        body: params,
+        headers: { 'x-twilio-signature': 'GvWf1cFY/Q7PnoempGyD5oXAezc=' },
+      });
+
+      await expect(
+        service.verifyTwilio(req, { callHistoryId: CALL_HISTORY_ID }),
+      ).resolves.toEqual({ valid: true, userId: 'user-1' });
+    });
+
+    it('rejects a request with changed parameters', async () => {
+      const req = createRequest({
+        originalUrl: '/myapp.php?foo=1&bar=2',
+        body: { ...params, To: '+18005550000' },
+        headers: { 'x-twilio-signature': 'GvWf1cFY/Q7PnoempGyD5oXAezc=' },
+      });
+
+      const result = await service.verifyTwilio(req, {
+        callHistoryId: CALL_HISTORY_ID,
+      });
+      expect(result.valid).toBe(false);
+    });
+
+    it("rejects another user's campaign signing for the call", async () => {
+      // Signed with the auth token of the campaign owner, not the call owner
+      campaignOwnerId = 'user-2';
+      const req = createRequest({
+        originalUrl: '/myapp.php?foo=1&bar=2',
+        body: params,
+        headers: { 'x-twilio-signature': 'GvWf1cFY/Q7PnoempGyD5oXAezc=' },
+      });
+
+      await expect(
+        service.verifyTwilio(req, {
+          campaignId: CAMPAIGN_ID,
+          callHistoryId: CALL_HISTORY_ID,
+          providerCallId: params.CallSid,
+        }),
+      ).resolves.toEqual({ valid: false });
+    });
+
+    it('rejects a request when the owner has no auth token', async () => {
+      delete telephony.twilioAuthToken;
+      const req = createRequest({
+        originalUrl: '/myapp.php?foo=1&bar=2',
+        body: params,
+        headers: { 'x-twilio-signature': 'GvWf1cFY/Q7PnoempGyD5oXAezc=' },
+      });
+
+      const result = await service.verifyTwilio(req, {
+        callHistoryId: CALL_HISTORY_ID,
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('verifyPlivo', () => {
+    // Vector checked against validateV3Signature of the plivo SDK
+    const request = {
+      originalUrl: '/webhook/plivo/status?campaignId=6650f0c2a1b2c3d4e5f60718',
+      body: {
+        CallUUID: '4b3c1f2e-uuid',
+        CallStatus: 'completed',
+        Duration: '42',
+      },
+    };
+
+    beforeEach(() => {
+      process.env.WEBHOOK_BASE_URL = 'https://api.example.com';
+      telephony.plivoAuthToken = 'plivo-auth-token';
+    });
+
+    it('accepts a POST signed with the owner auth token', async () => {
+      const req = createRequest({
+        ...request,
+        headers: {
+          'x-plivo-signature-v3-nonce': '81736451',
+          'x-plivo-signature-v3':
+            'other-signature,33a67kTJsov2HOxFwJFw/O8t0tFDJQZMarUVZO4Yx/o=',
+        },
+      });
+
+      const result = await service.verifyPlivo(req, {
+        callHistoryId: CALL_HISTORY_ID,
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('accepts a campaign call of the campaign owner', async () => {
+      const req = createRequest({
+        ...request,
+        headers: {
+          'x-plivo-signature-v3-nonce': '81736451',
+          'x-plivo-signature-v3':
+            '33a67kTJsov2HOxFwJFw/O8t0tFDJQZMarUVZO4Yx/o=',
+        },
+      });
+
+      await expect(
+        service.verifyPlivo(req, {
+          campaignId: CAMPAIGN_ID,
+          providerCallId: request.body.CallUUID,
+        }),
+      ).resolves.toEqual({ valid: true, userId: 'user-1' });
+    });
+
+    it("rejects another user's call under the signer's campaign", async () => {
+      campaignOwnerId = 'user-2';
+      const req = createRequest({
+        ...request,
+        headers: {
+          'x-plivo-signature-v3-nonce': '81736451',
+          'x-plivo-signature-v3':
+            '33a67kTJsov2HOxFwJFw/O8t0tFDJQZMarUVZO4Yx/o=',
+        },
+      });
+
+      const result = await service.verifyPlivo(req, {
+        campaignId: CAMPAIGN_ID,
+        providerCallId: request.body.CallUUID,
+      });
+      expect(result.valid).toBe(false);
+    });
+
+    it('rejects a signature made for another nonce', async () => {
+      const req = createRequest({
+        ...request,
+        headers: {
+          'x-plivo-signature-v3-nonce': '81736452',
+          'x-plivo-signature-v3':
+            '33a67kTJsov2HOxFwJFw/O8t0tFDJQZMarUVZO4Yx/o=',
+        },
+      });
+
+      const result = await service.verifyPlivo(req, {
+        callHistoryId: CALL_HISTORY_ID,
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('verifyTalkrix', () => {
+    const rawBody = Buffer.from('{"event":"call.ended"}');
+    const signature =
+      '65b527a1de37dbab6ef59ee407dc37c4a1ebb55bafb079e3dea2c75838638a13';
+
+    it('accepts a fresh request signed with TALKRIX_WEBHOOK_SECRET', async () => {
+      const req = createRequest({
+        rawBody,
+        headers: {
+          'x-ultravox-webhook-timestamp': '2026-10-19T12:00:00.000Z',
+          'x-ultravox-webhook-signature': signature,
+        },
+      });
+
+      const result = await service.verifyTalkrix(req, {});
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects a replayed request', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(NOW + 10 * 60 * 1000);
+      const req = createRequest({
+        rawBody,
+        headers: {
+          'x-ultravox-webhook-timestamp': '2026-10-19T12:00:00.000Z',
+          'x-ultravox-webhook-signature': signature,
+        },
+      });
+
+      const result = await service.verifyTalkrix(req, {});
+      expect(result.valid).toBe(false);
+    });
+
+    it('rejects every request when TALKRIX_WEBHOOK_SECRET is not set', async () => {
+      delete process.env.TALKRIX_WEBHOOK_SECRET;
+      const req = createRequest({
+        rawBody,
+        headers: {
+          'x-ultravox-webhook-timestamp': '2026-10-19T12:00:00.000Z',
+          'x-ultravox-webhook-signature': signature,
+        },
+      });
+
+      const result = await service.verifyTalkrix(req, {});
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('verifyTelnyx', () => {
+    const rawBody = Buffer.from('{"data":{"event_type":"call.hangup"}}');
+    const timestamp = String(Math.floor(NOW / 1000));
+    let privateKey: crypto.KeyObject;
+
+    beforeEach(() => {
+      const keyPair = crypto.generateKeyPairSync('ed25519');
+      privateKey = keyPair.privateKey;
+      // Telnyx shows the raw 32 byte public key in base64
+      const jwk = keyPair.publicKey.export({ format: 'jwk' });
+      telephony.telnyxPublicKey = Buffer.from(jwk.x!, 'base64url').toString(
+        'base64',
+      );
+    });
+
+    function sign(message: string): string {
+      return crypto
+        .sign(null, Buffer.from(message), privateKey)
+        .toString('base64');
+    }
+
+    it('accepts a request signed with the owner key', async () => {
+      const req = createRequest({
+        rawBody,
+        headers: {
+          'telnyx-timestamp': timestamp,
+          'telnyx-signature-ed25519': sign(
+            `${timestamp}|${rawBody.toString()}`,
+          ),
+        },
+      });
+
+      const result = await service.verifyTelnyx(req, {
+        callHistoryId: CALL_HISTORY_ID,
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects a signature over another timestamp', async () => {
+      const req = createRequest({
+        rawBody,
+        headers: {
+          'telnyx-timestamp': timestamp,
+          'telnyx-signature-ed25519': sign(
+            `${Number(timestamp) - 1}|${rawBody.toString()}`,
+          ),
+        },
+      });
+
+      const result = await service.verifyTelnyx(req, {
+        callHistoryId: CALL_HISTORY_ID,
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('verifyToolSecret', () => {
+    beforeEach(() => {
+      process.env.TALKRIX_TOOL_SECRET = 'tool-secret';
+    });
+
+    it('accepts the tool secret of the call owner', async () => {
+      await expect(
+        service.verifyToolSecret(getToolSecret('user-1'), 'call-1'),
+      ).resolves.toBe(true);
+    });
+
+    it("rejects another user's secret and the webhook secret", async () => {
+      await expect(
+        service.verifyToolSecret(getToolSecret('user-2'), 'call-1'),
+      ).resolves.toBe(false);
+      await expect(
+        service.verifyToolSecret('talkrix-secret', 'call-1'),
+      ).resolves.toBe(false);
+      await expect(service.verifyToolSecret(undefined, 'call-1')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('rejects a request for an unknown call', async () => {
+      await expect(
+        service.verifyToolSecret(getToolSecret('user-1'), 'call-2'),
+      ).resolves.toBe(false);
+      await expect(
+        service.verifyToolSecret(getToolSecret('user-1'), undefined),
+      ).resolves.toBe(false);
+    });
+
+    it('fails closed when TALKRIX_TOOL_SECRET is not set', async () => {
+      const secret = getToolSecret('user-1');
+      delete process.env.TALKRIX_TOOL_SECRET;
+      await expect(service.verifyToolSecret(secret, 'call-1')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('lets everything through when verification is turned off', async () => {
+      process.env.WEBHOOK_VERIFY_SIGNATURES = 'false';
+      await expect(
+        service.verifyToolSecret(undefined, undefined),
+      ).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { CallHistoryService } from '../call-history/call-history.service';
+import { CampaignService } from '../campaign/campaign.service';
+import { TelnyxService } from '../agent/telnyx.service';
+import { UserService } from '../user/user.service';
+import { AppLogger } from '../app.logger';
+import { getToolSecret } from './tool-secret.util';
+
+// How old an Ultravox webhook timestamp may be before the request counts as a replay
+const TALKRIX_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Call references carried by a webhook, used to find the user whose credentials signed it
+export interface WebhookCallRef {
+  campaignId?: string;
+  callHistoryId?: string;
+  talkrixCallId?: string;
+  providerCallId?: string;
+  inboundNumber?: string; // Number an incoming call dialled - selects the inbound campaign
+}
+
+// Owner of a webhook's call (see resolveOwner)
+export interface WebhookCallOwner {
+  userId?: string;
+  conflict: boolean; // The references belong to different users
+}
+
+export interface WebhookAuthResult {
+  valid: boolean;
+  userId?: string; // Owner of the call, when it could be resolved
+}
+
+/**
+ * Verifies that status webhooks really come from the provider
+ * - Talkrix (Ultravox): timestamped HMAC-SHA256 of the raw body with TALKRIX_WEBHOOK_SECRET
+ * - Twilio: X-Twilio-Signature with the call owner's twilioAuthToken
+ * - Plivo: V3 signature with the call owner's plivoAuthToken
+ * - Telnyx: Ed25519 signature with the owner's telnyxPublicKey (or TELNYX_PUBLIC_KEY)
+ * The built-in agent tools send their owner's tool secret (see getToolSecret) in the x-tool-secret header.
+ * A request is rejected when the secret it should be checked against is not configured.
+ * WEBHOOK_VERIFY_SIGNATURES=false turns all checks off for local testing.
+ */
+@Injectable()
+export class WebhookAuthService implements OnModuleInit {
+  constructor(
+    private readonly callHistoryService: CallHistoryService,
+    private readonly campaignService: CampaignService,
+    private readonly telnyxService: TelnyxService,
+    private readonly userService: UserService,
+    private readonly logger: AppLogger,
+  ) {}
+
+  onModuleInit() {
+    if (!this.isVerificationEnabled()) {
+      this.logger.warn(
+        'WEBHOOK_VERIFY_SIGNATURES=false - webhook signatures are NOT verified',
+      );
+    }
+  }
+
+  isVerificationEnabled(): boolean {
+    return process.env.WEBHOOK_VERIFY_SIGNATURES !== 'false';
+  }
+
+  /**
+   * Find the user a webhook's call belongs to
+   * Every reference the webhook carries is resolved - the campaign in the callback URL, the inbound
+   * campaign of the dialled number and each call history record it points to - and all of them
+   * must belong to one user. Otherwise a user could sign a webhook with their own credentials and
+   * their own campaignId for another user's call, so `conflict` is set and the webhook is rejected.
+   */
+  async resolveOwner(ref: WebhookCallRef): Promise<WebhookCallOwner> {
+    const ownerIds = new Set<string>();
+    const addOwner = (owned: { userId?: string } | null) => {
+      if (owned?.userId) ownerIds.add(owned.userId);
+    };
+
+    if (ref.campaignId && Types.ObjectId.isValid(ref.campaignId)) {
+      addOwner(await this.campaignService.findOne(ref.campaignId));
+    }
+    if (ref.inboundNumber) {
+      addOwner(
+        await this.campaignService.findInboundCampaignByNumber(
+          ref.inboundNumber,
+        ),
+      );
+    }
+    if (ref.callHistoryId && Types.ObjectId.isValid(ref.callHistoryId)) {
+      addOwner(await this.callHistoryService.findById(ref.callHistoryId));
+    }
+    if (ref.talkrixCallId) {
+      addOwner(
+        await this.callHistoryService.findByTalkrixCallId(ref.talkrixCallId),
+      );
+    }
+    if (ref.providerCallId) {
+      addOwner(
+        await this.callHistoryService.findByProviderCallId(ref.providerCallId),
+      );
+    }
+
+    if (ownerIds.size > 1) {
+      this.logger.warn(
+        `Webhook references calls of different users (${[...ownerIds].join(', ')}) - rejected`,
+      );
+      return { conflict: true };
+    }
+    const [userId] = ownerIds;
+    return { userId, conflict: false };
+  }
+
+  async verifyTalkrix(
+    req: RawBodyRequest<Request>,
+    ref: WebhookCallRef,
+  ): Promise<WebhookAuthResult> {
+    const owner = await this.resolveOwner(ref);
+    if (!this.isVerificationEnabled()) {
+      return { valid: true, userId: owner.userId };
+    }
+    if (owner.conflict) return { valid: false };
+    const { userId } = owner;
+
+    const secret = process.env.TALKRIX_WEBHOOK_SECRET;
+    if (!secret) {
+      this.logger.warn(
+        'TALKRIX_WEBHOOK_SECRET is not set - Talkrix webhook rejected',
+      );
+      return { valid: false, userId };
+    }
+
+    const valid = this.checkUltravoxSignature(
+      req.rawBody,
+      req.header('x-ultravox-webhook-timestamp'),
+      req.header('x-ultravox-webhook-signature'),
+      secret,
+    );
+    return { valid, userId };
+  }
+
+  async verifyTwilio(
+    req: RawBodyRequest<Request>,
+    ref: WebhookCallRef,
+  ): Promise<WebhookAuthResult> {
+    const owner = await this.resolveOwner(ref);
+    if (!this.isVerificationEnabled()) {
+      return { valid: true, userId: owner.userId };
+    }
+    if (owner.conflict) return { valid: false };
+    const { userId } = owner;
+
+    const authToken = await this.getTelephonySetting(userId, 'twilioAuthToken');
+    if (!authToken) {
+      this.logger.warn(
+        `No Twilio auth token for call owner ${userId || 'unknown'} - Twilio webhook rejected`,
+      );
+      return { valid: false, userId };
+    }
+
+    const valid = this.checkTwilioSignature(
+      this.getRequestUrl(req),
+      (req.body || {}) as Record<string, string>,
+      req.header('x-twilio-signature'),
+      authToken,
+    );
+    return { valid, userId };
+  }
+
+  async verifyPlivo(
+    req: RawBodyRequest<Request>,
+    ref: WebhookCallRef,
+  ): Promise<WebhookAuthResult> {
+    const owner = await this.resolveOwner(ref);
+    if (!this.isVerificationEnabled()) {
+      return { valid: true, userId: owner.userId };
+    }
+    if (owner.conflict) return { valid: false };
+    const { userId } = owner;
+
+    const authToken = await this.getTelephonySetting(userId, 'plivoAuthToken');
+    if (!authToken) {
+      this.logger.warn(
+        `No Plivo auth token for call owner ${userId || 'unknown'} - Plivo webhook rejected`,
+      );
+      return { valid: false, userId };
+    }
+
+    const valid = this.checkPlivoV3Signature(
+      req.method,
+      this.getRequestUrl(req),
+      (req.body || {}) as Record<string, string>,
+      req.header('x-plivo-signature-v3-nonce'),
+      req.header('x-plivo-signature-v3'),
+      authToken,
+    );
+    return { valid, userId };
+  }
+
+  async verifyTelnyx(
+    req: RawBodyRequest<Request>,
+    ref: WebhookCallRef,
+  ): Promise<WebhookAuthResult> {
+    const owner = await this.resolveOwner(ref);
+    if (!this.isVerificationEnabled()) {
+      return { valid: true, userId: owner.userId };
+    }
+    if (owner.conflict) return { valid: false };
+    const { userId } = owner;
+
+    const publicKey =
+      (await this.getTelephonySetting(userId, 'telnyxPublicKey')) ||
+      process.env.TELNYX_PUBLIC_KEY;
+    if (!publicKey) {
+      this.logger.warn(
+        `No Telnyx public key for call owner ${userId || 'unknown'} - Telnyx webhook rejected`,
+      );
+      return { valid: false, userId };
+    }
+    if (!req.rawBody) return { valid: false, userId };
+
+    const valid = this.telnyxService.verifyWebhookSignature(
+      req.rawBody,
+      req.header('telnyx-signature-ed25519'),
+      req.header('telnyx-timestamp'),
+      publicKey,
+    );
+    return { valid, userId };
+  }
+
+  /**
+   * Check the x-tool-secret header of a built-in agent tool request against the tool secret
+   * of the user who owns the call, so one user's secret cannot act on another user's calls
+   * Fails closed: a request is rejected when TALKRIX_TOOL_SECRET is not configured
+   */
+  async verifyToolSecret(
+    secret: string | undefined,
+    talkrixCallId: string | undefined,
+  ): Promise<boolean> {
+    if (!this.isVerificationEnabled()) return true;
+
+    if (!process.env.TALKRIX_TOOL_SECRET) {
+      this.logger.warn(
+        'TALKRIX_TOOL_SECRET is not set - agent tool request rejected',
+      );
+      return false;
+    }
+    if (!secret || !talkrixCallId) return false;
+
+    const callHistory =
+      await this.callHistoryService.findByTalkrixCallId(talkrixCallId);
+    const expected = callHistory?.userId
+      ? getToolSecret(callHistory.userId)
+      : undefined;
+    return !!expected && this.safeEqual(secret, expected);
+  }
+
+  private async getTelephonySetting(
+    userId: string | undefined,
+    key: 'twilioAuthToken' | 'plivoAuthToken' | 'telnyxPublicKey',
+  ): Promise<string | undefined> {
+    if (!userId) return undefined;
+    const user = await this.userService.findById(userId);
+    return user?.settings?.telephony?.[key] || undefined;
+  }
+
+  // URL the provider called - the public WEBHOOK_BASE_URL the callback was registered with, not the proxied one
+  private getRequestUrl(req: Request): string {
+    const baseUrl =
+      process.env.WEBHOOK_BASE_URL?.replace(/\/+$/, '') ||
+      `${req.protocol}://${req.get('host')}`;
+    return `${baseUrl}${req.originalUrl}`;
+  }
+
+  /**
+   * Ultravox signs `rawBody + timestamp` with HMAC-SHA256 (hex)
+   * The signature header may list several signatures while the secret is being rotated
+   */
+  private checkUltravoxSignature(
+    rawBody: Buffer | undefined,
+    timestamp: string | undefined,
+    signatures: string | undefined,
+    secret: string,
+  ): boolean {
+    if (!rawBody || !timestamp || !signatures) return false;
+
+    const signedAt = Date.parse(timestamp);
+    if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() - signedAt) >
+        TALKRIX_SIGNATURE_TOLERANCE_SECONDS * 1000
+    ) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(Buffer.concat([rawBody, Buffer.from(timestamp)]))
+      .digest('hex');
+    return signatures
+      .split(',')
+      .some((signature) => this.safeEqual(signature.trim(), expected));
+  }
+
+  /**
+   * Twilio signs the full URL followed by every POST parameter name and value, sorted by name,
+   * with HMAC-SHA1 (base64)
+   */
+  private checkTwilioSignature(
+    url: string,
+    params: Record<string, any>,
+    signature: string | undefined,
+    authToken: string,
+  ): boolean {
+    if (!signature) return false;
+
+    const data = Object.keys(params)
+      .sort()
+      .reduce(
+        (acc, key) =>
+          acc +
+          this.toValues(params[key])
+            .map((value) => key + value)
+            .join(''),
+        url,
+      );
+    const expected = crypto
+      .createHmac('sha1', authToken)
+      .update(Buffer.from(data, 'utf-8'))
+      .digest('base64');
+    return this.safeEqual(signature, expected);
+  }
+
+  /**
+   * Plivo V3 signs `url[?sorted query][.]sortedPostParams.nonce` with HMAC-SHA256 (base64),
+   * following the construction of Plivo's SDK validateV3Signature
+   */
+  private checkPlivoV3Signature(
+    method: string,
+    url: string,
+    params: Record<string, any>,
+    nonce: string | undefined,
+    signatures: string | undefined,
+    authToken: string,
+  ): boolean {
+    if (!nonce || !signatures) return false;
+
+    const parsed = new URL(url);
+    const baseUrl = `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+    const queryParams: Record<string, string[]> = {};
+    parsed.searchParams.forEach((value, key) => {
+      (queryParams[key] = queryParams[key] || []).push(value);
+    });
+
+    let signedUrl: string;
+    if (method.toUpperCase() === 'GET') {
+      for (const [key, value] of Object.entries(params)) {
+        queryParams[key] = [
+          ...(queryParams[key] || []),
+          ...this.toValues(value),
+        ];
+      }
+      const query = this.sortedQueryString(queryParams);
+      signedUrl = query ? `${baseUrl}?${query}` : baseUrl;
+    } else {
+      const hasParams = Object.keys(params).length > 0;
+      const query = this.sortedQueryString(queryParams);
+      signedUrl = baseUrl;
+      if (query || hasParams) signedUrl += `?${query}`;
+      if (query && hasParams) signedUrl += '.';
+      signedUrl += Object.keys(params)
+        .sort()
+        .map((key) => key + this.toValues(params[key]).sort().join(''))
+        .join('');
+    }
+
+    const expected = crypto
+      .createHmac('sha256', authToken)
+      .update(`${signedUrl}.${nonce}`)
+      .digest('base64');
+    return signatures
+      .split(',')
+      .some((signature) => this.safeEqual(signature.trim(), expected));
+  }
+
+  private sortedQueryString(params: Record<string, string[]>): string {
+    return Object.keys(params)
+      .sort()
+      .map((key) =>
+        [...params[key]]
+          .sort()
+          .map((value) => `${key}=${value}`)
+          .join('&'),
+      )
+      .join('&');
+  }
+
+  private toValues(value: any): string[] {
+    if (Array.isArray(value)) return value.map((v) => String(v));
+    return [value === undefined || value === null ? '' : String(value)];
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+  }
+}
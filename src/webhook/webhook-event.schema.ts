@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type WebhookProvider = 'talkrix' | 'twilio' | 'plivo' | 'telnyx';
+export type WebhookEventStatus =
+  'received' | 'processing' | 'processed' | 'failed';
+
+/**
+ * Raw copy of a webhook event, stored before it is handled
+ * Failed events keep their error and can be replayed once the cause is fixed
+ */
+@Schema({ timestamps: true })
+export class WebhookEvent extends Document {
+  @Prop({ required: true, enum: ['talkrix', 'twilio', 'plivo', 'telnyx'] })
+  provider: WebhookProvider;
+
+  @Prop({ required: true })
+  eventKey: string; // Provider event identity - the same event delivered twice is processed once
+
+  @Prop()
+  eventType?: string;
+
+  @Prop({ index: true })
+  userId?: string; // Owner of the call the event belongs to, when it could be resolved
+
+  @Prop({ type: Object, default: {} })
+  headers: Record<string, any>;
+
+  @Prop({ type: Object, default: {} })
+  query: Record<string, any>;
+
+  @Prop({ type: Object, default: {} })
+  body: Record<string, any>;
+
+  @Prop()
+  rawBody?: string;
+
+  @Prop({ required: true })
+  receivedAt: Date;
+
+  @Prop({
+    required: true,
+    enum: ['received', 'processing', 'processed', 'failed'],
+    default: 'received',
+  })
+  status: WebhookEventStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  lastAttemptAt?: Date;
+
+  @Prop()
+  processedAt?: Date;
+
+  @Prop()
+  error?: string;
+
+  @Prop({ default: true })
+  replayable: boolean; // False for inbound and answer requests - they are logged with their outcome only
+}
+
+export const WebhookEventSchema = SchemaFactory.createForClass(WebhookEvent);
+WebhookEventSchema.index({ provider: 1, eventKey: 1 }, { unique: true });
+WebhookEventSchema.index({ userId: 1, status: 1, receivedAt: -1 });
@@ -0,0 +1,216 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, mongo } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  WebhookEvent,
+  WebhookEventStatus,
+  WebhookProvider,
+} from './webhook-event.schema';
+
+// An event left in 'processing' this long is assumed to belong to a crashed worker
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Durable log of incoming webhook events
+ * Every event is stored before it is handled; processing is claimed atomically so a redelivered
+ * or replayed event runs at most once at a time and never again after it succeeded.
+ */
+@Injectable()
+export class WebhookEventService {
+  constructor(
+    @InjectModel(WebhookEvent.name)
+    private webhookEventModel: Model<WebhookEvent>,
+  ) {}
+
+  /**
+   * Store an incoming event
+   * A redelivery of a known event returns the stored copy (isDuplicate when it was already processed)
+   */
+  async record(data: {
+    provider: WebhookProvider;
+    eventKey?: string;
+    eventType?: string;
+    userId?: string;
+    headers: Record<string, any>;
+    query: Record<string, any>;
+    body: Record<string, any>;
+    rawBody?: Buffer | string;
+  }): Promise<{ event: WebhookEvent; isDuplicate: boolean }> {
+    const rawBody = data.rawBody?.toString() ?? JSON.stringify(data.body ?? {});
+    // Events without an identity of their own are keyed by their content
+    const eventKey =
+      data.eventKey ||
+      crypto.createHash('sha256').update(rawBody).digest('hex');
+
+    try {
+      const event = await this.webhookEventModel.create({
+        provider: data.provider,
+        eventKey,
+        eventType: data.eventType,
+        userId: data.userId,
+        headers: data.headers,
+        query: data.query,
+        body: data.body ?? {},
+        rawBody,
+        receivedAt: new Date(),
+        status: 'received',
+      });
+      return { event, isDuplicate: false };
+    } catch (err) {
+      if (!(err instanceof mongo.MongoServerError && err.code === 11000)) {
+        throw err;
+      }
+      const existing = await this.webhookEventModel
+        .findOne({ provider: data.provider, eventKey })
+        .exec();
+      if (!existing) throw err;
+      return { event: existing, isDuplicate: existing.status === 'processed' };
+    }
+  }
+
+  /**
+   * Log a request that was answered right away (inbound and answer URLs) with its outcome
+   * Logged requests cannot be replayed - the caller they answered is gone. A redelivery is not logged again.
+   */
+  async recordAnswered(data: {
+    provider: WebhookProvider;
+    eventKey?: string;
+    eventType?: string;
+    userId?: string;
+    headers: Record<string, any>;
+    query: Record<string, any>;
+    body: Record<string, any>;
+    status: 'processed' | 'failed';
+    error?: string;
+  }): Promise<void> {
+    const rawBody = JSON.stringify(data.body ?? {});
+    const now = new Date();
+    try {
+      await this.webhookEventModel.create({
+        provider: data.provider,
+        eventKey:
+          data.eventKey ||
+          crypto.createHash('sha256').update(rawBody).digest('hex'),
+        eventType: data.eventType,
+        userId: data.userId,
+        headers: data.headers,
+        query: data.query,
+        body: data.body ?? {},
+        receivedAt: now,
+        status: data.status,
+        attempts: 1,
+        lastAttemptAt: now,
+        processedAt: data.status === 'processed' ? now : undefined,
+        error: data.error,
+        replayable: false,
+      });
+    } catch (err) {
+      if (!(err instanceof mongo.MongoServerError && err.code === 11000)) {
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Claim an event for processing
+   * Returns null when it was already processed or another request is processing it right now
+   */
+  async claim(id: string): Promise<WebhookEvent | null> {
+    const now = new Date();
+    return this.webhookEventModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          replayable: { $ne: false },
+          $or: [
+            { status: { $in: ['received', 'failed'] } },
+            {
+              status: 'processing',
+              lastAttemptAt: {
+                $lte: new Date(now.getTime() - STALE_PROCESSING_MS),
+              },
+            },
+          ],
+        },
+        {
+          $set: { status: 'processing', lastAttemptAt: now },
+          $inc: { attempts: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async markProcessed(id: string): Promise<void> {
+    await this.webhookEventModel
+      .updateOne(
+        { _id: id },
+        {
+          $set: { status: 'processed', processedAt: new Date() },
+          $unset: { error: '' },
+        },
+      )
+      .exec();
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.webhookEventModel
+      .updateOne({ _id: id }, { $set: { status: 'failed', error } })
+      .exec();
+  }
+
+  async findOneForUser(
+    id: string,
+    userId: string,
+  ): Promise<WebhookEvent | null> {
+    if (!Types.ObjectId.isValid(id)) return null;
+    return this.webhookEventModel.findOne({ _id: id, userId }).exec();
+  }
+
+  // A user's webhook events, newest first (failed ones unless another status is asked for)
+  async findByUserId(
+    userId: string,
+    options?: {
+      status?: WebhookEventStatus;
+      provider?: WebhookProvider;
+      page?: number;
+      limit?: number;
+    },
+  ): Promise<{
+    events: WebhookEvent[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    const page = options?.page || 1;
+    const limit = options?.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const query: Record<string, any> = {
+      userId,
+      status: options?.status || 'failed',
+    };
+    if (options?.provider) {
+      query.provider = options.provider;
+    }
+
+    const [events, total] = await Promise.all([
+      this.webhookEventModel
+        .find(query)
+        .select('-rawBody')
+        .sort({ receivedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.webhookEventModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      events,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+}
@@ -1,11 +1,51 @@
-import { Controller, Post, Body, Headers, HttpCode, Query, Res } from '@nestjs/common';
-import type { Response } from 'express';
-import { CallHistoryService } from '../call-history/call-history.service';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Headers,
+  HttpCode,
+  Param,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import {
+  CallHistoryService,
+  UpdateCallHistoryDto,
+} from '../call-history/call-history.service';
 import { CampaignService } from '../campaign/campaign.service';
-import { CampaignSchedulerService } from '../campaign/campaign-scheduler.service';
+import { CallAttemptOutcome } from '../campaign/campaign.schema';
+import { AnsweredBy } from '../call-history/call-history.schema';
+import { CallLifecycleService } from '../call-lifecycle/call-lifecycle.service';
+import { endReasonToOutcome } from '../call-lifecycle/call-state.util';
+import { PlivoService } from '../agent/plivo.service';
+import { InboundCallService } from './inbound-call.service';
+import {
+  AnsweringMachineService,
+  TELNYX_VOICEMAIL_CLIENT_STATE,
+} from './answering-machine.service';
+import { WebhookEventService } from './webhook-event.service';
+import {
+  WebhookAuthService,
+  WebhookAuthResult,
+  WebhookCallRef,
+} from './webhook-auth.service';
+import { WebhookEvent } from './webhook-event.schema';
+import type {
+  WebhookEventStatus,
+  WebhookProvider,
+} from './webhook-event.schema';
+import { AuthOrApiKeyGuard } from '../auth/auth-or-apikey.guard';
 import { AppLogger } from '../app.logger';
 import { ResponseHelper } from '../response.helper';
-import * as crypto from 'crypto';
+import { Types } from 'mongoose';
+
+// Largest number of events one replay request may process
+const MAX_REPLAY_BATCH = 100;
 
 // Twilio Status Callback payload
 interface TwilioStatusCallback {
@@ -28,12 +68,37 @@ interface TwilioStatusCallback {
   ErrorMessage?: string;
 }
 
+// Twilio asynchronous answering machine detection callback
+interface TwilioAmdCallback {
+  CallSid: string;
+  AccountSid: string;
+  AnsweredBy:
+    | 'human'
+    | 'machine_start'
+    | 'machine_end_beep'
+    | 'machine_end_silence'
+    | 'machine_end_other'
+    | 'fax'
+    | 'unknown';
+  MachineDetectionDuration?: string;
+}
+
 // Plivo callback payload
 interface PlivoCallback {
   CallUUID: string;
+  RequestUUID?: string; // request_uuid returned when the call was placed
   From: string;
   To: string;
-  CallStatus: 'ringing' | 'in-progress' | 'completed' | 'busy' | 'failed' | 'timeout' | 'no-answer' | 'cancel' | 'machine';
+  CallStatus:
+    | 'ringing'
+    | 'in-progress'
+    | 'completed'
+    | 'busy'
+    | 'failed'
+    | 'timeout'
+    | 'no-answer'
+    | 'cancel'
+    | 'machine';
   Duration?: string; // Duration in seconds
   BillDuration?: string;
   BillRate?: string;
@@ -49,6 +114,24 @@ interface PlivoCallback {
   Event?: string;
 }
 
+// Telnyx call control webhook payload
+interface TelnyxWebhookPayload {
+  data: {
+    id: string;
+    event_type: string;
+    payload: {
+      call_control_id: string;
+      client_state?: string; // Base64 - set when the call or command was created
+      hangup_cause?: string;
+      hangup_source?: string;
+      start_time?: string;
+      end_time?: string;
+      result?: string; // Answering machine detection result
+      failure_reason?: unknown;
+    };
+  };
+}
+
 interface TalkrixWebhookPayload {
   event: 'call.started' | 'call.joined' | 'call.ended' | 'call.billed';
   call: {
@@ -69,16 +152,40 @@ interface TalkrixWebhookPayload {
   };
 }
 
+// Request with the user set by AuthOrApiKeyGuard
+interface AuthenticatedRequest {
+  user?: { sub?: string; email?: string };
+  apiUser?: { _id?: Types.ObjectId; email?: string };
+}
+
 @Controller('webhook')
 export class WebhookController {
   constructor(
     private readonly callHistoryService: CallHistoryService,
     private readonly campaignService: CampaignService,
-    private readonly campaignSchedulerService: CampaignSchedulerService,
+    private readonly callLifecycleService: CallLifecycleService,
+    private readonly plivoService: PlivoService,
+    private readonly inboundCallService: InboundCallService,
+    private readonly answeringMachineService: AnsweringMachineService,
+    private readonly webhookEventService: WebhookEventService,
+    private readonly webhookAuthService: WebhookAuthService,
     private readonly logger: AppLogger,
     private readonly responseHelper: ResponseHelper,
   ) {}
 
+  // Helper to extract user info from JWT token or API key
+  private getUserFromRequest(
+    req: AuthenticatedRequest,
+  ): { userId: string; email?: string } | null {
+    if (req.user?.sub) {
+      return { userId: String(req.user.sub), email: req.user.email };
+    }
+    if (req.apiUser?._id) {
+      return { userId: String(req.apiUser._id), email: req.apiUser.email };
+    }
+    return null;
+  }
+
   /**
    * Talkrix Webhook Endpoint
    * Receives webhook events when call events occur
@@ -88,56 +195,57 @@ export class WebhookController {
   @HttpCode(200)
   async handleTalkrixWebhook(
     @Body() payload: TalkrixWebhookPayload,
-    @Headers('x-webhook-secret') webhookSecret: string,
-    @Headers('x-webhook-signature') webhookSignature: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    try {
-      this.logger.log(`Received Talkrix webhook: ${payload.event} for call ${payload.call?.callId}`);
-
-      // Verify webhook signature if secret is configured
-      const configuredSecret = process.env.TALKRIX_WEBHOOK_SECRET;
-      if (configuredSecret && webhookSignature) {
-        const rawBody = JSON.stringify(payload);
-        const expectedSignature = crypto
-          .createHmac('sha256', configuredSecret)
-          .update(rawBody)
-          .digest('hex');
-        
-        if (webhookSignature !== expectedSignature) {
-          this.logger.warn('Invalid webhook signature');
-          return { status: 'error', message: 'Invalid signature' };
-        }
-      }
-
-      if (!payload.call?.callId) {
-        this.logger.warn('Webhook payload missing callId');
-        return { status: 'ok', message: 'No callId in payload' };
-      }
+    this.logger.log(
+      `Received Talkrix webhook: ${payload?.event} for call ${payload?.call?.callId}`,
+    );
+
+    const callId = payload?.call?.callId;
+    const auth = await this.authenticate('talkrix', req, {
+      talkrixCallId: callId,
+    });
+    if (auth.httpStatus !== 200) {
+      res.status(auth.httpStatus);
+      return { status: 'error', message: auth.message };
+    }
 
-      const { event, call } = payload;
+    const result = await this.receiveEvent(req, 'talkrix', {
+      eventKey: callId ? `${payload.event}:${callId}` : undefined,
+      eventType: payload?.event,
+      userId: auth.userId,
+    });
+    res.status(result.httpStatus);
+    return {
+      status: result.httpStatus === 200 ? 'ok' : 'error',
+      eventId: result.eventId,
+    };
+  }
 
-      switch (event) {
-        case 'call.started':
-          await this.handleCallStarted(call);
-          break;
-        case 'call.joined':
-          await this.handleCallJoined(call);
-          break;
-        case 'call.ended':
-          await this.handleCallEnded(call);
-          break;
-        case 'call.billed':
-          await this.handleCallBilled(call);
-          break;
-        default:
-          this.logger.log(`Unhandled webhook event: ${event}`);
-      }
+  private async processTalkrixEvent(payload: TalkrixWebhookPayload) {
+    if (!payload?.call?.callId) {
+      this.logger.warn('Webhook payload missing callId');
+      return;
+    }
 
-      return { status: 'ok' };
-    } catch (err) {
-      this.logger.error('Error processing webhook', err?.message || err);
-      // Return 200 to prevent retries for processing errors
-      return { status: 'error', message: 'Processing error' };
+    const { event, call } = payload;
+
+    switch (event) {
+      case 'call.started':
+        await this.handleCallStarted(call);
+        break;
+      case 'call.joined':
+        await this.handleCallJoined(call);
+        break;
+      case 'call.ended':
+        await this.handleCallEnded(call);
+        break;
+      case 'call.billed':
+        await this.handleCallBilled(call);
+        break;
+      default:
+        this.logger.log(`Unhandled webhook event: ${String(event)}`);
     }
   }
 
@@ -155,21 +263,16 @@ export class WebhookController {
    */
   private async handleCallJoined(call: TalkrixWebhookPayload['call']) {
     this.logger.log(`Call joined: ${call.callId}`);
-    
-    // Update call status to in-progress and set startedAt
-    try {
-      const callHistory = await this.callHistoryService.findByTalkrixCallId(call.callId);
-      if (callHistory) {
-        const startedAt = call.joined ? new Date(call.joined) : new Date();
-        await this.callHistoryService.update(callHistory._id.toString(), {
-          status: 'in-progress',
-          startedAt,
-        });
-        this.logger.log(`Updated call ${call.callId} to in-progress with startedAt: ${startedAt.toISOString()}`);
-      }
-    } catch (err) {
-      this.logger.warn(`Could not update call ${call.callId} on joined: ${err?.message}`);
-    }
+
+    // Move the call to in-progress and set startedAt
+    await this.callLifecycleService.handleEvent(
+      { talkrixCallId: call.callId },
+      {
+        type: 'answered',
+        source: 'talkrix',
+        at: call.joined ? new Date(call.joined) : undefined,
+      },
+    );
   }
 
   /**
@@ -178,144 +281,24 @@ export class WebhookController {
   private async handleCallEnded(call: TalkrixWebhookPayload['call']) {
     this.logger.log(`Call ended: ${call.callId}, reason: ${call.endReason}`);
 
-    try {
-      const callHistory = await this.callHistoryService.findByTalkrixCallId(call.callId);
-      if (!callHistory) {
-        this.logger.warn(`Call history not found for callId: ${call.callId}`);
-        return;
-      }
-
-      // Calculate duration from timestamps
-      let durationSeconds = 0;
-      if (call.joined && call.ended) {
-        const joined = new Date(call.joined);
-        const ended = new Date(call.ended);
-        durationSeconds = Math.round((ended.getTime() - joined.getTime()) / 1000);
-      } else if (callHistory.startedAt && call.ended) {
-        // Fallback: use stored startedAt if webhook joined timestamp is missing
-        const started = new Date(callHistory.startedAt);
-        const ended = new Date(call.ended);
-        durationSeconds = Math.round((ended.getTime() - started.getTime()) / 1000);
-      }
-
-      // Calculate billed duration - minimum 1 minute for any call with duration
-      let billedDuration = call.billedDuration;
-      if ((!billedDuration || billedDuration === '0s' || billedDuration === '0') && durationSeconds > 0) {
-        const billedMinutes = Math.max(1, Math.ceil(durationSeconds / 60));
-        billedDuration = `${billedMinutes}m`;
-      }
-
-      const updateData: any = {
-        status: 'completed',
-        endedAt: call.ended ? new Date(call.ended) : new Date(),
+    await this.callLifecycleService.handleEvent(
+      { talkrixCallId: call.callId },
+      {
+        type: 'ended',
+        source: 'talkrix',
+        outcome: endReasonToOutcome(call.endReason),
         endReason: call.endReason,
-      };
-
-      // Determine if this is a missed/failed call based on endReason
-      const isNoAnswer = call.endReason === 'unjoined' || call.endReason === 'timeout';
-      const isFailed = call.endReason === 'connection_error' || call.endReason === 'system_error';
-
-      if (isNoAnswer) {
-        updateData.status = 'missed';
-      } else if (isFailed) {
-        updateData.status = 'failed';
-      }
-
-      if (durationSeconds > 0) {
-        updateData.durationSeconds = durationSeconds;
-      }
-
-      // Use summaries from webhook if available, otherwise add default for missed/failed
-      if (call.shortSummary) {
-        updateData.shortSummary = call.shortSummary;
-      } else if (isNoAnswer) {
-        updateData.shortSummary = 'Call not answered';
-      } else if (isFailed) {
-        updateData.shortSummary = `Call failed: ${call.endReason}`;
-      }
-
-      if (call.summary) {
-        updateData.summary = call.summary;
-      } else if (isNoAnswer) {
-        updateData.summary = 'The call was not answered by the recipient. The phone rang but no one picked up. Consider retrying at a different time.';
-      } else if (isFailed) {
-        updateData.summary = `The call could not be completed. Reason: ${call.endReason}. Please check the phone number and try again.`;
-      }
-
-      if (billedDuration) {
-        updateData.billedDuration = billedDuration;
-      }
-
-      if (call.billingStatus) {
-        updateData.billingStatus = call.billingStatus;
-      }
-
-      // Handle recording URL (may use 'recording' or 'recordingUrl')
-      const recordingUrl = call.recordingUrl || call.recording;
-      if (recordingUrl) {
-        updateData.recordingUrl = recordingUrl;
-      }
-
-      await this.callHistoryService.update(callHistory._id.toString(), updateData);
-      this.logger.log(`Updated call history for ${call.callId} via webhook`);
-
-      // Update campaign contact status if this call was part of a campaign
-      if (callHistory.metadata?.campaignId) {
-        await this.updateCampaignContactStatus(
-          callHistory.metadata.campaignId as string,
-          call.callId,
-          call.endReason,
-          durationSeconds
-        );
-      }
-    } catch (err) {
-      this.logger.error(`Error updating call ${call.callId} on ended: ${err?.message}`);
-    }
-  }
-
-  /**
-   * Update campaign contact status when call ends
-   */
-  private async updateCampaignContactStatus(
-    campaignId: string,
-    callId: string,
-    endReason?: string,
-    durationSeconds?: number
-  ) {
-    try {
-      // Determine call status based on end reason
-      let callStatus: 'completed' | 'failed' | 'no-answer' = 'completed';
-      if (endReason === 'unjoined' || endReason === 'timeout') {
-        callStatus = 'no-answer';
-      } else if (endReason === 'connection_error' || endReason === 'system_error') {
-        callStatus = 'failed';
-      }
-      // hangup, agent_hangup are considered completed
-
-      this.logger.log(`Updating campaign contact status to ${callStatus} for call ${callId} (endReason: ${endReason})`);
-
-      // Use the new method that searches by callId directly
-      const campaign = await this.campaignService.updateContactCallStatusByCallId(
-        campaignId,
-        callId,
-        callStatus,
-        {
-          callDuration: durationSeconds || 0,
-        }
-      );
-
-      if (campaign) {
-        this.logger.log(`Updated campaign contact status to ${callStatus} for call ${callId}`);
-        
-        // Trigger next call in the campaign queue
-        // This handles the concurrency logic - when one call ends, start the next
-        await this.campaignSchedulerService.onCallEnded(campaignId, callId);
-      } else {
-        this.logger.warn(`Failed to update campaign contact - campaign ${campaignId} or contact with callId ${callId} not found`);
-      }
-    } catch (err) {
-      this.logger.error(`Error updating campaign contact status: ${err?.message}`);
-    }
+        at: call.ended ? new Date(call.ended) : undefined,
+        answeredAt: call.joined ? new Date(call.joined) : undefined,
+        billedDuration: call.billedDuration,
+        billingStatus: call.billingStatus,
+        summary: call.summary,
+        shortSummary: call.shortSummary,
+        // Recording URL may come as 'recording' or 'recordingUrl'
+        recordingUrl: call.recordingUrl || call.recording,
+      },
+    );
+    this.logger.log(`Processed call.ended for ${call.callId} via webhook`);
   }
 
   /**
@@ -324,26 +307,27 @@ export class WebhookController {
   private async handleCallBilled(call: TalkrixWebhookPayload['call']) {
     this.logger.log(`Call billed: ${call.callId}, duration: ${call.billedDuration}`);
 
-    try {
-      const callHistory = await this.callHistoryService.findByTalkrixCallId(call.callId);
-      if (!callHistory) {
-        this.logger.warn(`Call history not found for callId: ${call.callId}`);
-        return;
-      }
-
-      const updateData: any = {
-        billingStatus: call.billingStatus || 'billed',
-      };
+    const callHistory = await this.callHistoryService.findByTalkrixCallId(
+      call.callId,
+    );
+    if (!callHistory) {
+      this.logger.warn(`Call history not found for callId: ${call.callId}`);
+      return;
+    }
 
-      if (call.billedDuration) {
-        updateData.billedDuration = call.billedDuration;
-      }
+    const updateData: UpdateCallHistoryDto = {
+      billingStatus: call.billingStatus || 'billed',
+    };
 
-      await this.callHistoryService.update(callHistory._id.toString(), updateData);
-      this.logger.log(`Updated billing info for ${call.callId} via webhook`);
-    } catch (err) {
-      this.logger.error(`Error updating call ${call.callId} on billed: ${err?.message}`);
+    if (call.billedDuration) {
+      updateData.billedDuration = call.billedDuration;
     }
+
+    await this.callHistoryService.update(
+      callHistory._id.toString(),
+      updateData,
+    );
+    this.logger.log(`Updated billing info for ${call.callId} via webhook`);
   }
 
   // ==========================================
@@ -365,74 +349,94 @@ export class WebhookController {
   async handleTwilioStatusCallback(
     @Body() payload: TwilioStatusCallback,
     @Query('campaignId') campaignId: string,
-    @Query('contactId') contactId: string,
     @Query('callHistoryId') callHistoryId: string,
+    @Req() req: RawBodyRequest<Request>,
     @Res() res: Response,
   ) {
-    try {
-      // Log raw payload for debugging
-      this.logger.log(`Twilio raw payload: ${JSON.stringify(payload)}`);
-      this.logger.log(`Twilio query params: campaignId=${campaignId}, contactId=${contactId}, callHistoryId=${callHistoryId}`);
-      
-      // Validate required fields - Twilio sends form-urlencoded data
-      if (!payload || !payload.CallStatus) {
-        this.logger.warn('Twilio webhook missing required fields, returning OK to prevent retries');
-        res.type('text/xml');
-        return res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
-      }
+    res.type('text/xml');
+    const auth = await this.authenticate('twilio', req, {
+      campaignId,
+      callHistoryId,
+      providerCallId: payload?.CallSid,
+    });
+    if (auth.httpStatus !== 200) {
+      return res
+        .status(auth.httpStatus)
+        .send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+    }
 
-      this.logger.log(
-        `Received Twilio status callback: CallSid=${payload.CallSid}, Status=${payload.CallStatus}, ` +
-        `Duration=${payload.CallDuration || payload.Duration || '0'}, campaignId=${campaignId}`
-      );
+    const result = await this.receiveEvent(req, 'twilio', {
+      eventKey: payload?.CallSid
+        ? `${payload.CallSid}:${payload.CallStatus}`
+        : undefined,
+      eventType: payload?.CallStatus,
+      userId: auth.userId,
+    });
+
+    // Return empty TwiML response (Twilio expects XML response)
+    res.status(result.httpStatus);
+    return res.send(
+      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+    );
+  }
 
-      // Handle different call statuses
-      switch (payload.CallStatus) {
-        case 'ringing':
-          this.logger.log(`Twilio call ${payload.CallSid} is ringing`);
-          break;
+  private async processTwilioStatus(
+    payload: TwilioStatusCallback,
+    campaignId: string,
+    contactId: string,
+    callHistoryId: string,
+  ) {
+    // Log raw payload for debugging
+    this.logger.log(`Twilio raw payload: ${JSON.stringify(payload)}`);
+    this.logger.log(
+      `Twilio query params: campaignId=${campaignId}, contactId=${contactId}, callHistoryId=${callHistoryId}`,
+    );
+
+    // Validate required fields - Twilio sends form-urlencoded data
+    if (!payload || !payload.CallStatus) {
+      this.logger.warn('Twilio webhook missing required fields, ignoring');
+      return;
+    }
 
-        case 'in-progress':
-          this.logger.log(`Twilio call ${payload.CallSid} is in-progress`);
-          // Update call history to in-progress
-          // Try to find callHistoryId from campaign contact if not provided
-          let inProgressCallHistoryId = callHistoryId;
-          if (!inProgressCallHistoryId && campaignId && contactId) {
-            const campaign = await this.campaignService.findOne(campaignId);
-            if (campaign) {
-              const contact = campaign.contacts.find(c => c._id?.toString() === contactId);
-              if (contact?.callHistoryId) {
-                inProgressCallHistoryId = contact.callHistoryId;
-              }
-            }
-          }
-          if (inProgressCallHistoryId) {
-            await this.callHistoryService.update(inProgressCallHistoryId, {
-              status: 'in-progress',
-              startedAt: new Date(),
-            });
-          }
-          break;
+    this.logger.log(
+      `Received Twilio status callback: CallSid=${payload.CallSid}, Status=${payload.CallStatus}, ` +
+        `Duration=${payload.CallDuration || payload.Duration || '0'}, campaignId=${campaignId}`,
+    );
 
-        case 'completed':
-        case 'busy':
-        case 'failed':
-        case 'no-answer':
-        case 'canceled':
-          await this.handleTwilioCallEnded(payload, campaignId, contactId, callHistoryId);
-          break;
+    // Handle different call statuses
+    switch (payload.CallStatus) {
+      case 'ringing':
+        this.logger.log(`Twilio call ${payload.CallSid} is ringing`);
+        break;
 
-        default:
-          this.logger.log(`Unhandled Twilio status: ${payload.CallStatus}`);
-      }
+      case 'in-progress':
+        this.logger.log(`Twilio call ${payload.CallSid} is in-progress`);
+        await this.callLifecycleService.handleEvent(
+          {
+            callHistoryId,
+            campaignId,
+            contactId,
+            providerCallId: payload.CallSid,
+          },
+          { type: 'answered', source: 'twilio' },
+        );
+        break;
+
+      case 'completed':
+      case 'busy':
+      case 'failed':
+      case 'no-answer':
+      case 'canceled':
+        await this.handleTwilioCallEnded(
+          payload,
+          campaignId,
+          contactId,
+          callHistoryId,
+        );
+        break;
 
-      // Return empty TwiML response (Twilio expects XML response)
-      res.type('text/xml');
-      return res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
-    } catch (err) {
-      this.logger.error('Error processing Twilio webhook', err?.message || err);
-      res.type('text/xml');
-      return res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+      default:
+        this.logger.log(`Unhandled Twilio status: ${payload.CallStatus}`);
     }
   }
 
@@ -445,323 +449,658 @@ export class WebhookController {
     contactId: string,
     callHistoryId: string,
   ) {
-    try {
-      const durationSeconds = parseInt(payload.CallDuration || payload.Duration || '0', 10);
-      
-      // Map Twilio status to our call status
-      let callStatus: 'completed' | 'failed' | 'no-answer' = 'completed';
-      let endReason: string = 'hangup';
-
-      switch (payload.CallStatus) {
-        case 'completed':
-          callStatus = 'completed';
-          endReason = 'hangup';
-          break;
-        case 'busy':
-          callStatus = 'failed';
-          endReason = 'busy';
-          break;
-        case 'failed':
-          callStatus = 'failed';
-          endReason = payload.ErrorMessage || 'connection_error';
-          break;
-        case 'no-answer':
-          callStatus = 'no-answer';
-          endReason = 'no-answer';
-          break;
-        case 'canceled':
-          callStatus = 'failed';
-          endReason = 'canceled';
-          break;
-      }
-
-      this.logger.log(
-        `Twilio call ended: CallSid=${payload.CallSid}, Status=${callStatus}, ` +
-        `Duration=${durationSeconds}s, EndReason=${endReason}`
-      );
-
-      // Try to find callHistoryId from campaign contact if not provided
-      let resolvedCallHistoryId = callHistoryId;
-      if (!resolvedCallHistoryId && campaignId && contactId) {
-        // Lookup from campaign contact
-        const campaign = await this.campaignService.findOne(campaignId);
-        if (campaign) {
-          const contact = campaign.contacts.find(c => c._id?.toString() === contactId);
-          if (contact?.callHistoryId) {
-            resolvedCallHistoryId = contact.callHistoryId;
-            this.logger.log(`Found callHistoryId ${resolvedCallHistoryId} from campaign contact`);
-          }
-        }
-      }
+    const durationSeconds = parseInt(
+      payload.CallDuration || payload.Duration || '0',
+      10,
+    );
+
+    // Map Twilio status to an attempt outcome
+    let outcome: CallAttemptOutcome = 'completed';
+    let endReason: string = 'hangup';
+
+    switch (payload.CallStatus) {
+      case 'completed':
+        outcome = 'completed';
+        endReason = 'hangup';
+        break;
+      case 'busy':
+        outcome = 'busy';
+        endReason = 'busy';
+        break;
+      case 'failed':
+        outcome = 'connection_error';
+        endReason = payload.ErrorMessage || 'connection_error';
+        break;
+      case 'no-answer':
+        outcome = 'no-answer';
+        endReason = 'no-answer';
+        break;
+      case 'canceled':
+        outcome = 'failed';
+        endReason = 'canceled';
+        break;
+    }
 
-      // Update call history
-      if (resolvedCallHistoryId) {
-        const updateData: any = {
-          status: callStatus === 'no-answer' ? 'missed' : callStatus,
-          endedAt: new Date(),
-          durationSeconds,
-          endReason: endReason as any,
-          billedDuration: durationSeconds > 0 ? `${Math.ceil(durationSeconds / 60)}m` : '0m',
-        };
-
-        // Add summary for missed/no-answer calls
-        if (callStatus === 'no-answer') {
-          updateData.shortSummary = 'Call not answered';
-          updateData.summary = 'The call was not answered by the recipient. The phone rang but no one picked up. Consider retrying at a different time.';
-        } else if (callStatus === 'failed') {
-          updateData.shortSummary = `Call failed: ${endReason}`;
-          updateData.summary = `The call could not be completed. Reason: ${endReason}. Please check the phone number and try again.`;
-        }
+    this.logger.log(
+      `Twilio call ended: CallSid=${payload.CallSid}, Outcome=${outcome}, ` +
+        `Duration=${durationSeconds}s, EndReason=${endReason}`,
+    );
+
+    await this.callLifecycleService.handleEvent(
+      { callHistoryId, campaignId, contactId, providerCallId: payload.CallSid },
+      {
+        type: 'ended',
+        source: 'twilio',
+        outcome,
+        endReason,
+        durationSeconds,
+        notes: `Twilio: ${payload.CallStatus}${payload.ErrorMessage ? ' - ' + payload.ErrorMessage : ''}`,
+      },
+    );
+  }
 
-        await this.callHistoryService.update(resolvedCallHistoryId, updateData);
-        this.logger.log(`Updated call history ${resolvedCallHistoryId} via Twilio webhook`);
-      }
+  /**
+   * Twilio answering machine detection callback
+   * POST /webhook/twilio/amd?campaignId=xxx&contactId=xxx
+   * Posted once the greeting is over (DetectMessageEnd), so a voicemail can follow the beep
+   */
+  @Post('twilio/amd')
+  @HttpCode(200)
+  async handleTwilioAmdCallback(
+    @Body() payload: TwilioAmdCallback,
+    @Query('campaignId') campaignId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    res.type('text/xml');
+    const auth = await this.authenticate('twilio', req, {
+      campaignId,
+      providerCallId: payload?.CallSid,
+    });
+    if (auth.httpStatus !== 200) {
+      return res
+        .status(auth.httpStatus)
+        .send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+    }
 
-      // Update campaign contact status and trigger next call
-      if (campaignId && contactId) {
-        await this.campaignService.updateContactCallStatus(
-          campaignId,
-          contactId,
-          callStatus,
-          {
-            callDuration: durationSeconds,
-            callNotes: `Twilio: ${payload.CallStatus}${payload.ErrorMessage ? ' - ' + payload.ErrorMessage : ''}`,
-          }
-        );
-        this.logger.log(`Updated campaign ${campaignId} contact ${contactId} status to ${callStatus}`);
+    const result = await this.receiveEvent(req, 'twilio', {
+      eventKey: payload?.CallSid ? `${payload.CallSid}:amd` : undefined,
+      eventType: 'amd',
+      userId: auth.userId,
+    });
+    res.status(result.httpStatus);
+    return res.send(
+      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+    );
+  }
 
-        // Trigger scheduler to process next call
-        // Use CallSid as the callId for tracking
-        await this.campaignSchedulerService.onCallEnded(campaignId, payload.CallSid);
-      }
-    } catch (err) {
-      this.logger.error(`Error handling Twilio call ended: ${err?.message}`);
-    }
+  private async processTwilioAmd(
+    payload: TwilioAmdCallback,
+    campaignId: string,
+    contactId: string,
+    callHistoryId: string,
+  ) {
+    this.logger.log(
+      `Twilio AMD result for ${payload?.CallSid}: ${payload?.AnsweredBy}`,
+    );
+    if (!payload?.CallSid || !payload.AnsweredBy) return;
+
+    let answeredBy: AnsweredBy = 'unknown';
+    if (payload.AnsweredBy === 'human') answeredBy = 'human';
+    else if (
+      payload.AnsweredBy.startsWith('machine') ||
+      payload.AnsweredBy === 'fax'
+    )
+      answeredBy = 'machine';
+
+    await this.answeringMachineService.handleResult(
+      { callHistoryId, campaignId, contactId, providerCallId: payload.CallSid },
+      {
+        provider: 'twilio',
+        answeredBy,
+        carrierCallId: payload.CallSid,
+        detected: true,
+        greetingEnded: true,
+      },
+    );
   }
 
   // ==========================================
   // PLIVO STATUS CALLBACK WEBHOOK
   // ==========================================
-
   /**
-   * Plivo Callback Endpoint
-   * Receives status updates when call events occur via Plivo
-   * POST /webhook/plivo/status
-   * 
-   * Configure this URL in Plivo as the callback URL when making outbound calls
-   * URL format: https://your-domain.com/webhook/plivo/status?campaignId=xxx&contactId=xxx&callHistoryId=xxx
+   * Plivo Answer URL
+   * Plivo requests this when an outbound call is answered and follows the returned Plivo XML,
+   * which streams the call audio to the joinUrl stored with the call's history
+   * POST /webhook/plivo/answer?campaignId=xxx&contactId=xxx&callHistoryId=xxx
    */
-  @Post('plivo/status')
+  @Post('plivo/answer')
   @HttpCode(200)
-  async handlePlivoStatusCallback(
+  async handlePlivoAnswer(
     @Body() payload: PlivoCallback,
     @Query('campaignId') campaignId: string,
     @Query('contactId') contactId: string,
     @Query('callHistoryId') callHistoryId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
   ) {
+    res.type('application/xml');
+
+    const providerCallId = payload?.RequestUUID || payload?.CallUUID;
+    const auth = await this.authenticate('plivo', req, {
+      campaignId,
+      callHistoryId,
+      providerCallId,
+    });
+    if (auth.httpStatus !== 200) {
+      return res
+        .status(auth.httpStatus)
+        .send(
+          '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>',
+        );
+    }
+
+    let joinUrl: string | undefined;
     try {
-      this.logger.log(
-        `Received Plivo status callback: CallUUID=${payload.CallUUID}, Status=${payload.CallStatus}, ` +
-        `Duration=${payload.Duration || '0'}, campaignId=${campaignId}`
+      joinUrl = await this.callLifecycleService.getJoinUrl({
+        callHistoryId,
+        campaignId,
+        contactId,
+        providerCallId,
+      });
+    } catch (err) {
+      this.logger.error(
+        'Error looking up joinUrl on Plivo answer',
+        err instanceof Error ? err.message : err,
+      );
+    }
+    const logKey = payload?.CallUUID ? `answer:${payload.CallUUID}` : undefined;
+    if (!joinUrl || !/^wss:\/\//i.test(joinUrl)) {
+      this.logger.warn(
+        `Plivo answer for call ${payload?.CallUUID} has no valid joinUrl, hanging up`,
+      );
+      res.send(
+        '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>',
       );
+      return this.logAnsweredRequest(req, 'plivo', {
+        eventKey: logKey,
+        eventType: 'answer',
+        userId: auth.userId,
+        error: 'No joinUrl for the call - hung up',
+      });
+    }
 
-      // Handle different call statuses
-      switch (payload.CallStatus) {
-        case 'ringing':
-          this.logger.log(`Plivo call ${payload.CallUUID} is ringing`);
-          break;
+    this.logger.log(
+      `Plivo call ${payload?.CallUUID} answered, streaming to Ultravox (campaignId=${campaignId})`,
+    );
 
-        case 'in-progress':
-          this.logger.log(`Plivo call ${payload.CallUUID} is in-progress`);
-          // Update call history to in-progress
-          if (callHistoryId) {
-            await this.callHistoryService.update(callHistoryId, {
-              status: 'in-progress',
-              startedAt: payload.AnswerTime ? new Date(payload.AnswerTime) : new Date(),
-            });
-          }
-          break;
+    try {
+      await this.callLifecycleService.handleEvent(
+        { callHistoryId, campaignId, contactId, providerCallId },
+        { type: 'answered', source: 'plivo' },
+      );
+    } catch (err) {
+      // Never fail the answer because of a bookkeeping error - the caller is waiting
+      this.logger.error(
+        'Error updating call history on Plivo answer',
+        err instanceof Error ? err.message : err,
+      );
+    }
 
-        case 'completed':
-        case 'busy':
-        case 'failed':
-        case 'no-answer':
-        case 'timeout':
-        case 'cancel':
-        case 'machine':
-          await this.handlePlivoCallEnded(payload, campaignId, contactId, callHistoryId);
-          break;
+    res.send(this.plivoService.buildStreamXml(joinUrl));
+    return this.logAnsweredRequest(req, 'plivo', {
+      eventKey: logKey,
+      eventType: 'answer',
+      userId: auth.userId,
+    });
+  }
 
-        default:
-          this.logger.log(`Unhandled Plivo status: ${payload.CallStatus}`);
-      }
+  /**
+   * Plivo voicemail URL
+   * A call answered by a machine is transferred here and reads the campaign's voicemail message
+   * POST /webhook/plivo/voicemail?campaignId=xxx&contactId=xxx
+   */
+  @Post('plivo/voicemail')
+  @HttpCode(200)
+  async handlePlivoVoicemail(
+    @Body() payload: PlivoCallback,
+    @Query('campaignId') campaignId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    res.type('application/xml');
+    const hangupXml =
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>';
+
+    const auth = await this.authenticate('plivo', req, {
+      campaignId,
+      providerCallId: payload?.RequestUUID || payload?.CallUUID,
+    });
+    if (auth.httpStatus !== 200) {
+      return res.status(auth.httpStatus).send(hangupXml);
+    }
 
-      return { status: 'ok' };
+    try {
+      const campaign = campaignId
+        ? await this.campaignService.findOne(campaignId)
+        : null;
+      const message = campaign?.answeringMachine?.message;
+      if (!message) {
+        this.logger.warn(
+          `No voicemail message for Plivo call ${payload?.CallUUID} (campaignId=${campaignId}), hanging up`,
+        );
+        return res.send(hangupXml);
+      }
+      return res.send(this.plivoService.buildSpeakXml(message));
     } catch (err) {
-      this.logger.error('Error processing Plivo webhook', err?.message || err);
-      return { status: 'ok' };
+      this.logger.error(
+        'Error building Plivo voicemail XML',
+        err instanceof Error ? err.message : err,
+      );
+      return res.send(hangupXml);
     }
   }
 
   /**
-   * Handle Plivo call ended
+   * Plivo answering machine detection callback
+   * POST /webhook/plivo/amd?campaignId=xxx&contactId=xxx
    */
-  private async handlePlivoCallEnded(
+  @Post('plivo/amd')
+  @HttpCode(200)
+  async handlePlivoAmdCallback(
+    @Body() payload: PlivoCallback,
+    @Query('campaignId') campaignId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const plivoCallId = payload?.RequestUUID || payload?.CallUUID;
+    const auth = await this.authenticate('plivo', req, {
+      campaignId,
+      providerCallId: plivoCallId,
+    });
+    if (auth.httpStatus !== 200) {
+      res.status(auth.httpStatus);
+      return { status: 'error', message: auth.message };
+    }
+
+    const result = await this.receiveEvent(req, 'plivo', {
+      eventKey: plivoCallId ? `${plivoCallId}:amd` : undefined,
+      eventType: 'amd',
+      userId: auth.userId,
+    });
+    res.status(result.httpStatus);
+    return {
+      status: result.httpStatus === 200 ? 'ok' : 'error',
+      eventId: result.eventId,
+    };
+  }
+
+  private async processPlivoAmd(
     payload: PlivoCallback,
     campaignId: string,
     contactId: string,
     callHistoryId: string,
   ) {
-    try {
-      const durationSeconds = parseInt(payload.Duration || '0', 10);
-      const billDuration = parseInt(payload.BillDuration || '0', 10);
-      
-      // Map Plivo status to our call status
-      let callStatus: 'completed' | 'failed' | 'no-answer' = 'completed';
-      let endReason: string = 'hangup';
-
-      switch (payload.CallStatus) {
-        case 'completed':
-          callStatus = 'completed';
-          endReason = payload.HangupCause || 'hangup';
-          break;
-        case 'busy':
-          callStatus = 'failed';
-          endReason = 'busy';
-          break;
-        case 'failed':
-          callStatus = 'failed';
-          endReason = payload.HangupCause || 'connection_error';
-          break;
-        case 'no-answer':
-        case 'timeout':
-          callStatus = 'no-answer';
-          endReason = payload.CallStatus;
-          break;
-        case 'cancel':
-          callStatus = 'failed';
-          endReason = 'canceled';
-          break;
-        case 'machine':
-          // Answering machine detected
-          callStatus = 'failed';
-          endReason = 'answering_machine';
-          break;
-      }
-
-      this.logger.log(
-        `Plivo call ended: CallUUID=${payload.CallUUID}, Status=${callStatus}, ` +
-        `Duration=${durationSeconds}s, BillDuration=${billDuration}s, EndReason=${endReason}`
-      );
+    this.logger.log(
+      `Plivo AMD result for ${payload?.CallUUID}: MachineDetection=${payload?.MachineDetection}`,
+    );
+    if (!payload?.CallUUID || payload.MachineDetection === undefined) return;
+
+    await this.answeringMachineService.handleResult(
+      {
+        callHistoryId,
+        campaignId,
+        contactId,
+        providerCallId: payload.RequestUUID || payload.CallUUID,
+      },
+      {
+        provider: 'plivo',
+        answeredBy: payload.MachineDetection === 'true' ? 'machine' : 'human',
+        carrierCallId: payload.CallUUID,
+        detected: true,
+        greetingEnded: true,
+      },
+    );
+  }
 
-      // Update call history
-      if (callHistoryId) {
-        const updateData: any = {
-          status: callStatus === 'no-answer' ? 'missed' : callStatus,
-          endedAt: payload.EndTime ? new Date(payload.EndTime) : new Date(),
-          durationSeconds,
-          endReason: endReason as any,
-          billedDuration: billDuration > 0 ? `${Math.ceil(billDuration / 60)}m` : '0m',
-          billingStatus: payload.TotalCost ? 'billed' : undefined,
-          metadata: {
-            plivoCallUUID: payload.CallUUID,
-            plivoHangupCause: payload.HangupCause,
-            plivoHangupCauseCode: payload.HangupCauseCode,
-            plivoTotalCost: payload.TotalCost,
-            plivoBillRate: payload.BillRate,
-          },
-        };
-
-        // Add summary for missed/no-answer calls
-        if (callStatus === 'no-answer') {
-          updateData.shortSummary = 'Call not answered';
-          updateData.summary = 'The call was not answered by the recipient. The phone rang but no one picked up. Consider retrying at a different time.';
-        } else if (callStatus === 'failed') {
-          updateData.shortSummary = `Call failed: ${endReason}`;
-          updateData.summary = `The call could not be completed. Reason: ${endReason}. Please check the phone number and try again.`;
-        }
+  /**
+   * Plivo Callback Endpoint
+   * Receives status updates when call events occur via Plivo
+   * POST /webhook/plivo/status
+   * 
+   * Used as the ring_url and hangup_url of outbound calls placed through Plivo
+   * URL format: https://your-domain.com/webhook/plivo/status?campaignId=xxx&contactId=xxx
+   */
+  @Post('plivo/status')
+  @HttpCode(200)
+  async handlePlivoStatusCallback(
+    @Body() payload: PlivoCallback,
+    @Query('campaignId') campaignId: string,
+    @Query('callHistoryId') callHistoryId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const plivoCallId = payload?.RequestUUID || payload?.CallUUID;
+    const auth = await this.authenticate('plivo', req, {
+      campaignId,
+      callHistoryId,
+      providerCallId: plivoCallId,
+    });
+    if (auth.httpStatus !== 200) {
+      res.status(auth.httpStatus);
+      return { status: 'error', message: auth.message };
+    }
 
-        await this.callHistoryService.update(callHistoryId, updateData);
-        this.logger.log(`Updated call history ${callHistoryId} via Plivo webhook`);
-      }
+    const result = await this.receiveEvent(req, 'plivo', {
+      eventKey: plivoCallId
+        ? `${plivoCallId}:${payload.CallStatus}`
+        : undefined,
+      eventType: payload?.CallStatus,
+      userId: auth.userId,
+    });
+    res.status(result.httpStatus);
+    return {
+      status: result.httpStatus === 200 ? 'ok' : 'error',
+      eventId: result.eventId,
+    };
+  }
 
-      // Update campaign contact status and trigger next call
-      if (campaignId && contactId) {
-        await this.campaignService.updateContactCallStatus(
+  private async processPlivoStatus(
+    payload: PlivoCallback,
+    campaignId: string,
+    contactId: string,
+    callHistoryId: string,
+  ) {
+    this.logger.log(
+      `Received Plivo status callback: CallUUID=${payload.CallUUID}, Status=${payload.CallStatus}, ` +
+        `Duration=${payload.Duration || '0'}, campaignId=${campaignId}`,
+    );
+
+    // Handle different call statuses
+    switch (payload.CallStatus) {
+      case 'ringing':
+        this.logger.log(`Plivo call ${payload.CallUUID} is ringing`);
+        break;
+
+      case 'in-progress':
+        this.logger.log(`Plivo call ${payload.CallUUID} is in-progress`);
+        await this.callLifecycleService.handleEvent(
+          {
+            callHistoryId,
+            campaignId,
+            contactId,
+            providerCallId: payload.RequestUUID || payload.CallUUID,
+          },
+          {
+            type: 'answered',
+            source: 'plivo',
+            at: payload.AnswerTime ? new Date(payload.AnswerTime) : undefined,
+          },
+        );
+        break;
+
+      case 'completed':
+      case 'busy':
+      case 'failed':
+      case 'no-answer':
+      case 'timeout':
+      case 'cancel':
+      case 'machine':
+        await this.handlePlivoCallEnded(
+          payload,
           campaignId,
           contactId,
-          callStatus,
-          {
-            callDuration: durationSeconds,
-            callNotes: `Plivo: ${payload.CallStatus}${payload.HangupCause ? ' - ' + payload.HangupCause : ''}`,
-          }
+          callHistoryId,
         );
-        this.logger.log(`Updated campaign ${campaignId} contact ${contactId} status to ${callStatus}`);
+        break;
 
-        // Trigger scheduler to process next call
-        await this.campaignSchedulerService.onCallEnded(campaignId, payload.CallUUID);
-      }
-    } catch (err) {
-      this.logger.error(`Error handling Plivo call ended: ${err?.message}`);
+      default:
+        this.logger.log(
+          `Unhandled Plivo status: ${String(payload.CallStatus)}`,
+        );
     }
   }
 
+  /**
+   * Handle Plivo call ended
+   */
+  private async handlePlivoCallEnded(
+    payload: PlivoCallback,
+    campaignId: string,
+    contactId: string,
+    callHistoryId: string,
+  ) {
+    const durationSeconds = parseInt(payload.Duration || '0', 10);
+    const billDuration = parseInt(payload.BillDuration || '0', 10);
+
+    // Map Plivo status to an attempt outcome
+    let outcome: CallAttemptOutcome = 'completed';
+    let endReason: string = 'hangup';
+
+    switch (payload.CallStatus) {
+      case 'completed':
+        outcome = 'completed';
+        endReason = payload.HangupCause || 'hangup';
+        break;
+      case 'busy':
+        outcome = 'busy';
+        endReason = 'busy';
+        break;
+      case 'failed':
+        outcome = 'connection_error';
+        endReason = payload.HangupCause || 'connection_error';
+        break;
+      case 'no-answer':
+      case 'timeout':
+        outcome = 'no-answer';
+        endReason = payload.CallStatus;
+        break;
+      case 'cancel':
+        outcome = 'failed';
+        endReason = 'canceled';
+        break;
+      case 'machine':
+        // Answering machine detected
+        outcome = 'voicemail';
+        endReason = 'answering_machine';
+        break;
+    }
+
+    this.logger.log(
+      `Plivo call ended: CallUUID=${payload.CallUUID}, Outcome=${outcome}, ` +
+        `Duration=${durationSeconds}s, BillDuration=${billDuration}s, EndReason=${endReason}`,
+    );
+
+    await this.callLifecycleService.handleEvent(
+      {
+        callHistoryId,
+        campaignId,
+        contactId,
+        providerCallId: payload.RequestUUID || payload.CallUUID,
+      },
+      {
+        type: 'ended',
+        source: 'plivo',
+        outcome,
+        endReason,
+        at: payload.EndTime ? new Date(payload.EndTime) : undefined,
+        durationSeconds,
+        billableSeconds: billDuration,
+        billingStatus: payload.TotalCost ? 'billed' : undefined,
+        notes: `Plivo: ${payload.CallStatus}${payload.HangupCause ? ' - ' + payload.HangupCause : ''}`,
+        metadata: {
+          plivoCallUUID: payload.CallUUID,
+          plivoRequestUUID: payload.RequestUUID,
+          plivoHangupCause: payload.HangupCause,
+          plivoHangupCauseCode: payload.HangupCauseCode,
+          plivoTotalCost: payload.TotalCost,
+          plivoBillRate: payload.BillRate,
+        },
+      },
+    );
+  }
+
   // ==========================================
-  // TELNYX STATUS CALLBACK WEBHOOK (Bonus)
+  // TELNYX CALL CONTROL WEBHOOK
   // ==========================================
 
   /**
    * Telnyx Callback Endpoint
-   * Receives status updates when call events occur via Telnyx
-   * POST /webhook/telnyx/status
+   * Receives Call Control events for outbound calls dialled through Telnyx
+   * POST /webhook/telnyx/status?campaignId=xxx&contactId=xxx
+   *
+   * Events are signed with Ed25519 and checked with the campaign owner's Telnyx public key (or
+   * TELNYX_PUBLIC_KEY) - unsigned or badly signed events, and all events while no key is configured,
+   * are rejected with 401
    */
   @Post('telnyx/status')
   @HttpCode(200)
   async handleTelnyxStatusCallback(
-    @Body() payload: any,
+    @Body() payload: TelnyxWebhookPayload,
     @Query('campaignId') campaignId: string,
-    @Query('contactId') contactId: string,
     @Query('callHistoryId') callHistoryId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    try {
-      // Telnyx sends events in a different format
-      const event = payload.data;
-      const eventType = event?.event_type;
-      const callControlId = event?.payload?.call_control_id;
-      const callLegId = event?.payload?.call_leg_id;
+    const callControlId = payload?.data?.payload?.call_control_id;
+    const auth = await this.authenticate('telnyx', req, {
+      campaignId,
+      callHistoryId,
+      providerCallId: callControlId,
+    });
+    if (auth.httpStatus !== 200) {
+      res.status(auth.httpStatus);
+      return { status: 'error', message: auth.message };
+    }
 
-      this.logger.log(
-        `Received Telnyx callback: event_type=${eventType}, call_control_id=${callControlId}, campaignId=${campaignId}`
-      );
+    const result = await this.receiveEvent(req, 'telnyx', {
+      eventKey: payload?.data?.id,
+      eventType: payload?.data?.event_type,
+      userId: auth.userId,
+    });
+    res.status(result.httpStatus);
+    return {
+      status: result.httpStatus === 200 ? 'ok' : 'error',
+      eventId: result.eventId,
+    };
+  }
 
-      switch (eventType) {
-        case 'call.initiated':
-        case 'call.ringing':
-          this.logger.log(`Telnyx call ${callControlId} is ${eventType}`);
-          break;
+  private async processTelnyxEvent(
+    payload: TelnyxWebhookPayload,
+    campaignId: string,
+    contactId: string,
+    callHistoryId: string,
+  ) {
+    // Telnyx sends events in a different format
+    const event = payload?.data;
+    const eventType = event?.event_type;
+    const callControlId = event?.payload?.call_control_id;
+
+    this.logger.log(
+      `Received Telnyx callback: event_type=${eventType}, call_control_id=${callControlId}, campaignId=${campaignId}`,
+    );
+
+    switch (eventType) {
+      case 'call.initiated':
+      case 'call.ringing':
+        this.logger.log(`Telnyx call ${callControlId} is ${eventType}`);
+        break;
+
+      case 'call.answered':
+        this.logger.log(`Telnyx call ${callControlId} answered`);
+        await this.callLifecycleService.handleEvent(
+          {
+            callHistoryId,
+            campaignId,
+            contactId,
+            providerCallId: callControlId,
+          },
+          { type: 'answered', source: 'telnyx' },
+        );
+        break;
 
-        case 'call.answered':
-          this.logger.log(`Telnyx call ${callControlId} answered`);
-          if (callHistoryId) {
-            await this.callHistoryService.update(callHistoryId, {
-              status: 'in-progress',
-              startedAt: new Date(),
-            });
-          }
-          break;
+      case 'streaming.started':
+        this.logger.log(
+          `Telnyx call ${callControlId} is streaming to Ultravox`,
+        );
+        break;
 
-        case 'call.hangup':
-          await this.handleTelnyxCallEnded(event, campaignId, contactId, callHistoryId);
-          break;
+      case 'streaming.failed':
+        // The call hangs up shortly after and is finalized by the call.hangup event
+        this.logger.warn(
+          `Telnyx call ${callControlId} could not stream to Ultravox: ${JSON.stringify(event?.payload?.failure_reason || '')}`,
+        );
+        break;
 
-        default:
-          this.logger.log(`Unhandled Telnyx event: ${eventType}`);
+      case 'call.hangup':
+        await this.handleTelnyxCallEnded(
+          event,
+          campaignId,
+          contactId,
+          callHistoryId,
+        );
+        break;
+
+      case 'call.machine.detection.ended': {
+        // result: human | machine | not_sure
+        const result = event?.payload?.result;
+        await this.answeringMachineService.handleResult(
+          {
+            callHistoryId,
+            campaignId,
+            contactId,
+            providerCallId: callControlId,
+          },
+          {
+            provider: 'telnyx',
+            answeredBy:
+              result === 'human'
+                ? 'human'
+                : result === 'machine'
+                  ? 'machine'
+                  : 'unknown',
+            carrierCallId: callControlId,
+            detected: true,
+            greetingEnded: false,
+          },
+        );
+        break;
       }
 
-      return { status: 'ok' };
-    } catch (err) {
-      this.logger.error('Error processing Telnyx webhook', err?.message || err);
-      return { status: 'ok' };
+      case 'call.machine.greeting.ended':
+        // The machine's greeting (and beep) is over - only sent for calls detected as machines
+        await this.answeringMachineService.handleResult(
+          {
+            callHistoryId,
+            campaignId,
+            contactId,
+            providerCallId: callControlId,
+          },
+          {
+            provider: 'telnyx',
+            answeredBy: 'machine',
+            carrierCallId: callControlId,
+            detected: false,
+            greetingEnded: true,
+          },
+        );
+        break;
+
+      case 'call.speak.ended': {
+        const clientState = event?.payload?.client_state
+          ? Buffer.from(event.payload.client_state, 'base64').toString()
+          : undefined;
+        if (clientState === TELNYX_VOICEMAIL_CLIENT_STATE) {
+          await this.answeringMachineService.handleTelnyxSpeakEnded(
+            callControlId,
+            campaignId,
+          );
+        }
+        break;
+      }
+
+      default:
+        this.logger.log(`Unhandled Telnyx event: ${eventType}`);
     }
   }
 
@@ -769,108 +1108,575 @@ export class WebhookController {
    * Handle Telnyx call ended
    */
   private async handleTelnyxCallEnded(
-    event: any,
+    event: TelnyxWebhookPayload['data'],
     campaignId: string,
     contactId: string,
     callHistoryId: string,
   ) {
+    const payload = event?.payload || {};
+    const hangupCause = payload.hangup_cause;
+    const hangupSource = payload.hangup_source;
+    const callControlId = payload.call_control_id;
+
+    // Map Telnyx hangup cause to an attempt outcome
+    let outcome: CallAttemptOutcome = 'completed';
+    let endReason: string = 'hangup';
+
+    switch (hangupCause) {
+      case 'normal_clearing':
+      case 'normal':
+        outcome = 'completed';
+        endReason = 'hangup';
+        break;
+      case 'user_busy':
+        outcome = 'busy';
+        endReason = 'busy';
+        break;
+      case 'time_limit':
+        outcome = 'completed';
+        endReason = 'time_limit';
+        break;
+      case 'no_answer':
+      case 'no_user_response':
+      case 'timeout':
+        outcome = 'no-answer';
+        endReason = 'no-answer';
+        break;
+      case 'originator_cancel':
+        outcome = 'failed';
+        endReason = 'canceled';
+        break;
+      case 'call_rejected':
+      case 'unallocated_number':
+      case 'not_found':
+      case 'number_changed':
+        outcome = 'failed';
+        endReason = hangupCause;
+        break;
+      default:
+        if (hangupCause?.includes('error') || hangupCause?.includes('fail')) {
+          outcome = 'connection_error';
+        }
+        endReason = hangupCause || 'unknown';
+    }
+
+    this.logger.log(
+      `Telnyx call ended: call_control_id=${callControlId}, Outcome=${outcome}, EndReason=${endReason}`,
+    );
+
+    // Duration is taken from the start/end timestamps when Telnyx sends them
+    await this.callLifecycleService.handleEvent(
+      { callHistoryId, campaignId, contactId, providerCallId: callControlId },
+      {
+        type: 'ended',
+        source: 'telnyx',
+        outcome,
+        endReason,
+        at: payload.end_time ? new Date(payload.end_time) : undefined,
+        answeredAt: payload.start_time
+          ? new Date(payload.start_time)
+          : undefined,
+        notes: `Telnyx: ${hangupCause || 'completed'}`,
+        metadata: {
+          telnyxCallControlId: callControlId,
+          telnyxHangupCause: hangupCause,
+          telnyxHangupSource: hangupSource,
+        },
+      },
+    );
+  }
+
+  // ==========================================
+  // WEBHOOK EVENT LOG
+  // ==========================================
+  // Every status webhook is stored before it is processed. A processing error marks the stored event
+  // failed and answers 500, so the provider's own retry (or a replay below) processes it again;
+  // redeliveries of an already processed event are acknowledged without processing.
+  // The inbound and answer URLs return call markup to a waiting caller. They are logged with their
+  // outcome once answered, but cannot be replayed.
+
+  /**
+   * Store and process one webhook event
+   * Answers 500 when the event could not be stored or processed so the provider redelivers it
+   */
+  private async receiveEvent(
+    req: RawBodyRequest<Request>,
+    provider: WebhookProvider,
+    data: { eventKey?: string; eventType?: string; userId?: string },
+  ): Promise<{ httpStatus: number; eventId?: string }> {
+    let stored: { event: WebhookEvent; isDuplicate: boolean };
     try {
-      const payload = event?.payload || {};
-      const hangupCause = payload.hangup_cause;
-      const hangupSource = payload.hangup_source;
-      const callControlId = payload.call_control_id;
-      
-      // Calculate duration from timestamps if available
-      let durationSeconds = 0;
-      if (payload.start_time && payload.end_time) {
-        const startTime = new Date(payload.start_time);
-        const endTime = new Date(payload.end_time);
-        durationSeconds = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
-      }
+      stored = await this.webhookEventService.record({
+        provider,
+        eventKey: data.eventKey,
+        eventType: data.eventType,
+        userId: data.userId,
+        headers: req.headers,
+        query: req.query,
+        body: req.body as Record<string, any>,
+        rawBody: req.rawBody,
+      });
+    } catch (err) {
+      this.logger.error(
+        `Could not store ${provider} webhook event ${data.eventKey || ''}`,
+        err instanceof Error ? err.message : err,
+      );
+      return { httpStatus: 500 };
+    }
+
+    const eventId = stored.event._id.toString();
+    if (stored.isDuplicate) {
+      this.logger.log(
+        `Ignoring duplicate ${provider} webhook event ${stored.event.eventKey} (already processed)`,
+      );
+      return { httpStatus: 200, eventId };
+    }
 
-      // Map Telnyx hangup cause to our status
-      let callStatus: 'completed' | 'failed' | 'no-answer' = 'completed';
-      let endReason: string = 'hangup';
+    const result = await this.processStoredEvent(stored.event);
+    return { httpStatus: result.status === 'failed' ? 500 : 200, eventId };
+  }
 
-      switch (hangupCause) {
-        case 'normal_clearing':
-        case 'normal':
-          callStatus = 'completed';
-          endReason = 'hangup';
+  /**
+   * Log an inbound or answer request after its markup was returned
+   * Never fails the request - the caller has already been answered
+   */
+  private async logAnsweredRequest(
+    req: RawBodyRequest<Request>,
+    provider: WebhookProvider,
+    data: {
+      eventKey?: string;
+      eventType: string;
+      userId?: string;
+      error?: string;
+    },
+  ): Promise<void> {
+    try {
+      await this.webhookEventService.recordAnswered({
+        provider,
+        eventKey: data.eventKey,
+        eventType: data.eventType,
+        userId: data.userId,
+        headers: req.headers,
+        query: req.query,
+        body: req.body as Record<string, any>,
+        status: data.error ? 'failed' : 'processed',
+        error: data.error,
+      });
+    } catch (err) {
+      this.logger.error(
+        `Could not log ${provider} ${data.eventType} request ${data.eventKey || ''}`,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Check a webhook's signature before anything is stored
+   * 401 when it is missing or wrong, 500 when it could not be checked (the provider retries)
+   */
+  private async authenticate(
+    provider: WebhookProvider,
+    req: RawBodyRequest<Request>,
+    ref: WebhookCallRef,
+  ): Promise<{ httpStatus: number; userId?: string; message?: string }> {
+    try {
+      let auth: WebhookAuthResult;
+      switch (provider) {
+        case 'talkrix':
+          auth = await this.webhookAuthService.verifyTalkrix(req, ref);
           break;
-        case 'user_busy':
-          callStatus = 'failed';
-          endReason = 'busy';
+        case 'twilio':
+          auth = await this.webhookAuthService.verifyTwilio(req, ref);
           break;
-        case 'no_answer':
-        case 'no_user_response':
-          callStatus = 'no-answer';
-          endReason = 'no-answer';
+        case 'plivo':
+          auth = await this.webhookAuthService.verifyPlivo(req, ref);
           break;
-        case 'call_rejected':
-        case 'unallocated_number':
-        case 'number_changed':
-          callStatus = 'failed';
-          endReason = hangupCause;
+        case 'telnyx':
+          auth = await this.webhookAuthService.verifyTelnyx(req, ref);
           break;
-        default:
-          if (hangupCause?.includes('error') || hangupCause?.includes('fail')) {
-            callStatus = 'failed';
-          }
-          endReason = hangupCause || 'unknown';
       }
 
-      this.logger.log(
-        `Telnyx call ended: call_control_id=${callControlId}, Status=${callStatus}, ` +
-        `Duration=${durationSeconds}s, EndReason=${endReason}`
+      if (!auth.valid) {
+        this.logger.warn(
+          `Invalid ${provider} webhook signature (${req.originalUrl})`,
+        );
+        return { httpStatus: 401, message: 'Invalid signature' };
+      }
+      return { httpStatus: 200, userId: auth.userId };
+    } catch (err) {
+      this.logger.error(
+        `Could not verify ${provider} webhook signature`,
+        err instanceof Error ? err.message : err,
       );
+      return { httpStatus: 500, message: 'Signature could not be verified' };
+    }
+  }
 
-      // Update call history
-      if (callHistoryId) {
-        const updateData: any = {
-          status: callStatus === 'no-answer' ? 'missed' : callStatus,
-          endedAt: payload.end_time ? new Date(payload.end_time) : new Date(),
-          durationSeconds,
-          endReason: endReason as any,
-          billedDuration: durationSeconds > 0 ? `${Math.ceil(durationSeconds / 60)}m` : '0m',
-          metadata: {
-            telnyxCallControlId: callControlId,
-            telnyxHangupCause: hangupCause,
-            telnyxHangupSource: hangupSource,
-          },
-        };
-
-        // Add summary for missed/no-answer calls
-        if (callStatus === 'no-answer') {
-          updateData.shortSummary = 'Call not answered';
-          updateData.summary = 'The call was not answered by the recipient. The phone rang but no one picked up. Consider retrying at a different time.';
-        } else if (callStatus === 'failed') {
-          updateData.shortSummary = `Call failed: ${endReason}`;
-          updateData.summary = `The call could not be completed. Reason: ${endReason}. Please check the phone number and try again.`;
-        }
+  /**
+   * Claim and process a stored event, recording the outcome on it
+   * An event that is already processed (or being processed by another request) is left alone
+   */
+  private async processStoredEvent(
+    event: WebhookEvent,
+  ): Promise<{ status: WebhookEventStatus; error?: string }> {
+    const eventId = event._id.toString();
+    const claimed = await this.webhookEventService.claim(eventId);
+    if (!claimed) {
+      return { status: event.status };
+    }
 
-        await this.callHistoryService.update(callHistoryId, updateData);
-        this.logger.log(`Updated call history ${callHistoryId} via Telnyx webhook`);
-      }
+    try {
+      await this.dispatchEvent(claimed);
+      await this.webhookEventService.markProcessed(eventId);
+      return { status: 'processed' };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.logger.error(
+        `Error processing ${claimed.provider} webhook event ${claimed.eventKey}: ${error}`,
+      );
+      await this.webhookEventService
+        .markFailed(eventId, error)
+        .catch((markErr) => {
+          this.logger.error(
+            `Could not mark webhook event ${eventId} failed: ${markErr instanceof Error ? markErr.message : String(markErr)}`,
+          );
+        });
+      return { status: 'failed', error };
+    }
+  }
 
-      // Update campaign contact status and trigger next call
-      if (campaignId && contactId) {
-        await this.campaignService.updateContactCallStatus(
+  private async dispatchEvent(event: WebhookEvent): Promise<void> {
+    const { campaignId, contactId, callHistoryId } = (event.query ||
+      {}) as Record<string, string>;
+
+    switch (event.provider) {
+      case 'talkrix':
+        return this.processTalkrixEvent(event.body as TalkrixWebhookPayload);
+      case 'twilio':
+        if (event.eventType === 'amd') {
+          return this.processTwilioAmd(
+            event.body as TwilioAmdCallback,
+            campaignId,
+            contactId,
+            callHistoryId,
+          );
+        }
+        return this.processTwilioStatus(
+          event.body as TwilioStatusCallback,
           campaignId,
           contactId,
-          callStatus,
-          {
-            callDuration: durationSeconds,
-            callNotes: `Telnyx: ${hangupCause || 'completed'}`,
-          }
+          callHistoryId,
         );
-        this.logger.log(`Updated campaign ${campaignId} contact ${contactId} status to ${callStatus}`);
+      case 'plivo':
+        if (event.eventType === 'amd') {
+          return this.processPlivoAmd(
+            event.body as PlivoCallback,
+            campaignId,
+            contactId,
+            callHistoryId,
+          );
+        }
+        return this.processPlivoStatus(
+          event.body as PlivoCallback,
+          campaignId,
+          contactId,
+          callHistoryId,
+        );
+      case 'telnyx':
+        return this.processTelnyxEvent(
+          event.body as TelnyxWebhookPayload,
+          campaignId,
+          contactId,
+          callHistoryId,
+        );
+    }
+  }
+
+  /**
+   * List the current user's webhook events (failed ones by default)
+   * GET /webhook/events?status=failed&provider=twilio&page=1&limit=20
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Get('events')
+  async findEvents(
+    @Req() req: AuthenticatedRequest,
+    @Query('status') status?: WebhookEventStatus,
+    @Query('provider') provider?: WebhookProvider,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      this.logger.warn('userId missing in get webhook events');
+      return this.responseHelper.error('Unauthorized', 401);
+    }
 
-        // Trigger scheduler to process next call
-        await this.campaignSchedulerService.onCallEnded(campaignId, callControlId);
+    try {
+      const result = await this.webhookEventService.findByUserId(
+        userInfo.userId,
+        {
+          status,
+          provider,
+          page: page ? parseInt(page, 10) : 1,
+          limit: limit ? parseInt(limit, 10) : 20,
+        },
+      );
+      return this.responseHelper.success(result, 'Webhook events fetched');
+    } catch (err) {
+      this.logger.error('Error fetching webhook events', err);
+      return this.responseHelper.error(
+        'Failed to fetch webhook events',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  /**
+   * Replay several stored webhook events
+   * POST /webhook/events/replay
+   * Body: { ids: string[] }
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post('events/replay')
+  @HttpCode(200)
+  async replayEvents(
+    @Req() req: AuthenticatedRequest,
+    @Body() body: { ids: string[] },
+  ) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      this.logger.warn('userId missing in replay webhook events');
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    const ids = Array.isArray(body?.ids) ? body.ids : [];
+    if (ids.length === 0) {
+      return this.responseHelper.error('ids must be a non-empty array', 400);
+    }
+    if (ids.length > MAX_REPLAY_BATCH) {
+      return this.responseHelper.error(
+        `At most ${MAX_REPLAY_BATCH} events can be replayed at once`,
+        400,
+      );
+    }
+
+    try {
+      const results: {
+        id: string;
+        status: WebhookEventStatus | 'not_found' | 'not_replayable';
+        error?: string;
+      }[] = [];
+      // One at a time - events for the same call must apply in order
+      for (const id of ids) {
+        const event = await this.webhookEventService.findOneForUser(
+          id,
+          userInfo.userId,
+        );
+        if (!event) {
+          results.push({ id, status: 'not_found' });
+          continue;
+        }
+        if (event.replayable === false) {
+          results.push({ id, status: 'not_replayable' });
+          continue;
+        }
+        results.push({ id, ...(await this.processStoredEvent(event)) });
       }
+
+      const failed = results.filter((r) => r.status === 'failed').length;
+      this.logger.log(
+        `Replayed ${ids.length} webhook events for user ${userInfo.userId} (${failed} failed)`,
+      );
+      return this.responseHelper.success(
+        { results },
+        'Webhook events replayed',
+      );
     } catch (err) {
-      this.logger.error(`Error handling Telnyx call ended: ${err?.message}`);
+      this.logger.error('Error replaying webhook events', err);
+      return this.responseHelper.error(
+        'Failed to replay webhook events',
+        500,
+        err instanceof Error ? err.message : err,
+      );
     }
   }
+
+  /**
+   * Replay one stored webhook event
+   * POST /webhook/events/:id/replay
+   */
+  @UseGuards(AuthOrApiKeyGuard)
+  @Post('events/:id/replay')
+  @HttpCode(200)
+  async replayEvent(@Req() req: AuthenticatedRequest, @Param('id') id: string) {
+    const userInfo = this.getUserFromRequest(req);
+    if (!userInfo || !userInfo.userId) {
+      this.logger.warn('userId missing in replay webhook event');
+      return this.responseHelper.error('Unauthorized', 401);
+    }
+
+    try {
+      const event = await this.webhookEventService.findOneForUser(
+        id,
+        userInfo.userId,
+      );
+      if (!event) {
+        return this.responseHelper.error('Webhook event not found', 404);
+      }
+      if (event.replayable === false) {
+        return this.responseHelper.error(
+          'Inbound and answer requests cannot be replayed',
+          400,
+        );
+      }
+
+      const result = await this.processStoredEvent(event);
+      if (result.status === 'failed') {
+        return this.responseHelper.error(
+          'Webhook event failed again',
+          500,
+          result.error,
+        );
+      }
+      return this.responseHelper.success(
+        { id, ...result },
+        'Webhook event replayed',
+      );
+    } catch (err) {
+      this.logger.error('Error replaying webhook event', err);
+      return this.responseHelper.error(
+        'Failed to replay webhook event',
+        500,
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // ==========================================
+  // INBOUND CALL WEBHOOKS
+  // ==========================================
+  // Point the voice URL of a number assigned to an inbound campaign at the endpoint for its provider.
+  // The dialled number selects the campaign; unassigned numbers hear INBOUND_FALLBACK_MESSAGE.
+  // Signatures are checked with the credentials of the campaign owner of the dialled number.
+
+  /**
+   * Twilio incoming call (number Voice URL)
+   * POST /webhook/twilio/inbound
+   */
+  @Post('twilio/inbound')
+  @HttpCode(200)
+  async handleTwilioInbound(
+    @Body() payload: TwilioStatusCallback,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `Received Twilio inbound call: CallSid=${payload?.CallSid}, From=${payload?.From}, To=${payload?.To}`,
+    );
+    res.type('text/xml');
+
+    const auth = await this.authenticate('twilio', req, {
+      inboundNumber: payload?.To,
+    });
+    if (auth.httpStatus !== 200) {
+      return res
+        .status(auth.httpStatus)
+        .send(
+          '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>',
+        );
+    }
+
+    const markup = await this.inboundCallService.answer('twilio', {
+      to: payload?.To || '',
+      from: payload?.From || '',
+      providerCallId: payload?.CallSid,
+    });
+    res.send(markup);
+    return this.logAnsweredRequest(req, 'twilio', {
+      eventKey: payload?.CallSid ? `inbound:${payload.CallSid}` : undefined,
+      eventType: 'inbound',
+      userId: auth.userId,
+    });
+  }
+
+  /**
+   * Plivo incoming call (application Answer URL)
+   * POST /webhook/plivo/inbound
+   */
+  @Post('plivo/inbound')
+  @HttpCode(200)
+  async handlePlivoInbound(
+    @Body() payload: PlivoCallback,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `Received Plivo inbound call: CallUUID=${payload?.CallUUID}, From=${payload?.From}, To=${payload?.To}`,
+    );
+    res.type('application/xml');
+
+    const auth = await this.authenticate('plivo', req, {
+      inboundNumber: payload?.To,
+    });
+    if (auth.httpStatus !== 200) {
+      return res
+        .status(auth.httpStatus)
+        .send(
+          '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>',
+        );
+    }
+
+    const markup = await this.inboundCallService.answer('plivo', {
+      to: payload?.To || '',
+      from: payload?.From || '',
+      providerCallId: payload?.CallUUID,
+    });
+    res.send(markup);
+    return this.logAnsweredRequest(req, 'plivo', {
+      eventKey: payload?.CallUUID ? `inbound:${payload.CallUUID}` : undefined,
+      eventType: 'inbound',
+      userId: auth.userId,
+    });
+  }
+
+  /**
+   * Telnyx incoming call (TeXML application Voice URL)
+   * POST /webhook/telnyx/inbound
+   */
+  @Post('telnyx/inbound')
+  @HttpCode(200)
+  async handleTelnyxInbound(
+    @Body() payload: { CallSid?: string; From?: string; To?: string },
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `Received Telnyx inbound call: CallSid=${payload?.CallSid}, From=${payload?.From}, To=${payload?.To}`,
+    );
+    res.type('text/xml');
+
+    const auth = await this.authenticate('telnyx', req, {
+      inboundNumber: payload?.To,
+    });
+    if (auth.httpStatus !== 200) {
+      return res
+        .status(auth.httpStatus)
+        .send(
+          '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>',
+        );
+    }
+
+    const markup = await this.inboundCallService.answer('telnyx', {
+      to: payload?.To || '',
+      from: payload?.From || '',
+      providerCallId: payload?.CallSid,
+    });
+    res.send(markup);
+    return this.logAnsweredRequest(req, 'telnyx', {
+      eventKey: payload?.CallSid ? `inbound:${payload.CallSid}` : undefined,
+      eventType: 'inbound',
+      userId: auth.userId,
+    });
+  }
 }
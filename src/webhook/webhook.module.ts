@@ -1,11 +1,49 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { WebhookController } from './webhook.controller';
+import { InboundCallService } from './inbound-call.service';
+import { AnsweringMachineService } from './answering-machine.service';
+import { WebhookEventService } from './webhook-event.service';
+import { WebhookAuthService } from './webhook-auth.service';
+import { WebhookEvent, WebhookEventSchema } from './webhook-event.schema';
 import { CallHistoryModule } from '../call-history/call-history.module';
 import { CampaignModule } from '../campaign/campaign.module';
+import { CallLifecycleModule } from '../call-lifecycle/call-lifecycle.module';
+import { AgentModule } from '../agent/agent.module';
+import { UserModule } from '../user/user.module';
 import { SharedModule } from '../shared.module';
+import { CallConcurrencyModule } from '../call-concurrency/call-concurrency.module';
 
 @Module({
-  imports: [CallHistoryModule, CampaignModule, SharedModule],
+  imports: [
+    MongooseModule.forFeature([
+      { name: WebhookEvent.name, schema: WebhookEventSchema },
+    ]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get('JWT_SECRET'),
+        signOptions: { expiresIn: '1d' },
+      }),
+      inject: [ConfigService],
+    }),
+    CallHistoryModule,
+    forwardRef(() => CampaignModule),
+    forwardRef(() => CallLifecycleModule),
+    forwardRef(() => AgentModule),
+    UserModule,
+    SharedModule,
+    CallConcurrencyModule,
+  ],
   controllers: [WebhookController],
+  providers: [
+    InboundCallService,
+    AnsweringMachineService,
+    WebhookEventService,
+    WebhookAuthService,
+  ],
+  exports: [WebhookAuthService],
 })
 export class WebhookModule {}
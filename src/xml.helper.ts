@@ -0,0 +1,9 @@
+// Escape a value for use in XML text or attribute content (TwiML, Plivo XML, TeXML)
+export function escapeXml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}